@@ -0,0 +1,111 @@
+import type { SQL } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+
+/**
+ * 查询构建过程中的一次链式调用
+ */
+type QueryCall = {
+  method: string;
+  args: unknown[];
+};
+
+/**
+ * 一次数据库查询的记录
+ */
+export type FakeQuery = {
+  /** 查询类型 */
+  operation: 'select' | 'insert' | 'update' | 'delete';
+  /** 查询构建过程中的链式调用 */
+  calls: QueryCall[];
+};
+
+const dialect = new PgDialect();
+
+/**
+ * 创建测试用的数据库替身
+ *
+ * 查询按创建顺序依次返回预设的结果，未预设结果时返回空数组，预设的结果为 Error 时查询失败。
+ * 每次查询的链式调用都会被记录，便于断言查询条件与写入的数据。
+ *
+ * @returns 数据库替身与预设结果、查询记录的操作方法
+ */
+export const createFakeDb = () => {
+  const results: unknown[] = [];
+  const queries: FakeQuery[] = [];
+
+  const createQuery = (operation: FakeQuery['operation'], args: unknown[]) => {
+    const query: FakeQuery = {
+      operation,
+      calls: [{ method: operation, args }],
+    };
+    queries.push(query);
+    const result = results.length > 0 ? results.shift() : [];
+
+    const builder: unknown = new Proxy(
+      {},
+      {
+        get(_, property) {
+          if (property === 'then') {
+            const promise =
+              result instanceof Error
+                ? Promise.reject(result)
+                : Promise.resolve(result);
+            return promise.then.bind(promise);
+          }
+          return (...callArgs: unknown[]) => {
+            query.calls.push({ method: String(property), args: callArgs });
+            return builder;
+          };
+        },
+      },
+    );
+    return builder;
+  };
+
+  const db = {
+    select: (...args: unknown[]) => createQuery('select', args),
+    insert: (...args: unknown[]) => createQuery('insert', args),
+    update: (...args: unknown[]) => createQuery('update', args),
+    delete: (...args: unknown[]) => createQuery('delete', args),
+    $count: async () => (results.length > 0 ? results.shift() : 0),
+    transaction: async <T>(callback: (tx: unknown) => Promise<T>) =>
+      callback(db),
+  };
+
+  return {
+    db,
+    queries,
+    /**
+     * 按查询顺序追加预设结果
+     */
+    mockResults: (...values: unknown[]) => {
+      results.push(...values);
+    },
+    /**
+     * 清空预设结果与查询记录
+     */
+    reset: () => {
+      results.length = 0;
+      queries.length = 0;
+    },
+  };
+};
+
+/**
+ * 获取查询中某次链式调用的第一个参数
+ *
+ * @param query - 查询记录
+ * @param method - 链式调用的方法名，例如 where、set、values
+ * @returns 第一个参数，没有该调用时返回 undefined
+ */
+export const getQueryArg = (query: FakeQuery, method: string) =>
+  query.calls.find((call) => call.method === method)?.args[0];
+
+/**
+ * 将查询的 where 条件渲染为 SQL 语句与参数
+ *
+ * @param query - 查询记录
+ * @returns SQL 语句与参数
+ */
+export const renderWhere = (query: FakeQuery) =>
+  dialect.sqlToQuery(getQueryArg(query, 'where') as SQL);
@@ -0,0 +1,21 @@
+/**
+ * 创建向量存储模块的替身
+ *
+ * bun 的模块替身在同一次测试运行中共享，同一模块的替身需要导出相同的成员，
+ * 因此未覆盖的成员使用空实现占位。
+ *
+ * @param overrides - 需要覆盖的模块成员
+ * @returns 向量存储模块的替身
+ */
+export const createFakeVectorStoreModule = (
+  overrides: Record<string, unknown>,
+) => ({
+  vectorStore: {},
+  vectorStoreRetriver: () => ({}),
+  vectorStoreCollection: () => ({}),
+  annotationVectorStore: {},
+  annotationVectorStoreCollection: () => ({}),
+  userMemoryVectorStore: {},
+  userMemoryVectorStoreCollection: () => ({}),
+  ...overrides,
+});
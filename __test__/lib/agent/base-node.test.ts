@@ -0,0 +1,415 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  createLongTermMemoryRecallNode,
+  createPresetOperationNode,
+  createToolApprovalNode,
+  createToolsNode,
+  toolApprovalCondition,
+} from '@/lib/agent/base-node';
+import {
+  AgentState,
+  type AgentStateType,
+  type AgentThought,
+  QueueEvent,
+  createAgentConfig,
+} from '@/lib/agent/entity';
+import { withToolApproval } from '@/lib/agent/tool-approval';
+import { DATASET_RETRIEVAL_TOOL_NAME } from '@/lib/entity';
+import {
+  AIMessage,
+  HumanMessage,
+  type ToolMessage,
+  isToolMessage,
+} from '@langchain/core/messages';
+import { tool } from '@langchain/core/tools';
+import {
+  Command,
+  END,
+  MemorySaver,
+  START,
+  StateGraph,
+} from '@langchain/langgraph';
+import { z } from 'zod';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 创建延迟返回的测试工具，并记录同时执行的最大数量
+ */
+const createDelayTools = () => {
+  const stat = { running: 0, maxRunning: 0 };
+  const delayTool = tool(
+    async ({ ms }: { ms: number }) => {
+      stat.running++;
+      stat.maxRunning = Math.max(stat.maxRunning, stat.running);
+      await sleep(ms);
+      stat.running--;
+      return `done ${ms}`;
+    },
+    {
+      name: 'delay',
+      description: 'delay',
+      schema: z.object({ ms: z.number() }),
+    },
+  );
+  return { stat, tools: [delayTool] };
+};
+
+const createState = (delays: number[]) => {
+  const thoughts: AgentThought[] = [];
+  const state = {
+    taskId: 'task',
+    messages: [
+      new AIMessage({
+        content: '',
+        tool_calls: delays.map((ms, index) => ({
+          id: `call_${index}`,
+          name: 'delay',
+          args: { ms },
+          type: 'tool_call' as const,
+        })),
+      }),
+    ],
+    emit: (thought: AgentThought) => thoughts.push(thought),
+  } as unknown as AgentStateType;
+  return { state, thoughts };
+};
+
+/**
+ * 创建只包含一条用户消息的状态
+ */
+const createQueryState = (query: string) => {
+  const thoughts: AgentThought[] = [];
+  const state = {
+    taskId: 'task',
+    messages: [new HumanMessage(query)],
+    emit: (thought: AgentThought) => thoughts.push(thought),
+  } as unknown as AgentStateType;
+  return { state, thoughts };
+};
+
+describe('createPresetOperationNode', () => {
+  const annotationReplyRetriever = async (query: string) =>
+    query.includes('退款')
+      ? {
+          id: 'annotation',
+          question: '如何退款',
+          answer: '联系客服',
+          score: 0.95,
+        }
+      : null;
+
+  it('should reply with the annotation answer when an annotation is hit', async () => {
+    const { state, thoughts } = createQueryState('请问怎么退款');
+    const presetOperationNode = createPresetOperationNode(
+      createAgentConfig({ userId: 'user', annotationReplyRetriever }),
+    );
+
+    const result = await presetOperationNode(state);
+
+    expect(result.messages?.[0].content).toBe('联系客服');
+    expect(thoughts.map((thought) => thought.event)).toEqual([
+      QueueEvent.ANNOTATION_REPLY,
+      QueueEvent.AGENT_MESSAGE,
+      QueueEvent.AGENT_END,
+    ]);
+    expect(JSON.parse(thoughts[0].observation)).toEqual({
+      annotationId: 'annotation',
+      question: '如何退款',
+      score: 0.95,
+    });
+    expect(thoughts[1].answer).toBe('联系客服');
+  });
+
+  it('should continue when no annotation is hit or the retriever fails', async () => {
+    const { state, thoughts } = createQueryState('今天天气怎么样');
+    const missNode = createPresetOperationNode(
+      createAgentConfig({ userId: 'user', annotationReplyRetriever }),
+    );
+    const failNode = createPresetOperationNode(
+      createAgentConfig({
+        userId: 'user',
+        annotationReplyRetriever: async () => {
+          throw new Error('vector store unavailable');
+        },
+      }),
+    );
+
+    expect((await missNode(state)).messages).toEqual([]);
+    expect((await failNode(state)).messages).toEqual([]);
+    expect(thoughts).toHaveLength(0);
+  });
+});
+
+describe('createLongTermMemoryRecallNode', () => {
+  it('should combine the conversation memory with recalled user memories', async () => {
+    const { state, thoughts } = createQueryState('推荐一家餐厅');
+    state.history = [];
+    state.longTermMemory = '用户正在计划旅行';
+    const recallNode = createLongTermMemoryRecallNode(
+      createAgentConfig({
+        userId: 'user',
+        enableLongTermMemory: true,
+        userMemoryRetriever: async () => [
+          { id: 'memory', content: '用户是素食者', score: 0.8 },
+        ],
+      }),
+    );
+
+    const result = await recallNode(state);
+
+    expect(thoughts[0].event).toBe(QueueEvent.LONG_TERM_MEMORY_RECALL);
+    expect(thoughts[0].observation).toBe('用户正在计划旅行\n- 用户是素食者');
+    expect(result.messages?.[0].text).toContain('- 用户是素食者');
+  });
+
+  it('should keep the conversation memory when recalling user memories fails', async () => {
+    const { state, thoughts } = createQueryState('推荐一家餐厅');
+    state.history = [];
+    state.longTermMemory = '用户正在计划旅行';
+    const recallNode = createLongTermMemoryRecallNode(
+      createAgentConfig({
+        userId: 'user',
+        enableLongTermMemory: true,
+        userMemoryRetriever: async () => {
+          throw new Error('vector store unavailable');
+        },
+      }),
+    );
+
+    await recallNode(state);
+
+    expect(thoughts[0].observation).toBe('用户正在计划旅行');
+  });
+});
+
+describe('createToolsNode', () => {
+  it('should run tool calls concurrently and keep messages in order', async () => {
+    const { stat, tools } = createDelayTools();
+    const { state, thoughts } = createState([60, 10, 30]);
+    const toolsNode = createToolsNode(
+      createAgentConfig({ userId: 'user', tools, toolConcurrency: 2 }),
+    );
+
+    const result = await toolsNode(state);
+    const messages = result.messages as ToolMessage[];
+
+    expect(stat.maxRunning).toBe(2);
+    expect(messages.map((message) => message.tool_call_id)).toEqual([
+      'call_0',
+      'call_1',
+      'call_2',
+    ]);
+    expect(messages[1].content).toBe(JSON.stringify('done 10'));
+    expect(thoughts.map((thought) => thought.toolInput)).toEqual([
+      { ms: 10 },
+      { ms: 30 },
+      { ms: 60 },
+    ]);
+    expect(thoughts[0].latency).toBeLessThan(thoughts[2].latency);
+  });
+
+  it('should return an error result when a tool call times out', async () => {
+    const { tools } = createDelayTools();
+    const { state } = createState([200, 10]);
+    const toolsNode = createToolsNode(
+      createAgentConfig({ userId: 'user', tools, toolTimeout: 50 }),
+    );
+
+    const result = await toolsNode(state);
+    const messages = result.messages as ToolMessage[];
+
+    expect(messages[0].content).toContain('工具执行超时');
+    expect(messages[1].content).toBe(JSON.stringify('done 10'));
+  });
+
+  it('should pass only retrieval content to the model and emit citations', async () => {
+    const citation = {
+      id: '0b9f3c2a',
+      datasetId: 'dataset',
+      documentId: 'document',
+      documentName: '员工手册.pdf',
+      segmentId: 'segment',
+      position: 1,
+      snippet: '年假',
+      score: 0.8,
+    };
+    const datasetTool = tool(
+      async () => ({ content: '检索内容', citations: [citation] }),
+      {
+        name: DATASET_RETRIEVAL_TOOL_NAME,
+        description: 'dataset',
+        schema: z.object({ query: z.string() }),
+      },
+    );
+    const thoughts: AgentThought[] = [];
+    const state = {
+      taskId: 'task',
+      messages: [
+        new AIMessage({
+          content: '',
+          tool_calls: [
+            {
+              id: 'call_0',
+              name: DATASET_RETRIEVAL_TOOL_NAME,
+              args: { query: '年假' },
+              type: 'tool_call' as const,
+            },
+          ],
+        }),
+      ],
+      emit: (thought: AgentThought) => thoughts.push(thought),
+    } as unknown as AgentStateType;
+    const toolsNode = createToolsNode(
+      createAgentConfig({ userId: 'user', tools: [datasetTool] }),
+    );
+
+    const result = await toolsNode(state);
+    const messages = result.messages as ToolMessage[];
+
+    expect(messages[0].content).toBe(JSON.stringify('检索内容'));
+    expect(thoughts[0].event).toBe(QueueEvent.DATASET_RETRIEVAL);
+    expect(thoughts[0].citations).toEqual([citation]);
+  });
+});
+
+describe('createToolApprovalNode', () => {
+  /**
+   * 创建只包含工具审批节点的状态图
+   */
+  const createApprovalGraph = () => {
+    const { tools } = createDelayTools();
+    withToolApproval(tools[0], 'POST');
+    const agentConfig = createAgentConfig({
+      userId: 'user',
+      tools,
+      enableToolApproval: true,
+    });
+    return new StateGraph(AgentState)
+      .addNode('tool_approval', createToolApprovalNode(agentConfig))
+      .addEdge(START, 'tool_approval')
+      .addEdge('tool_approval', END)
+      .compile({ checkpointer: new MemorySaver() });
+  };
+
+  it('should interrupt and apply edited args after approval', async () => {
+    const graph = createApprovalGraph();
+    const config = { configurable: { thread_id: 'approve' } };
+    const { state } = createState([10]);
+
+    await graph.invoke(state, config);
+    const snapshot = await graph.getState(config);
+    const interrupts = snapshot.tasks.flatMap((task) => task.interrupts);
+    expect(interrupts[0].value).toEqual({
+      toolCalls: [{ id: 'call_0', name: 'delay', args: { ms: 10 } }],
+    });
+
+    const result = await graph.invoke(
+      new Command({
+        resume: {
+          approved: true,
+          toolCalls: [{ id: 'call_0', args: { ms: 20 } }],
+          reason: '',
+        },
+      }),
+      config,
+    );
+    const message = result.messages[result.messages.length - 1] as AIMessage;
+    expect(result.messages).toHaveLength(1);
+    expect(message.tool_calls?.[0].args).toEqual({ ms: 20 });
+  });
+
+  it('should reply tool messages when rejected', async () => {
+    const graph = createApprovalGraph();
+    const config = { configurable: { thread_id: 'reject' } };
+    const { state, thoughts } = createState([10]);
+
+    await graph.invoke(state, config);
+    const result = await graph.invoke(
+      new Command({
+        resume: { approved: false, toolCalls: [], reason: '不允许' },
+        update: { emit: state.emit },
+      }),
+      config,
+    );
+    const message = result.messages[result.messages.length - 1];
+    expect(isToolMessage(message)).toBe(true);
+    expect(message.content).toBe('用户拒绝执行该工具调用，原因: 不允许');
+    expect(thoughts).toHaveLength(1);
+  });
+
+  it('should only reject tool calls that require approval', async () => {
+    const { tools } = createDelayTools();
+    const echoTool = tool(async ({ text }: { text: string }) => text, {
+      name: 'echo',
+      description: 'echo',
+      schema: z.object({ text: z.string() }),
+    });
+    withToolApproval(tools[0], 'POST');
+    withToolApproval(echoTool, 'GET');
+    const agentConfig = createAgentConfig({
+      userId: 'user',
+      tools: [...tools, echoTool],
+      enableToolApproval: true,
+    });
+    const graph = new StateGraph(AgentState)
+      .addNode('tool_approval', createToolApprovalNode(agentConfig))
+      .addNode('tools', createToolsNode(agentConfig))
+      .addEdge(START, 'tool_approval')
+      .addConditionalEdges('tool_approval', toolApprovalCondition, {
+        llm: END,
+        tools: 'tools',
+      })
+      .addEdge('tools', END)
+      .compile({ checkpointer: new MemorySaver() });
+    const config = { configurable: { thread_id: 'partial' } };
+    const thoughts: AgentThought[] = [];
+    const emit = (thought: AgentThought) => thoughts.push(thought);
+    const state = {
+      taskId: 'task',
+      messages: [
+        new AIMessage({
+          content: '',
+          tool_calls: [
+            {
+              id: 'call_0',
+              name: 'delay',
+              args: { ms: 10 },
+              type: 'tool_call',
+            },
+            {
+              id: 'call_1',
+              name: 'echo',
+              args: { text: 'hi' },
+              type: 'tool_call',
+            },
+          ],
+        }),
+      ],
+      emit,
+    } as unknown as AgentStateType;
+
+    await graph.invoke(state, config);
+    const snapshot = await graph.getState(config);
+    const interrupts = snapshot.tasks.flatMap((task) => task.interrupts);
+    expect(interrupts[0].value).toEqual({
+      toolCalls: [{ id: 'call_0', name: 'delay', args: { ms: 10 } }],
+    });
+
+    const result = await graph.invoke(
+      new Command({
+        resume: { approved: false, toolCalls: [], reason: '' },
+        update: { emit },
+      }),
+      config,
+    );
+    const toolMessages = result.messages.slice(1) as ToolMessage[];
+    expect(toolMessages.map((message) => message.tool_call_id)).toEqual([
+      'call_0',
+      'call_1',
+    ]);
+    expect(toolMessages[0].content).toBe('用户拒绝执行该工具调用');
+    expect(toolMessages[1].content).toBe(JSON.stringify('hi'));
+    expect(thoughts.map((thought) => thought.tool)).toEqual(['delay', 'echo']);
+  });
+});
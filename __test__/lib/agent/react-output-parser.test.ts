@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  extractFinalAnswer,
+  parseReActOutput,
+} from '@/lib/agent/react-output-parser';
+
+describe('parseReActOutput', () => {
+  it('should parse actions and repair fenced action input', () => {
+    const output = parseReActOutput(
+      'Thought: 需要查询天气\nAction: gaode_weather\nAction Input: ```json\n{"city": "北京"}\n```\nObservation: 晴',
+    );
+    expect(output).toEqual({
+      type: 'action',
+      thought: '需要查询天气',
+      tool: 'gaode_weather',
+      toolInput: { city: '北京' },
+    });
+  });
+
+  it('should parse final answers', () => {
+    const output = parseReActOutput(
+      'Thought: 我已经知道最终答案了\nFinal Answer: 北京今天晴。',
+    );
+    expect(output).toEqual({
+      type: 'final',
+      thought: '我已经知道最终答案了',
+      answer: '北京今天晴。',
+    });
+    expect(extractFinalAnswer('Thought: ...\nFinal Answer:')).toBe('');
+    expect(extractFinalAnswer('Thought: ...')).toBeNull();
+  });
+
+  it('should treat output without markers as final answer', () => {
+    expect(parseReActOutput('你好，有什么可以帮你？')).toEqual({
+      type: 'final',
+      thought: '',
+      answer: '你好，有什么可以帮你？',
+    });
+  });
+
+  it('should report invalid action input', () => {
+    const output = parseReActOutput(
+      'Thought: 查询\nAction: gaode_weather\nAction Input: city=北京',
+    );
+    expect(output.type).toBe('invalid');
+  });
+});
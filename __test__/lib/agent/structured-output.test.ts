@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  createStructuredOutputSchema,
+  formatStructuredOutputError,
+} from '@/lib/agent/structured-output';
+
+const schema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: '标题' },
+    score: { type: 'integer' },
+    level: { type: 'string', enum: ['low', 'high'] },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['title', 'score'],
+};
+
+describe('createStructuredOutputSchema', () => {
+  it('should accept output matching the json schema', () => {
+    const zodSchema = createStructuredOutputSchema(schema);
+    const result = zodSchema.safeParse({
+      title: 'LLM',
+      score: 3,
+      level: 'high',
+      tags: ['ai'],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('should allow optional properties to be omitted', () => {
+    const zodSchema = createStructuredOutputSchema(schema);
+    expect(zodSchema.safeParse({ title: 'LLM', score: 3 }).success).toBe(true);
+  });
+
+  it('should reject output violating the json schema', () => {
+    const zodSchema = createStructuredOutputSchema(schema);
+    const result = zodSchema.safeParse({ title: 'LLM', score: 1.5 });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(formatStructuredOutputError(result.error)).toContain('$.score');
+    }
+  });
+
+  it('should reject enum values not in the json schema', () => {
+    const zodSchema = createStructuredOutputSchema(schema);
+    expect(
+      zodSchema.safeParse({ title: 'LLM', score: 3, level: 'medium' }).success,
+    ).toBe(false);
+  });
+
+  it('should throw when root type is not object', () => {
+    expect(() => createStructuredOutputSchema({ type: 'string' })).toThrow();
+  });
+
+  it('should throw on unsupported types', () => {
+    expect(() =>
+      createStructuredOutputSchema({
+        type: 'object',
+        properties: { value: { type: 'date' } },
+      }),
+    ).toThrow('$.value');
+  });
+
+  it('should throw when array items are missing', () => {
+    expect(() =>
+      createStructuredOutputSchema({
+        type: 'object',
+        properties: { tags: { type: 'array' } },
+      }),
+    ).toThrow('$.tags');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  invokeToolWithPolicy,
+  parseToolPolicyConfig,
+  withToolPolicy,
+} from '@/lib/agent/tool-policy';
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+
+/**
+ * 创建前几次调用失败的测试工具
+ */
+const createFlakyTool = (failCount: number) => {
+  const stat = { calls: 0 };
+  const flakyTool = tool(
+    async () => {
+      stat.calls++;
+      if (stat.calls <= failCount) {
+        throw new Error(`failed ${stat.calls}`);
+      }
+      return 'ok';
+    },
+    {
+      name: 'flaky',
+      description: 'flaky',
+      schema: z.object({}),
+    },
+  );
+  return { stat, flakyTool };
+};
+
+describe('invokeToolWithPolicy', () => {
+  it('should retry idempotent tools', async () => {
+    const { stat, flakyTool } = createFlakyTool(2);
+    withToolPolicy(
+      flakyTool,
+      { maxRetries: 2, retryDelay: 0 },
+      {
+        idempotent: true,
+      },
+    );
+
+    const { result, outcome } = await invokeToolWithPolicy(flakyTool, {}, 1000);
+
+    expect(result).toBe('ok');
+    expect(stat.calls).toBe(3);
+    expect(outcome.status).toBe('success');
+    expect(outcome.attempts).toBe(3);
+  });
+
+  it('should not retry non-idempotent tools', async () => {
+    const { stat, flakyTool } = createFlakyTool(1);
+    withToolPolicy(
+      flakyTool,
+      { maxRetries: 2, retryDelay: 0 },
+      {
+        idempotent: false,
+      },
+    );
+
+    const { result, outcome } = await invokeToolWithPolicy(flakyTool, {}, 1000);
+
+    expect(result).toBe('工具执行出错: failed 1');
+    expect(stat.calls).toBe(1);
+    expect(outcome).toMatchObject({ status: 'error', attempts: 1 });
+  });
+
+  it('should report timeouts from the tool policy', async () => {
+    const slowTool = tool(
+      () => new Promise((resolve) => setTimeout(() => resolve('ok'), 200)),
+      { name: 'slow', description: 'slow', schema: z.object({}) },
+    );
+    withToolPolicy(slowTool, parseToolPolicyConfig({ timeout: 1 }), {
+      idempotent: false,
+    });
+
+    const { outcome } = await invokeToolWithPolicy(slowTool, {}, 50);
+
+    expect(outcome.timeout).toBe(1000);
+    expect(outcome.status).toBe('success');
+  });
+});
+
+describe('parseToolPolicyConfig', () => {
+  it('should ignore invalid policy config', () => {
+    expect(parseToolPolicyConfig({ timeout: 1000 })).toBeUndefined();
+    expect(parseToolPolicyConfig(undefined)).toBeUndefined();
+    expect(parseToolPolicyConfig({ maxRetries: 1 })).toEqual({ maxRetries: 1 });
+  });
+});
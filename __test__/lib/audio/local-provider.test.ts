@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  createSilentWav,
+  localAudioProvider,
+} from '@/lib/audio/local-provider';
+
+/**
+ * 读取音频数据流的全部内容
+ */
+const readStream = async (stream: ReadableStream<Uint8Array>) => {
+  const chunks: Uint8Array[] = [];
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+};
+
+describe('createSilentWav', () => {
+  it('should create a valid wav header', () => {
+    const wav = Buffer.from(createSilentWav(1000));
+    expect(wav.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(wav.toString('ascii', 8, 12)).toBe('WAVE');
+    expect(wav.readUInt32LE(40)).toBe(8000);
+    expect(wav.length).toBe(44 + 8000);
+  });
+});
+
+describe('localAudioProvider', () => {
+  it('should transcribe audio to deterministic text', async () => {
+    const file = new File([new Uint8Array(16)], 'question.mp3');
+    const text = await localAudioProvider.transcribe(file);
+    expect(text).toBe('question.mp3 (16 bytes)');
+  });
+
+  it('should stream wav audio proportional to text length', async () => {
+    const { contentType, stream } = await localAudioProvider.speech(
+      'a'.repeat(200),
+      'echo',
+    );
+    expect(contentType).toBe('audio/wav');
+
+    const audio = await readStream(stream);
+    expect(audio.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(audio.length).toBe(44 + 8000 * 10);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'bun:test';
-import { extractKeywords } from '@/lib/keyword';
+import { extractKeywords, tokenizeForSearch } from '@/lib/keyword';
 
 describe('extractKeywords', () => {
   it('should extract keywords from text', () => {
@@ -8,3 +8,14 @@ describe('extractKeywords', () => {
     expect(keywords).toEqual(['Hello', 'world']);
   });
 });
+
+describe('tokenizeForSearch', () => {
+  it('should split long words for partial matching', () => {
+    const terms = tokenizeForSearch('向量数据库的 Weaviate！');
+    expect(terms).toContain('数据库');
+    expect(terms).toContain('数据');
+    expect(terms).toContain('weaviate');
+    expect(terms).not.toContain('的');
+    expect(terms).not.toContain('！');
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'bun:test';
+import { BadRequestException } from '@/exceptions';
+import { getLanguageModelOrThrow, normalizeModelParameters } from '@/lib/llm';
+
+describe('getLanguageModelOrThrow', () => {
+  it('should return registered provider and model', () => {
+    const { provider, model } = getLanguageModelOrThrow({
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+    });
+    expect(provider.name).toBe('openai');
+    expect(model.model).toBe('gpt-4o-mini');
+  });
+
+  it('should reject unknown provider and model pairs', () => {
+    expect(() =>
+      getLanguageModelOrThrow({ provider: 'openai', model: 'deepseek-chat' }),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      getLanguageModelOrThrow({ provider: 'unknown', model: 'gpt-4o-mini' }),
+    ).toThrow(BadRequestException);
+  });
+});
+
+describe('normalizeModelParameters', () => {
+  it('should fill defaults, drop unsupported and clamp parameters', () => {
+    const { model } = getLanguageModelOrThrow({
+      provider: 'deepseek',
+      model: 'deepseek-reasoner',
+    });
+    const parameters = normalizeModelParameters(model, {
+      temperature: 0.5,
+      maxTokens: 100000.5,
+    });
+    expect(parameters).toEqual({ maxTokens: 65536 });
+    expect(normalizeModelParameters(model)).toEqual({ maxTokens: 32768 });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'bun:test';
+import { getLanguageModelOrThrow } from '@/lib/llm';
+import { calculateHistoryTokenLimit } from '@/lib/memory/token-budget';
+
+describe('calculateHistoryTokenLimit', () => {
+  const { model } = getLanguageModelOrThrow({
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+  });
+
+  it('should use half of the available context when not configured', () => {
+    expect(calculateHistoryTokenLimit(model, { maxTokens: 8000 })).toBe(
+      (model.contextWindow - 8000) / 2,
+    );
+  });
+
+  it('should use configured limit within the available context', () => {
+    expect(calculateHistoryTokenLimit(model, { maxTokens: 8000 }, 2000)).toBe(
+      2000,
+    );
+    expect(
+      calculateHistoryTokenLimit(
+        model,
+        { maxTokens: 8000 },
+        Number.MAX_SAFE_INTEGER,
+      ),
+    ).toBe(model.contextWindow - 8000);
+  });
+});
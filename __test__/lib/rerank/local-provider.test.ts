@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'bun:test';
+import { rerankDocuments } from '@/lib/rerank';
+import { localRerankProvider, tokenize } from '@/lib/rerank/local-provider';
+import { Document } from '@langchain/core/documents';
+
+describe('tokenize', () => {
+  it('should split latin words and cjk characters', () => {
+    const tokens = tokenize('LLM 应用开发');
+    expect(tokens.get('llm')).toBe(2);
+    expect(tokens.get('应')).toBe(1);
+    expect(tokens.get('应用')).toBe(2);
+    expect(tokens.has('用开')).toBe(true);
+  });
+});
+
+describe('localRerankProvider', () => {
+  it('should rank documents by lexical overlap', async () => {
+    const results = await localRerankProvider.rerank(
+      '向量数据库',
+      ['今天天气很好', '常见的向量数据库有 Weaviate', '数据库索引'],
+      3,
+    );
+    expect(results.map((result) => result.index)).toEqual([1, 2, 0]);
+    expect(results[0].score).toBe(1);
+    expect(results[2].score).toBe(0);
+  });
+
+  it('should keep retrieval order for equal scores and limit to topN', async () => {
+    const results = await localRerankProvider.rerank('agent', ['a', 'b'], 1);
+    expect(results).toEqual([{ index: 0, score: 0 }]);
+  });
+});
+
+describe('rerankDocuments', () => {
+  it('should replace scores and filter by threshold', async () => {
+    const docs = [
+      new Document({ pageContent: '今天天气很好', metadata: { score: 0.9 } }),
+      new Document({ pageContent: '向量数据库', metadata: { score: 0.5 } }),
+    ];
+    const reranked = await rerankDocuments(
+      '向量数据库',
+      docs,
+      2,
+      0.5,
+      localRerankProvider,
+    );
+    expect(reranked).toHaveLength(1);
+    expect(reranked[0].pageContent).toBe('向量数据库');
+    expect(reranked[0].metadata.score).toBe(1);
+  });
+});
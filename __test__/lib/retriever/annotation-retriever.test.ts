@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, mock } from 'bun:test';
+import { Document } from '@langchain/core/documents';
+import { createFakeDb, getQueryArg } from '../../helpers/fake-db';
+import { createFakeVectorStoreModule } from '../../helpers/fake-vector-store';
+
+const fakeDb = createFakeDb();
+const similaritySearchWithScore = mock(
+  async (): Promise<[Document, number][]> => [],
+);
+
+mock.module('@/lib/db', () => ({ db: fakeDb.db }));
+mock.module('@/lib/vector-store', () =>
+  createFakeVectorStoreModule({
+    annotationVectorStore: { similaritySearchWithScore },
+    annotationVectorStoreCollection: () => ({
+      filter: {
+        byProperty: (property: string) => ({
+          equal: (value: string) => ({ property, value }),
+        }),
+      },
+    }),
+  }),
+);
+
+const { createAnnotationReplyRetriever } = await import(
+  '@/lib/retriever/annotation-retriever'
+);
+
+const annotationRecord = {
+  id: 'annotation-id',
+  question: '如何重置密码？',
+  answer: '在设置页面点击重置密码。',
+};
+
+/**
+ * 模拟向量存储返回一个相似度为 score 的标注
+ */
+const mockSearchResult = (score: number) => {
+  similaritySearchWithScore.mockImplementation(async () => [
+    [
+      new Document({
+        pageContent: annotationRecord.question,
+        metadata: { annotation_id: annotationRecord.id },
+      }),
+      score,
+    ],
+  ]);
+};
+
+describe('createAnnotationReplyRetriever', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    similaritySearchWithScore.mockClear();
+  });
+
+  it('should search only the annotations of the app', async () => {
+    similaritySearchWithScore.mockImplementation(async () => []);
+
+    const reply = await createAnnotationReplyRetriever('app-id', 0.8)('问题');
+
+    expect(reply).toBeNull();
+    expect(similaritySearchWithScore).toHaveBeenCalledWith('问题', 1, {
+      property: 'app_id',
+      value: 'app-id',
+    });
+  });
+
+  it('should not reply when the score is below the threshold', async () => {
+    mockSearchResult(0.79);
+
+    const reply = await createAnnotationReplyRetriever('app-id', 0.8)('问题');
+
+    expect(reply).toBeNull();
+    expect(fakeDb.queries).toHaveLength(0);
+  });
+
+  it('should reply and count the hit when the score reaches the threshold', async () => {
+    mockSearchResult(0.8);
+    fakeDb.mockResults([annotationRecord]);
+
+    const reply = await createAnnotationReplyRetriever('app-id', 0.8)('问题');
+
+    expect(reply).toEqual({ ...annotationRecord, score: 0.8 });
+    expect(fakeDb.queries[0].operation).toBe('update');
+    expect(getQueryArg(fakeDb.queries[0], 'set')).toHaveProperty('hitCount');
+  });
+
+  it('should not reply with annotations deleted from the database', async () => {
+    mockSearchResult(0.95);
+    fakeDb.mockResults([]);
+
+    const reply = await createAnnotationReplyRetriever('app-id', 0.8)('问题');
+
+    expect(reply).toBeNull();
+  });
+});
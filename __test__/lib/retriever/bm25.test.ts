@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'bun:test';
+import { type TermPosting, scoreBm25 } from '@/lib/retriever/bm25';
+
+const stats = { segmentCount: 10, avgTermCount: 20 };
+
+describe('scoreBm25', () => {
+  it('should score segments matching more query terms higher', () => {
+    const postings: TermPosting[] = [
+      { segmentId: 'a', term: '向量', frequency: 1, termCount: 20 },
+      { segmentId: 'a', term: '数据库', frequency: 1, termCount: 20 },
+      { segmentId: 'b', term: '数据库', frequency: 1, termCount: 20 },
+    ];
+    const scores = scoreBm25(postings, ['向量', '数据库'], stats);
+    expect(scores.get('a')).toBeCloseTo(1);
+    expect(scores.get('b') ?? 0).toBeGreaterThan(0);
+    expect(scores.get('b') ?? 0).toBeLessThan(scores.get('a') ?? 0);
+  });
+
+  it('should weight rare terms higher than common terms', () => {
+    const postings: TermPosting[] = [
+      { segmentId: 'a', term: 'rare', frequency: 1, termCount: 20 },
+      ...['b', 'c', 'd', 'e'].map((segmentId) => ({
+        segmentId,
+        term: 'common',
+        frequency: 1,
+        termCount: 20,
+      })),
+    ];
+    const scores = scoreBm25(postings, ['rare', 'common'], stats);
+    expect(scores.get('a') ?? 0).toBeGreaterThan(scores.get('b') ?? 0);
+  });
+
+  it('should penalize long segments', () => {
+    const postings: TermPosting[] = [
+      { segmentId: 'short', term: 'agent', frequency: 2, termCount: 10 },
+      { segmentId: 'long', term: 'agent', frequency: 2, termCount: 80 },
+    ];
+    const scores = scoreBm25(postings, ['agent'], stats);
+    expect(scores.get('short') ?? 0).toBeGreaterThan(scores.get('long') ?? 0);
+  });
+
+  it('should use corpus document frequencies for filtered postings', () => {
+    const postings: TermPosting[] = [
+      { segmentId: 'a', term: 'common', frequency: 1, termCount: 20 },
+    ];
+    const filtered = scoreBm25(postings, ['rare', 'common'], {
+      ...stats,
+      documentFrequencies: new Map([
+        ['rare', 1],
+        ['common', 8],
+      ]),
+    });
+    const unfiltered = scoreBm25(postings, ['rare', 'common'], stats);
+    expect(filtered.get('a') ?? 0).toBeLessThan(unfiltered.get('a') ?? 0);
+  });
+
+  it('should return empty scores when nothing matches', () => {
+    expect(scoreBm25([], ['agent'], stats).size).toBe(0);
+  });
+});
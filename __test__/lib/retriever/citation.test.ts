@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'bun:test';
+import type { Citation } from '@/lib/entity';
+import {
+  createCitation,
+  formatCitationContent,
+  mergeCitations,
+  toCitationId,
+} from '@/lib/retriever/citation';
+import { Document } from '@langchain/core/documents';
+
+const segmentId = '0b9f3c2a-7d41-4e5b-9a6c-1f2e3d4c5b6a';
+
+const doc = new Document({
+  pageContent: '年假天数按照工龄计算，\n  工龄满一年可享受5天年假。',
+  metadata: {
+    dataset_id: 'dataset-1',
+    document_id: 'document-1',
+    segment_id: segmentId,
+    score: 0.8,
+  },
+});
+
+describe('toCitationId', () => {
+  it('should derive a stable id from the segment id', () => {
+    expect(toCitationId(segmentId)).toBe('0b9f3c2a');
+    expect(toCitationId(segmentId)).toBe(toCitationId(segmentId));
+  });
+});
+
+describe('createCitation', () => {
+  it('should build citation from document metadata', () => {
+    expect(
+      createCitation(doc, { documentName: '员工手册.pdf', position: 3 }),
+    ).toEqual({
+      id: '0b9f3c2a',
+      datasetId: 'dataset-1',
+      documentId: 'document-1',
+      documentName: '员工手册.pdf',
+      segmentId,
+      position: 3,
+      snippet: '年假天数按照工龄计算， 工龄满一年可享受5天年假。',
+      score: 0.8,
+    });
+  });
+
+  it('should truncate long snippets', () => {
+    const longDoc = new Document({
+      pageContent: '字'.repeat(300),
+      metadata: doc.metadata,
+    });
+    const citation = createCitation(longDoc, {
+      documentName: '员工手册.pdf',
+      position: 1,
+    });
+    expect(citation.snippet).toBe(`${'字'.repeat(200)}...`);
+  });
+});
+
+describe('formatCitationContent', () => {
+  it('should label each segment with its citation id', () => {
+    const citation = createCitation(doc, {
+      documentName: '员工手册.pdf',
+      position: 3,
+    });
+    const content = formatCitationContent([doc], [citation]);
+    expect(content).toContain('引用编号="[^0b9f3c2a]"');
+    expect(content).toContain('来源文档="员工手册.pdf"');
+    expect(content).toContain(doc.pageContent);
+  });
+});
+
+describe('mergeCitations', () => {
+  it('should dedupe by segment and keep the highest score', () => {
+    const base: Citation = createCitation(doc, {
+      documentName: '员工手册.pdf',
+      position: 3,
+    });
+    const other: Citation = { ...base, id: 'ffffffff', segmentId: 'other' };
+    const merged = mergeCitations([
+      { ...base, score: 0.5 },
+      other,
+      { ...base, score: 0.9 },
+    ]);
+    expect(merged.map((citation) => citation.segmentId)).toEqual([
+      segmentId,
+      'other',
+    ]);
+    expect(merged[0].score).toBe(0.9);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'bun:test';
+import { FusionMethod } from '@/lib/entity';
+import {
+  HybridRetriever,
+  fuseDocuments,
+} from '@/lib/retriever/hybrid-retriever';
+import { Document } from '@langchain/core/documents';
+import { BaseRetriever } from '@langchain/core/retrievers';
+
+/**
+ * 创建测试用的文档片段
+ */
+const createDoc = (segmentId: string, score: number) =>
+  new Document({
+    pageContent: `content-${segmentId}`,
+    metadata: { segment_id: segmentId, score },
+  });
+
+/**
+ * 返回固定结果的检索器
+ */
+class StaticRetriever extends BaseRetriever {
+  lc_namespace = ['test', 'retrievers'];
+
+  constructor(private docs: Document[]) {
+    super();
+  }
+
+  async _getRelevantDocuments() {
+    return this.docs;
+  }
+}
+
+const semanticDocs = [createDoc('a', 0.9), createDoc('b', 0.6)];
+const keywordDocs = [createDoc('c', 1), createDoc('b', 0.5)];
+
+describe('fuseDocuments', () => {
+  it('should sum weighted scores of the same segment', () => {
+    const docs = fuseDocuments(
+      [semanticDocs, keywordDocs],
+      [0.5, 0.5],
+      FusionMethod.WEIGHTED_SCORE,
+    );
+    expect(docs.map((doc) => doc.metadata.segment_id)).toEqual(['b', 'c', 'a']);
+    expect(docs[0].metadata.score).toBeCloseTo(0.55);
+  });
+
+  it('should respect configured weights', () => {
+    const docs = fuseDocuments(
+      [semanticDocs, keywordDocs],
+      [1, 0],
+      FusionMethod.WEIGHTED_SCORE,
+    );
+    expect(docs[0].metadata.segment_id).toBe('a');
+    expect(docs[0].metadata.score).toBeCloseTo(0.9);
+  });
+
+  it('should normalize reciprocal rank fusion scores', () => {
+    const docs = fuseDocuments(
+      [semanticDocs, keywordDocs],
+      [0.5, 0.5],
+      FusionMethod.RRF,
+    );
+    expect(docs[0].metadata.segment_id).toBe('b');
+    expect(
+      fuseDocuments([semanticDocs, semanticDocs], [1, 1], FusionMethod.RRF)[0]
+        .metadata.score,
+    ).toBeCloseTo(1);
+  });
+});
+
+describe('HybridRetriever', () => {
+  it('should return top k fused documents', async () => {
+    const retriever = new HybridRetriever(
+      [new StaticRetriever(semanticDocs), new StaticRetriever(keywordDocs)],
+      [0.5, 0.5],
+      FusionMethod.RRF,
+      2,
+    );
+    const docs = await retriever.invoke('query');
+    expect(docs).toHaveLength(2);
+  });
+});
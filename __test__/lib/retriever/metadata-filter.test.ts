@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'bun:test';
+import { MetadataFilterOperator } from '@/lib/entity';
+import {
+  toSqlDatasetFilter,
+  toSqlFilter,
+  toVectorStoreMetadata,
+} from '@/lib/retriever/metadata-filter';
+import { PgDialect } from 'drizzle-orm/pg-core';
+
+const dialect = new PgDialect();
+
+describe('toVectorStoreMetadata', () => {
+  it('should prefix properties and convert date to timestamp', () => {
+    expect(
+      toVectorStoreMetadata({
+        tags: ['政策'],
+        source: '制度库',
+        department: '人力资源部',
+        date: '2024-03-01',
+      }),
+    ).toEqual({
+      meta_tags: ['政策'],
+      meta_source: '制度库',
+      meta_department: '人力资源部',
+      meta_date: Date.parse('2024-03-01'),
+    });
+  });
+
+  it('should fill defaults for missing metadata', () => {
+    expect(toVectorStoreMetadata({})).toEqual({
+      meta_tags: [],
+      meta_source: '',
+      meta_department: '',
+      meta_date: 0,
+    });
+  });
+});
+
+describe('toSqlFilter', () => {
+  it('should return undefined without conditions', () => {
+    expect(toSqlFilter(null)).toBeUndefined();
+    expect(toSqlFilter({ logic: 'and', conditions: [] })).toBeUndefined();
+  });
+
+  it('should combine conditions with the configured logic', () => {
+    const filter = toSqlFilter({
+      logic: 'or',
+      conditions: [
+        {
+          field: 'tags',
+          operator: MetadataFilterOperator.CONTAINS_ANY,
+          value: ['政策', '人事'],
+        },
+        {
+          field: 'date',
+          operator: MetadataFilterOperator.GTE,
+          value: '2024-01-01',
+        },
+      ],
+    });
+    if (!filter) {
+      throw new Error('filter should not be undefined');
+    }
+
+    const query = dialect.sqlToQuery(filter);
+    expect(query.sql).toContain('?| array[');
+    expect(query.sql).toContain(' or ');
+    expect(query.sql).toContain('>=');
+    expect(query.params).toEqual([
+      'tags',
+      '政策',
+      '人事',
+      'date',
+      '2024-01-01',
+    ]);
+  });
+});
+
+describe('toSqlDatasetFilter', () => {
+  it('should return undefined when no dataset has conditions', () => {
+    expect(
+      toSqlDatasetFilter(['dataset-1', 'dataset-2'], { 'dataset-1': null }),
+    ).toBeUndefined();
+  });
+
+  it('should only apply each dataset filter to its own dataset', () => {
+    const filter = toSqlDatasetFilter(['dataset-1', 'dataset-2'], {
+      'dataset-1': {
+        logic: 'and',
+        conditions: [
+          {
+            field: 'source',
+            operator: MetadataFilterOperator.EQ,
+            value: '制度库',
+          },
+        ],
+      },
+    });
+    if (!filter) {
+      throw new Error('filter should not be undefined');
+    }
+
+    const query = dialect.sqlToQuery(filter);
+    expect(query.sql).toContain(' or ');
+    expect(query.sql).toContain('"document"."dataset_id" in');
+    expect(query.params).toEqual([
+      'dataset-1',
+      'source',
+      '制度库',
+      'dataset-2',
+    ]);
+  });
+});
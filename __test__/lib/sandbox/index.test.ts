@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'bun:test';
+import { runInSandbox } from '@/lib/sandbox';
+
+describe('runInSandbox', () => {
+  it('should run main with params and collect logs', async () => {
+    const { result, logs } = await runInSandbox(
+      `function main(params) {
+        console.log('sum', params.a + params.b);
+        return { sum: params.a + params.b };
+      }`,
+      { a: 1, b: 2 },
+    );
+    expect(result).toEqual({ sum: 3 });
+    expect(logs).toEqual(['sum 3']);
+  });
+
+  it('should not expose node globals', async () => {
+    const { result } = await runInSandbox(
+      `function main() {
+        return [typeof require, typeof process, typeof fetch];
+      }`,
+      {},
+    );
+    expect(result).toEqual(['undefined', 'undefined', 'undefined']);
+  });
+
+  it('should not leak host functions into the context', async () => {
+    const { result } = await runInSandbox(
+      `function main() {
+        const attempts = [
+          () => console.log.constructor('return process')(),
+          () => globalThis.constructor.constructor('return process')(),
+          () => Object.getPrototypeOf(globalThis).constructor.constructor('return process')(),
+        ];
+        return attempts.map((attempt) => {
+          try {
+            const leaked = attempt();
+            return typeof leaked === 'undefined' ? 'undefined' : 'leaked';
+          } catch {
+            return 'blocked';
+          }
+        });
+      }`,
+      {},
+    );
+    expect(result).toEqual(['blocked', 'blocked', 'blocked']);
+  });
+
+  it('should not pass host functions to returned thenables', async () => {
+    await expect(
+      runInSandbox(
+        `function main() {
+          return {
+            then(resolve) {
+              resolve(resolve.constructor('return process')().getBuiltinModule('fs').readFileSync('/etc/hostname', 'utf8'));
+            },
+          };
+        }`,
+        {},
+      ),
+    ).rejects.toThrow();
+  });
+
+  it('should support async main', async () => {
+    const { result, logs } = await runInSandbox(
+      `async function main(params) {
+        const value = await Promise.resolve(params.a);
+        console.log('value', value);
+        return { value };
+      }`,
+      { a: 1 },
+    );
+    expect(result).toEqual({ value: 1 });
+    expect(logs).toEqual(['value 1']);
+  });
+
+  it('should reject code exceeding the timeout', async () => {
+    await expect(
+      runInSandbox('function main() { while (true) {} }', {}, { timeout: 200 }),
+    ).rejects.toThrow();
+  });
+
+  it('should reject promise loops exceeding the timeout', async () => {
+    await expect(
+      runInSandbox(
+        'async function main() { while (true) { await null; } }',
+        {},
+        { timeout: 200 },
+      ),
+    ).rejects.toThrow();
+  });
+
+  it('should reject errors thrown by user code', async () => {
+    await expect(
+      runInSandbox("function main() { throw new Error('boom'); }", {}),
+    ).rejects.toThrow('boom');
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'bun:test';
+import { BadRequestException } from '@/exceptions';
+import { validateWorkflowGraph } from '@/lib/workflow/validator';
+
+const START_ID = '00000000-0000-4000-8000-000000000001';
+const TEMPLATE_ID = '00000000-0000-4000-8000-000000000002';
+const END_ID = '00000000-0000-4000-8000-000000000003';
+
+const startNode = {
+  id: START_ID,
+  type: 'start',
+  title: '开始',
+  inputs: [{ name: 'query', type: 'string' }],
+};
+
+const templateNode = {
+  id: TEMPLATE_ID,
+  type: 'template_transform',
+  title: '模板转换',
+  template: 'Q: {{query}}',
+  inputs: [
+    {
+      name: 'query',
+      type: 'string',
+      value: {
+        type: 'ref',
+        content: { refNodeId: START_ID, refVarName: 'query' },
+      },
+    },
+  ],
+};
+
+const endNode = {
+  id: END_ID,
+  type: 'end',
+  title: '结束',
+  outputs: [
+    {
+      name: 'answer',
+      type: 'string',
+      value: {
+        type: 'ref',
+        content: { refNodeId: TEMPLATE_ID, refVarName: 'output' },
+      },
+    },
+  ],
+};
+
+const edge = (index: number, source: string, target: string) => ({
+  id: `00000000-0000-4000-9000-00000000000${index}`,
+  source,
+  target,
+});
+
+describe('validateWorkflowGraph', () => {
+  it('should accept a linear graph and fill defaults', () => {
+    const graph = validateWorkflowGraph({
+      nodes: [startNode, templateNode, endNode],
+      edges: [edge(1, START_ID, TEMPLATE_ID), edge(2, TEMPLATE_ID, END_ID)],
+    });
+    expect(graph.nodes).toHaveLength(3);
+    expect(graph.nodes[0].position).toEqual({ x: 0, y: 0 });
+  });
+
+  it('should reject graphs without end node', () => {
+    expect(() =>
+      validateWorkflowGraph({
+        nodes: [startNode, templateNode],
+        edges: [edge(1, START_ID, TEMPLATE_ID)],
+      }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('should reject cycles', () => {
+    expect(() =>
+      validateWorkflowGraph({
+        nodes: [startNode, templateNode, endNode],
+        edges: [
+          edge(1, START_ID, TEMPLATE_ID),
+          edge(2, TEMPLATE_ID, END_ID),
+          edge(3, TEMPLATE_ID, TEMPLATE_ID),
+        ],
+      }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('should reject references to non-ancestor nodes', () => {
+    expect(() =>
+      validateWorkflowGraph({
+        nodes: [
+          startNode,
+          {
+            ...templateNode,
+            inputs: [
+              {
+                name: 'answer',
+                type: 'string',
+                value: {
+                  type: 'ref',
+                  content: { refNodeId: END_ID, refVarName: 'answer' },
+                },
+              },
+            ],
+          },
+          endNode,
+        ],
+        edges: [edge(1, START_ID, TEMPLATE_ID), edge(2, TEMPLATE_ID, END_ID)],
+      }),
+    ).toThrow('只能引用前置节点的输出');
+  });
+});
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, mock } from 'bun:test';
+import { NotFoundException } from '@/exceptions';
+import { createFakeDb, renderWhere } from '../../helpers/fake-db';
+
+const fakeDb = createFakeDb();
+
+mock.module('@/lib/db', () => ({ db: fakeDb.db }));
+mock.module('@/services/user-memory', () => ({
+  extractUserMemories: async () => {},
+}));
+
+const { getNewMessageParentId } = await import('@/services/conversation');
+
+describe('getNewMessageParentId', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+  });
+
+  it('should share the parent of the regenerated or edited message', async () => {
+    fakeDb.mockResults([{ parentId: 'parent-message-id' }]);
+
+    const parentId = await getNewMessageParentId(
+      'conversation-id',
+      'original-message-id',
+    );
+
+    expect(parentId).toBe('parent-message-id');
+    const { sql, params } = renderWhere(fakeDb.queries[0]);
+    expect(params).toEqual(['original-message-id', 'conversation-id', false]);
+    expect(sql).toContain('"is_deleted"');
+  });
+
+  it('should keep the first message of a conversation as a root', async () => {
+    fakeDb.mockResults([{ parentId: null }]);
+
+    expect(
+      await getNewMessageParentId('conversation-id', 'first-message-id'),
+    ).toBeNull();
+  });
+
+  it('should reject messages outside the conversation', async () => {
+    fakeDb.mockResults([]);
+
+    await expect(
+      getNewMessageParentId('conversation-id', 'other-message-id'),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('should append new messages after the latest undeleted message', async () => {
+    fakeDb.mockResults([{ id: 'latest-message-id' }]);
+
+    const parentId = await getNewMessageParentId('conversation-id', undefined);
+
+    expect(parentId).toBe('latest-message-id');
+    const { sql, params } = renderWhere(fakeDb.queries[0]);
+    expect(params).toEqual(['conversation-id', false]);
+    expect(sql).toContain('"is_deleted"');
+  });
+
+  it('should start a new tree in an empty conversation', async () => {
+    fakeDb.mockResults([]);
+
+    expect(
+      await getNewMessageParentId('conversation-id', undefined),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, mock } from 'bun:test';
+import { NotFoundException } from '@/exceptions';
+import { createFakeDb, getQueryArg, renderWhere } from '../../helpers/fake-db';
+
+const fakeDb = createFakeDb();
+
+mock.module('@/lib/db', () => ({ db: fakeDb.db }));
+mock.module('@/services/app', () => ({ getAppOrThrow: async () => ({}) }));
+
+const {
+  deleteEndUserConversation,
+  updateEndUserConversationIsPinned,
+  updateEndUserConversationName,
+} = await import('@/services/openapi/conversation-service');
+
+const endUserRecord = { id: 'end-user-id', appId: 'app-id', userId: 'user-id' };
+
+/**
+ * 会话管理操作，依次为重命名、置顶与删除
+ */
+const operations = [
+  {
+    name: 'rename',
+    run: () =>
+      updateEndUserConversationName(
+        'user-id',
+        'end-user-id',
+        'conversation-id',
+        '新的会话名称',
+      ),
+    values: { name: '新的会话名称' },
+  },
+  {
+    name: 'pin',
+    run: () =>
+      updateEndUserConversationIsPinned(
+        'user-id',
+        'end-user-id',
+        'conversation-id',
+        true,
+      ),
+    values: { isPinned: true },
+  },
+  {
+    name: 'delete',
+    run: () =>
+      deleteEndUserConversation('user-id', 'end-user-id', 'conversation-id'),
+    values: { isDeleted: true },
+  },
+];
+
+describe('end user conversation management', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+  });
+
+  for (const operation of operations) {
+    it(`should ${operation.name} conversations owned by the end user`, async () => {
+      fakeDb.mockResults([endUserRecord], [{ id: 'conversation-id' }]);
+
+      await operation.run();
+
+      const [endUserQuery, conversationQuery, updateQuery] = fakeDb.queries;
+      expect(renderWhere(endUserQuery).params).toEqual([
+        'end-user-id',
+        'user-id',
+      ]);
+      // 会话必须属于终端用户所在的应用且由该终端用户创建，已删除的会话不能再操作
+      expect(renderWhere(conversationQuery).params).toEqual(
+        expect.arrayContaining([
+          'conversation-id',
+          'app-id',
+          'end-user-id',
+          false,
+        ]),
+      );
+      expect(updateQuery.operation).toBe('update');
+      expect(getQueryArg(updateQuery, 'set')).toEqual(operation.values);
+    });
+
+    it(`should not ${operation.name} conversations of other end users`, async () => {
+      fakeDb.mockResults([endUserRecord], []);
+
+      await expect(operation.run()).rejects.toThrow('会话不存在');
+      expect(
+        fakeDb.queries.filter((query) => query.operation === 'update'),
+      ).toHaveLength(0);
+    });
+
+    it(`should not ${operation.name} conversations for end users of other accounts`, async () => {
+      fakeDb.mockResults([]);
+
+      await expect(operation.run()).rejects.toThrow(NotFoundException);
+      expect(fakeDb.queries).toHaveLength(1);
+    });
+  }
+});
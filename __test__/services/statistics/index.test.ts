@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, mock } from 'bun:test';
+import { NotFoundException } from '@/exceptions';
+import { getAppStatisticsReqSchema } from '@/schemas/app-schema';
+import { createFakeDb, renderWhere } from '../../helpers/fake-db';
+
+const fakeDb = createFakeDb();
+const getAppOrThrow = mock(async () => ({}));
+
+mock.module('@/lib/db', () => ({ db: fakeDb.db }));
+mock.module('@/services/app', () => ({ getAppOrThrow }));
+
+const { getAppStatistics } = await import('@/services/statistics');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * 创建消息统计结果
+ */
+const messageMetrics = (values: Record<string, number> = {}) => ({
+  messageCount: 0,
+  activeEndUserCount: 0,
+  conversationCount: 0,
+  avgLatency: 0,
+  errorCount: 0,
+  stopCount: 0,
+  timeoutCount: 0,
+  ...values,
+});
+
+describe('getAppStatistics', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    getAppOrThrow.mockImplementation(async () => ({}));
+  });
+
+  it('should aggregate overview and compare with the previous period', async () => {
+    const startAt = Date.UTC(2024, 0, 1);
+    const endAt = Date.UTC(2024, 0, 3);
+    fakeDb.mockResults(
+      // 当前周期
+      [
+        messageMetrics({
+          messageCount: 10,
+          activeEndUserCount: 3,
+          conversationCount: 5,
+          avgLatency: 1.5,
+          errorCount: 1,
+        }),
+      ],
+      [{ tokenCount: 1000, totalPrice: 0.5 }],
+      // 上一周期
+      [messageMetrics({ messageCount: 5, conversationCount: 5 })],
+      [{ tokenCount: 0, totalPrice: 0 }],
+      // 每日统计
+      [{ date: startAt / DAY, ...messageMetrics({ messageCount: 4 }) }],
+      [{ date: startAt / DAY, tokenCount: 300, totalPrice: 0.1 }],
+    );
+
+    const result = await getAppStatistics('app-id', 'user-id', {
+      startAt,
+      endAt,
+    });
+
+    expect(result.overview).toMatchObject({
+      messageCount: 10,
+      avgInteractionCount: 2,
+      tokenCount: 1000,
+      errorRate: 0.1,
+      stopRate: 0,
+    });
+    expect(result.previousOverview.avgInteractionCount).toBe(1);
+    expect(result.deltas).toMatchObject({
+      messageCount: 1,
+      conversationCount: 0,
+      avgInteractionCount: 1,
+      tokenCount: 1,
+      errorRate: 1,
+      stopRate: 0,
+    });
+    expect(result.series.map((item) => item.date)).toEqual([
+      '2024-01-01',
+      '2024-01-02',
+    ]);
+    expect(result.series[0]).toMatchObject({
+      messageCount: 4,
+      tokenCount: 300,
+    });
+    expect(result.series[1]).toMatchObject({ messageCount: 0, tokenCount: 0 });
+  });
+
+  it('should use a previous period of the same length', async () => {
+    const startAt = Date.UTC(2024, 0, 8);
+    const endAt = Date.UTC(2024, 0, 15);
+
+    await getAppStatistics('app-id', 'user-id', { startAt, endAt });
+
+    // 依次为当前周期、上一周期与每日统计的消息和 token 查询
+    expect(fakeDb.queries).toHaveLength(6);
+    const { params } = renderWhere(fakeDb.queries[2]);
+    expect(params).toContain(new Date(Date.UTC(2024, 0, 1)).toISOString());
+    expect(params).toContain(new Date(startAt).toISOString());
+  });
+
+  it('should reject apps that do not belong to the user', async () => {
+    getAppOrThrow.mockImplementation(async () => {
+      throw new NotFoundException('应用不存在');
+    });
+
+    await expect(
+      getAppStatistics('app-id', 'user-id', { startAt: null, endAt: 1 }),
+    ).rejects.toThrow(NotFoundException);
+    expect(fakeDb.queries).toHaveLength(0);
+  });
+});
+
+describe('getAppStatisticsReqSchema', () => {
+  it('should default endAt to now before validating the range', () => {
+    const result = getAppStatisticsReqSchema.safeParse({
+      startAt: Date.now() + DAY,
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should treat 0 as a valid timestamp', () => {
+    expect(
+      getAppStatisticsReqSchema.safeParse({ startAt: DAY, endAt: 0 }).success,
+    ).toBe(false);
+    expect(
+      getAppStatisticsReqSchema.safeParse({ startAt: 0, endAt: DAY }).data,
+    ).toEqual({ startAt: 0, endAt: DAY });
+  });
+
+  it('should reject ranges longer than 90 days', () => {
+    expect(
+      getAppStatisticsReqSchema.safeParse({ startAt: 0, endAt: 91 * DAY })
+        .success,
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,191 @@
+import {
+  afterAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from 'bun:test';
+import { NotFoundException } from '@/exceptions';
+import { InvokeFrom } from '@/lib/entity';
+import * as llm from '@/lib/llm';
+import { createFakeDb, getQueryArg, renderWhere } from '../../helpers/fake-db';
+import { createFakeVectorStoreModule } from '../../helpers/fake-vector-store';
+
+const fakeDb = createFakeDb();
+let extractedFacts: string[] = [];
+const searchUserMemories = mock(
+  async (): Promise<{ id: string; content: string; score: number }[]> => [],
+);
+const addDocuments = mock(async () => {});
+const updateVector = mock(async () => {});
+const deleteVectorById = mock(async () => {});
+
+mock.module('@/lib/db', () => ({ db: fakeDb.db }));
+mock.module('@/lib/llm', () => ({
+  ...llm,
+  createDefaultChatModel: () => ({
+    withStructuredOutput: () => async () => ({ facts: extractedFacts }),
+  }),
+}));
+mock.module('@/lib/retriever/user-memory-retriever', () => ({
+  searchUserMemories,
+}));
+mock.module('@/lib/vector-store', () =>
+  createFakeVectorStoreModule({
+    userMemoryVectorStore: { addDocuments },
+    userMemoryVectorStoreCollection: () => ({
+      data: { update: updateVector, deleteById: deleteVectorById },
+    }),
+  }),
+);
+
+// 嵌入模型在创建时校验 API Key，向量计算由下方的替身完成，不会真正调用接口
+process.env.ALIBABA_API_KEY ??= 'test-api-key';
+const { cacheBackedEmbeddings } = await import('@/lib/embedding');
+const embedQuery = spyOn(cacheBackedEmbeddings, 'embedQuery');
+const { deleteUserMemory, extractUserMemories } = await import(
+  '@/services/user-memory'
+);
+
+afterAll(() => {
+  embedQuery.mockRestore();
+});
+
+/**
+ * 以调试会话的身份提取一轮对话中的用户记忆
+ */
+const extract = () =>
+  extractUserMemories(
+    'app-id',
+    InvokeFrom.DEBUGGER,
+    'account-id',
+    '问题',
+    '回答',
+  );
+
+describe('extractUserMemories', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    extractedFacts = [];
+    for (const fn of [
+      searchUserMemories,
+      embedQuery,
+      addDocuments,
+      updateVector,
+      deleteVectorById,
+    ]) {
+      fn.mockClear();
+    }
+    searchUserMemories.mockImplementation(async () => []);
+    embedQuery.mockImplementation(async () => [0.1, 0.2]);
+    addDocuments.mockImplementation(async () => {});
+  });
+
+  it('should save new facts to the database and the vector store', async () => {
+    extractedFacts = ['用户是一名前端工程师', '  '];
+    fakeDb.mockResults([{ id: 'memory-id' }]);
+
+    await extract();
+
+    // 空白事实被忽略
+    expect(searchUserMemories).toHaveBeenCalledTimes(1);
+    expect(searchUserMemories).toHaveBeenCalledWith(
+      'app-id',
+      'account-id',
+      '用户是一名前端工程师',
+      1,
+      0.9,
+    );
+    expect(fakeDb.queries).toHaveLength(1);
+    expect(getQueryArg(fakeDb.queries[0], 'values')).toEqual({
+      appId: 'app-id',
+      invokeFrom: InvokeFrom.DEBUGGER,
+      content: '用户是一名前端工程师',
+      createdBy: 'account-id',
+    });
+    expect(addDocuments).toHaveBeenCalledTimes(1);
+    expect(addDocuments.mock.calls[0]).toMatchObject([
+      [
+        {
+          pageContent: '用户是一名前端工程师',
+          metadata: {
+            app_id: 'app-id',
+            created_by: 'account-id',
+            memory_id: 'memory-id',
+          },
+        },
+      ],
+      { ids: ['memory-id'] },
+    ]);
+  });
+
+  it('should overwrite a similar memory instead of adding a duplicate', async () => {
+    extractedFacts = ['用户是一名后端工程师'];
+    searchUserMemories.mockImplementation(async () => [
+      { id: 'memory-id', content: '用户是一名前端工程师', score: 0.95 },
+    ]);
+
+    await extract();
+
+    expect(updateVector).toHaveBeenCalledWith({
+      id: 'memory-id',
+      properties: { text: '用户是一名后端工程师' },
+      vectors: [0.1, 0.2],
+    });
+    expect(addDocuments).not.toHaveBeenCalled();
+    expect(fakeDb.queries).toHaveLength(1);
+    expect(fakeDb.queries[0].operation).toBe('update');
+    expect(getQueryArg(fakeDb.queries[0], 'set')).toEqual({
+      content: '用户是一名后端工程师',
+    });
+    expect(renderWhere(fakeDb.queries[0]).params).toEqual(['memory-id']);
+  });
+
+  it('should remove the memory record when saving the vector fails', async () => {
+    extractedFacts = ['用户喜欢简洁的回答'];
+    fakeDb.mockResults([{ id: 'memory-id' }]);
+    addDocuments.mockImplementation(async () => {
+      throw new Error('weaviate unavailable');
+    });
+
+    await expect(extract()).rejects.toThrow('weaviate unavailable');
+    expect(fakeDb.queries.map((query) => query.operation)).toEqual([
+      'insert',
+      'delete',
+    ]);
+    expect(renderWhere(fakeDb.queries[1]).params).toEqual(['memory-id']);
+  });
+});
+
+describe('deleteUserMemory', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    deleteVectorById.mockClear();
+  });
+
+  it('should delete memories owned by the user', async () => {
+    fakeDb.mockResults([{ id: 'memory-id' }]);
+
+    await deleteUserMemory('app-id', 'account-id', 'memory-id');
+
+    expect(renderWhere(fakeDb.queries[0]).params).toEqual([
+      'memory-id',
+      'app-id',
+      'account-id',
+    ]);
+    expect(fakeDb.queries[1].operation).toBe('delete');
+    expect(deleteVectorById).toHaveBeenCalledWith('memory-id');
+  });
+
+  it('should not delete memories of other users', async () => {
+    fakeDb.mockResults([]);
+
+    await expect(
+      deleteUserMemory('app-id', 'other-account-id', 'memory-id'),
+    ).rejects.toThrow(NotFoundException);
+    expect(fakeDb.queries).toHaveLength(1);
+    expect(deleteVectorById).not.toHaveBeenCalled();
+  });
+});
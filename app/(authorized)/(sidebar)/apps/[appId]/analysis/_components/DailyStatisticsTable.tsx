@@ -0,0 +1,79 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { AppStatistics } from '@/services/statistics';
+
+/**
+ * DailyStatisticsTable 组件的属性接口
+ */
+type Props = {
+  /** 按天聚合的统计数据 */
+  series: AppStatistics['series'];
+};
+
+/**
+ * 每日统计表格组件
+ *
+ * 按日期展示应用的每日统计数据，消息数列使用条形图直观展示每日的使用趋势。
+ *
+ * @param props - 组件属性
+ * @param props.series - 按天聚合的统计数据
+ * @returns 每日统计表格
+ */
+const DailyStatisticsTable = ({ series }: Props) => {
+  const maxMessageCount = Math.max(
+    1,
+    ...series.map((item) => item.messageCount),
+  );
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>日期</TableHead>
+          <TableHead className="w-1/4">消息数</TableHead>
+          <TableHead>活跃用户</TableHead>
+          <TableHead>会话数</TableHead>
+          <TableHead>平均互动数</TableHead>
+          <TableHead>Token 消耗</TableHead>
+          <TableHead>费用</TableHead>
+          <TableHead>平均耗时</TableHead>
+          <TableHead>错误率</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {series.map((item) => (
+          <TableRow key={item.date}>
+            <TableCell>{item.date}</TableCell>
+            <TableCell>
+              {/* 消息数条形图 */}
+              <div className="flex items-center gap-2">
+                <div
+                  className="h-2 rounded-full bg-primary"
+                  style={{
+                    width: `${(item.messageCount / maxMessageCount) * 100}%`,
+                  }}
+                />
+                <span>{item.messageCount}</span>
+              </div>
+            </TableCell>
+            <TableCell>{item.activeEndUserCount}</TableCell>
+            <TableCell>{item.conversationCount}</TableCell>
+            <TableCell>{item.avgInteractionCount.toFixed(2)}</TableCell>
+            <TableCell>{item.tokenCount}</TableCell>
+            <TableCell>{item.totalPrice.toFixed(4)}</TableCell>
+            <TableCell>{Math.round(item.avgLatency)}ms</TableCell>
+            <TableCell>{(item.errorRate * 100).toFixed(1)}%</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default DailyStatisticsTable;
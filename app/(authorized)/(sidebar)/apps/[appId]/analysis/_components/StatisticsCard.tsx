@@ -0,0 +1,49 @@
+import { Card, CardContent, CardDescription } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+
+/**
+ * StatisticsCard 组件的属性接口
+ */
+type Props = {
+  /** 指标名称 */
+  title: string;
+  /** 格式化后的指标值 */
+  value: string;
+  /** 与上一周期相比的变化率，例如 0.25 表示增长 25% */
+  delta: number;
+  /** 指标下降是否代表向好，例如错误率、响应耗时 */
+  lowerIsBetter?: boolean;
+};
+
+/**
+ * 统计指标卡片组件
+ *
+ * 展示单个统计指标的当前值以及与上一周期的环比变化，
+ * 向好的变化使用绿色展示，变差的变化使用红色展示。
+ *
+ * @param props - 组件属性
+ * @returns 统计指标卡片
+ */
+const StatisticsCard = ({ title, value, delta, lowerIsBetter }: Props) => {
+  const isBetter = lowerIsBetter ? delta < 0 : delta > 0;
+
+  return (
+    <Card className="gap-2 py-4">
+      <CardContent className="px-4">
+        <CardDescription>{title}</CardDescription>
+        <div className="mt-2 text-2xl font-semibold">{value}</div>
+        <div
+          className={cn(
+            'mt-1 text-xs text-muted-foreground',
+            delta !== 0 && (isBetter ? 'text-green-600' : 'text-red-600'),
+          )}
+        >
+          较上一周期 {delta > 0 ? '+' : ''}
+          {(delta * 100).toFixed(1)}%
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StatisticsCard;
@@ -0,0 +1,170 @@
+/**
+ * 应用统计分析页面
+ *
+ * 展示已发布应用在选定时间范围内的使用情况，包括概览指标、环比变化和每日统计数据。
+ * 支持通过 days 查询参数切换统计最近 7 天、30 天或 90 天的数据。
+ */
+
+import { Button } from '@/components/ui/button';
+import { NotFoundException } from '@/exceptions';
+import { auth } from '@/lib/auth/auth';
+import { getAppStatistics } from '@/services/statistics';
+import { headers } from 'next/headers';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import TitleHeader from '../../../_components/header/TitleHeader';
+import { AppFillIcon } from '../../../_components/icons';
+import DailyStatisticsTable from './_components/DailyStatisticsTable';
+import StatisticsCard from './_components/StatisticsCard';
+
+/**
+ * 可选的统计天数
+ */
+const RANGE_DAYS = [7, 30, 90];
+
+/**
+ * 页面属性
+ */
+type Props = {
+  params: Promise<{ appId: string }>;
+  searchParams: Promise<{ days?: string }>;
+};
+
+/**
+ * 获取应用统计数据，应用不存在时展示 404 页面
+ */
+const loadAppStatistics = async (
+  appId: string,
+  userId: string,
+  days: number,
+) => {
+  const endAt = Date.now();
+  try {
+    return await getAppStatistics(appId, userId, {
+      startAt: endAt - days * 24 * 60 * 60 * 1000,
+      endAt,
+    });
+  } catch (error) {
+    if (error instanceof NotFoundException) {
+      notFound();
+    }
+    throw error;
+  }
+};
+
+/**
+ * 应用统计分析页面组件
+ *
+ * 包含以下功能：
+ * - 页面标题和统计时间范围切换
+ * - 概览指标卡片，展示与上一周期的环比变化
+ * - 每日统计数据表格
+ *
+ * @returns {JSX.Element} 应用统计分析页面
+ */
+const AppAnalysisPage = async ({ params, searchParams }: Props) => {
+  const [{ appId }, { days: daysParam }, session] = await Promise.all([
+    params,
+    searchParams,
+    auth.api.getSession({ headers: await headers() }),
+  ]);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  const days = RANGE_DAYS.includes(Number(daysParam))
+    ? Number(daysParam)
+    : RANGE_DAYS[0];
+  const { overview, deltas, series } = await loadAppStatistics(
+    appId,
+    session.user.id,
+    days,
+  );
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* 页面标题区域 - 包含标题、图标和时间范围切换 */}
+      <TitleHeader
+        title="统计分析"
+        icon={<AppFillIcon />}
+        className="mb-1 shrink-0 min-h-0"
+      >
+        <div className="flex gap-2">
+          {RANGE_DAYS.map((item) => (
+            <Link key={item} href={`?days=${item}`}>
+              <Button variant={item === days ? 'default' : 'outline'}>
+                最近 {item} 天
+              </Button>
+            </Link>
+          ))}
+        </div>
+      </TitleHeader>
+
+      <div className="grow min-h-0 overflow-y-auto px-3 pb-3">
+        {/* 概览指标区域 */}
+        <div className="grid grid-cols-5 gap-3 mb-4">
+          <StatisticsCard
+            title="全部消息数"
+            value={String(overview.messageCount)}
+            delta={deltas.messageCount}
+          />
+          <StatisticsCard
+            title="活跃用户数"
+            value={String(overview.activeEndUserCount)}
+            delta={deltas.activeEndUserCount}
+          />
+          <StatisticsCard
+            title="会话数"
+            value={String(overview.conversationCount)}
+            delta={deltas.conversationCount}
+          />
+          <StatisticsCard
+            title="平均会话互动数"
+            value={overview.avgInteractionCount.toFixed(2)}
+            delta={deltas.avgInteractionCount}
+          />
+          <StatisticsCard
+            title="Token 消耗"
+            value={String(overview.tokenCount)}
+            delta={deltas.tokenCount}
+          />
+          <StatisticsCard
+            title="费用消耗"
+            value={overview.totalPrice.toFixed(4)}
+            delta={deltas.totalPrice}
+          />
+          <StatisticsCard
+            title="平均响应耗时"
+            value={`${Math.round(overview.avgLatency)}ms`}
+            delta={deltas.avgLatency}
+            lowerIsBetter
+          />
+          <StatisticsCard
+            title="错误率"
+            value={`${(overview.errorRate * 100).toFixed(1)}%`}
+            delta={deltas.errorRate}
+            lowerIsBetter
+          />
+          <StatisticsCard
+            title="停止率"
+            value={`${(overview.stopRate * 100).toFixed(1)}%`}
+            delta={deltas.stopRate}
+            lowerIsBetter
+          />
+          <StatisticsCard
+            title="超时率"
+            value={`${(overview.timeoutRate * 100).toFixed(1)}%`}
+            delta={deltas.timeoutRate}
+            lowerIsBetter
+          />
+        </div>
+
+        {/* 每日统计区域 */}
+        <DailyStatisticsTable series={series} />
+      </div>
+    </div>
+  );
+};
+
+export default AppAnalysisPage;
@@ -0,0 +1,121 @@
+/**
+ * 应用标注详情 API 路由
+ *
+ * 该文件实现了单个应用标注的 RESTful API 接口，包括：
+ * 1. PATCH - 修改标注的问题和回答
+ * 2. DELETE - 删除标注
+ *
+ * 路由路径：/api/apps/[appId]/annotations/[annotationId]
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { updateAnnotationReqSchema } from '@/schemas/annotation-schema';
+import { deleteAnnotation, updateAnnotation } from '@/services/annotation';
+
+// 定义路由参数类型
+type Params = { params: Promise<{ appId: string; annotationId: string }> };
+
+/**
+ * @swagger
+ * /api/apps/{appId}/annotations/{annotationId}:
+ *   patch:
+ *     tags:
+ *       - Annotations
+ *     summary: 修改标注
+ *     description: 该接口用于修改标注的问题和回答，问题发生变化时会同步更新向量数据库中的问题向量。
+ *     parameters:
+ *       - in: path
+ *         name: appId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 应用 id
+ *       - in: path
+ *         name: annotationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 标注 id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - question
+ *               - answer
+ *             properties:
+ *               question:
+ *                 type: string
+ *                 maxLength: 2000
+ *                 description: 标注的问题
+ *               answer:
+ *                 type: string
+ *                 maxLength: 10000
+ *                 description: 标注的回答
+ *     responses:
+ *       200:
+ *         description: 更新标注成功
+ *       404:
+ *         description: 应用或标注不存在
+ */
+export async function PATCH(request: Request, { params }: Params) {
+  try {
+    const [{ userId }, { appId, annotationId }, body] = await Promise.all([
+      verifyApiKey(),
+      params,
+      request.json(),
+    ]);
+    const req = updateAnnotationReqSchema.parse(body);
+    await updateAnnotation(appId, userId, annotationId, req);
+    return successResult(null, 200, '更新标注成功');
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+/**
+ * @swagger
+ * /api/apps/{appId}/annotations/{annotationId}:
+ *   delete:
+ *     tags:
+ *       - Annotations
+ *     summary: 删除标注
+ *     description: 该接口用于删除标注，并同步删除向量数据库中的问题向量，删除后相似的提问不再命中该标注。
+ *     parameters:
+ *       - in: path
+ *         name: appId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 应用 id
+ *       - in: path
+ *         name: annotationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 标注 id
+ *     responses:
+ *       200:
+ *         description: 删除标注成功
+ *       404:
+ *         description: 应用或标注不存在
+ */
+export async function DELETE(_: Request, { params }: Params) {
+  try {
+    const [{ userId }, { appId, annotationId }] = await Promise.all([
+      verifyApiKey(),
+      params,
+    ]);
+    await deleteAnnotation(appId, userId, annotationId);
+    return successResult(null, 200, '删除标注成功');
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * 应用标注管理 API 路由
+ *
+ * 该文件实现了应用标注的 RESTful API 接口，包括：
+ * 1. GET - 获取应用的标注列表，支持分页和内容搜索
+ * 2. POST - 创建新的标注，可关联来源消息
+ *
+ * 路由路径：/api/apps/[appId]/annotations
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { loadSearchPageReqParams } from '@/lib/paginator';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import {
+  createAnnotationReqSchema,
+  getAnnotationListReqSchema,
+} from '@/schemas/annotation-schema';
+import {
+  createAnnotation,
+  getAnnotationListByPage,
+} from '@/services/annotation';
+
+// 定义路由参数类型
+type Params = { params: Promise<{ appId: string }> };
+
+/**
+ * @swagger
+ * /api/apps/{appId}/annotations:
+ *   get:
+ *     tags:
+ *       - Annotations
+ *     summary: 获取应用的标注列表
+ *     description: 该接口用于获取应用的标注列表，该接口支持分页+搜索，搜索模糊匹配标注的问题和回答，按创建时间倒序排列。
+ *     parameters:
+ *       - in: path
+ *         name: appId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 应用 id
+ *       - in: query
+ *         name: searchWord
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: 搜索词，模糊匹配标注的问题和回答
+ *       - in: query
+ *         name: currentPage
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: 当前页数
+ *       - in: query
+ *         name: pageSize
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 10
+ *         description: 每页数据条数
+ *     responses:
+ *       200:
+ *         description: 获取标注列表成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     list:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 标注 id
+ *                           messageId:
+ *                             type: string
+ *                             description: 标注的来源消息 id，手动创建的标注为空字符串
+ *                           question:
+ *                             type: string
+ *                             description: 标注的问题
+ *                           answer:
+ *                             type: string
+ *                             description: 标注的回答
+ *                           hitCount:
+ *                             type: integer
+ *                             description: 标注回复的命中次数
+ *                           createdAt:
+ *                             type: integer
+ *                             description: 标注的创建时间戳
+ *                           updatedAt:
+ *                             type: integer
+ *                             description: 标注的更新时间戳
+ *                     paginator:
+ *                       type: object
+ *                       properties:
+ *                         currentPage:
+ *                           type: integer
+ *                         pageSize:
+ *                           type: integer
+ *                         totalPage:
+ *                           type: integer
+ *                         totalRecord:
+ *                           type: integer
+ *                 message:
+ *                   type: string
+ *       404:
+ *         description: 应用不存在
+ */
+export async function GET(request: Request, { params }: Params) {
+  try {
+    const [{ userId }, { appId }] = await Promise.all([verifyApiKey(), params]);
+    const pageReq = getAnnotationListReqSchema.parse(
+      loadSearchPageReqParams(request),
+    );
+    const result = await getAnnotationListByPage(appId, userId, pageReq);
+    return successResult(result, 200, '获取标注列表成功');
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+/**
+ * @swagger
+ * /api/apps/{appId}/annotations:
+ *   post:
+ *     tags:
+ *       - Annotations
+ *     summary: 创建标注
+ *     description: 该接口用于为应用创建标注，标注的问题会同步写入向量数据库。应用启用标注回复后，与标注问题相似度达到阈值的提问会直接返回标注的回答，不再调用模型。传递 messageId 时会校验消息归属并记录标注的来源消息。
+ *     parameters:
+ *       - in: path
+ *         name: appId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 应用 id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - question
+ *               - answer
+ *             properties:
+ *               messageId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *                 description: 标注的来源消息 id
+ *               question:
+ *                 type: string
+ *                 maxLength: 2000
+ *                 description: 标注的问题
+ *               answer:
+ *                 type: string
+ *                 maxLength: 10000
+ *                 description: 标注的回答
+ *     responses:
+ *       201:
+ *         description: 创建标注成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                       format: uuid
+ *                       description: 新创建的标注 id
+ *                 message:
+ *                   type: string
+ *       404:
+ *         description: 应用或来源消息不存在
+ */
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const [{ userId }, { appId }, body] = await Promise.all([
+      verifyApiKey(),
+      params,
+      request.json(),
+    ]);
+    const req = createAnnotationReqSchema.parse(body);
+    const annotationId = await createAnnotation(appId, userId, req);
+    return successResult({ id: annotationId }, 201, '创建标注成功');
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
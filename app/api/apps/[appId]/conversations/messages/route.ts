@@ -101,15 +101,64 @@ const loadMessagesPageReqParams = createLoader({
  *                             type: string
  *                             format: uuid
  *                             description: 消息关联的会话 id，类型为 uuid
+ *                           parentId:
+ *                             type: string
+ *                             description: 消息树中的父消息 id，会话的第一条消息为空字符串，重新生成的消息与原消息拥有相同的父消息
  *                           query:
  *                             type: string
  *                             description: 人类提出的问题/查询，类型为字符串
+ *                           imageUrls:
+ *                             type: array
+ *                             description: 问题附带的图片 URL 列表
+ *                             items:
+ *                               type: string
  *                           answer:
  *                             type: string
  *                             description: AI 生成的最终答案，类型为字符串
+ *                           structuredAnswer:
+ *                             type: object
+ *                             nullable: true
+ *                             description: 应用启用结构化输出时，符合 JSON Schema 的回答对象，未启用时为 null
+ *                           citations:
+ *                             type: array
+ *                             description: 知识库检索召回片段的引用来源，按片段去重，回答中以 [^引用编号] 的格式标注引用
+ *                             items:
+ *                               type: object
+ *                               properties:
+ *                                 id:
+ *                                   type: string
+ *                                   description: 引用编号，回答中以 [^引用编号] 的格式标注，同一片段的引用编号始终相同
+ *                                 datasetId:
+ *                                   type: string
+ *                                   format: uuid
+ *                                   description: 片段所属的知识库 id
+ *                                 documentId:
+ *                                   type: string
+ *                                   format: uuid
+ *                                   description: 片段所属的文档 id
+ *                                 documentName:
+ *                                   type: string
+ *                                   description: 片段所属的文档名称
+ *                                 segmentId:
+ *                                   type: string
+ *                                   format: uuid
+ *                                   description: 片段 id
+ *                                 position:
+ *                                   type: integer
+ *                                   description: 片段在文档中的位置
+ *                                 snippet:
+ *                                   type: string
+ *                                   description: 片段内容摘要，最多 200 个字符
+ *                                 score:
+ *                                   type: number
+ *                                   format: float
+ *                                   description: 片段的检索得分
  *                           totalTokenCount:
  *                             type: integer
  *                             description: 消息消耗的总 token 数，类型为整型
+ *                           totalPrice:
+ *                             type: number
+ *                             description: 消息消耗的总费用，按模型价格表计算，类型为浮点型
  *                           latency:
  *                             type: number
  *                             format: float
@@ -142,6 +191,10 @@ const loadMessagesPageReqParams = createLoader({
  *                                 toolInput:
  *                                   type: object
  *                                   description: 调用工具的工具参数，类型为字典
+ *                                 toolPolicy:
+ *                                   type: object
+ *                                   nullable: true
+ *                                   description: 工具执行策略的执行结果，包含执行状态(success/error/timeout/circuit_open)、执行次数、超时时间、是否幂等、熔断器状态与错误信息，非工具调用时为 null
  *                                 latency:
  *                                   type: integer
  *                                   description: 该推理步骤的响应耗时，类型为整型
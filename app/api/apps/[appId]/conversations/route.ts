@@ -8,14 +8,14 @@
  * - 验证 API 密钥和用户身份
  * - 解析请求参数
  * - 创建流式响应
- * - 调用调试聊天服务
+ * - 将调试聊天任务添加到队列，转发 worker 推送的流式事件
  * - 错误处理
  */
 
 import { verifyApiKey } from '@/lib/auth/dal';
 import { handleRouteError } from '@/lib/route-common';
 import { appConversationReqSchema } from '@/schemas/app-schema';
-import { debugChat } from '@/services/app';
+import { debugChat, prepareDebugChat } from '@/services/app';
 
 /**
  * 路由参数类型定义
@@ -30,7 +30,7 @@ type Params = { params: Promise<{ appId: string }> };
  *     tags:
  *       - Apps
  *     summary: 应用调试对话
- *     description: 用于在编排 AI 应用时进行 debug 调试，在后端会根据草稿配置创建特定的 Agent 从而执行对应的调试信息，该接口为流式事件响应，会逐个输出 Agent 在运行过程中调用的步骤，涵盖：长期记忆召回、知识库检索、智能体推理/观察、工具调用、LLM消息生成、审核、结束响应等，该接口并非最终版，会随着后续多 LLM 以及多模态 LLM 的接入进行不断扩展。
+ *     description: 用于在编排 AI 应用时进行 debug 调试，在后端会根据草稿配置创建特定的 Agent 从而执行对应的调试信息，该接口为流式事件响应，会逐个输出 Agent 在运行过程中调用的步骤，涵盖：长期记忆召回、知识库检索、智能体推理/观察、工具调用、LLM消息生成、审核、结束响应等，该接口并非最终版，会随着后续多 LLM 以及多模态 LLM 的接入进行不断扩展。流式连接断开后可以通过 /api/apps/{appId}/conversations/tasks/{taskId}/events 接口重新连接并回放错过的事件。
  *     parameters:
  *       - in: path
  *         name: appId
@@ -52,6 +52,16 @@ type Params = { params: Promise<{ appId: string }> };
  *                 type: string
  *                 description: 用户发起的提问信息
  *                 example: "能详细讲解下LLM是什么吗？"
+ *               imageUrls:
+ *                 type: array
+ *                 description: 通过 /api/upload-files/image 接口上传的图片 URL 列表，最多 5 张，仅支持图片输入的模型可以附带图片，否则返回 400 错误
+ *                 items:
+ *                   type: string
+ *                   format: uri
+ *               regenerateMessageId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: 需要重新生成或编辑后重新发送的原消息 id，新消息与原消息拥有相同的父消息并成为当前分支，之后的对话历史沿新分支构建
  *     responses:
  *       200:
  *         description: 流式事件响应成功
@@ -62,7 +72,7 @@ type Params = { params: Promise<{ appId: string }> };
  *               properties:
  *                 event:
  *                   type: string
- *                   description: 流式事件的名称，例如：agent_thought(Agent推理)、agent_message(Agent消息)、agent_action(Agent行动/执行工具)、dataset_retrieval(知识库检索)、done(流式事件停止) 等
+ *                   description: 流式事件的名称，例如：agent_thought(Agent推理)、agent_message(Agent消息)、agent_action(Agent行动/执行工具)、dataset_retrieval(知识库检索)、tool_approval(工具调用等待审批，需要调用审批接口)、done(流式事件停止) 等
  *                   example: "agent_message"
  *                 data:
  *                   type: object
@@ -99,6 +109,44 @@ type Params = { params: Promise<{ appId: string }> };
  *                       type: string
  *                       description: Agent 返回的文本答案输出，类型为字符串
  *                       example: "LLM 即 Large Language Model，大语言模型，是一种基于深度学习的自然语言处理模型，具有很高的语言理解和生成能力，能够处理各式各样的自然语言任务，例如文本生成、问答、翻译、摘要等。它通过在大量的文本数据上进行训练，学习到语言的模式、结构和语义知识。"
+ *                     structuredAnswer:
+ *                       type: object
+ *                       nullable: true
+ *                       description: 应用启用结构化输出时，符合 JSON Schema 的回答对象，此时 answer 为该对象的 JSON 字符串，未启用时为 null
+ *                     citations:
+ *                       type: array
+ *                       description: 仅在 dataset_retrieval 事件中返回该次检索召回片段的引用来源，其余事件为空列表
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             description: 引用编号，回答中以 [^引用编号] 的格式标注，同一片段的引用编号始终相同
+ *                           datasetId:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 片段所属的知识库 id
+ *                           documentId:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 片段所属的文档 id
+ *                           documentName:
+ *                             type: string
+ *                             description: 片段所属的文档名称
+ *                           segmentId:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 片段 id
+ *                           position:
+ *                             type: integer
+ *                             description: 片段在文档中的位置
+ *                           snippet:
+ *                             type: string
+ *                             description: 片段内容摘要，最多 200 个字符
+ *                           score:
+ *                             type: number
+ *                             format: float
+ *                             description: 片段的检索得分
  *                     latency:
  *                       type: number
  *                       format: float
@@ -119,16 +167,26 @@ export async function POST(request: Request, { params }: Params) {
     ]);
 
     // 验证并解析请求体中的查询参数
-    const { query } = appConversationReqSchema.parse(body);
+    const { query, imageUrls, regenerateMessageId } =
+      appConversationReqSchema.parse(body);
+
+    // 在开始流式响应前完成校验并创建消息记录，错误时返回适当的 HTTP 错误响应
+    const data = await prepareDebugChat(
+      appId,
+      userId,
+      query,
+      imageUrls,
+      regenerateMessageId,
+    );
 
     // 创建流式响应通道
     // TransformStream 用于创建可读和可写的流，实现服务器发送事件（SSE）
     const { readable, writable } = new TransformStream();
     const writer = writable.getWriter();
 
-    // 调用调试聊天服务，开始处理用户查询
-    // 该服务会异步写入流式事件到 writer
-    debugChat(appId, userId, query, writer);
+    // 调用调试聊天服务，将任务添加到队列并由 worker 运行智能体
+    // 该服务会将 worker 推送的流式事件异步写入到 writer
+    debugChat(data, writer);
 
     // 返回流式响应，设置适当的 HTTP 头
     return new Response(readable, {
@@ -0,0 +1,95 @@
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { approveConversationTaskReqSchema } from '@/schemas/app-schema';
+import { approveConversationTask } from '@/services/app';
+
+type Params = {
+  params: Promise<{
+    appId: string;
+    taskId: string;
+  }>;
+};
+
+/**
+ * @swagger
+ * /api/apps/{appId}/conversations/tasks/{taskId}/approve:
+ *   post:
+ *     tags:
+ *       - Apps
+ *     summary: 审批应用调试对话中等待执行的工具调用
+ *     description: 调试对话中调用 POST/PUT/PATCH/DELETE 请求方法的 API 工具前，流式事件会返回 tool_approval 事件并暂停运行，该接口用于批准（可修改工具参数）或拒绝这些工具调用，提交后对话任务会恢复运行。超过 5 分钟未审批视为拒绝执行。
+ *     parameters:
+ *       - in: path
+ *         name: appId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 应用 id，格式为 uuid
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 等待审批的任务 id，格式为 uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - approved
+ *             properties:
+ *               approved:
+ *                 type: boolean
+ *                 description: 是否批准执行工具调用
+ *               toolCalls:
+ *                 type: array
+ *                 description: 修改后的工具调用参数，只需要传递修改过参数的工具调用，工具调用 id 来自 tool_approval 事件
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                       description: 工具调用 id
+ *                     args:
+ *                       type: object
+ *                       description: 修改后的工具参数
+ *               reason:
+ *                 type: string
+ *                 description: 拒绝原因，会反馈给模型，最多500个字符
+ *     responses:
+ *       200:
+ *         description: 审批成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   description: 空对象，无返回数据
+ *                 message:
+ *                   type: string
+ *                   example: 审批工具调用成功
+ */
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const [{ userId }, { appId, taskId }, body] = await Promise.all([
+      verifyApiKey(),
+      params,
+      req.json(),
+    ]);
+    const data = approveConversationTaskReqSchema.parse(body);
+
+    await approveConversationTask(appId, taskId, userId, data);
+    return successResult({}, 200, '审批工具调用成功');
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,106 @@
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError } from '@/lib/route-common';
+import { getConversationTaskEventsReqSchema } from '@/schemas/app-schema';
+import {
+  attachConversationTask,
+  getConversationTaskContextOrThrow,
+} from '@/services/app';
+import { createLoader, parseAsInteger } from 'nuqs/server';
+
+type Params = {
+  params: Promise<{
+    appId: string;
+    taskId: string;
+  }>;
+};
+
+/**
+ * 任务事件流查询参数加载器
+ *
+ * @param lastEventIndex - 客户端已经接收的事件数量，默认为 0
+ */
+const loadTaskEventsReqParams = createLoader({
+  lastEventIndex: parseAsInteger.withDefault(0),
+});
+
+/**
+ * @swagger
+ * /api/apps/{appId}/conversations/tasks/{taskId}/events:
+ *   get:
+ *     tags:
+ *       - Apps
+ *     summary: 重新连接应用调试对话任务的事件流
+ *     description: 调试对话的流式连接断开后（例如网络中断或服务重新部署），可以通过该接口重新连接任务的事件流，接口会从 lastEventIndex 位置开始回放错过的事件，并持续推送新的事件直到任务结束。运行任务的 worker 进程退出时（例如服务重新部署），任务会被重新交给其他 worker 从最后一个检查点恢复运行。任务结束后事件会保留 1 小时，事件格式与调试对话接口一致。
+ *     parameters:
+ *       - in: path
+ *         name: appId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 应用 id，格式为 uuid
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 需要重新连接的任务 id，格式为 uuid
+ *       - in: query
+ *         name: lastEventIndex
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *         description: 客户端已经接收的事件数量（不包括 ping 心跳事件），从该位置开始回放事件，默认为 0 回放所有事件
+ *     responses:
+ *       200:
+ *         description: 流式事件响应成功
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 event:
+ *                   type: string
+ *                   description: 流式事件的名称，与调试对话接口一致
+ *                   example: "agent_message"
+ *                 data:
+ *                   type: object
+ *                   description: 流式事件数据，与调试对话接口一致
+ */
+export async function GET(request: Request, { params }: Params) {
+  try {
+    const [{ userId }, { appId, taskId }] = await Promise.all([
+      verifyApiKey(),
+      params,
+    ]);
+    const { lastEventIndex } = getConversationTaskEventsReqSchema.parse(
+      loadTaskEventsReqParams(request),
+    );
+
+    // 在开始流式响应前验证任务，任务不存在时返回错误响应
+    const context = await getConversationTaskContextOrThrow(
+      appId,
+      taskId,
+      userId,
+    );
+
+    const { readable, writable } = new TransformStream();
+    const writer = writable.getWriter();
+
+    // 回放错过的事件并持续推送新的事件，该服务会异步写入流式事件到 writer
+    attachConversationTask(taskId, context, lastEventIndex, writer);
+
+    return new Response(readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
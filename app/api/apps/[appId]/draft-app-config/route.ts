@@ -169,6 +169,75 @@ type Params = { params: Promise<{ appId: string }> };
  *                           type: number
  *                           format: float
  *                           description: 最小匹配度，范围从 0-1，保留 2 位小数，数字越大表示相似度越高
+ *                         hybrid:
+ *                           type: object
+ *                           description: 混合检索配置
+ *                           properties:
+ *                             semanticWeight:
+ *                               type: number
+ *                               format: float
+ *                               description: 语义检索权重，范围从 0-1
+ *                             keywordWeight:
+ *                               type: number
+ *                               format: float
+ *                               description: 全文检索权重，范围从 0-1
+ *                             fusionMethod:
+ *                               type: string
+ *                               enum: [weighted_score, rrf]
+ *                               description: 融合方式，weighted_score 为加权得分，rrf 为倒数排名融合
+ *                         rerank:
+ *                           type: object
+ *                           description: 重排序配置
+ *                           properties:
+ *                             enable:
+ *                               type: boolean
+ *                               description: 是否开启重排序
+ *                             topN:
+ *                               type: integer
+ *                               description: 重排序后保留的文档数量
+ *                             score:
+ *                               type: number
+ *                               format: float
+ *                               description: 最小重排序得分，范围从 0-1
+ *                         filter:
+ *                           type: object
+ *                           nullable: true
+ *                           description: 元数据过滤表达式，为 null 时不过滤
+ *                           required:
+ *                             - logic
+ *                             - conditions
+ *                           properties:
+ *                             logic:
+ *                               type: string
+ *                               enum: [and, or]
+ *                               description: 条件组合方式，and 表示同时满足所有条件，or 表示满足任一条件
+ *                             conditions:
+ *                               type: array
+ *                               minItems: 1
+ *                               maxItems: 10
+ *                               description: 过滤条件列表，1-10 个
+ *                               items:
+ *                                 type: object
+ *                                 required:
+ *                                   - field
+ *                                   - operator
+ *                                   - value
+ *                                 properties:
+ *                                   field:
+ *                                     type: string
+ *                                     enum: [tags, source, department, date]
+ *                                     description: 元数据字段
+ *                                   operator:
+ *                                     type: string
+ *                                     enum: [eq, ne, in, contains_any, contains_all, gt, gte, lt, lte]
+ *                                     description: 过滤运算符，tags 支持 contains_any、contains_all，source 和 department 支持 eq、ne、in，date 支持 eq、gt、gte、lt、lte
+ *                                   value:
+ *                                     oneOf:
+ *                                       - type: string
+ *                                       - type: array
+ *                                         items:
+ *                                           type: string
+ *                                     description: 比较的值，in、contains_any、contains_all 为字符串数组，其余为字符串，日期格式为 YYYY-MM-DD
  *                     longTermMemory:
  *                       type: object
  *                       description: 长期记忆配置
@@ -176,6 +245,16 @@ type Params = { params: Promise<{ appId: string }> };
  *                         enable:
  *                           type: boolean
  *                           description: 是否启用，true 代表启用，false 代表未启用
+ *                     memoryConfig:
+ *                       type: object
+ *                       description: 对话记忆配置
+ *                       properties:
+ *                         strategy:
+ *                           type: string
+ *                           description: 对话记忆策略，支持的值为 none(不加载历史对话)、window(窗口记忆)、token_buffer(token 缓冲记忆)、summary_buffer(摘要缓冲记忆，早期对话会被总结为摘要)
+ *                         maxTokenLimit:
+ *                           type: integer
+ *                           description: 历史对话的最大 token 数，为 0 时根据模型的上下文窗口和最大输出 token 数自动计算
  *                     openingStatement:
  *                       type: string
  *                       description: 对话开场白，在初次对话时 Agent 会发送的消息，最大长度不超过 2000
@@ -233,6 +312,26 @@ type Params = { params: Promise<{ appId: string }> };
  *                             enable:
  *                               type: boolean
  *                               description: 是否启用输出审核，true 代表启用，false 代表未启用，当值为 true 时，触发敏感词时，会使用 ** 代替特定的敏感词进行输出
+ *                     structuredOutput:
+ *                       type: object
+ *                       description: 结构化输出配置信息
+ *                       properties:
+ *                         enable:
+ *                           type: boolean
+ *                           description: 是否启用结构化输出，true 代表启用，false 代表未启用，启用后最终回答需要符合 schema，解析后的对象通过消息的 structuredAnswer 字段返回
+ *                         schema:
+ *                           type: object
+ *                           description: 最终回答需要符合的 JSON Schema，根节点必须为 object 类型，支持 object、array、string（含 enum）、number、integer、boolean、null 类型
+ *                     annotationReply:
+ *                       type: object
+ *                       description: 标注回复配置信息
+ *                       properties:
+ *                         enable:
+ *                           type: boolean
+ *                           description: 是否启用标注回复，true 代表启用，false 代表未启用，启用后与标注问题相似的提问直接返回标注的回答，不再调用模型
+ *                         scoreThreshold:
+ *                           type: number
+ *                           description: 相似度分数阈值，范围为 0-1，提问与标注问题的相似度达到阈值时视为命中
  *                     updatedAt:
  *                       type: integer
  *                       description: 草稿配置的更新时间，类型为时间戳
@@ -282,13 +381,13 @@ export async function GET(_: Request, { params }: Params) {
  *                 properties:
  *                   provider:
  *                     type: string
- *                     description: 模型提供者名字，例如：openai、moonshot 等
+ *                     description: 模型提供者名字，例如：openai、moonshot 等，可选值见 /api/language-models
  *                   model:
  *                     type: string
- *                     description: 对应模型提供者下的模型名字，例如：gpt-4o-mini、moonshot-8k 等
+ *                     description: 对应模型提供者下的模型名字，例如：gpt-4o-mini、moonshot-v1-8k 等，未注册的提供商/模型组合会返回 400 错误
  *                   parameters:
  *                     type: object
- *                     description: 大模型运行参数信息，每个 LLM 均有差异
+ *                     description: 大模型运行参数信息，每个 LLM 均有差异，不支持的参数会被丢弃，超出范围的参数会被截断
  *               dialogRound:
  *                 type: integer
  *                 description: 携带上下上下文轮数，最小为 0，最大为 100
@@ -312,7 +411,27 @@ export async function GET(_: Request, { params }: Params) {
  *                       description: 工具 id，当为内置工具时，工具 id 为 tool_name，否则为 id
  *                     params:
  *                       type: object
- *                       description: 内置工具自定义参数，如果为 API工具或者无需设置自定义参数，则值设置为空字典
+ *                       description: 内置工具自定义参数，如果为 API工具或者无需设置自定义参数，则值设置为空字典。内置工具与 API 工具都可以通过 policy 字段配置工具执行策略
+ *                       properties:
+ *                         policy:
+ *                           type: object
+ *                           description: 工具执行策略，时间单位为秒，未配置的字段使用默认值
+ *                           properties:
+ *                             timeout:
+ *                               type: number
+ *                               description: 单次调用超时时间，范围 1-120，默认 30
+ *                             maxRetries:
+ *                               type: integer
+ *                               description: 最大重试次数，范围 0-3，默认 1，只对内置工具与 GET/HEAD/OPTIONS/PUT/DELETE 方法的 API 工具生效
+ *                             retryDelay:
+ *                               type: number
+ *                               description: 首次重试前的等待时间，之后每次翻倍，范围 0-10，默认 0.5
+ *                             failureThreshold:
+ *                               type: integer
+ *                               description: API 工具提供者连续失败多少次后熔断，范围 1-20，默认 5
+ *                             resetTimeout:
+ *                               type: integer
+ *                               description: 熔断持续时间，范围 10-600，默认 60
  *               workflows:
  *                 type: array
  *                 description: 应用绑定的工作流 ID 列表
@@ -339,6 +458,83 @@ export async function GET(_: Request, { params }: Params) {
  *                     type: number
  *                     format: float
  *                     description: 最小匹配度，范围从 0-1，保留 2 位小数
+ *                   hybrid:
+ *                     type: object
+ *                     description: 混合检索配置，未传递时两种检索权重相等并使用倒数排名融合
+ *                     properties:
+ *                       semanticWeight:
+ *                         type: number
+ *                         format: float
+ *                         minimum: 0
+ *                         maximum: 1
+ *                         description: 语义检索权重，范围从 0-1，与全文检索权重不能同时为 0
+ *                       keywordWeight:
+ *                         type: number
+ *                         format: float
+ *                         minimum: 0
+ *                         maximum: 1
+ *                         description: 全文检索权重，范围从 0-1
+ *                       fusionMethod:
+ *                         type: string
+ *                         enum: [weighted_score, rrf]
+ *                         description: 融合方式，weighted_score 为加权得分，rrf 为倒数排名融合
+ *                   rerank:
+ *                     type: object
+ *                     description: 重排序配置，未传递时不开启重排序
+ *                     properties:
+ *                       enable:
+ *                         type: boolean
+ *                         description: 是否开启重排序
+ *                       topN:
+ *                         type: integer
+ *                         minimum: 1
+ *                         maximum: 10
+ *                         description: 重排序后保留的文档数量，范围为 1-10
+ *                       score:
+ *                         type: number
+ *                         format: float
+ *                         minimum: 0
+ *                         maximum: 1
+ *                         description: 最小重排序得分，范围从 0-1
+ *                   filter:
+ *                     type: object
+ *                     nullable: true
+ *                     description: 元数据过滤表达式，只召回元数据满足条件的文档片段，未传递或为 null 时不过滤
+ *                     required:
+ *                       - logic
+ *                       - conditions
+ *                     properties:
+ *                       logic:
+ *                         type: string
+ *                         enum: [and, or]
+ *                         description: 条件组合方式，and 表示同时满足所有条件，or 表示满足任一条件
+ *                       conditions:
+ *                         type: array
+ *                         minItems: 1
+ *                         maxItems: 10
+ *                         description: 过滤条件列表，1-10 个
+ *                         items:
+ *                           type: object
+ *                           required:
+ *                             - field
+ *                             - operator
+ *                             - value
+ *                           properties:
+ *                             field:
+ *                               type: string
+ *                               enum: [tags, source, department, date]
+ *                               description: 元数据字段
+ *                             operator:
+ *                               type: string
+ *                               enum: [eq, ne, in, contains_any, contains_all, gt, gte, lt, lte]
+ *                               description: 过滤运算符，tags 支持 contains_any、contains_all，source 和 department 支持 eq、ne、in，date 支持 eq、gt、gte、lt、lte
+ *                             value:
+ *                               oneOf:
+ *                                 - type: string
+ *                                 - type: array
+ *                                   items:
+ *                                     type: string
+ *                               description: 比较的值，in、contains_any、contains_all 为字符串数组，其余为字符串，日期格式为 YYYY-MM-DD
  *               longTermMemory:
  *                 type: object
  *                 description: 长期记忆配置
@@ -346,6 +542,17 @@ export async function GET(_: Request, { params }: Params) {
  *                   enable:
  *                     type: boolean
  *                     description: 是否启用，true 代表启用，false 代表未启用
+ *               memoryConfig:
+ *                 type: object
+ *                 description: 对话记忆配置
+ *                 properties:
+ *                   strategy:
+ *                     type: string
+ *                     enum: [none, window, token_buffer, summary_buffer]
+ *                     description: 对话记忆策略，none 不加载历史对话，window 加载最近的对话轮次，token_buffer 加载不超过 token 预算的最近对话，summary_buffer 在 token_buffer 的基础上将早期对话总结为摘要
+ *                   maxTokenLimit:
+ *                     type: integer
+ *                     description: 历史对话的最大 token 数，范围为 0-1000000，为 0 时根据模型的上下文窗口和最大输出 token 数自动计算，超出模型可用上下文时以可用上下文为准
  *               openingStatement:
  *                 type: string
  *                 description: 对话开场白，在初次对话时 Agent 会发送的消息，最大长度不超过 2000
@@ -403,6 +610,28 @@ export async function GET(_: Request, { params }: Params) {
  *                       enable:
  *                         type: boolean
  *                         description: 是否启用输出审核
+ *               structuredOutput:
+ *                 type: object
+ *                 description: 结构化输出配置信息，启用时模型必须支持工具调用
+ *                 properties:
+ *                   enable:
+ *                     type: boolean
+ *                     description: 是否启用结构化输出
+ *                   schema:
+ *                     type: object
+ *                     description: 最终回答需要符合的 JSON Schema，根节点必须为 object 类型
+ *               annotationReply:
+ *                 type: object
+ *                 description: 标注回复配置信息
+ *                 properties:
+ *                   enable:
+ *                     type: boolean
+ *                     description: 是否启用标注回复
+ *                   scoreThreshold:
+ *                     type: number
+ *                     minimum: 0
+ *                     maximum: 1
+ *                     description: 相似度分数阈值
  *     responses:
  *       200:
  *         description: 更新成功
@@ -0,0 +1,161 @@
+/**
+ * 应用消息反馈列表 API 路由
+ *
+ * 该文件实现了分页获取应用消息反馈的接口，支持按评价类型和反馈来源过滤，
+ * 便于应用所有者根据反馈整理标注回复。
+ *
+ * 路由路径：/api/apps/[appId]/feedbacks
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { getFeedbacksReqSchema } from '@/schemas/feedback-schema';
+import { getFeedbacksByPage } from '@/services/feedback';
+import { createLoader, parseAsInteger, parseAsString } from 'nuqs/server';
+
+// 定义路由参数类型
+type Params = { params: Promise<{ appId: string }> };
+
+/**
+ * 反馈分页查询参数加载器
+ *
+ * @param rating - 可选的评价类型过滤
+ * @param fromSource - 可选的反馈来源过滤
+ * @param currentPage - 当前页数，默认为 1
+ * @param pageSize - 每页数据条数，默认为 10
+ */
+const loadFeedbacksReqParams = createLoader({
+  rating: parseAsString,
+  fromSource: parseAsString,
+  currentPage: parseAsInteger.withDefault(1),
+  pageSize: parseAsInteger.withDefault(10),
+});
+
+/**
+ * @swagger
+ * /api/apps/{appId}/feedbacks:
+ *   get:
+ *     tags:
+ *       - Apps
+ *     summary: 获取应用的消息反馈列表
+ *     description: 分页获取应用的消息反馈，按更新时间倒序排列，每条反馈附带被反馈消息的提问与回答。
+ *     parameters:
+ *       - in: path
+ *         name: appId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 应用 id
+ *       - in: query
+ *         name: rating
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [like, dislike]
+ *         description: 评价类型过滤，为空时返回全部反馈
+ *       - in: query
+ *         name: fromSource
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [user, admin]
+ *         description: 反馈来源过滤，user 为终端用户反馈，admin 为应用所有者反馈，为空时返回全部反馈
+ *       - in: query
+ *         name: currentPage
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: 当前页数
+ *       - in: query
+ *         name: pageSize
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 10
+ *         description: 每页数据条数
+ *     responses:
+ *       200:
+ *         description: 获取反馈列表成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     list:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 反馈 id
+ *                           conversationId:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 会话 id
+ *                           messageId:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 消息 id
+ *                           rating:
+ *                             type: string
+ *                             description: 评价类型，like 或 dislike
+ *                           content:
+ *                             type: string
+ *                             description: 反馈意见
+ *                           fromSource:
+ *                             type: string
+ *                             description: 反馈来源，user 或 admin
+ *                           invokeFrom:
+ *                             type: string
+ *                             description: 消息的调用来源
+ *                           query:
+ *                             type: string
+ *                             description: 用户提问信息
+ *                           answer:
+ *                             type: string
+ *                             description: 消息的回答
+ *                           createdAt:
+ *                             type: integer
+ *                             description: 反馈的创建时间戳
+ *                           updatedAt:
+ *                             type: integer
+ *                             description: 反馈的更新时间戳
+ *                     paginator:
+ *                       type: object
+ *                       properties:
+ *                         currentPage:
+ *                           type: integer
+ *                         pageSize:
+ *                           type: integer
+ *                         totalPage:
+ *                           type: integer
+ *                         totalRecord:
+ *                           type: integer
+ *                 message:
+ *                   type: string
+ *       404:
+ *         description: 应用不存在
+ */
+export async function GET(request: Request, { params }: Params) {
+  try {
+    const [{ userId }, { appId }] = await Promise.all([verifyApiKey(), params]);
+    const req = getFeedbacksReqSchema.parse(loadFeedbacksReqParams(request));
+    const result = await getFeedbacksByPage(appId, userId, req);
+    return successResult(result, 200, '获取反馈列表成功');
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
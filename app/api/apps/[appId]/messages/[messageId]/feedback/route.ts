@@ -0,0 +1,77 @@
+/**
+ * 应用消息反馈 API 路由
+ *
+ * 该文件实现了应用所有者对应用消息回答点赞、点踩或撤销反馈的接口。
+ *
+ * 路由路径：/api/apps/[appId]/messages/[messageId]/feedback
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { messageFeedbackReqSchema } from '@/schemas/feedback-schema';
+import { updateAppMessageFeedback } from '@/services/feedback';
+
+// 定义路由参数类型
+type Params = { params: Promise<{ appId: string; messageId: string }> };
+
+/**
+ * @swagger
+ * /api/apps/{appId}/messages/{messageId}/feedback:
+ *   put:
+ *     tags:
+ *       - Apps
+ *     summary: 提交应用消息反馈
+ *     description: 应用所有者对应用中任意来源（调试器、Web 应用、服务 API）的消息回答进行点赞或点踩，可附带反馈意见。应用所有者的反馈与终端用户的反馈分开记录，重复提交会覆盖之前的反馈，rating 为 null 时撤销已提交的反馈。
+ *     parameters:
+ *       - in: path
+ *         name: appId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 应用 id
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 消息 id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rating
+ *             properties:
+ *               rating:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [like, dislike]
+ *                 description: 评价类型，like 为点赞，dislike 为点踩，null 为撤销反馈
+ *               content:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 description: 反馈意见
+ *     responses:
+ *       200:
+ *         description: 提交反馈成功
+ *       404:
+ *         description: 应用或消息不存在
+ */
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const [{ userId }, { appId, messageId }, body] = await Promise.all([
+      verifyApiKey(),
+      params,
+      request.json(),
+    ]);
+    const req = messageFeedbackReqSchema.parse(body);
+    await updateAppMessageFeedback(appId, userId, messageId, req);
+    return successResult(null, 200, '提交反馈成功');
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * 应用统计 API
+ *
+ * 该模块提供了获取应用使用统计数据的功能，汇总指定时间范围内 Web 应用与服务 API 的调用情况，
+ * 并与上一个同等时长的周期进行环比对比。
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { getAppStatisticsReqSchema } from '@/schemas/app-schema';
+import { getAppStatistics } from '@/services/statistics';
+import { createLoader, parseAsInteger } from 'nuqs/server';
+
+/**
+ * 路由参数类型定义
+ * 包含应用 ID 参数，用于标识要统计的应用
+ */
+type Params = {
+  params: Promise<{
+    appId: string;
+  }>;
+};
+
+/**
+ * 统计查询参数加载器
+ *
+ * @param startAt - 统计开始时间戳（毫秒）
+ * @param endAt - 统计结束时间戳（毫秒）
+ */
+const loadStatisticsReqParams = createLoader({
+  startAt: parseAsInteger,
+  endAt: parseAsInteger,
+});
+
+/**
+ * @swagger
+ * /api/apps/{appId}/statistics:
+ *   get:
+ *     tags:
+ *       - Apps
+ *     summary: 获取应用的统计数据
+ *     description: 该接口用于获取指定应用在时间范围内的使用统计，只统计 Web 应用与服务 API 产生的消息，调试会话不计入统计。接口会同时返回上一个同等时长周期的统计数据以及各项指标的环比变化率，未传递时间范围时默认统计最近 7 天，时间跨度最多为 90 天。
+ *     parameters:
+ *       - in: path
+ *         name: appId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 需要统计的应用 id，类型为 uuid
+ *       - in: query
+ *         name: startAt
+ *         schema:
+ *           type: integer
+ *         description: 可选参数，统计开始时间戳（毫秒），默认为结束时间的 7 天前
+ *       - in: query
+ *         name: endAt
+ *         schema:
+ *           type: integer
+ *         description: 可选参数，统计结束时间戳（毫秒），默认为当前时间
+ *     responses:
+ *       200:
+ *         description: 获取成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     startAt:
+ *                       type: integer
+ *                       description: 统计开始时间戳
+ *                     endAt:
+ *                       type: integer
+ *                       description: 统计结束时间戳
+ *                     overview:
+ *                       type: object
+ *                       description: 当前周期的概览指标
+ *                       properties:
+ *                         messageCount:
+ *                           type: integer
+ *                           description: 消息总数
+ *                         activeEndUserCount:
+ *                           type: integer
+ *                           description: 活跃终端用户数
+ *                         conversationCount:
+ *                           type: integer
+ *                           description: 会话数
+ *                         avgInteractionCount:
+ *                           type: number
+ *                           description: 平均会话互动数，即每个会话的平均消息数
+ *                         tokenCount:
+ *                           type: integer
+ *                           description: token 消耗总数
+ *                         totalPrice:
+ *                           type: number
+ *                           description: 总费用，按模型价格表计算
+ *                         avgLatency:
+ *                           type: number
+ *                           description: 消息的平均响应耗时，单位为毫秒
+ *                         errorRate:
+ *                           type: number
+ *                           description: 错误消息占比
+ *                         stopRate:
+ *                           type: number
+ *                           description: 被停止的消息占比
+ *                         timeoutRate:
+ *                           type: number
+ *                           description: 超时消息占比
+ *                     previousOverview:
+ *                       type: object
+ *                       description: 上一个同等时长周期的概览指标，结构与 overview 相同
+ *                     deltas:
+ *                       type: object
+ *                       description: 各项概览指标的环比变化率，结构与 overview 相同，例如 0.25 表示增长 25%，上一周期为 0 且当前周期不为 0 时为 1
+ *                     series:
+ *                       type: array
+ *                       description: 按天聚合的统计数据，按日期升序排列，没有数据的日期使用 0 填充，除 date 外的字段与 overview 相同
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           date:
+ *                             type: string
+ *                             description: 日期，格式为 YYYY-MM-DD
+ *                 message:
+ *                   type: string
+ *                   example: 获取应用统计数据成功
+ *       400:
+ *         description: 时间范围参数错误
+ *       404:
+ *         description: 应用不存在
+ */
+export async function GET(request: Request, { params }: Params) {
+  try {
+    const [{ userId }, { appId }] = await Promise.all([verifyApiKey(), params]);
+
+    const query = getAppStatisticsReqSchema.parse(
+      loadStatisticsReqParams(request),
+    );
+
+    const result = await getAppStatistics(appId, userId, query);
+    return successResult(result, 200, '获取应用统计数据成功');
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
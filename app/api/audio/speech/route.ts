@@ -0,0 +1,71 @@
+/**
+ * 文字转语音 API 路由
+ *
+ * 将消息的回答转换为语音，用于启用了语音输出的 AI 应用：
+ * - 验证 API 密钥
+ * - 校验消息归属以及应用是否启用语音输出
+ * - 调用语音提供商并以流的形式返回音频数据
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError } from '@/lib/route-common';
+import { audioSpeechReqSchema } from '@/schemas/audio-schema';
+import { speechMessageAnswer } from '@/services/audio';
+
+/**
+ * @swagger
+ * /api/audio/speech:
+ *   post:
+ *     tags:
+ *       - Audio
+ *     summary: 消息回答转语音
+ *     description: 将指定消息的回答转换为语音并以流的形式返回音频数据，应用需要启用语音输出（textToSpeech），使用应用配置的音色。调试对话的消息使用应用的草稿配置，其他消息使用应用已发布的配置。启用自动播放时，客户端可以在回答生成完毕后调用该接口边下载边播放。
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - messageId
+ *             properties:
+ *               messageId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: 需要转换为语音的消息 id
+ *     responses:
+ *       200:
+ *         description: 音频数据流
+ *         content:
+ *           audio/mpeg:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: 应用未启用语音输出或消息没有回答
+ *       404:
+ *         description: 消息或应用不存在
+ */
+export async function POST(request: Request) {
+  try {
+    const [{ userId }, body] = await Promise.all([
+      verifyApiKey(),
+      request.json(),
+    ]);
+    const { messageId } = audioSpeechReqSchema.parse(body);
+
+    const { contentType, stream } = await speechMessageAnswer(
+      userId,
+      messageId,
+    );
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': contentType,
+        'Cache-Control': 'no-cache',
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
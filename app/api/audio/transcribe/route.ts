@@ -0,0 +1,97 @@
+/**
+ * 语音转文字 API 路由
+ *
+ * 将用户上传的音频转换为文字，用于启用了语音输入的 AI 应用：
+ * - 验证 API 密钥
+ * - 验证音频文件数量、格式与大小
+ * - 校验应用是否启用语音输入
+ * - 调用语音提供商转换音频并返回文字
+ */
+
+import { BadRequestException } from '@/exceptions';
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { audioTranscribeReqSchema } from '@/schemas/audio-schema';
+import { transcribeAudio } from '@/services/audio';
+
+/**
+ * @swagger
+ * /api/audio/transcribe:
+ *   post:
+ *     tags:
+ *       - Audio
+ *     summary: 语音转文字
+ *     description: 将用户上传的音频转换为文字，应用需要启用语音输入（speechToText）。调试器调用时校验应用的草稿配置，服务 API 调用时校验应用已发布的配置。
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *               - appId
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: 需要转换的音频文件，支持 mp3、mp4、mpeg、mpga、m4a、wav、webm 格式，最大不能超过 25 MB
+ *               appId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: 应用 id，用于校验应用是否启用语音输入
+ *               invokeFrom:
+ *                 type: string
+ *                 enum: [debugger, service_api]
+ *                 default: debugger
+ *                 description: 调用来源，debugger 使用草稿配置，service_api 使用已发布的配置
+ *     responses:
+ *       200:
+ *         description: 语音转文字成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     text:
+ *                       type: string
+ *                       description: 音频转换后的文字
+ *                       example: "能详细讲解下LLM是什么吗？"
+ *                 message:
+ *                   type: string
+ *                   example: 语音转文字成功
+ *       400:
+ *         description: 音频格式或大小错误，或应用未启用语音输入
+ *       404:
+ *         description: 应用不存在
+ */
+export async function POST(request: Request) {
+  try {
+    const [{ userId }, formData] = await Promise.all([
+      verifyApiKey(),
+      request.formData(),
+    ]);
+
+    const files = formData.getAll('file');
+    if (files.length !== 1) {
+      throw new BadRequestException('语音转文字失败，仅支持上传一个音频文件');
+    }
+
+    const req = audioTranscribeReqSchema.parse({
+      appId: formData.get('appId'),
+      invokeFrom: formData.get('invokeFrom') ?? undefined,
+    });
+
+    const text = await transcribeAudio(userId, req, files[0] as File);
+
+    return successResult({ text }, 200, '语音转文字成功');
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
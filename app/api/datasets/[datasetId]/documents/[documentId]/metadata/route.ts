@@ -0,0 +1,124 @@
+/**
+ * 文档元数据更新 API 路由处理模块
+ *
+ * 该模块提供了更新文档元数据的 API 端点。它处理 PATCH 请求来更新指定文档的元数据，
+ * 更新后的元数据会同步到文档的所有片段，用于检索时按元数据过滤。
+ * 主要功能包括：
+ * - 验证 API 密钥
+ * - 验证请求参数
+ * - 更新文档元数据
+ * - 错误处理
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { updateDocumentMetadataReqSchema } from '@/schemas/document-schema';
+import { updateDocumentMetadata } from '@/services/document';
+
+// 定义路由参数类型
+type Params = { params: Promise<{ datasetId: string; documentId: string }> };
+
+/**
+ * @swagger
+ * /api/datasets/{datasetId}/documents/{documentId}/metadata:
+ *   patch:
+ *     tags:
+ *       - Documents
+ *     summary: 更新指定文档的元数据
+ *     description: 该接口用于整体替换文档的元数据（标签、来源、部门、日期），未传递的字段会被重置为默认值。元数据会同步到文档的所有片段，检索时可以通过 filter 按元数据过滤，只有解析完成的文档才可以更新元数据。
+ *     parameters:
+ *       - in: path
+ *         name: datasetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 该文档归属的知识库 id，类型为 uuid
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 需要更新的文档 id，类型为 uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - metadata
+ *             properties:
+ *               metadata:
+ *                 type: object
+ *                 description: 文档元数据
+ *                 properties:
+ *                   tags:
+ *                     type: array
+ *                     description: 标签列表，最多 10 个，每个标签不超过 50 个字符，自动去重
+ *                     maxItems: 10
+ *                     items:
+ *                       type: string
+ *                     example: ["政策", "人事"]
+ *                   source:
+ *                     type: string
+ *                     description: 文档来源，不超过 100 个字符
+ *                     maxLength: 100
+ *                     example: 内部制度库
+ *                   department:
+ *                     type: string
+ *                     description: 所属部门，不超过 100 个字符
+ *                     maxLength: 100
+ *                     example: 人力资源部
+ *                   date:
+ *                     type: string
+ *                     description: 文档日期，格式为 YYYY-MM-DD，空字符串表示未设置
+ *                     example: "2024-03-01"
+ *     responses:
+ *       200:
+ *         description: 更新成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                 message:
+ *                   type: string
+ *                   example: 更新文档元数据成功
+ */
+
+/**
+ * 处理文档元数据更新的 PATCH 请求
+ *
+ * @param request - HTTP 请求对象
+ * @param params - 包含 datasetId 和 documentId 的路由参数
+ * @returns 更新操作的结果响应
+ */
+export async function PATCH(request: Request, { params }: Params) {
+  try {
+    // 并行处理：验证 API 密钥、获取路由参数、解析请求体
+    const [{ userId }, { datasetId, documentId }, data] = await Promise.all([
+      verifyApiKey(),
+      params,
+      request.json(),
+    ]);
+
+    // 验证并解析请求数据
+    const req = updateDocumentMetadataReqSchema.parse(data);
+
+    // 更新文档元数据并同步到文档片段
+    await updateDocumentMetadata(req.metadata, documentId, datasetId, userId);
+
+    // 返回成功响应
+    return successResult({}, 200, '更新文档元数据成功');
+  } catch (error) {
+    // 处理并返回错误响应
+    return handleRouteError(error);
+  }
+}
@@ -89,6 +89,24 @@ type Params = { params: Promise<{ datasetId: string; documentId: string }> };
  *                     disabledAt:
  *                       type: integer
  *                       description: 文档的禁用时间（人为禁用时添加），默认为 0 表示无人工禁用
+ *                     metadata:
+ *                       type: object
+ *                       description: 文档元数据，检索时可以按元数据过滤
+ *                       properties:
+ *                         tags:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                           description: 标签列表
+ *                         source:
+ *                           type: string
+ *                           description: 文档来源
+ *                         department:
+ *                           type: string
+ *                           description: 所属部门
+ *                         date:
+ *                           type: string
+ *                           description: 文档日期，格式为 YYYY-MM-DD，空字符串表示未设置
  *                     status:
  *                       type: string
  *                       description: 文档的状态，类型为字符串，涵盖 waiting(等待中)、parsing(解析处理中)、splitting(分割中)、indexing(构建索引中)、completed(构建完成)、error(出错) 等，只有当构建完成时 enabled 才起作用
@@ -137,7 +155,7 @@ export async function GET(_: Request, { params }: Params) {
  *     tags:
  *       - Documents
  *     summary: 删除指定文档信息
- *     description: 该接口会根据传递的信息删除文档信息，并删除该文档下的片段信息，同时会将操作同步到向量数据库，在向量数据库中删除归属该文档的所有片段信息，该接口属于耗时接口，所以在后端使用异步任务队列的方式进行操作，完成基础信息的删除（例如文档记录）后，接口即会正常响应前端（删除文档、文档片段、关键词表数据、weaviate数据，同时在删除的时候需要上锁）。
+ *     description: 该接口会根据传递的信息删除文档信息，并删除该文档下的片段信息，同时会将操作同步到向量数据库，在向量数据库中删除归属该文档的所有片段信息，该接口属于耗时接口，所以在后端使用异步任务队列的方式进行操作，完成基础信息的删除（例如文档记录）后，接口即会正常响应前端（删除文档、文档片段、词项索引数据、weaviate数据，同时在删除的时候需要上锁）。
  *     parameters:
  *       - in: path
  *         name: datasetId
@@ -104,6 +104,24 @@ type Params = { params: Promise<{ datasetId: string }> };
  *                           disabledAt:
  *                             type: integer
  *                             description: 文档的禁用时间（人为禁用的时候记录），类型为时间戳，如果开启则为 0
+ *                           metadata:
+ *                             type: object
+ *                             description: 文档元数据，检索时可以按元数据过滤
+ *                             properties:
+ *                               tags:
+ *                                 type: array
+ *                                 items:
+ *                                   type: string
+ *                                 description: 标签列表
+ *                               source:
+ *                                 type: string
+ *                                 description: 文档来源
+ *                               department:
+ *                                 type: string
+ *                                 description: 所属部门
+ *                               date:
+ *                                 type: string
+ *                                 description: 文档日期，格式为 YYYY-MM-DD，空字符串表示未设置
  *                           status:
  *                             type: string
  *                             description: 文档的状态，涵盖 waiting(等待中)、parsing(解析处理中)、splitting(分割中)、indexing(构建索引中)、completed(构建完成)、error(出错) 等
@@ -219,6 +237,24 @@ export async function GET(request: Request, { params }: Params) {
  *                       chunkOverlap:
  *                         type: integer
  *                         description: 每个片段之间的重叠度
+ *               metadata:
+ *                 type: object
+ *                 description: 文档元数据（可选），应用到本次上传的所有文档，检索时可以按元数据过滤，标签最多 10 个，来源和部门不超过 100 个字符
+ *                 properties:
+ *                   tags:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                     description: 标签列表
+ *                   source:
+ *                     type: string
+ *                     description: 文档来源
+ *                   department:
+ *                     type: string
+ *                     description: 所属部门
+ *                   date:
+ *                     type: string
+ *                     description: 文档日期，格式为 YYYY-MM-DD，空字符串表示未设置
  *     responses:
  *       200:
  *         description: 创建成功
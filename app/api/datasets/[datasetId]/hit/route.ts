@@ -17,7 +17,7 @@ type Params = { params: Promise<{ datasetId: string }> };
  *     tags:
  *       - Datasets
  *     summary: 指定知识库进行召回测试
- *     description: 使用指定的知识库进行召回测试，用于检测不同的查询 query 在数据库中的检索效果，每次执行召回测试的时候都会将记录存储到最近查询列表中，返回的数据为检索到的文档片段列表。
+ *     description: 使用指定的知识库进行召回测试，用于检测不同的查询 query 在数据库中的检索效果，每次执行召回测试的时候都会将记录存储到最近查询列表中，返回的数据为检索到的文档片段列表。未传递的检索参数使用知识库的检索配置，知识库检索配置中的元数据过滤表达式始终生效。
  *     parameters:
  *       - in: path
  *         name: datasetId
@@ -34,9 +34,6 @@ type Params = { params: Promise<{ datasetId: string }> };
  *             type: object
  *             required:
  *               - query
- *               - retrievalStrategy
- *               - k
- *               - score
  *             properties:
  *               query:
  *                 type: string
@@ -44,19 +41,103 @@ type Params = { params: Promise<{ datasetId: string }> };
  *                 maxLength: 200
  *               retrievalStrategy:
  *                 type: string
- *                 description: 检索策略，类型为字符串，支持的值为 full_text(全文/关键词检索)、semantic(向量/相似性检索)、hybrid(混合检索)
+ *                 description: 检索策略，类型为字符串，支持的值为 full_text(全文/关键词检索)、semantic(向量/相似性检索)、hybrid(混合检索)，可选参数，未传递时使用知识库的检索配置
  *                 enum: [full_text, semantic, hybrid]
  *               k:
  *                 type: integer
- *                 description: 最大召回数量，类型为整型，数据范围为 0-10，必填参数
+ *                 description: 最大召回数量，类型为整型，数据范围为 0-10，可选参数，未传递时使用知识库的检索配置
  *                 minimum: 0
  *                 maximum: 10
  *               score:
  *                 type: number
  *                 format: float
- *                 description: 最小匹配度，类型为浮点型，范围从 0-1，保留 2 位小数，数字越大表示相似度越高
+ *                 description: 最小匹配度，类型为浮点型，范围从 0-1，保留 2 位小数，数字越大表示相似度越高，可选参数，未传递时使用知识库的检索配置
  *                 minimum: 0
  *                 maximum: 1
+ *               hybrid:
+ *                 type: object
+ *                 description: 混合检索配置，可选参数，仅在检索策略为 hybrid 时生效，未传递时使用知识库的检索配置，知识库也未配置时两种检索权重相等并使用倒数排名融合
+ *                 required:
+ *                   - semanticWeight
+ *                   - keywordWeight
+ *                   - fusionMethod
+ *                 properties:
+ *                   semanticWeight:
+ *                     type: number
+ *                     format: float
+ *                     description: 语义检索权重，范围从 0-1，与全文检索权重不能同时为 0
+ *                     minimum: 0
+ *                     maximum: 1
+ *                   keywordWeight:
+ *                     type: number
+ *                     format: float
+ *                     description: 全文检索权重，范围从 0-1
+ *                     minimum: 0
+ *                     maximum: 1
+ *                   fusionMethod:
+ *                     type: string
+ *                     description: 融合方式，支持的值为 weighted_score(按权重对归一化得分求和)、rrf(倒数排名融合)
+ *                     enum: [weighted_score, rrf]
+ *               rerank:
+ *                 type: object
+ *                 description: 重排序配置，可选参数，开启后召回的片段会按重排序得分重新排序并过滤，未传递时使用知识库的检索配置
+ *                 required:
+ *                   - enable
+ *                   - topN
+ *                   - score
+ *                 properties:
+ *                   enable:
+ *                     type: boolean
+ *                     description: 是否开启重排序
+ *                   topN:
+ *                     type: integer
+ *                     description: 重排序后保留的片段数量，数据范围为 1-10
+ *                     minimum: 1
+ *                     maximum: 10
+ *                   score:
+ *                     type: number
+ *                     format: float
+ *                     description: 最小重排序得分，范围从 0-1，低于该得分的片段会被过滤
+ *                     minimum: 0
+ *                     maximum: 1
+ *               filter:
+ *                 type: object
+ *                 description: 元数据过滤表达式，可选参数，只召回元数据满足条件的文档片段，例如 date gte 2024-01-01，与知识库检索配置中的过滤表达式同时生效
+ *                 required:
+ *                   - logic
+ *                   - conditions
+ *                 properties:
+ *                   logic:
+ *                     type: string
+ *                     enum: [and, or]
+ *                     description: 条件组合方式，and 表示同时满足所有条件，or 表示满足任一条件
+ *                   conditions:
+ *                     type: array
+ *                     minItems: 1
+ *                     maxItems: 10
+ *                     description: 过滤条件列表，1-10 个
+ *                     items:
+ *                       type: object
+ *                       required:
+ *                         - field
+ *                         - operator
+ *                         - value
+ *                       properties:
+ *                         field:
+ *                           type: string
+ *                           enum: [tags, source, department, date]
+ *                           description: 元数据字段
+ *                         operator:
+ *                           type: string
+ *                           enum: [eq, ne, in, contains_any, contains_all, gt, gte, lt, lte]
+ *                           description: 过滤运算符，tags 支持 contains_any、contains_all，source 和 department 支持 eq、ne、in，date 支持 eq、gt、gte、lt、lte
+ *                         value:
+ *                           oneOf:
+ *                             - type: string
+ *                             - type: array
+ *                               items:
+ *                                 type: string
+ *                           description: 比较的值，in、contains_any、contains_all 为字符串数组，其余为字符串，日期格式为 YYYY-MM-DD
  *     responses:
  *       200:
  *         description: 召回测试成功
@@ -101,7 +182,7 @@ type Params = { params: Promise<{ datasetId: string }> };
  *                       score:
  *                         type: number
  *                         format: float
- *                         description: 片段的召回得分，类型为浮点型，数值范围从 0-1，只有检索类型为相似性检索的时候才会返回得分，full_text 和 hybrid 这两种检索策略不会计算召回得分（返回结果为 0）
+ *                         description: 片段的召回得分，类型为浮点型，数值范围从 0-1，只有检索类型为相似性检索的时候才会返回得分，full_text 检索为命中关键词的比例，hybrid 检索为融合后的得分；开启重排序时为重排序得分
  *                       position:
  *                         type: integer
  *                         description: 片段在文档内的位置，数字越小越靠前（自然排序）
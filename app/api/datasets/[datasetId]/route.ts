@@ -2,7 +2,7 @@
  * 知识库管理 API 路由处理模块
  *
  * 该模块提供了知识库的更新、删除和查询功能，包括：
- * - PUT: 更新知识库信息（名称、图标、描述等）
+ * - PUT: 更新知识库信息（名称、图标、描述、检索配置等）
  * - DELETE: 删除指定知识库及其关联数据
  * - GET: 获取知识库详细信息
  */
@@ -26,7 +26,7 @@ type Params = { params: Promise<{ datasetId: string }> };
  *     tags:
  *       - Datasets
  *     summary: 更新指定知识库信息
- *     description: 该接口主要用于更新指定的知识库信息，涵盖：知识库名称、图标、描述等信息。
+ *     description: 该接口主要用于更新指定的知识库信息，涵盖：知识库名称、图标、描述、检索配置等信息。
  *     parameters:
  *       - in: path
  *         name: datasetId
@@ -56,6 +56,41 @@ type Params = { params: Promise<{ datasetId: string }> };
  *                 type: string
  *                 maxLength: 2000
  *                 description: 需要更新的知识库描述，长度不超过 2000 个字符，如果为空，会先删除原有的描述信息，并且在后端自动生成类似 `Useful for when you want to answer queries about the xxx` 的描述，在后端确保该字段永远不会为空
+ *               retrievalConfig:
+ *                 type: object
+ *                 description: 可选参数，需要更新的知识库检索配置，未传递时保持原有的检索配置
+ *                 required:
+ *                   - retrievalStrategy
+ *                   - k
+ *                   - score
+ *                 properties:
+ *                   retrievalStrategy:
+ *                     type: string
+ *                     enum: [full_text, semantic, hybrid]
+ *                     description: 召回测试默认使用的检索策略
+ *                   k:
+ *                     type: integer
+ *                     minimum: 1
+ *                     maximum: 10
+ *                     description: 召回测试默认的最大召回数量
+ *                   score:
+ *                     type: number
+ *                     format: float
+ *                     minimum: 0
+ *                     maximum: 0.99
+ *                     description: 召回测试默认的最小匹配度
+ *                   hybrid:
+ *                     type: object
+ *                     nullable: true
+ *                     description: 召回测试默认的混合检索配置，结构与召回测试接口的 hybrid 相同，为 null 时两种检索权重相等并使用倒数排名融合
+ *                   rerank:
+ *                     type: object
+ *                     nullable: true
+ *                     description: 召回测试默认的重排序配置，结构与召回测试接口的 rerank 相同，为 null 时不进行重排序
+ *                   filter:
+ *                     type: object
+ *                     nullable: true
+ *                     description: 知识库的元数据过滤表达式，结构与召回测试接口的 filter 相同，在召回测试和应用、工作流的检索中只作用于该知识库的片段，并与检索请求的过滤表达式同时生效，为 null 时不过滤
  *     responses:
  *       200:
  *         description: 更新成功
@@ -77,8 +112,16 @@ export async function PUT(request: Request, { params }: Params) {
   try {
     const { userId } = await verifyApiKey();
     const [{ datasetId }, data] = await Promise.all([params, request.json()]);
-    const { name, icon, description } = updateDatasetReqSchema.parse(data);
-    await updateDataset(userId, datasetId, name, icon, description);
+    const { name, icon, description, retrievalConfig } =
+      updateDatasetReqSchema.parse(data);
+    await updateDataset(
+      userId,
+      datasetId,
+      name,
+      icon,
+      description,
+      retrievalConfig,
+    );
     return successResult({}, 200, '更新知识库成功');
   } catch (e) {
     return handleRouteError(e);
@@ -172,6 +215,9 @@ export async function DELETE(_: Request, { params }: Params) {
  *                     description:
  *                       type: string
  *                       description: 知识库的描述信息
+ *                     retrievalConfig:
+ *                       type: object
+ *                       description: 知识库的检索配置，包含召回测试默认使用的 retrievalStrategy、k、score、hybrid、rerank，以及在所有检索中生效的元数据过滤表达式 filter
  *                     documentCount:
  *                       type: integer
  *                       description: 知识库下的文档数量
@@ -148,6 +148,41 @@ export async function GET(request: Request) {
  *                 type: string
  *                 description: 可选参数，知识库的描述信息，描述最大不能超过 2000 个字符，当该参数没有填写时，会自动生成类似 "Useful for when you want to answer queries about the xxx" 的描述
  *                 maxLength: 2000
+ *               retrievalConfig:
+ *                 type: object
+ *                 description: 可选参数，知识库的检索配置，未传递时使用默认检索配置（语义检索、召回 4 个片段、最小匹配度 0、不过滤）
+ *                 required:
+ *                   - retrievalStrategy
+ *                   - k
+ *                   - score
+ *                 properties:
+ *                   retrievalStrategy:
+ *                     type: string
+ *                     enum: [full_text, semantic, hybrid]
+ *                     description: 召回测试默认使用的检索策略
+ *                   k:
+ *                     type: integer
+ *                     minimum: 1
+ *                     maximum: 10
+ *                     description: 召回测试默认的最大召回数量
+ *                   score:
+ *                     type: number
+ *                     format: float
+ *                     minimum: 0
+ *                     maximum: 0.99
+ *                     description: 召回测试默认的最小匹配度
+ *                   hybrid:
+ *                     type: object
+ *                     nullable: true
+ *                     description: 召回测试默认的混合检索配置，结构与召回测试接口的 hybrid 相同，为 null 时两种检索权重相等并使用倒数排名融合
+ *                   rerank:
+ *                     type: object
+ *                     nullable: true
+ *                     description: 召回测试默认的重排序配置，结构与召回测试接口的 rerank 相同，为 null 时不进行重排序
+ *                   filter:
+ *                     type: object
+ *                     nullable: true
+ *                     description: 知识库的元数据过滤表达式，结构与召回测试接口的 filter 相同，在召回测试和应用、工作流的检索中只作用于该知识库的片段，并与检索请求的过滤表达式同时生效，为 null 时不过滤
  *     responses:
  *       200:
  *         description: 创建成功
@@ -174,8 +209,15 @@ export async function POST(request: Request) {
   try {
     const { userId } = await verifyApiKey();
     const data = await request.json();
-    const { name, icon, description } = createDatasetReqSchema.parse(data);
-    const result = await createDataset(userId, name, icon, description);
+    const { name, icon, description, retrievalConfig } =
+      createDatasetReqSchema.parse(data);
+    const result = await createDataset(
+      userId,
+      name,
+      icon,
+      description,
+      retrievalConfig,
+    );
     return successResult(
       {
         datasetId: result.id,
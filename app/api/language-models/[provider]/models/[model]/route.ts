@@ -0,0 +1,95 @@
+/**
+ * 语言模型详情 API 路由
+ * 提供获取指定模型详细信息的功能
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { getLanguageModelInfo } from '@/services/language-model';
+
+type Params = { params: Promise<{ provider: string; model: string }> };
+
+/**
+ * @swagger
+ * /api/language-models/{provider}/models/{model}:
+ *   get:
+ *     summary: 获取指定语言模型的信息
+ *     description: 根据传递的提供商名称和模型名称获取对应模型的详情，包含模型特性、参数定义与价格信息，用于在 AI 应用编排页面渲染模型参数设置
+ *     tags:
+ *       - Language Models
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: 模型提供商名称，例如 openai
+ *       - in: path
+ *         name: model
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: 模型名称，例如 gpt-4o-mini
+ *     responses:
+ *       200:
+ *         description: 成功获取模型信息
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     provider:
+ *                       type: object
+ *                       properties:
+ *                         name:
+ *                           type: string
+ *                         label:
+ *                           type: string
+ *                         description:
+ *                           type: string
+ *                         icon:
+ *                           type: string
+ *                         background:
+ *                           type: string
+ *                     model:
+ *                       type: string
+ *                       description: 模型名称
+ *                     label:
+ *                       type: string
+ *                       description: 模型的标签
+ *                     features:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     contextWindow:
+ *                       type: integer
+ *                     maxOutputTokens:
+ *                       type: integer
+ *                     parameters:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     pricing:
+ *                       type: object
+ *                 message:
+ *                   type: string
+ *                   example: ""
+ *       404:
+ *         description: 模型提供商或模型不存在
+ */
+export async function GET(_: Request, { params }: Params) {
+  try {
+    await verifyApiKey();
+    const { provider, model } = await params;
+    const modelInfo = getLanguageModelInfo(provider, model);
+    return successResult(modelInfo);
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
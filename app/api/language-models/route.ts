@@ -0,0 +1,133 @@
+/**
+ * 语言模型 API 路由模块
+ *
+ * 该模块提供了获取 LLMOps 项目中所有可用语言模型的 API 接口。
+ * 主要用于 AI 应用编排页面选择模型与渲染模型参数表单。
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { getLanguageModels } from '@/services/language-model';
+
+/**
+ * @swagger
+ * /api/language-models:
+ *   get:
+ *     summary: 获取所有语言模型列表信息
+ *     description: 获取 LLMOps 项目中所有语言模型提供商及其模型列表，包含模型特性、参数定义与价格信息，该接口无分页，适用于 `AI应用编排` 页面的模型选择。
+ *     tags:
+ *       - Language Models
+ *     responses:
+ *       200:
+ *         description: 成功获取语言模型列表
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       name:
+ *                         type: string
+ *                         description: 提供商的名称，对应模型配置中的 provider
+ *                         example: openai
+ *                       label:
+ *                         type: string
+ *                         description: 提供商对应的标签
+ *                       description:
+ *                         type: string
+ *                         description: 提供商对应的描述信息
+ *                       icon:
+ *                         type: string
+ *                         description: 提供商 icon 图标
+ *                       background:
+ *                         type: string
+ *                         description: 提供商 icon 图标的背景
+ *                       models:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             model:
+ *                               type: string
+ *                               description: 模型名称，对应模型配置中的 model
+ *                               example: gpt-4o-mini
+ *                             label:
+ *                               type: string
+ *                               description: 模型的标签
+ *                             features:
+ *                               type: array
+ *                               description: 模型支持的特性，tool_call(工具调用)、agent_thought(智能体推理)、image_input(图片输入)
+ *                               items:
+ *                                 type: string
+ *                             contextWindow:
+ *                               type: integer
+ *                               description: 模型上下文窗口大小
+ *                             maxOutputTokens:
+ *                               type: integer
+ *                               description: 模型单次最大输出 token 数
+ *                             parameters:
+ *                               type: array
+ *                               items:
+ *                                 type: object
+ *                                 properties:
+ *                                   name:
+ *                                     type: string
+ *                                     description: 参数的名字
+ *                                   label:
+ *                                     type: string
+ *                                     description: 参数对应的标签
+ *                                   help:
+ *                                     type: string
+ *                                     description: 参数的帮助信息
+ *                                   type:
+ *                                     type: string
+ *                                     description: 参数的类型，float 或 int
+ *                                   required:
+ *                                     type: boolean
+ *                                     description: 参数是否必填
+ *                                   default:
+ *                                     type: number
+ *                                     description: 参数的默认值
+ *                                   min:
+ *                                     type: number
+ *                                     description: 参数的最小值
+ *                                   max:
+ *                                     type: number
+ *                                     description: 参数的最大值
+ *                                   precision:
+ *                                     type: integer
+ *                                     description: 浮点数参数保留的小数位数
+ *                             pricing:
+ *                               type: object
+ *                               properties:
+ *                                 inputPrice:
+ *                                   type: number
+ *                                   description: 输入单价（每千 token）
+ *                                 outputPrice:
+ *                                   type: number
+ *                                   description: 输出单价（每千 token）
+ *                                 unit:
+ *                                   type: number
+ *                                   description: 价格单位
+ *                                 currency:
+ *                                   type: string
+ *                                   description: 货币类型，USD 或 CNY
+ *                 message:
+ *                   type: string
+ *                   example: ""
+ */
+export async function GET() {
+  try {
+    await verifyApiKey();
+    return successResult(getLanguageModels());
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,307 @@
+/**
+ * 开放 API 聊天路由
+ *
+ * 该文件实现了面向第三方的聊天接口，使用 API 秘钥授权后即可与已发布的 AI 应用对话。
+ * 支持流式事件响应与阻塞式 JSON 响应两种方式，并支持同一应用下多个终端用户的独立会话。
+ *
+ * 主要功能：
+ * - 验证 API 密钥和用户身份
+ * - 校验应用发布状态、终端用户与会话归属
+ * - 根据 stream 参数返回流式响应或阻塞式响应
+ * - 错误处理
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { openapiChatReqSchema } from '@/schemas/openapi-schema';
+import {
+  openapiChatBlocking,
+  openapiChatStream,
+  prepareOpenapiChat,
+} from '@/services/openapi';
+
+/**
+ * @swagger
+ * /api/openapi/chat:
+ *   post:
+ *     tags:
+ *       - OpenAPI
+ *     summary: 开放 API 聊天
+ *     description: 使用 API 秘钥与已发布的 AI 应用进行对话，后端会根据应用的发布配置创建 Agent 执行。未传递 endUserId 时会自动创建终端用户，未传递 conversationId 时会自动创建新会话，调用方需要保存返回的 endUserId 与 conversationId 以实现多轮对话。stream 为 true 时为流式事件响应，为 false 时等待 Agent 执行完毕后一次性返回结果。调用 POST/PUT/PATCH/DELETE 请求方法的 API 工具前需要终端用户审批：流式响应会返回 tool_approval 事件并暂停运行，通过 /api/openapi/chat/tasks/{taskId}/approve 接口审批后继续运行；阻塞式响应无法审批，这些工具调用会被直接拒绝执行。
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - appId
+ *               - query
+ *             properties:
+ *               appId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: 需要对话的已发布应用 id
+ *               endUserId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: 终端用户 id，为空时自动创建新的终端用户
+ *               conversationId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: 会话 id，为空时自动创建新的会话，必须归属于传递的终端用户
+ *               query:
+ *                 type: string
+ *                 maxLength: 2000
+ *                 description: 用户发起的提问信息
+ *                 example: "能详细讲解下LLM是什么吗？"
+ *               imageUrls:
+ *                 type: array
+ *                 maxItems: 5
+ *                 description: 通过 /api/upload-files/image 接口上传的图片 URL 列表，应用的模型不支持图片输入时返回 400 错误
+ *                 items:
+ *                   type: string
+ *                   format: uri
+ *               regenerateMessageId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: 需要重新生成或编辑后重新发送的原消息 id，必须同时传递 conversationId，新消息与原消息拥有相同的父消息并成为当前分支
+ *               stream:
+ *                 type: boolean
+ *                 default: true
+ *                 description: 是否使用流式事件响应
+ *     responses:
+ *       200:
+ *         description: 对话成功，stream 为 true 时返回流式事件，为 false 时返回 JSON 结果
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 event:
+ *                   type: string
+ *                   description: 流式事件的名称，例如：agent_thought、agent_message、agent_action、dataset_retrieval、tool_approval、agent_end、error 等，代理运行失败时返回 error 事件，observation 为错误信息
+ *                   example: "agent_message"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                       format: uuid
+ *                       description: 当前 Agent 步骤记录的 id，同一步骤的多次流式事件 id 一致
+ *                     endUserId:
+ *                       type: string
+ *                       format: uuid
+ *                       description: 终端用户 id
+ *                     conversationId:
+ *                       type: string
+ *                       format: uuid
+ *                       description: 会话 id
+ *                     messageId:
+ *                       type: string
+ *                       format: uuid
+ *                       description: 消息 id
+ *                     taskId:
+ *                       type: string
+ *                       format: uuid
+ *                       description: 任务 id
+ *                     thought:
+ *                       type: string
+ *                       description: Agent 推理内容
+ *                     observation:
+ *                       type: string
+ *                       description: Agent 观察的内容
+ *                     tool:
+ *                       type: string
+ *                       description: 调用的工具名称
+ *                     toolInput:
+ *                       type: object
+ *                       description: 工具输入参数
+ *                     answer:
+ *                       type: string
+ *                       description: Agent 返回的文本答案
+ *                     structuredAnswer:
+ *                       type: object
+ *                       nullable: true
+ *                       description: 应用启用结构化输出时，符合 JSON Schema 的回答对象，仅在 agent_message 事件中返回，未启用时为 null
+ *                     citations:
+ *                       type: array
+ *                       description: 流式输出时仅在 dataset_retrieval 事件中返回该次检索召回片段的引用来源，其余事件为空列表
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             description: 引用编号，回答中以 [^引用编号] 的格式标注，同一片段的引用编号始终相同
+ *                           datasetId:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 片段所属的知识库 id
+ *                           documentId:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 片段所属的文档 id
+ *                           documentName:
+ *                             type: string
+ *                             description: 片段所属的文档名称
+ *                           segmentId:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 片段 id
+ *                           position:
+ *                             type: integer
+ *                             description: 片段在文档中的位置
+ *                           snippet:
+ *                             type: string
+ *                             description: 片段内容摘要，最多 200 个字符
+ *                           score:
+ *                             type: number
+ *                             format: float
+ *                             description: 片段的检索得分
+ *                     latency:
+ *                       type: number
+ *                       description: 步骤的执行耗时，单位为毫秒
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                       format: uuid
+ *                       description: 消息 id
+ *                     endUserId:
+ *                       type: string
+ *                       format: uuid
+ *                       description: 终端用户 id
+ *                     conversationId:
+ *                       type: string
+ *                       format: uuid
+ *                       description: 会话 id
+ *                     query:
+ *                       type: string
+ *                       description: 用户提问信息
+ *                     imageUrls:
+ *                       type: array
+ *                       description: 用户提问附带的图片 URL 列表
+ *                       items:
+ *                         type: string
+ *                     answer:
+ *                       type: string
+ *                       description: Agent 返回的完整答案
+ *                     structuredAnswer:
+ *                       type: object
+ *                       nullable: true
+ *                       description: 应用启用结构化输出时，符合 JSON Schema 的回答对象，未启用时为 null
+ *                     citations:
+ *                       type: array
+ *                       description: 本次回答中知识库检索召回片段的引用来源，按片段去重
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             description: 引用编号，回答中以 [^引用编号] 的格式标注，同一片段的引用编号始终相同
+ *                           datasetId:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 片段所属的知识库 id
+ *                           documentId:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 片段所属的文档 id
+ *                           documentName:
+ *                             type: string
+ *                             description: 片段所属的文档名称
+ *                           segmentId:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 片段 id
+ *                           position:
+ *                             type: integer
+ *                             description: 片段在文档中的位置
+ *                           snippet:
+ *                             type: string
+ *                             description: 片段内容摘要，最多 200 个字符
+ *                           score:
+ *                             type: number
+ *                             format: float
+ *                             description: 片段的检索得分
+ *                     totalTokenCount:
+ *                       type: integer
+ *                       description: 消耗的总 token 数
+ *                     totalPrice:
+ *                       type: number
+ *                       description: 消耗的总费用
+ *                     latency:
+ *                       type: number
+ *                       description: 总耗时，单位为毫秒
+ *                     agentThoughts:
+ *                       type: array
+ *                       description: Agent 执行步骤列表
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             format: uuid
+ *                           event:
+ *                             type: string
+ *                           thought:
+ *                             type: string
+ *                           observation:
+ *                             type: string
+ *                           tool:
+ *                             type: string
+ *                           toolInput:
+ *                             type: object
+ *                           latency:
+ *                             type: number
+ *                 message:
+ *                   type: string
+ *                   example: 对话成功
+ *       400:
+ *         description: 请求参数错误或应用未发布
+ *       401:
+ *         description: API 秘钥无效
+ *       404:
+ *         description: 应用、终端用户或会话不存在
+ */
+export async function POST(request: Request) {
+  try {
+    const [{ userId }, body] = await Promise.all([
+      verifyApiKey(),
+      request.json(),
+    ]);
+    const req = openapiChatReqSchema.parse(body);
+
+    // 在开始响应之前完成所有校验与数据准备
+    const context = await prepareOpenapiChat(userId, req);
+
+    if (!req.stream) {
+      const result = await openapiChatBlocking(userId, context);
+      return successResult(result, 200, '对话成功');
+    }
+
+    // 创建流式响应通道
+    const { readable, writable } = new TransformStream();
+    const writer = writable.getWriter();
+
+    openapiChatStream(userId, context, writer);
+
+    return new Response(readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * 开放 API 工具调用审批路由
+ *
+ * 该文件实现了终端用户审批流式聊天中等待执行的工具调用的接口。
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { approveEndUserChatTaskReqSchema } from '@/schemas/openapi-schema';
+import { approveEndUserChatTask } from '@/services/openapi';
+
+/**
+ * 路由参数类型定义
+ * @property {Promise<{taskId: string}>} params - 包含任务 ID 的参数对象
+ */
+type Params = { params: Promise<{ taskId: string }> };
+
+/**
+ * @swagger
+ * /api/openapi/chat/tasks/{taskId}/approve:
+ *   post:
+ *     tags:
+ *       - OpenAPI
+ *     summary: 终端用户审批等待执行的工具调用
+ *     description: 流式聊天中调用 POST/PUT/PATCH/DELETE 请求方法的 API 工具前，流式事件会返回 tool_approval 事件并暂停运行，该接口用于终端用户批准（可修改工具参数）或拒绝这些工具调用，提交后对话任务会恢复运行。超过 5 分钟未审批视为拒绝执行。
+ *     parameters:
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 等待审批的任务 id，来自流式事件的 taskId
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - endUserId
+ *               - approved
+ *             properties:
+ *               endUserId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: 任务所属的终端用户 id
+ *               approved:
+ *                 type: boolean
+ *                 description: 是否批准执行工具调用
+ *               toolCalls:
+ *                 type: array
+ *                 description: 修改后的工具调用参数，只需要传递修改过参数的工具调用，工具调用 id 来自 tool_approval 事件
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                       description: 工具调用 id
+ *                     args:
+ *                       type: object
+ *                       description: 修改后的工具参数
+ *               reason:
+ *                 type: string
+ *                 description: 拒绝原因，会反馈给模型，最多500个字符
+ *     responses:
+ *       200:
+ *         description: 审批成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   description: 空对象，无返回数据
+ *                 message:
+ *                   type: string
+ *                   example: 审批工具调用成功
+ */
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const [{ userId }, { taskId }, body] = await Promise.all([
+      verifyApiKey(),
+      params,
+      req.json(),
+    ]);
+    const data = approveEndUserChatTaskReqSchema.parse(body);
+
+    await approveEndUserChatTask(userId, taskId, data);
+    return successResult({}, 200, '审批工具调用成功');
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
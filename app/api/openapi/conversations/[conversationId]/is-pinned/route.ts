@@ -0,0 +1,80 @@
+/**
+ * 终端用户会话置顶状态管理路由
+ *
+ * 该模块提供了置顶与取消置顶终端用户会话的接口。
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { updateEndUserConversationIsPinnedReqSchema } from '@/schemas/openapi-schema';
+import { updateEndUserConversationIsPinned } from '@/services/openapi';
+
+/**
+ * 路由参数类型定义
+ * @property {Promise<{conversationId: string}>} params - 包含会话 ID 的参数对象
+ */
+type Params = { params: Promise<{ conversationId: string }> };
+
+/**
+ * @swagger
+ * /api/openapi/conversations/{conversationId}/is-pinned:
+ *   patch:
+ *     tags:
+ *       - OpenAPI
+ *     summary: 置顶或取消置顶终端用户会话
+ *     description: 修改终端用户会话的置顶状态，置顶的会话在会话列表中排在前面。
+ *     parameters:
+ *       - in: path
+ *         name: conversationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 会话 id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - endUserId
+ *               - isPinned
+ *             properties:
+ *               endUserId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: 会话所属的终端用户 id
+ *               isPinned:
+ *                 type: boolean
+ *                 description: 是否置顶会话，true 为置顶，false 为取消置顶
+ *     responses:
+ *       200:
+ *         description: 修改会话置顶状态成功
+ *       404:
+ *         description: 终端用户或会话不存在
+ */
+export async function PATCH(request: Request, { params }: Params) {
+  try {
+    const [{ userId }, { conversationId }, body] = await Promise.all([
+      verifyApiKey(),
+      params,
+      request.json(),
+    ]);
+    const { endUserId, isPinned } =
+      updateEndUserConversationIsPinnedReqSchema.parse(body);
+    await updateEndUserConversationIsPinned(
+      userId,
+      endUserId,
+      conversationId,
+      isPinned,
+    );
+    return successResult(
+      {},
+      200,
+      isPinned ? '置顶会话成功' : '取消置顶会话成功',
+    );
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * 终端用户会话消息路由
+ *
+ * 该模块提供了分页获取终端用户会话消息历史的接口，支持基于时间戳游标的分页查询。
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { getEndUserConversationMessagesReqSchema } from '@/schemas/openapi-schema';
+import { getEndUserConversationMessagesByPage } from '@/services/openapi';
+import { createLoader, parseAsInteger, parseAsString } from 'nuqs/server';
+
+/**
+ * 路由参数类型定义
+ * @property {Promise<{conversationId: string}>} params - 包含会话 ID 的参数对象
+ */
+type Params = { params: Promise<{ conversationId: string }> };
+
+/**
+ * 消息分页查询参数加载器
+ *
+ * @param endUserId - 会话所属的终端用户 id
+ * @param createdAt - 分页起点时间戳游标，用于避免数据重复加载
+ * @param currentPage - 当前页数，默认为 1
+ * @param pageSize - 每页数据条数，默认为 10
+ */
+const loadMessagesPageReqParams = createLoader({
+  endUserId: parseAsString.withDefault(''),
+  createdAt: parseAsInteger,
+  currentPage: parseAsInteger.withDefault(1),
+  pageSize: parseAsInteger.withDefault(10),
+});
+
+/**
+ * @swagger
+ * /api/openapi/conversations/{conversationId}/messages:
+ *   get:
+ *     tags:
+ *       - OpenAPI
+ *     summary: 获取终端用户会话消息历史
+ *     description: 分页获取终端用户会话的消息历史，按创建时间倒序排列，只返回已经生成回答的消息。
+ *     parameters:
+ *       - in: path
+ *         name: conversationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 会话 id
+ *       - in: query
+ *         name: endUserId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 会话所属的终端用户 id
+ *       - in: query
+ *         name: createdAt
+ *         required: false
+ *         schema:
+ *           type: integer
+ *         description: 分页起点时间戳游标，只返回该时间之前创建的消息，用于避免分页过程中新消息导致的数据重复
+ *       - in: query
+ *         name: currentPage
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: 当前页数
+ *       - in: query
+ *         name: pageSize
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 10
+ *         description: 每页数据条数
+ *     responses:
+ *       200:
+ *         description: 获取消息列表成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     list:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 消息 id
+ *                           conversationId:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 会话 id
+ *                           parentId:
+ *                             type: string
+ *                             description: 消息树中的父消息 id，会话的第一条消息为空字符串，重新生成的消息与原消息拥有相同的父消息
+ *                           query:
+ *                             type: string
+ *                             description: 用户提问信息
+ *                           imageUrls:
+ *                             type: array
+ *                             description: 提问附带的图片 URL 列表
+ *                             items:
+ *                               type: string
+ *                           answer:
+ *                             type: string
+ *                             description: Agent 返回的完整答案
+ *                           structuredAnswer:
+ *                             type: object
+ *                             nullable: true
+ *                             description: 应用启用结构化输出时，符合 JSON Schema 的回答对象
+ *                           citations:
+ *                             type: array
+ *                             description: 知识库检索召回片段的引用来源，按片段去重，回答中以 [^引用编号] 的格式标注引用
+ *                             items:
+ *                               type: object
+ *                               properties:
+ *                                 id:
+ *                                   type: string
+ *                                   description: 引用编号，回答中以 [^引用编号] 的格式标注，同一片段的引用编号始终相同
+ *                                 datasetId:
+ *                                   type: string
+ *                                   format: uuid
+ *                                   description: 片段所属的知识库 id
+ *                                 documentId:
+ *                                   type: string
+ *                                   format: uuid
+ *                                   description: 片段所属的文档 id
+ *                                 documentName:
+ *                                   type: string
+ *                                   description: 片段所属的文档名称
+ *                                 segmentId:
+ *                                   type: string
+ *                                   format: uuid
+ *                                   description: 片段 id
+ *                                 position:
+ *                                   type: integer
+ *                                   description: 片段在文档中的位置
+ *                                 snippet:
+ *                                   type: string
+ *                                   description: 片段内容摘要，最多 200 个字符
+ *                                 score:
+ *                                   type: number
+ *                                   format: float
+ *                                   description: 片段的检索得分
+ *                           totalTokenCount:
+ *                             type: integer
+ *                             description: 消耗的总 token 数
+ *                           latency:
+ *                             type: number
+ *                             description: 响应耗时，单位为毫秒
+ *                           createdAt:
+ *                             type: integer
+ *                             description: 消息的创建时间戳
+ *                     paginator:
+ *                       type: object
+ *                       properties:
+ *                         currentPage:
+ *                           type: integer
+ *                         pageSize:
+ *                           type: integer
+ *                         totalPage:
+ *                           type: integer
+ *                         totalRecord:
+ *                           type: integer
+ *                 message:
+ *                   type: string
+ *       404:
+ *         description: 终端用户或会话不存在
+ */
+export async function GET(request: Request, { params }: Params) {
+  try {
+    const [{ userId }, { conversationId }] = await Promise.all([
+      verifyApiKey(),
+      params,
+    ]);
+    const req = getEndUserConversationMessagesReqSchema.parse(
+      loadMessagesPageReqParams(request),
+    );
+    const result = await getEndUserConversationMessagesByPage(
+      userId,
+      conversationId,
+      req,
+    );
+    return successResult(result);
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * 终端用户会话名称管理路由
+ *
+ * 该模块提供了修改终端用户会话名称的接口。
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { updateEndUserConversationNameReqSchema } from '@/schemas/openapi-schema';
+import { updateEndUserConversationName } from '@/services/openapi';
+
+/**
+ * 路由参数类型定义
+ * @property {Promise<{conversationId: string}>} params - 包含会话 ID 的参数对象
+ */
+type Params = { params: Promise<{ conversationId: string }> };
+
+/**
+ * @swagger
+ * /api/openapi/conversations/{conversationId}/name:
+ *   patch:
+ *     tags:
+ *       - OpenAPI
+ *     summary: 修改终端用户会话名称
+ *     description: 修改终端用户会话的名称。
+ *     parameters:
+ *       - in: path
+ *         name: conversationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 会话 id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - endUserId
+ *               - name
+ *             properties:
+ *               endUserId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: 会话所属的终端用户 id
+ *               name:
+ *                 type: string
+ *                 minLength: 1
+ *                 maxLength: 100
+ *                 description: 新的会话名称
+ *     responses:
+ *       200:
+ *         description: 修改会话名称成功
+ *       404:
+ *         description: 终端用户或会话不存在
+ */
+export async function PATCH(request: Request, { params }: Params) {
+  try {
+    const [{ userId }, { conversationId }, body] = await Promise.all([
+      verifyApiKey(),
+      params,
+      request.json(),
+    ]);
+    const { endUserId, name } =
+      updateEndUserConversationNameReqSchema.parse(body);
+    await updateEndUserConversationName(
+      userId,
+      endUserId,
+      conversationId,
+      name,
+    );
+    return successResult({}, 200, '修改会话名称成功');
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
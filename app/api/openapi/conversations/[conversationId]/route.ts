@@ -0,0 +1,71 @@
+/**
+ * 终端用户会话删除路由
+ *
+ * 该模块提供了删除终端用户会话的接口，删除后的会话不能继续对话。
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { endUserConversationReqSchema } from '@/schemas/openapi-schema';
+import { deleteEndUserConversation } from '@/services/openapi';
+import { createLoader, parseAsString } from 'nuqs/server';
+
+/**
+ * 路由参数类型定义
+ * @property {Promise<{conversationId: string}>} params - 包含会话 ID 的参数对象
+ */
+type Params = { params: Promise<{ conversationId: string }> };
+
+/**
+ * 会话操作查询参数加载器
+ *
+ * @param endUserId - 会话所属的终端用户 id
+ */
+const loadEndUserConversationReqParams = createLoader({
+  endUserId: parseAsString.withDefault(''),
+});
+
+/**
+ * @swagger
+ * /api/openapi/conversations/{conversationId}:
+ *   delete:
+ *     tags:
+ *       - OpenAPI
+ *     summary: 删除终端用户会话
+ *     description: 删除终端用户的会话，删除后的会话不会出现在会话列表中，也不能继续对话。
+ *     parameters:
+ *       - in: path
+ *         name: conversationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 会话 id
+ *       - in: query
+ *         name: endUserId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 会话所属的终端用户 id
+ *     responses:
+ *       200:
+ *         description: 删除会话成功
+ *       404:
+ *         description: 终端用户或会话不存在
+ */
+export async function DELETE(request: Request, { params }: Params) {
+  try {
+    const [{ userId }, { conversationId }] = await Promise.all([
+      verifyApiKey(),
+      params,
+    ]);
+    const { endUserId } = endUserConversationReqSchema.parse(
+      loadEndUserConversationReqParams(request),
+    );
+    await deleteEndUserConversation(userId, endUserId, conversationId);
+    return successResult({}, 200, '删除会话成功');
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * 终端用户会话列表路由
+ *
+ * 该模块提供了分页获取终端用户会话列表的接口，
+ * 用于 Web 应用与服务 API 的终端用户查看自己的历史会话。
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { getEndUserConversationsReqSchema } from '@/schemas/openapi-schema';
+import { listEndUserConversationsByPage } from '@/services/openapi';
+import {
+  createLoader,
+  parseAsBoolean,
+  parseAsInteger,
+  parseAsString,
+} from 'nuqs/server';
+
+/**
+ * 会话列表查询参数加载器
+ *
+ * @param endUserId - 终端用户 id
+ * @param isPinned - 可选的置顶状态过滤
+ * @param currentPage - 当前页数，默认为 1
+ * @param pageSize - 每页数据条数，默认为 10
+ */
+const loadConversationsReqParams = createLoader({
+  endUserId: parseAsString.withDefault(''),
+  isPinned: parseAsBoolean,
+  currentPage: parseAsInteger.withDefault(1),
+  pageSize: parseAsInteger.withDefault(10),
+});
+
+/**
+ * @swagger
+ * /api/openapi/conversations:
+ *   get:
+ *     tags:
+ *       - OpenAPI
+ *     summary: 获取终端用户会话列表
+ *     description: 分页获取终端用户在 Web 应用与服务 API 中创建的会话列表，不包含已删除的会话，置顶的会话排在前面，其余按创建时间倒序排列。
+ *     parameters:
+ *       - in: query
+ *         name: endUserId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 终端用户 id
+ *       - in: query
+ *         name: isPinned
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *         description: 置顶状态过滤，为空时返回全部会话
+ *       - in: query
+ *         name: currentPage
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: 当前页数
+ *       - in: query
+ *         name: pageSize
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 10
+ *         description: 每页数据条数
+ *     responses:
+ *       200:
+ *         description: 获取会话列表成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     list:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 会话 id
+ *                           name:
+ *                             type: string
+ *                             description: 会话名称，第一条消息回答完成后自动生成
+ *                           isPinned:
+ *                             type: boolean
+ *                             description: 是否置顶
+ *                           invokeFrom:
+ *                             type: string
+ *                             description: 会话的调用来源，web_app 或 service_api
+ *                           createdAt:
+ *                             type: integer
+ *                             description: 会话的创建时间戳
+ *                           updatedAt:
+ *                             type: integer
+ *                             description: 会话的更新时间戳
+ *                     paginator:
+ *                       type: object
+ *                       properties:
+ *                         currentPage:
+ *                           type: integer
+ *                         pageSize:
+ *                           type: integer
+ *                         totalPage:
+ *                           type: integer
+ *                         totalRecord:
+ *                           type: integer
+ *                 message:
+ *                   type: string
+ *       404:
+ *         description: 终端用户不存在
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await verifyApiKey();
+    const req = getEndUserConversationsReqSchema.parse(
+      loadConversationsReqParams(request),
+    );
+    const result = await listEndUserConversationsByPage(userId, req);
+    return successResult(result);
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
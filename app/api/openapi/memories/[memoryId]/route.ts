@@ -0,0 +1,71 @@
+/**
+ * 终端用户长期记忆删除路由
+ *
+ * 该模块提供了删除终端用户单条长期记忆的接口，删除后的记忆不会再被召回。
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { endUserMemoryReqSchema } from '@/schemas/openapi-schema';
+import { deleteEndUserMemory } from '@/services/openapi';
+import { createLoader, parseAsString } from 'nuqs/server';
+
+/**
+ * 路由参数类型定义
+ * @property {Promise<{memoryId: string}>} params - 包含记忆 ID 的参数对象
+ */
+type Params = { params: Promise<{ memoryId: string }> };
+
+/**
+ * 长期记忆操作查询参数加载器
+ *
+ * @param endUserId - 记忆所属的终端用户 id
+ */
+const loadEndUserMemoryReqParams = createLoader({
+  endUserId: parseAsString.withDefault(''),
+});
+
+/**
+ * @swagger
+ * /api/openapi/memories/{memoryId}:
+ *   delete:
+ *     tags:
+ *       - OpenAPI
+ *     summary: 删除终端用户的一条长期记忆
+ *     description: 删除应用记住的关于终端用户的一条事实，之后的对话不会再召回该记忆。
+ *     parameters:
+ *       - in: path
+ *         name: memoryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 记忆 id
+ *       - in: query
+ *         name: endUserId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 记忆所属的终端用户 id
+ *     responses:
+ *       200:
+ *         description: 删除长期记忆成功
+ *       404:
+ *         description: 终端用户或记忆不存在
+ */
+export async function DELETE(request: Request, { params }: Params) {
+  try {
+    const [{ userId }, { memoryId }] = await Promise.all([
+      verifyApiKey(),
+      params,
+    ]);
+    const { endUserId } = endUserMemoryReqSchema.parse(
+      loadEndUserMemoryReqParams(request),
+    );
+    await deleteEndUserMemory(userId, endUserId, memoryId);
+    return successResult({}, 200, '删除长期记忆成功');
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
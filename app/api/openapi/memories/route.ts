@@ -0,0 +1,168 @@
+/**
+ * 终端用户长期记忆路由
+ *
+ * 该模块提供了终端用户查看和清空应用长期记忆的接口，
+ * 长期记忆是应用在启用长期记忆后从终端用户的对话中提取的事实，可以跨会话召回。
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import {
+  endUserMemoryReqSchema,
+  getEndUserMemoriesReqSchema,
+} from '@/schemas/openapi-schema';
+import {
+  clearEndUserMemories,
+  listEndUserMemoriesByPage,
+} from '@/services/openapi';
+import { createLoader, parseAsInteger, parseAsString } from 'nuqs/server';
+
+/**
+ * 长期记忆列表查询参数加载器
+ *
+ * @param endUserId - 终端用户 id
+ * @param currentPage - 当前页数，默认为 1
+ * @param pageSize - 每页数据条数，默认为 10
+ */
+const loadMemoriesReqParams = createLoader({
+  endUserId: parseAsString.withDefault(''),
+  currentPage: parseAsInteger.withDefault(1),
+  pageSize: parseAsInteger.withDefault(10),
+});
+
+/**
+ * 长期记忆操作查询参数加载器
+ *
+ * @param endUserId - 记忆所属的终端用户 id
+ */
+const loadEndUserMemoryReqParams = createLoader({
+  endUserId: parseAsString.withDefault(''),
+});
+
+/**
+ * @swagger
+ * /api/openapi/memories:
+ *   get:
+ *     tags:
+ *       - OpenAPI
+ *     summary: 获取终端用户的长期记忆列表
+ *     description: 分页获取应用记住的关于终端用户的事实，按更新时间倒序排列。应用启用长期记忆后，每轮对话结束时会从对话中提取关于终端用户的事实。
+ *     parameters:
+ *       - in: query
+ *         name: endUserId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 终端用户 id
+ *       - in: query
+ *         name: currentPage
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: 当前页数
+ *       - in: query
+ *         name: pageSize
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 10
+ *         description: 每页数据条数
+ *     responses:
+ *       200:
+ *         description: 获取长期记忆列表成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     list:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 记忆 id
+ *                           content:
+ *                             type: string
+ *                             description: 记忆内容，一条关于终端用户的事实
+ *                           invokeFrom:
+ *                             type: string
+ *                             description: 提取记忆的对话的调用来源，web_app 或 service_api
+ *                           createdAt:
+ *                             type: integer
+ *                             description: 记忆的创建时间戳
+ *                           updatedAt:
+ *                             type: integer
+ *                             description: 记忆的更新时间戳，相似的事实会覆盖已有记忆
+ *                     paginator:
+ *                       type: object
+ *                       properties:
+ *                         currentPage:
+ *                           type: integer
+ *                         pageSize:
+ *                           type: integer
+ *                         totalPage:
+ *                           type: integer
+ *                         totalRecord:
+ *                           type: integer
+ *                 message:
+ *                   type: string
+ *       404:
+ *         description: 终端用户不存在
+ *   delete:
+ *     tags:
+ *       - OpenAPI
+ *     summary: 清空终端用户的长期记忆
+ *     description: 删除应用记住的关于终端用户的全部事实，之后的对话不会再召回这些记忆。
+ *     parameters:
+ *       - in: query
+ *         name: endUserId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 终端用户 id
+ *     responses:
+ *       200:
+ *         description: 清空长期记忆成功
+ *       404:
+ *         description: 终端用户不存在
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await verifyApiKey();
+    const req = getEndUserMemoriesReqSchema.parse(
+      loadMemoriesReqParams(request),
+    );
+    const result = await listEndUserMemoriesByPage(userId, req);
+    return successResult(result);
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const { userId } = await verifyApiKey();
+    const { endUserId } = endUserMemoryReqSchema.parse(
+      loadEndUserMemoryReqParams(request),
+    );
+    await clearEndUserMemories(userId, endUserId);
+    return successResult({}, 200, '清空长期记忆成功');
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * 终端用户消息反馈路由
+ *
+ * 该模块提供了终端用户对消息回答点赞、点踩或撤销反馈的接口。
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { endUserMessageFeedbackReqSchema } from '@/schemas/openapi-schema';
+import { updateEndUserMessageFeedback } from '@/services/openapi';
+
+/**
+ * 路由参数类型定义
+ * @property {Promise<{messageId: string}>} params - 包含消息 ID 的参数对象
+ */
+type Params = { params: Promise<{ messageId: string }> };
+
+/**
+ * @swagger
+ * /api/openapi/messages/{messageId}/feedback:
+ *   put:
+ *     tags:
+ *       - OpenAPI
+ *     summary: 提交终端用户消息反馈
+ *     description: 终端用户对自己会话中的消息回答进行点赞或点踩，可附带反馈意见，重复提交会覆盖之前的反馈，rating 为 null 时撤销已提交的反馈。
+ *     parameters:
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 消息 id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - endUserId
+ *               - rating
+ *             properties:
+ *               endUserId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: 消息所属的终端用户 id
+ *               rating:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [like, dislike]
+ *                 description: 评价类型，like 为点赞，dislike 为点踩，null 为撤销反馈
+ *               content:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 description: 反馈意见
+ *     responses:
+ *       200:
+ *         description: 提交反馈成功
+ *       404:
+ *         description: 终端用户、会话或消息不存在
+ */
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const [{ userId }, { messageId }, body] = await Promise.all([
+      verifyApiKey(),
+      params,
+      request.json(),
+    ]);
+    const { endUserId, ...req } = endUserMessageFeedbackReqSchema.parse(body);
+    await updateEndUserMessageFeedback(userId, endUserId, messageId, req);
+    return successResult({}, 200, '提交反馈成功');
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * 工作流调试 API 路由
+ *
+ * 使用草稿图运行工作流，通过流式事件实时返回每个节点的执行状态，
+ * 运行成功后工作流标记为调试通过，可以进行发布。
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError } from '@/lib/route-common';
+import { debugWorkflowReqSchema } from '@/schemas/workflow-schema';
+import { debugWorkflowStream, prepareWorkflowDebug } from '@/services/workflow';
+
+// 路由参数类型定义
+type Params = { params: Promise<{ workflowId: string }> };
+
+/**
+ * @swagger
+ * /api/workflows/{workflowId}/debug:
+ *   post:
+ *     tags:
+ *       - Workflows
+ *     summary: 调试工作流
+ *     description: 使用草稿图运行工作流，运行前会对草稿图进行完整校验，校验失败时直接返回 400 错误。运行过程通过 Server-Sent Events 流式返回，事件类型包括 workflow_node（节点开始执行、执行成功或执行失败）、workflow_end（工作流执行成功）和 error（工作流执行失败）。
+ *     parameters:
+ *       - in: path
+ *         name: workflowId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 工作流 id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               inputs:
+ *                 type: object
+ *                 description: 工作流输入变量，与开始节点的输入定义对应
+ *                 additionalProperties: true
+ *     responses:
+ *       200:
+ *         description: 流式返回节点执行过程
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: |
+ *                 event: workflow_node
+ *                 data: {"nodeId":"...","nodeType":"start","title":"开始","status":"succeeded","inputs":{},"outputs":{"query":"hello"},"error":"","latency":1}
+ *
+ *                 event: workflow_end
+ *                 data: {"workflowId":"...","outputs":{"answer":"..."},"latency":1200}
+ */
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const [{ userId }, { workflowId }, body] = await Promise.all([
+      verifyApiKey(),
+      params,
+      request.json(),
+    ]);
+    const { inputs } = debugWorkflowReqSchema.parse(body);
+
+    // 在开始流式响应之前完成校验，保证校验错误返回正确的状态码
+    const context = await prepareWorkflowDebug(userId, workflowId);
+
+    const { readable, writable } = new TransformStream();
+    const writer = writable.getWriter();
+
+    debugWorkflowStream(userId, context, inputs, writer);
+
+    return new Response(readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
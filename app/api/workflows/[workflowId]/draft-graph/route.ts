@@ -0,0 +1,157 @@
+/**
+ * 工作流草稿图 API 路由处理模块
+ *
+ * 该模块提供了工作流草稿图的获取与更新功能，包括：
+ * - GET: 获取工作流草稿图
+ * - PUT: 保存工作流草稿图，保存后需要重新调试才能发布
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { updateDraftGraphReqSchema } from '@/schemas/workflow-schema';
+import { getDraftGraph, updateDraftGraph } from '@/services/workflow';
+
+// 路由参数类型定义
+type Params = { params: Promise<{ workflowId: string }> };
+
+/**
+ * @swagger
+ * /api/workflows/{workflowId}/draft-graph:
+ *   get:
+ *     tags:
+ *       - Workflows
+ *     summary: 获取工作流草稿图
+ *     description: 用于获取指定工作流的草稿图，包含节点列表与连线列表
+ *     parameters:
+ *       - in: path
+ *         name: workflowId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 工作流 id
+ *     responses:
+ *       200:
+ *         description: 获取成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     nodes:
+ *                       type: array
+ *                       description: 节点列表，节点类型包括 start、end、llm、dataset_retrieval、code、http_request、template_transform、tool、if_else
+ *                       items:
+ *                         type: object
+ *                     edges:
+ *                       type: array
+ *                       description: 连线列表
+ *                       items:
+ *                         type: object
+ *                 message:
+ *                   type: string
+ */
+export async function GET(_: Request, { params }: Params) {
+  try {
+    const [{ userId }, { workflowId }] = await Promise.all([
+      verifyApiKey(),
+      params,
+    ]);
+    const result = await getDraftGraph(userId, workflowId);
+    return successResult(result);
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+/**
+ * @swagger
+ * /api/workflows/{workflowId}/draft-graph:
+ *   put:
+ *     tags:
+ *       - Workflows
+ *     summary: 更新工作流草稿图
+ *     description: 保存工作流草稿图，该接口只校验节点与连线的数据格式，允许保存未完成的工作流。保存后工作流需要重新调试通过才能发布。
+ *     parameters:
+ *       - in: path
+ *         name: workflowId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 工作流 id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - nodes
+ *               - edges
+ *             properties:
+ *               nodes:
+ *                 type: array
+ *                 maxItems: 100
+ *                 description: 节点列表，每个节点包含 id、type、title、description、position 以及节点类型对应的配置
+ *                 items:
+ *                   type: object
+ *               edges:
+ *                 type: array
+ *                 maxItems: 500
+ *                 description: 连线列表
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                       format: uuid
+ *                       description: 连线 id
+ *                     source:
+ *                       type: string
+ *                       format: uuid
+ *                       description: 起点节点 id
+ *                     target:
+ *                       type: string
+ *                       format: uuid
+ *                       description: 终点节点 id
+ *                     sourceHandle:
+ *                       type: string
+ *                       description: 起点节点的出口标识，条件分支节点为 true 或 false
+ *     responses:
+ *       200:
+ *         description: 更新成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                 message:
+ *                   type: string
+ *                   example: 更新工作流草稿图成功
+ */
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const [{ userId }, { workflowId }, body] = await Promise.all([
+      verifyApiKey(),
+      params,
+      request.json(),
+    ]);
+    const req = updateDraftGraphReqSchema.parse(body);
+    await updateDraftGraph(userId, workflowId, req);
+    return successResult({}, 200, '更新工作流草稿图成功');
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * 工作流取消发布 API 路由
+ *
+ * 取消发布后工作流回到草稿状态，绑定了该工作流的应用将无法再调用该工作流。
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { cancelPublishWorkflow } from '@/services/workflow';
+
+// 路由参数类型定义
+type Params = { params: Promise<{ workflowId: string }> };
+
+/**
+ * @swagger
+ * /api/workflows/{workflowId}/publish/cancel:
+ *   post:
+ *     tags:
+ *       - Workflows
+ *     summary: 取消发布工作流
+ *     description: 取消发布指定的工作流，取消发布后绑定了该工作流的应用将无法再调用该工作流，草稿图保持不变。
+ *     parameters:
+ *       - in: path
+ *         name: workflowId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 需要取消发布的工作流 id
+ *     responses:
+ *       200:
+ *         description: 取消发布成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                 message:
+ *                   type: string
+ *                   example: 取消发布工作流成功
+ */
+export async function POST(_: Request, { params }: Params) {
+  try {
+    const [{ userId }, { workflowId }] = await Promise.all([
+      verifyApiKey(),
+      params,
+    ]);
+    await cancelPublishWorkflow(userId, workflowId);
+    return successResult({}, 200, '取消发布工作流成功');
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * 工作流发布 API 路由
+ *
+ * 将调试通过的草稿图发布为运行图，发布后的工作流可以绑定到应用中作为工具使用。
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { publishWorkflow } from '@/services/workflow';
+
+// 路由参数类型定义
+type Params = { params: Promise<{ workflowId: string }> };
+
+/**
+ * @swagger
+ * /api/workflows/{workflowId}/publish:
+ *   post:
+ *     tags:
+ *       - Workflows
+ *     summary: 发布工作流
+ *     description: 将调试通过的草稿图发布为运行图，草稿图修改后未重新调试通过时无法发布。
+ *     parameters:
+ *       - in: path
+ *         name: workflowId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 需要发布的工作流 id
+ *     responses:
+ *       200:
+ *         description: 发布成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                 message:
+ *                   type: string
+ *                   example: 发布工作流成功
+ */
+export async function POST(_: Request, { params }: Params) {
+  try {
+    const [{ userId }, { workflowId }] = await Promise.all([
+      verifyApiKey(),
+      params,
+    ]);
+    await publishWorkflow(userId, workflowId);
+    return successResult({}, 200, '发布工作流成功');
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
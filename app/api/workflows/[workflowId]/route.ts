@@ -0,0 +1,215 @@
+/**
+ * 工作流管理 API 路由处理模块
+ *
+ * 该模块提供了工作流的更新、删除和查询功能，包括：
+ * - PUT: 更新工作流基础信息（名称、工具调用名称、图标、描述）
+ * - DELETE: 删除指定工作流
+ * - GET: 获取工作流详细信息
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import { updateWorkflowReqSchema } from '@/schemas/workflow-schema';
+import {
+  deleteWorkflow,
+  getWorkflowById,
+  updateWorkflow,
+} from '@/services/workflow';
+
+// 路由参数类型定义
+type Params = { params: Promise<{ workflowId: string }> };
+
+/**
+ * @swagger
+ * /api/workflows/{workflowId}:
+ *   put:
+ *     tags:
+ *       - Workflows
+ *     summary: 更新指定工作流基础信息
+ *     description: 该接口用于更新工作流的名称、工具调用名称、图标和描述，工具调用名称在同一账号下必须唯一。
+ *     parameters:
+ *       - in: path
+ *         name: workflowId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 需要更新的工作流 id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - toolCallName
+ *               - icon
+ *               - description
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 50
+ *                 description: 工作流名称
+ *               toolCallName:
+ *                 type: string
+ *                 maxLength: 50
+ *                 description: 工具调用名称
+ *               icon:
+ *                 type: string
+ *                 description: 工作流图标 URL 地址
+ *               description:
+ *                 type: string
+ *                 maxLength: 1024
+ *                 description: 工作流描述
+ *     responses:
+ *       200:
+ *         description: 更新成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                 message:
+ *                   type: string
+ *                   example: 更新工作流成功
+ */
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const { userId } = await verifyApiKey();
+    const [{ workflowId }, data] = await Promise.all([params, request.json()]);
+    const req = updateWorkflowReqSchema.parse(data);
+    await updateWorkflow(userId, workflowId, req);
+    return successResult({}, 200, '更新工作流成功');
+  } catch (e) {
+    return handleRouteError(e);
+  }
+}
+
+/**
+ * @swagger
+ * /api/workflows/{workflowId}:
+ *   delete:
+ *     tags:
+ *       - Workflows
+ *     summary: 删除指定的工作流
+ *     description: 用于删除指定的工作流，删除后绑定了该工作流的应用将无法再调用该工作流。
+ *     parameters:
+ *       - in: path
+ *         name: workflowId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 需要删除的工作流 id
+ *     responses:
+ *       200:
+ *         description: 删除成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                 message:
+ *                   type: string
+ *                   example: 删除工作流成功
+ */
+export async function DELETE(_: Request, { params }: Params) {
+  try {
+    const { userId } = await verifyApiKey();
+    const { workflowId } = await params;
+    await deleteWorkflow(userId, workflowId);
+    return successResult({}, 200, '删除工作流成功');
+  } catch (e) {
+    return handleRouteError(e);
+  }
+}
+
+/**
+ * @swagger
+ * /api/workflows/{workflowId}:
+ *   get:
+ *     tags:
+ *       - Workflows
+ *     summary: 获取指定的工作流详情
+ *     description: 用于获取指定的工作流基础信息，草稿图需要通过草稿图接口获取
+ *     parameters:
+ *       - in: path
+ *         name: workflowId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 需要获取的工作流 id
+ *     responses:
+ *       200:
+ *         description: 获取成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                       format: uuid
+ *                       description: 工作流 id
+ *                     name:
+ *                       type: string
+ *                       description: 工作流名称
+ *                     toolCallName:
+ *                       type: string
+ *                       description: 工具调用名称
+ *                     icon:
+ *                       type: string
+ *                       description: 工作流图标
+ *                     description:
+ *                       type: string
+ *                       description: 工作流描述
+ *                     status:
+ *                       type: string
+ *                       enum: [draft, published]
+ *                       description: 工作流状态
+ *                     isDebugPassed:
+ *                       type: boolean
+ *                       description: 草稿图是否调试通过
+ *                     nodeCount:
+ *                       type: integer
+ *                       description: 草稿图的节点数量
+ *                     publishedAt:
+ *                       type: integer
+ *                       description: 发布时间戳，未发布时为 0
+ *                     updatedAt:
+ *                       type: integer
+ *                       description: 最后编辑时间戳
+ *                     createdAt:
+ *                       type: integer
+ *                       description: 创建时间戳
+ *                 message:
+ *                   type: string
+ */
+export async function GET(_: Request, { params }: Params) {
+  try {
+    const { userId } = await verifyApiKey();
+    const { workflowId } = await params;
+    const result = await getWorkflowById(userId, workflowId);
+    return successResult(result);
+  } catch (e) {
+    return handleRouteError(e);
+  }
+}
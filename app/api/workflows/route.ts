@@ -0,0 +1,216 @@
+/**
+ * 工作流管理相关的 API 路由处理模块
+ * 提供工作流的创建和列表查询功能
+ */
+
+import { verifyApiKey } from '@/lib/auth/dal';
+import { handleRouteError, successResult } from '@/lib/route-common';
+import {
+  createWorkflowReqSchema,
+  getWorkflowListReqSchema,
+} from '@/schemas/workflow-schema';
+import { createWorkflow, listWorkflowsByPage } from '@/services/workflow';
+import { createLoader, parseAsInteger, parseAsString } from 'nuqs/server';
+
+/**
+ * 工作流分页查询参数加载器
+ *
+ * @param searchWord - 搜索词，默认为空
+ * @param status - 工作流状态筛选，默认不筛选
+ * @param currentPage - 当前页数，默认为 1
+ * @param pageSize - 每页数据条数，默认为 10
+ */
+const loadWorkflowListReqParams = createLoader({
+  currentPage: parseAsInteger.withDefault(1),
+  pageSize: parseAsInteger.withDefault(10),
+  searchWord: parseAsString.withDefault(''),
+  status: parseAsString,
+});
+
+/**
+ * @swagger
+ * /api/workflows:
+ *   get:
+ *     tags:
+ *       - Workflows
+ *     summary: 获取工作流列表
+ *     description: 用于获取当前登录账号的工作流列表信息，该接口支持搜索+分页+状态筛选，传递搜索词为空时代表不搜索。
+ *     parameters:
+ *       - in: query
+ *         name: searchWord
+ *         schema:
+ *           type: string
+ *         description: 搜索词，用于工作流名称模糊搜索，默认为空代表不搜索任何内容
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, published]
+ *         description: 工作流状态，为空时代表不筛选
+ *       - in: query
+ *         name: currentPage
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: 当前页数，默认为 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           minimum: 1
+ *           maximum: 50
+ *         description: 每页的数据条数，默认为 10，范围从 1~50
+ *     responses:
+ *       200:
+ *         description: 获取成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     list:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             format: uuid
+ *                             description: 工作流 id
+ *                           name:
+ *                             type: string
+ *                             description: 工作流名称
+ *                           toolCallName:
+ *                             type: string
+ *                             description: 工作流的工具调用名称
+ *                           icon:
+ *                             type: string
+ *                             description: 工作流图标
+ *                           description:
+ *                             type: string
+ *                             description: 工作流描述
+ *                           status:
+ *                             type: string
+ *                             enum: [draft, published]
+ *                             description: 工作流状态
+ *                           isDebugPassed:
+ *                             type: boolean
+ *                             description: 草稿图是否调试通过
+ *                           nodeCount:
+ *                             type: integer
+ *                             description: 草稿图的节点数量
+ *                           publishedAt:
+ *                             type: integer
+ *                             description: 发布时间戳，未发布时为 0
+ *                           updatedAt:
+ *                             type: integer
+ *                             description: 最后编辑时间戳
+ *                           createdAt:
+ *                             type: integer
+ *                             description: 创建时间戳
+ *                     paginator:
+ *                       type: object
+ *                       properties:
+ *                         currentPage:
+ *                           type: integer
+ *                           description: 当前的页数
+ *                         pageSize:
+ *                           type: integer
+ *                           description: 每页的条数
+ *                         totalPage:
+ *                           type: integer
+ *                           description: 总页数
+ *                         totalRecord:
+ *                           type: integer
+ *                           description: 总记录条数
+ *                 message:
+ *                   type: string
+ *                   example: ""
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await verifyApiKey();
+    const pageReq = getWorkflowListReqSchema.parse(
+      loadWorkflowListReqParams(request),
+    );
+    const result = await listWorkflowsByPage(userId, pageReq);
+    return successResult(result);
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+/**
+ * @swagger
+ * /api/workflows:
+ *   post:
+ *     tags:
+ *       - Workflows
+ *     summary: 创建工作流
+ *     description: 根据传递的信息创建工作流，同一个账号下工具调用名称必须唯一，新创建的工作流草稿图为空。
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - toolCallName
+ *               - icon
+ *               - description
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 50
+ *                 description: 工作流名称
+ *               toolCallName:
+ *                 type: string
+ *                 maxLength: 50
+ *                 description: 工具调用名称，绑定到应用时作为工具名称，只能包含字母、数字和下划线，且不能以数字开头
+ *               icon:
+ *                 type: string
+ *                 description: 工作流图标 URL 地址
+ *               description:
+ *                 type: string
+ *                 maxLength: 1024
+ *                 description: 工作流描述，绑定到应用时作为工具描述，用于大语言模型判断何时调用该工作流
+ *     responses:
+ *       201:
+ *         description: 创建成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     workflowId:
+ *                       type: string
+ *                       description: 创建的工作流 ID
+ *                 message:
+ *                   type: string
+ *                   example: 创建工作流成功
+ */
+export async function POST(request: Request) {
+  try {
+    const { userId } = await verifyApiKey();
+    const data = await request.json();
+    const req = createWorkflowReqSchema.parse(data);
+    const result = await createWorkflow(userId, req);
+    return successResult({ workflowId: result.id }, 201, '创建工作流成功');
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
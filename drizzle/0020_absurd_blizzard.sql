@@ -0,0 +1,19 @@
+CREATE TABLE "workflow" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text DEFAULT '' NOT NULL,
+	"tool_call_name" text DEFAULT '' NOT NULL,
+	"icon" text DEFAULT '' NOT NULL,
+	"description" text DEFAULT '' NOT NULL,
+	"graph" jsonb DEFAULT '{}' NOT NULL,
+	"draft_graph" jsonb DEFAULT '{}' NOT NULL,
+	"is_debug_passed" boolean DEFAULT false NOT NULL,
+	"status" text DEFAULT '' NOT NULL,
+	"published_at" timestamp,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL,
+	CONSTRAINT "uq_workflow_user_id_tool_call_name" UNIQUE("user_id","tool_call_name")
+);
+--> statement-breakpoint
+ALTER TABLE "workflow" ADD CONSTRAINT "workflow_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_workflow_user_id" ON "workflow" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "message_agent_thought" ADD COLUMN "tool_policy" jsonb;
\ No newline at end of file
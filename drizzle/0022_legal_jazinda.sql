@@ -0,0 +1,26 @@
+CREATE TABLE "agent_checkpoint" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"thread_id" text NOT NULL,
+	"checkpoint_ns" text DEFAULT '' NOT NULL,
+	"checkpoint_id" text NOT NULL,
+	"parent_checkpoint_id" text,
+	"type" text DEFAULT '' NOT NULL,
+	"checkpoint" text DEFAULT '' NOT NULL,
+	"metadata" text DEFAULT '' NOT NULL,
+	"created_at" timestamp NOT NULL,
+	CONSTRAINT "uq_agent_checkpoint_thread_id_checkpoint_ns_checkpoint_id" UNIQUE("thread_id","checkpoint_ns","checkpoint_id")
+);
+--> statement-breakpoint
+CREATE TABLE "agent_checkpoint_write" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"thread_id" text NOT NULL,
+	"checkpoint_ns" text DEFAULT '' NOT NULL,
+	"checkpoint_id" text NOT NULL,
+	"task_id" text NOT NULL,
+	"idx" integer DEFAULT 0 NOT NULL,
+	"channel" text DEFAULT '' NOT NULL,
+	"type" text DEFAULT '' NOT NULL,
+	"value" text DEFAULT '' NOT NULL,
+	"created_at" timestamp NOT NULL,
+	CONSTRAINT "uq_agent_checkpoint_write_checkpoint_task_id_idx" UNIQUE("thread_id","checkpoint_ns","checkpoint_id","task_id","idx")
+);
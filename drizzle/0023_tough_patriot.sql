@@ -0,0 +1,3 @@
+ALTER TABLE "app_config" ADD COLUMN "structured_output" jsonb DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "app_config_version" ADD COLUMN "structured_output" jsonb DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "message" ADD COLUMN "structured_answer" jsonb;
\ No newline at end of file
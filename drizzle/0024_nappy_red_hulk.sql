@@ -0,0 +1 @@
+ALTER TABLE "message" ADD COLUMN "image_urls" jsonb DEFAULT '[]' NOT NULL;
\ No newline at end of file
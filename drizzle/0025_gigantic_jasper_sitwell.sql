@@ -0,0 +1,35 @@
+CREATE TABLE "message_annotation" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"app_id" uuid NOT NULL,
+	"message_id" uuid,
+	"question" text DEFAULT '' NOT NULL,
+	"answer" text DEFAULT '' NOT NULL,
+	"hit_count" integer DEFAULT 0 NOT NULL,
+	"created_by" text DEFAULT '' NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "message_feedback" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"app_id" uuid NOT NULL,
+	"conversation_id" uuid NOT NULL,
+	"message_id" uuid NOT NULL,
+	"rating" text DEFAULT '' NOT NULL,
+	"content" text DEFAULT '' NOT NULL,
+	"from_source" text DEFAULT '' NOT NULL,
+	"created_by" text DEFAULT '' NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL,
+	CONSTRAINT "uq_message_feedback_message_id_from_source" UNIQUE("message_id","from_source")
+);
+--> statement-breakpoint
+ALTER TABLE "app_config" ADD COLUMN "annotation_reply" jsonb DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "app_config_version" ADD COLUMN "annotation_reply" jsonb DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "message_annotation" ADD CONSTRAINT "message_annotation_app_id_app_id_fk" FOREIGN KEY ("app_id") REFERENCES "public"."app"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_annotation" ADD CONSTRAINT "message_annotation_message_id_message_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."message"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_feedback" ADD CONSTRAINT "message_feedback_app_id_app_id_fk" FOREIGN KEY ("app_id") REFERENCES "public"."app"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_feedback" ADD CONSTRAINT "message_feedback_conversation_id_conversation_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversation"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_feedback" ADD CONSTRAINT "message_feedback_message_id_message_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."message"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_message_annotation_app_id" ON "message_annotation" USING btree ("app_id");--> statement-breakpoint
+CREATE INDEX "idx_message_feedback_app_id" ON "message_feedback" USING btree ("app_id");
\ No newline at end of file
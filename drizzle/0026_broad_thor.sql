@@ -0,0 +1,4 @@
+ALTER TABLE "message" ADD COLUMN "parent_id" uuid;--> statement-breakpoint
+ALTER TABLE "message" ADD CONSTRAINT "message_parent_id_message_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."message"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- 已有的消息按创建时间串联为会话中的单一分支
+UPDATE "message" SET "parent_id" = "history"."previous_id" FROM (SELECT "id", LAG("id") OVER (PARTITION BY "conversation_id" ORDER BY "created_at") AS "previous_id" FROM "message") AS "history" WHERE "message"."id" = "history"."id";
\ No newline at end of file
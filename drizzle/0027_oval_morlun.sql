@@ -0,0 +1,7 @@
+ALTER TABLE "app_config" ADD COLUMN "memory_config" jsonb DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "app_config_version" ADD COLUMN "memory_config" jsonb DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversation" ADD COLUMN "history_summary" text DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversation" ADD COLUMN "history_summary_message_id" uuid;--> statement-breakpoint
+-- 已有的应用配置使用与之前行为一致的 token 缓冲记忆
+UPDATE "app_config" SET "memory_config" = '{"strategy":"token_buffer","maxTokenLimit":0}' WHERE "memory_config" = '{}';--> statement-breakpoint
+UPDATE "app_config_version" SET "memory_config" = '{"strategy":"token_buffer","maxTokenLimit":0}' WHERE "memory_config" = '{}';
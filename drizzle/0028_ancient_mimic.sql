@@ -0,0 +1,12 @@
+CREATE TABLE "user_memory" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"app_id" uuid NOT NULL,
+	"invoke_from" text DEFAULT '' NOT NULL,
+	"content" text DEFAULT '' NOT NULL,
+	"created_by" text DEFAULT '' NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_memory" ADD CONSTRAINT "user_memory_app_id_app_id_fk" FOREIGN KEY ("app_id") REFERENCES "public"."app"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_user_memory_app_id_created_by" ON "user_memory" USING btree ("app_id","created_by");
\ No newline at end of file
@@ -0,0 +1,4 @@
+-- Custom SQL migration file, put your code below! --
+-- 已有的应用配置默认不开启重排序
+UPDATE "app_config" SET "retrieval_config" = "retrieval_config" || '{"rerank":{"enable":false,"topN":4,"score":0}}'::jsonb WHERE jsonb_typeof("retrieval_config") = 'object' AND NOT ("retrieval_config" ? 'rerank');--> statement-breakpoint
+UPDATE "app_config_version" SET "retrieval_config" = "retrieval_config" || '{"rerank":{"enable":false,"topN":4,"score":0}}'::jsonb WHERE jsonb_typeof("retrieval_config") = 'object' AND NOT ("retrieval_config" ? 'rerank');
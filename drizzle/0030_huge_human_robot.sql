@@ -0,0 +1,4 @@
+-- Custom SQL migration file, put your code below! --
+-- 已有的应用配置使用与之前行为一致的等权重倒数排名融合
+UPDATE "app_config" SET "retrieval_config" = "retrieval_config" || '{"hybrid":{"semanticWeight":0.5,"keywordWeight":0.5,"fusionMethod":"rrf"}}'::jsonb WHERE jsonb_typeof("retrieval_config") = 'object' AND NOT ("retrieval_config" ? 'hybrid');--> statement-breakpoint
+UPDATE "app_config_version" SET "retrieval_config" = "retrieval_config" || '{"hybrid":{"semanticWeight":0.5,"keywordWeight":0.5,"fusionMethod":"rrf"}}'::jsonb WHERE jsonb_typeof("retrieval_config") = 'object' AND NOT ("retrieval_config" ? 'hybrid');
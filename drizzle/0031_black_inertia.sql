@@ -0,0 +1,20 @@
+CREATE TABLE "segment_term" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"dataset_id" uuid NOT NULL,
+	"segment_id" uuid NOT NULL,
+	"term" text NOT NULL,
+	"frequency" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+DROP TABLE "keyword_table" CASCADE;--> statement-breakpoint
+ALTER TABLE "dataset" ADD COLUMN "term_index_version" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "segment" ADD COLUMN "term_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "segment_term" ADD CONSTRAINT "segment_term_dataset_id_dataset_id_fk" FOREIGN KEY ("dataset_id") REFERENCES "public"."dataset"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "segment_term" ADD CONSTRAINT "segment_term_segment_id_segment_id_fk" FOREIGN KEY ("segment_id") REFERENCES "public"."segment"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_segment_term_dataset_id_term" ON "segment_term" USING btree ("dataset_id","term");--> statement-breakpoint
+CREATE INDEX "idx_segment_term_segment_id" ON "segment_term" USING btree ("segment_id");--> statement-breakpoint
+-- 使用已启用片段的关键词回填词项索引，分词需要在应用中完成，worker 启动后会按片段内容重建所有知识库的词项索引
+INSERT INTO "segment_term" ("dataset_id", "segment_id", "term", "frequency", "created_at", "updated_at") SELECT "segment"."dataset_id", "segment"."id", lower("keyword"."term"), count(*), now(), now() FROM "segment" INNER JOIN "document" ON "document"."id" = "segment"."document_id" CROSS JOIN LATERAL jsonb_array_elements_text("segment"."keywords") AS "keyword"("term") WHERE jsonb_typeof("segment"."keywords") = 'array' AND "segment"."enabled" = true AND "segment"."status" = 'completed' AND "document"."enabled" = true GROUP BY "segment"."dataset_id", "segment"."id", lower("keyword"."term");--> statement-breakpoint
+UPDATE "segment" SET "term_count" = "segment_term_count"."total" FROM (SELECT "segment_id", sum("frequency") AS "total" FROM "segment_term" GROUP BY "segment_id") AS "segment_term_count" WHERE "segment"."id" = "segment_term_count"."segment_id";
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "dataset" ADD COLUMN "vector_metadata_version" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "dataset" ADD COLUMN "retrieval_config" jsonb DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "document" ADD COLUMN "metadata" jsonb DEFAULT '{}' NOT NULL;--> statement-breakpoint
+-- 已有的应用配置不按元数据过滤
+UPDATE "app_config" SET "retrieval_config" = "retrieval_config" || '{"filter":null}'::jsonb WHERE jsonb_typeof("retrieval_config") = 'object' AND NOT ("retrieval_config" ? 'filter');--> statement-breakpoint
+UPDATE "app_config_version" SET "retrieval_config" = "retrieval_config" || '{"filter":null}'::jsonb WHERE jsonb_typeof("retrieval_config") = 'object' AND NOT ("retrieval_config" ? 'filter');
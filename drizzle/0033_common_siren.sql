@@ -0,0 +1 @@
+ALTER TABLE "message" ADD COLUMN "citations" jsonb DEFAULT '[]' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,576 @@
+/**
+ * 智能体公共节点模块
+ *
+ * 这个模块提供了不同类型智能体共用的状态图节点与辅助函数：
+ * - 预设操作节点（关键词匹配和预设响应、标注回复）
+ * - 长期记忆召回节点（构建系统提示、历史对话和用户消息）
+ * - 工具审批节点（修改外部状态的工具执行前等待用户审批）
+ * - 工具执行节点（并发执行，支持超时、重试与熔断）
+ * - 最大迭代次数响应与输出内容审核
+ *
+ * 函数调用智能体与 ReAct 智能体只在 LLM 推理节点上有所区别，其余节点由该模块统一提供。
+ */
+
+import { randomUUID } from 'node:crypto';
+import { InternalServerErrorException } from '@/exceptions';
+import {
+  type Citation,
+  DATASET_RETRIEVAL_TOOL_NAME,
+  type DatasetRetrievalToolResult,
+} from '@/lib/entity';
+import { log } from '@/lib/logger';
+import { concurrencyTask } from '@/lib/utils';
+import {
+  AIMessage,
+  HumanMessage,
+  RemoveMessage,
+  SystemMessage,
+  ToolMessage,
+  isAIMessage,
+  isToolMessage,
+} from '@langchain/core/messages';
+import type { StructuredTool } from '@langchain/core/tools';
+import { END, interrupt } from '@langchain/langgraph';
+import {
+  AGENT_SYSTEM_PROMPT_TEMPLATE,
+  type AgentConfig,
+  type AgentStateType,
+  MAX_ITERATION_RESPONSE,
+  QueueEvent,
+  createAgentThought,
+  createErrorAgentThought,
+} from './entity';
+import {
+  type ToolApprovalDecision,
+  type ToolApprovalRequest,
+  requiresToolApproval,
+} from './tool-approval';
+import { type ToolPolicyOutcome, invokeToolWithPolicy } from './tool-policy';
+
+/**
+ * 发射直接回复事件
+ *
+ * 预设响应、标注回复与最大迭代响应不经过 LLM 推理，直接发射智能体消息与智能体结束事件。
+ *
+ * @param state - 当前智能体状态
+ * @param answer - 回复内容
+ * @param latency - 回复耗时（毫秒）
+ * @returns 包含回复消息的状态部分
+ */
+const emitDirectAnswer = (
+  state: AgentStateType,
+  answer: string,
+  latency = 0,
+): Partial<AgentStateType> => {
+  state.emit(
+    createAgentThought({
+      id: randomUUID(),
+      taskId: state.taskId,
+      event: QueueEvent.AGENT_MESSAGE,
+      thought: answer,
+      message: state.messages.map((message) => message.toDict()),
+      answer,
+      latency,
+    }),
+  );
+  state.emit(
+    createAgentThought({
+      id: randomUUID(),
+      taskId: state.taskId,
+      event: QueueEvent.AGENT_END,
+    }),
+  );
+  return {
+    messages: [new AIMessage(answer)],
+  };
+};
+
+/**
+ * 创建预设操作节点
+ *
+ * 这个节点在智能体执行流程的最开始执行，按顺序检查：
+ * - 用户查询是否包含预设关键词，如果包含则返回预设响应
+ * - 启用标注回复时，用户查询是否与应用的标注问题相似，如果相似则返回标注的回答
+ *
+ * @param agentConfig - 智能体配置
+ * @returns 预设操作节点函数
+ */
+export const createPresetOperationNode =
+  (agentConfig: AgentConfig) =>
+  async (state: AgentStateType): Promise<Partial<AgentStateType>> => {
+    const reviewConfig = agentConfig.reviewConfig;
+    // 附带图片时消息内容为多模态内容，只检查其中的文本内容
+    const query = state.messages[state.messages.length - 1].text;
+
+    // 检查是否启用预设操作且包含关键词
+    if (reviewConfig.enable && reviewConfig.inputsConfig.enable) {
+      if (reviewConfig.keywords.some((keyword) => query.includes(keyword))) {
+        return emitDirectAnswer(
+          state,
+          reviewConfig.inputsConfig.presetResponse,
+        );
+      }
+    }
+
+    // 检查是否命中标注回复，检索失败时不影响智能体继续执行
+    if (agentConfig.annotationReplyRetriever) {
+      const startAt = Date.now();
+      try {
+        const annotationReply =
+          await agentConfig.annotationReplyRetriever(query);
+        if (annotationReply) {
+          const latency = Date.now() - startAt;
+          state.emit(
+            createAgentThought({
+              id: randomUUID(),
+              taskId: state.taskId,
+              event: QueueEvent.ANNOTATION_REPLY,
+              observation: JSON.stringify({
+                annotationId: annotationReply.id,
+                question: annotationReply.question,
+                score: annotationReply.score,
+              }),
+              latency,
+            }),
+          );
+          return emitDirectAnswer(state, annotationReply.answer);
+        }
+      } catch (error) {
+        log.error('Search annotation reply failed, error={%o}', error);
+      }
+    }
+
+    // 如果没有匹配的关键词和标注，返回空消息数组继续执行
+    return {
+      messages: [],
+    };
+  };
+
+/**
+ * 召回长期记忆
+ *
+ * 长期记忆由状态中传入的对话长期记忆与召回的用户记忆组成：
+ * 配置了用户长期记忆检索函数时，召回与当前提问相关的用户记忆，每条记忆一行。
+ * 召回失败时只使用状态中传入的长期记忆，不影响智能体继续执行。
+ *
+ * @param agentConfig - 智能体配置
+ * @param state - 当前智能体状态
+ * @returns 长期记忆文本
+ */
+const recallLongTermMemory = async (
+  agentConfig: AgentConfig,
+  state: AgentStateType,
+) => {
+  const memories = state.longTermMemory ? [state.longTermMemory] : [];
+  if (agentConfig.userMemoryRetriever) {
+    try {
+      const query = state.messages[state.messages.length - 1].text;
+      const userMemories = await agentConfig.userMemoryRetriever(query);
+      memories.push(
+        ...userMemories.map((userMemory) => `- ${userMemory.content}`),
+      );
+    } catch (error) {
+      log.error('Recall user memory failed, error={%o}', error);
+    }
+  }
+  return memories.join('\n');
+};
+
+/**
+ * 创建长期记忆召回节点
+ *
+ * 构建完整的消息上下文，包括：
+ * - 系统提示词（包含预设提示、召回的长期记忆和历史对话摘要）
+ * - 历史对话记录
+ * - 当前用户消息
+ *
+ * @param agentConfig - 智能体配置
+ * @param extraSystemPrompt - 追加在系统提示词之后的内容，例如 ReAct 智能体的工具使用说明
+ * @returns 长期记忆召回节点函数
+ */
+export const createLongTermMemoryRecallNode =
+  (agentConfig: AgentConfig, extraSystemPrompt = '') =>
+  async (state: AgentStateType): Promise<Partial<AgentStateType>> => {
+    let longTermMemory = '';
+
+    // 如果启用长期记忆，召回并记录长期记忆内容
+    if (agentConfig.enableLongTermMemory) {
+      longTermMemory = await recallLongTermMemory(agentConfig, state);
+      state.emit(
+        createAgentThought({
+          id: randomUUID(),
+          taskId: state.taskId,
+          event: QueueEvent.LONG_TERM_MEMORY_RECALL,
+          observation: longTermMemory,
+        }),
+      );
+    }
+
+    // 构建系统消息，替换模板中的占位符
+    const presetMessages = [
+      new SystemMessage(
+        AGENT_SYSTEM_PROMPT_TEMPLATE.replace(
+          '{preset_prompt}',
+          agentConfig.presetPrompt,
+        )
+          .replace('{long_term_memory}', longTermMemory)
+          .replace('{history_summary}', state.historySummary ?? '') +
+          extraSystemPrompt,
+      ),
+    ];
+
+    // 添加历史对话记录
+    const history = state.history;
+    if (history.length > 0) {
+      // 验证历史消息格式（应该是成对的人机对话）
+      if (history.length % 2 !== 0) {
+        state.emit(
+          createErrorAgentThought(
+            state.taskId,
+            new Error('智能体历史消息列表格式错误'),
+          ),
+        );
+        log.error(
+          '智能体历史消息列表格式错误, len(history)={%d}, history={%s}',
+          history.length,
+          JSON.stringify(history.map((message) => message.toDict())),
+        );
+        throw new InternalServerErrorException('智能体历史消息列表格式错误');
+      }
+      presetMessages.push(...history);
+    }
+
+    // 添加当前用户消息
+    const humanMessage = state.messages[
+      state.messages.length - 1
+    ] as HumanMessage;
+    presetMessages.push(new HumanMessage({ content: humanMessage.content }));
+
+    // 如果用户消息有ID，需要先移除旧消息再添加新消息
+    let returnMessages = [...presetMessages];
+    if (humanMessage.id) {
+      returnMessages = [
+        new RemoveMessage({ id: humanMessage.id }),
+        ...presetMessages,
+      ];
+    }
+
+    return {
+      messages: returnMessages,
+    };
+  };
+
+/**
+ * 达到最大迭代次数时结束智能体执行
+ *
+ * 发射最大迭代响应消息与智能体结束事件
+ *
+ * @param state - 当前智能体状态
+ * @returns 包含最大迭代响应消息的状态部分
+ */
+export const maxIterationResponse = (
+  state: AgentStateType,
+): Partial<AgentStateType> => emitDirectAnswer(state, MAX_ITERATION_RESPONSE);
+
+/**
+ * 审核输出内容
+ *
+ * 如果启用输出过滤，将内容中的敏感关键词替换为 **
+ *
+ * @param content - 输出内容
+ * @param reviewConfig - 审核配置
+ * @returns 审核后的输出内容
+ */
+export const reviewOutputContent = (
+  content: string,
+  reviewConfig: AgentConfig['reviewConfig'],
+) => {
+  if (!reviewConfig.enable || !reviewConfig.outputsConfig.enable) {
+    return content;
+  }
+
+  let reviewedContent = content;
+  for (const keyword of reviewConfig.keywords) {
+    const regex = new RegExp(
+      keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+      'gi',
+    );
+    reviewedContent = reviewedContent.replace(regex, '**');
+  }
+  return reviewedContent;
+};
+
+/**
+ * 判断工具执行结果是否为数据集检索工具的返回结果
+ *
+ * @param result - 工具执行结果
+ * @returns 是否为数据集检索工具的返回结果
+ */
+const isDatasetRetrievalToolResult = (
+  result: unknown,
+): result is DatasetRetrievalToolResult =>
+  typeof result === 'object' &&
+  result !== null &&
+  typeof (result as DatasetRetrievalToolResult).content === 'string' &&
+  Array.isArray((result as DatasetRetrievalToolResult).citations);
+
+/**
+ * 获取最后一条 AI 消息中还没有工具消息的工具调用
+ *
+ * 工具审批被拒绝的工具调用在审批节点中已经生成了工具消息，工具执行节点只执行剩余的工具调用
+ *
+ * @param messages - 当前状态的消息列表
+ * @returns 最后一条 AI 消息与还没有工具消息的工具调用
+ */
+const getUnansweredToolCalls = (messages: AgentStateType['messages']) => {
+  const aiMessageIndex = messages.findLastIndex((message) =>
+    isAIMessage(message),
+  );
+  const aiMessage = messages[aiMessageIndex] as AIMessage;
+  const answeredToolCallIds = new Set(
+    messages
+      .slice(aiMessageIndex + 1)
+      .filter((message) => isToolMessage(message))
+      .map((message) => (message as ToolMessage).tool_call_id),
+  );
+  const toolCalls = (aiMessage.tool_calls ?? []).filter(
+    (toolCall) => !toolCall.id || !answeredToolCallIds.has(toolCall.id),
+  );
+  return { aiMessage, toolCalls };
+};
+
+/**
+ * 创建工具执行节点
+ *
+ * 并发执行LLM调用的工具，包括：
+ * - 工具参数验证
+ * - 按并发上限执行工具调用
+ * - 按工具执行策略处理超时、重试与熔断
+ * - 按工具调用顺序组装结果并记录
+ * - 数据集检索工具只将检索内容交给模型，引用来源随检索事件发射
+ * - 审批时被拒绝的工具调用已经有工具消息，不再执行
+ *
+ * @param agentConfig - 智能体配置
+ * @returns 工具执行节点函数
+ */
+export const createToolsNode =
+  (agentConfig: AgentConfig) =>
+  async (state: AgentStateType): Promise<Partial<AgentStateType>> => {
+    // 创建工具名称到工具实例的映射
+    const toolNameMap = new Map<string, StructuredTool>(
+      agentConfig.tools.map((tool) => [tool.name, tool]),
+    );
+
+    const { toolCalls } = getUnansweredToolCalls(state.messages);
+
+    // 工具消息按照工具调用的顺序存放，与并发执行的完成顺序无关
+    const toolMessages: ToolMessage[] = new Array(toolCalls.length);
+    try {
+      const task = concurrencyTask<void>(
+        Math.max(1, agentConfig.toolConcurrency),
+      );
+
+      toolCalls.forEach((toolCall, index) => {
+        const toolCallId = toolCall.id;
+        if (!toolCallId) {
+          log.error('工具调用 ID 不存在, toolCall.name={%s}', toolCall.name);
+          throw new Error('工具调用 ID 不存在');
+        }
+
+        task.addTask(async () => {
+          const id = randomUUID();
+          const startAt = Date.now();
+          let result: unknown = null;
+          let toolPolicy: ToolPolicyOutcome | null = null;
+          let citations: Citation[] = [];
+
+          // 查找工具，并按照工具的执行策略执行
+          const tool = toolNameMap.get(toolCall.name);
+          if (tool) {
+            const output = await invokeToolWithPolicy(
+              tool,
+              toolCall.args,
+              agentConfig.toolTimeout,
+            );
+            result = output.result;
+            toolPolicy = output.outcome;
+          } else {
+            log.error('工具不存在, toolCall.name={%s}', toolCall.name);
+            result = '工具执行出错: 工具不存在';
+          }
+
+          if (isDatasetRetrievalToolResult(result)) {
+            citations = result.citations;
+            result = result.content;
+          }
+
+          // 创建工具消息
+          toolMessages[index] = new ToolMessage({
+            content: JSON.stringify(result),
+            name: toolCall.name,
+            tool_call_id: toolCallId,
+          });
+
+          // 根据工具类型确定事件类型
+          const event =
+            toolCall.name === DATASET_RETRIEVAL_TOOL_NAME
+              ? QueueEvent.DATASET_RETRIEVAL
+              : QueueEvent.AGENT_ACTION;
+
+          // 发射工具执行事件，耗时为该工具调用自身的耗时
+          state.emit(
+            createAgentThought({
+              id,
+              taskId: state.taskId,
+              event,
+              observation: JSON.stringify(result),
+              tool: toolCall.name,
+              toolInput: toolCall.args,
+              toolPolicy,
+              citations,
+              latency: Date.now() - startAt,
+            }),
+          );
+        });
+      });
+
+      // 等待所有工具调用完成
+      await task.run();
+
+      // 并发任务内部的异常会被吞掉，需要检查是否所有工具调用都生成了结果
+      if (toolMessages.filter(Boolean).length !== toolCalls.length) {
+        throw new Error('部分工具调用未生成结果');
+      }
+    } catch (error) {
+      log.error('Tool 节点执行出错, error={%o}', error);
+      state.emit(
+        createErrorAgentThought(
+          state.taskId,
+          new Error(`Tool 节点执行出错: ${JSON.stringify(error)}`),
+        ),
+      );
+      throw new InternalServerErrorException('Tool 节点执行出错');
+    }
+
+    return {
+      messages: toolMessages,
+    };
+  };
+
+/**
+ * 创建工具审批节点
+ *
+ * 在工具执行节点之前运行，如果本次工具调用中包含需要审批的工具，
+ * 则中断智能体运行并等待用户审批，恢复运行后：
+ * - 批准执行时，使用用户修改后的参数替换模型生成的参数，继续执行工具
+ * - 拒绝执行时，只为需要审批的工具调用生成拒绝结果，其余工具调用照常执行
+ *
+ * @param agentConfig - 智能体配置
+ * @returns 工具审批节点函数
+ */
+export const createToolApprovalNode =
+  (agentConfig: AgentConfig) =>
+  (state: AgentStateType): Partial<AgentStateType> => {
+    if (!agentConfig.enableToolApproval) {
+      return {};
+    }
+
+    const toolNameMap = new Map<string, StructuredTool>(
+      agentConfig.tools.map((tool) => [tool.name, tool]),
+    );
+    const aiMessage = state.messages[state.messages.length - 1] as AIMessage;
+    const toolCalls = aiMessage.tool_calls ?? [];
+    const approvalToolCalls = toolCalls.filter((toolCall) => {
+      const tool = toolNameMap.get(toolCall.name);
+      return tool !== undefined && requiresToolApproval(tool);
+    });
+    if (approvalToolCalls.length === 0) {
+      return {};
+    }
+
+    // 中断运行，恢复运行时返回用户的审批结果
+    const decision = interrupt<ToolApprovalRequest, ToolApprovalDecision>({
+      toolCalls: approvalToolCalls.map(({ id, name, args }) => ({
+        id,
+        name,
+        args,
+      })),
+    });
+
+    // 批准执行，替换用户修改后的参数，消息ID不变以覆盖原消息
+    if (decision.approved) {
+      const editedArgs = new Map(
+        decision.toolCalls.map((toolCall) => [toolCall.id, toolCall.args]),
+      );
+      return {
+        messages: [
+          new AIMessage({
+            id: aiMessage.id,
+            content: aiMessage.content,
+            tool_calls: toolCalls.map((toolCall) => ({
+              ...toolCall,
+              args:
+                (toolCall.id && editedArgs.get(toolCall.id)) || toolCall.args,
+            })),
+          }),
+        ],
+      };
+    }
+
+    // 拒绝执行，需要审批的工具调用生成拒绝结果，其余工具调用交由工具执行节点执行
+    const observation = `用户拒绝执行该工具调用${decision.reason ? `，原因: ${decision.reason}` : ''}`;
+    for (const toolCall of approvalToolCalls) {
+      state.emit(
+        createAgentThought({
+          id: randomUUID(),
+          taskId: state.taskId,
+          event: QueueEvent.AGENT_ACTION,
+          observation,
+          tool: toolCall.name,
+          toolInput: toolCall.args,
+        }),
+      );
+    }
+    return {
+      messages: approvalToolCalls.map(
+        (toolCall) =>
+          new ToolMessage({
+            content: observation,
+            name: toolCall.name,
+            tool_call_id: toolCall.id ?? '',
+          }),
+      ),
+    };
+  };
+
+/**
+ * 工具审批条件判断
+ *
+ * 所有工具调用都被用户拒绝时已经生成了全部工具消息，直接返回LLM节点，否则执行剩余的工具调用
+ *
+ * @param state - 当前智能体状态
+ * @returns 下一个节点的名称
+ */
+export const toolApprovalCondition = (state: AgentStateType) => {
+  const { toolCalls } = getUnansweredToolCalls(state.messages);
+  if (toolCalls.length === 0) {
+    return 'llm';
+  }
+  return 'tools';
+};
+
+/**
+ * 预设操作条件判断
+ *
+ * 检查预设操作节点是否需要继续执行或结束
+ *
+ * @param state - 当前智能体状态
+ * @returns 下一个节点的名称
+ */
+export const presetOperationCondition = (state: AgentStateType) => {
+  const message = state.messages[state.messages.length - 1];
+  if (isAIMessage(message)) {
+    return END; // 如果已经生成了AI消息，结束执行
+  }
+  return 'long_term_memory_recall'; // 否则继续到长期记忆召回
+};
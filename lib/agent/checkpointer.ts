@@ -0,0 +1,364 @@
+/**
+ * 智能体检查点存储模块
+ *
+ * 基于 PostgreSQL 实现 LangGraph 的检查点存储，智能体每执行完一个节点都会保存检查点，
+ * 进程重启或任务中断后，可以使用相同的线程ID（任务ID）从最后一个检查点恢复运行。
+ *
+ * 检查点与中间写入分别保存在 agent_checkpoint 和 agent_checkpoint_write 表中，
+ * 序列化方式与 LangGraph 内置的 MemorySaver 保持一致。
+ */
+
+import { db } from '@/lib/db';
+import { agentCheckpoint, agentCheckpointWrite } from '@/lib/db/schema';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import {
+  BaseCheckpointSaver,
+  type Checkpoint,
+  type CheckpointMetadata,
+  type CheckpointTuple,
+  copyCheckpoint,
+} from '@langchain/langgraph';
+import { and, desc, eq, lt } from 'drizzle-orm';
+
+/** 中间写入列表类型 */
+type PendingWrite = Parameters<BaseCheckpointSaver['putWrites']>[1][number];
+/** 检查点查询选项类型 */
+type CheckpointListOptions = Parameters<BaseCheckpointSaver['list']>[1];
+
+/** 待发送任务所在的通道，与 LangGraph 内部定义保持一致 */
+const TASKS_CHANNEL = '__pregel_tasks';
+
+/**
+ * 特殊通道的写入索引，与 LangGraph 内部定义保持一致
+ * 特殊写入使用负数索引，避免与普通写入冲突，并且允许覆盖
+ */
+const WRITES_IDX_MAP: Record<string, number> = {
+  __error__: -1,
+  __scheduled__: -2,
+  __interrupt__: -3,
+  __resume__: -4,
+};
+
+/**
+ * 基于 PostgreSQL 的检查点存储
+ */
+class PostgresCheckpointSaver extends BaseCheckpointSaver {
+  /**
+   * 序列化对象
+   *
+   * @param obj - 需要序列化的对象
+   * @returns 序列化类型与文本内容，二进制内容使用 base64 编码
+   */
+  private dumps(obj: unknown) {
+    const [type, value] = this.serde.dumpsTyped(obj);
+    return {
+      type,
+      value:
+        type === 'bytes'
+          ? Buffer.from(value).toString('base64')
+          : new TextDecoder().decode(value),
+    };
+  }
+
+  /**
+   * 反序列化对象
+   *
+   * @param type - 序列化类型
+   * @param value - 文本内容
+   * @returns 反序列化后的对象
+   */
+  private loads(type: string, value: string) {
+    return this.serde.loadsTyped(
+      type,
+      type === 'bytes' ? Buffer.from(value, 'base64') : value,
+    );
+  }
+
+  /**
+   * 查询检查点的中间写入
+   */
+  private async getWrites(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string,
+  ) {
+    return db
+      .select()
+      .from(agentCheckpointWrite)
+      .where(
+        and(
+          eq(agentCheckpointWrite.threadId, threadId),
+          eq(agentCheckpointWrite.checkpointNs, checkpointNs),
+          eq(agentCheckpointWrite.checkpointId, checkpointId),
+        ),
+      )
+      .orderBy(agentCheckpointWrite.taskId, agentCheckpointWrite.idx);
+  }
+
+  /**
+   * 将数据库记录转换为检查点元组
+   *
+   * @param record - 检查点记录
+   * @returns 检查点元组，包含父检查点中待发送的任务和当前检查点的中间写入
+   */
+  private async toCheckpointTuple(
+    record: typeof agentCheckpoint.$inferSelect,
+  ): Promise<CheckpointTuple> {
+    const { threadId, checkpointNs, checkpointId, parentCheckpointId } = record;
+
+    const [writes, parentWrites] = await Promise.all([
+      this.getWrites(threadId, checkpointNs, checkpointId),
+      parentCheckpointId
+        ? this.getWrites(threadId, checkpointNs, parentCheckpointId)
+        : Promise.resolve([]),
+    ]);
+
+    const pendingSends = await Promise.all(
+      parentWrites
+        .filter((write) => write.channel === TASKS_CHANNEL)
+        .map((write) => this.loads(write.type, write.value)),
+    );
+    const pendingWrites = await Promise.all(
+      writes.map(
+        async (write) =>
+          [
+            write.taskId,
+            write.channel,
+            await this.loads(write.type, write.value),
+          ] as [string, string, unknown],
+      ),
+    );
+
+    return {
+      config: {
+        configurable: {
+          thread_id: threadId,
+          checkpoint_ns: checkpointNs,
+          checkpoint_id: checkpointId,
+        },
+      },
+      checkpoint: {
+        ...((await this.loads(record.type, record.checkpoint)) as Checkpoint),
+        pending_sends: pendingSends,
+      },
+      metadata: (await this.loads(
+        'json',
+        record.metadata,
+      )) as CheckpointMetadata,
+      pendingWrites,
+      parentConfig: parentCheckpointId
+        ? {
+            configurable: {
+              thread_id: threadId,
+              checkpoint_ns: checkpointNs,
+              checkpoint_id: parentCheckpointId,
+            },
+          }
+        : undefined,
+    };
+  }
+
+  async getTuple(config: RunnableConfig) {
+    const threadId = config.configurable?.thread_id as string | undefined;
+    if (!threadId) {
+      return undefined;
+    }
+    const checkpointNs = (config.configurable?.checkpoint_ns as string) ?? '';
+    const checkpointId = config.configurable?.checkpoint_id as
+      | string
+      | undefined;
+
+    // 指定检查点ID时查询对应的检查点，否则查询最新的检查点
+    const records = await db
+      .select()
+      .from(agentCheckpoint)
+      .where(
+        and(
+          eq(agentCheckpoint.threadId, threadId),
+          eq(agentCheckpoint.checkpointNs, checkpointNs),
+          checkpointId
+            ? eq(agentCheckpoint.checkpointId, checkpointId)
+            : undefined,
+        ),
+      )
+      .orderBy(desc(agentCheckpoint.checkpointId))
+      .limit(1);
+    if (records.length === 0) {
+      return undefined;
+    }
+    return this.toCheckpointTuple(records[0]);
+  }
+
+  async *list(config: RunnableConfig, options?: CheckpointListOptions) {
+    const { before, filter } = options ?? {};
+    let limit = options?.limit;
+    const threadId = config.configurable?.thread_id as string | undefined;
+    const checkpointNs = config.configurable?.checkpoint_ns as
+      | string
+      | undefined;
+    const checkpointId = config.configurable?.checkpoint_id as
+      | string
+      | undefined;
+    const beforeCheckpointId = before?.configurable?.checkpoint_id as
+      | string
+      | undefined;
+
+    const records = await db
+      .select()
+      .from(agentCheckpoint)
+      .where(
+        and(
+          threadId ? eq(agentCheckpoint.threadId, threadId) : undefined,
+          checkpointNs !== undefined
+            ? eq(agentCheckpoint.checkpointNs, checkpointNs)
+            : undefined,
+          checkpointId
+            ? eq(agentCheckpoint.checkpointId, checkpointId)
+            : undefined,
+          beforeCheckpointId
+            ? lt(agentCheckpoint.checkpointId, beforeCheckpointId)
+            : undefined,
+        ),
+      )
+      .orderBy(desc(agentCheckpoint.checkpointId));
+
+    for (const record of records) {
+      // 元数据过滤条件需要反序列化后才能判断，因此在查询后过滤
+      const metadata = (await this.loads('json', record.metadata)) as Record<
+        string,
+        unknown
+      >;
+      if (
+        filter &&
+        !Object.entries(filter).every(([key, value]) => metadata[key] === value)
+      ) {
+        continue;
+      }
+      if (limit !== undefined) {
+        if (limit <= 0) {
+          break;
+        }
+        limit -= 1;
+      }
+      yield this.toCheckpointTuple(record);
+    }
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata,
+  ) {
+    const threadId = config.configurable?.thread_id as string | undefined;
+    if (!threadId) {
+      throw new Error('保存检查点失败，缺少 thread_id');
+    }
+    const checkpointNs = (config.configurable?.checkpoint_ns as string) ?? '';
+
+    // 待发送的任务保存在中间写入中，不需要保存在检查点中
+    const { pending_sends: _, ...preparedCheckpoint } =
+      copyCheckpoint(checkpoint);
+    const serializedCheckpoint = this.dumps(preparedCheckpoint);
+    const serializedMetadata = this.dumps(metadata);
+
+    await db
+      .insert(agentCheckpoint)
+      .values({
+        threadId,
+        checkpointNs,
+        checkpointId: checkpoint.id,
+        parentCheckpointId: config.configurable?.checkpoint_id,
+        type: serializedCheckpoint.type,
+        checkpoint: serializedCheckpoint.value,
+        metadata: serializedMetadata.value,
+      })
+      .onConflictDoUpdate({
+        target: [
+          agentCheckpoint.threadId,
+          agentCheckpoint.checkpointNs,
+          agentCheckpoint.checkpointId,
+        ],
+        set: {
+          type: serializedCheckpoint.type,
+          checkpoint: serializedCheckpoint.value,
+          metadata: serializedMetadata.value,
+        },
+      });
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(
+    config: RunnableConfig,
+    writes: PendingWrite[],
+    taskId: string,
+  ) {
+    const threadId = config.configurable?.thread_id as string | undefined;
+    const checkpointId = config.configurable?.checkpoint_id as
+      | string
+      | undefined;
+    if (!threadId || !checkpointId) {
+      throw new Error('保存中间写入失败，缺少 thread_id 或 checkpoint_id');
+    }
+    const checkpointNs = (config.configurable?.checkpoint_ns as string) ?? '';
+
+    const values = writes.map(([channel, value], idx) => {
+      const serializedValue = this.dumps(value);
+      return {
+        threadId,
+        checkpointNs,
+        checkpointId,
+        taskId,
+        idx: WRITES_IDX_MAP[channel] ?? idx,
+        channel,
+        type: serializedValue.type,
+        value: serializedValue.value,
+      };
+    });
+    const target = [
+      agentCheckpointWrite.threadId,
+      agentCheckpointWrite.checkpointNs,
+      agentCheckpointWrite.checkpointId,
+      agentCheckpointWrite.taskId,
+      agentCheckpointWrite.idx,
+    ];
+
+    // 普通写入已经存在时保持不变，特殊写入允许覆盖
+    for (const value of values) {
+      const query = db.insert(agentCheckpointWrite).values(value);
+      if (value.idx >= 0) {
+        await query.onConflictDoNothing({ target });
+      } else {
+        await query.onConflictDoUpdate({
+          target,
+          set: { channel: value.channel, type: value.type, value: value.value },
+        });
+      }
+    }
+  }
+
+  /**
+   * 删除线程的所有检查点与中间写入
+   *
+   * @param threadId - 线程ID
+   */
+  async deleteThread(threadId: string) {
+    await Promise.all([
+      db.delete(agentCheckpoint).where(eq(agentCheckpoint.threadId, threadId)),
+      db
+        .delete(agentCheckpointWrite)
+        .where(eq(agentCheckpointWrite.threadId, threadId)),
+    ]);
+  }
+}
+
+/**
+ * 智能体检查点存储实例
+ */
+export const agentCheckpointer = new PostgresCheckpointSaver();
@@ -9,13 +9,23 @@
 
 import { randomUUID } from 'node:crypto';
 import {
+  type Citation,
   DEFAULT_APP_CONFIG,
   type DraftAppConfig,
   InvokeFrom,
 } from '@/lib/entity';
+import type { ModelPricing } from '@/lib/llm';
+import type { AnnotationReplyRetriever } from '@/lib/retriever/annotation-retriever';
+import type { UserMemoryRetriever } from '@/lib/retriever/user-memory-retriever';
+import type { BaseLanguageModel } from '@langchain/core/language_models/base';
 import type { BaseMessage, StoredMessage } from '@langchain/core/messages';
 import type { StructuredTool } from '@langchain/core/tools';
-import { Annotation, MessagesAnnotation } from '@langchain/langgraph';
+import {
+  Annotation,
+  type BaseCheckpointSaver,
+  MessagesAnnotation,
+} from '@langchain/langgraph';
+import type { ToolPolicyOutcome } from './tool-policy';
 
 /**
  * 智能体系统提示模板
@@ -24,7 +34,7 @@ import { Annotation, MessagesAnnotation } from '@langchain/langgraph';
  * - 预设任务执行
  * - 工具调用和参数生成
  * - 历史对话和长期记忆
- * - 外部知识库检索
+ * - 外部知识库检索与引用来源标注
  * - 高效性和简洁性要求
  */
 export const AGENT_SYSTEM_PROMPT_TEMPLATE = `你是一个高度定制的智能体应用，旨在为用户提供准确、专业的内容生成和问题解答，请严格遵守以下规则：
@@ -36,10 +46,11 @@ export const AGENT_SYSTEM_PROMPT_TEMPLATE = `你是一个高度定制的智能
   - 当任务需要时，你可以调用绑定的外部工具(如知识库检索、计算工具等)，并生成符合任务需求的调用参数，确保工具使用的准确性和高效性；
 
 3.**历史对话和长期记忆**
-  - 你可以参考\`历史对话\`记录，结合经过摘要提取的\`长期记忆\`，以提供更加个性化和上下文相关的回复，这将有助于在连续对话中保持一致性，并提供更加精确的反馈；
+  - 你可以参考\`历史对话\`记录与更早对话的\`历史对话摘要\`，结合经过摘要提取的\`长期记忆\`，以提供更加个性化和上下文相关的回复，这将有助于在连续对话中保持一致性，并提供更加精确的反馈；
 
 4.**外部知识库检索**
   - 如果用户的问题超出当前的知识范围或需要额外补充，你可以调用\`recall_dataset(知识库检索工具)\`以获取外部信息，确保答案的完整性和正确性；
+  - 知识库检索返回的每个片段都带有引用编号(例如[^1a2b3c4d])，回答中使用了片段的内容时，需要在对应语句的末尾原样标注该片段的引用编号，不要编造不存在的引用编号；
 
 5.**高效性和简洁性**
   - 保持对用户需求的精准理解和高效响应，提供简洁且有效的答案，避免冗长或无关信息；
@@ -51,6 +62,36 @@ export const AGENT_SYSTEM_PROMPT_TEMPLATE = `你是一个高度定制的智能
 <长期记忆>
 {long_term_memory}
 </长期记忆>
+
+<历史对话摘要>
+{history_summary}
+</历史对话摘要>
+`;
+
+/**
+ * ReAct 智能体提示模板
+ *
+ * 用于不支持原生工具调用的模型，通过提示词约定思考、行动、观察的输出格式，
+ * 追加在智能体系统提示之后，{tools} 会被替换为工具名称、描述和参数定义，{tool_names} 会被替换为工具名称列表。
+ */
+export const REACT_AGENT_PROMPT_TEMPLATE = `
+<工具使用说明>
+你可以使用以下工具来完成任务：
+
+{tools}
+
+请严格按照以下格式进行回复，每次回复只能包含一个行动：
+
+Thought: 思考当前需要做什么
+Action: 需要调用的工具名称，必须是 [{tool_names}] 中的一个
+Action Input: 工具的调用参数，必须是符合工具参数定义的 JSON 对象
+
+调用工具后，你会收到以 \`Observation:\` 开头的工具执行结果，你可以根据结果继续思考和调用工具。
+当你已经可以回答用户的问题或者不需要调用工具时，请按照以下格式回复：
+
+Thought: 我已经知道最终答案了
+Final Answer: 给用户的最终回复
+</工具使用说明>
 `;
 
 /**
@@ -75,6 +116,20 @@ export type AgentConfig = {
   tools: StructuredTool[];
   /** 审核配置，用于内容审核 */
   reviewConfig: DraftAppConfig['reviewConfig'];
+  /** 模型价格信息，用于计算每个步骤的费用 */
+  modelPricing: ModelPricing;
+  /** 工具并发执行的最大数量 */
+  toolConcurrency: number;
+  /** 单个工具调用的默认超时时间（毫秒），工具执行策略中配置了超时时间时以策略为准 */
+  toolTimeout: number;
+  /** 是否启用工具调用审批，启用后修改外部状态的工具在执行前需要用户审批，默认启用 */
+  enableToolApproval: boolean;
+  /** 结构化输出配置，启用后最终回答需要符合指定的 JSON Schema */
+  structuredOutput: DraftAppConfig['structuredOutput'];
+  /** 标注回复检索函数，为 null 时不匹配标注回复，命中时直接返回标注的回答 */
+  annotationReplyRetriever: AnnotationReplyRetriever | null;
+  /** 用户长期记忆检索函数，启用长期记忆时召回与提问相关的用户记忆，为 null 时只使用状态中的长期记忆 */
+  userMemoryRetriever: UserMemoryRetriever | null;
 };
 
 /**
@@ -90,6 +145,18 @@ export const defaultAgentConfig: Omit<AgentConfig, 'userId'> = {
   enableLongTermMemory: false,
   tools: [],
   reviewConfig: DEFAULT_APP_CONFIG.reviewConfig,
+  modelPricing: {
+    inputPrice: 0,
+    outputPrice: 0,
+    unit: 0,
+    currency: 'USD',
+  },
+  toolConcurrency: 3,
+  toolTimeout: 30 * 1000,
+  enableToolApproval: true,
+  structuredOutput: DEFAULT_APP_CONFIG.structuredOutput,
+  annotationReplyRetriever: null,
+  userMemoryRetriever: null,
 };
 
 /**
@@ -111,6 +178,18 @@ export const createAgentConfig = (
   };
 };
 
+/**
+ * 智能体创建选项
+ */
+export type AgentOptions = {
+  /** 语言模型实例 */
+  llm: BaseLanguageModel;
+  /** 智能体配置参数 */
+  agentConfig: AgentConfig;
+  /** 检查点存储，默认保存在内存中 */
+  checkpointer?: BaseCheckpointSaver;
+};
+
 /**
  * 智能体状态注解
  *
@@ -119,6 +198,7 @@ export const createAgentConfig = (
  * - 任务ID
  * - 迭代计数
  * - 历史记录
+ * - 历史对话摘要（摘要缓冲记忆中超出缓冲区的早期对话）
  * - 长期记忆
  * - 事件发射器
  * - 停止标志
@@ -128,6 +208,7 @@ export const AgentState = Annotation.Root({
   taskId: Annotation<string>,
   iterationCount: Annotation<number>,
   history: Annotation<Array<BaseMessage>>,
+  historySummary: Annotation<string>,
   longTermMemory: Annotation<string>,
   emit: Annotation<(event: AgentThought) => void>,
   stop: Annotation<boolean>,
@@ -152,6 +233,10 @@ export enum QueueEvent {
   AGENT_ACTION = 'agent_action',
   /** 数据集检索事件 */
   DATASET_RETRIEVAL = 'dataset_retrieval',
+  /** 标注回复命中事件 */
+  ANNOTATION_REPLY = 'annotation_reply',
+  /** 工具调用等待审批事件 */
+  TOOL_APPROVAL = 'tool_approval',
   /** 智能体结束事件 */
   AGENT_END = 'agent_end',
   /** 停止事件 */
@@ -186,6 +271,10 @@ export type AgentThought = {
   tool: string;
   /** 工具输入参数 */
   toolInput: Record<string, unknown>;
+  /** 工具执行策略的执行结果，非工具调用时为 null */
+  toolPolicy: ToolPolicyOutcome | null;
+  /** 知识库检索召回片段的引用来源，非知识库检索事件时为空列表 */
+  citations: Citation[];
 
   /** 消息列表 */
   message: Array<StoredMessage>;
@@ -198,6 +287,8 @@ export type AgentThought = {
 
   /** 回答内容 */
   answer: string;
+  /** 结构化输出解析后的回答，未启用结构化输出时为 null */
+  structuredAnswer: Record<string, unknown> | null;
   /** 回答token数量 */
   answerTokenCount: number;
   /** 回答单价 */
@@ -224,6 +315,8 @@ const defaultAgentThought: Omit<AgentThought, 'id' | 'taskId' | 'event'> = {
 
   tool: '',
   toolInput: {},
+  toolPolicy: null,
+  citations: [],
 
   message: [],
   messageTokenCount: 0,
@@ -231,6 +324,7 @@ const defaultAgentThought: Omit<AgentThought, 'id' | 'taskId' | 'event'> = {
   messagePriceUnit: 0,
 
   answer: '',
+  structuredAnswer: null,
   answerTokenCount: 0,
   answerUnitPrice: 0,
   answerPriceUnit: 0,
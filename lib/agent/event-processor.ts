@@ -135,3 +135,57 @@ export const wrapEmitWithPing = (
 
   return wrapEmit;
 };
+
+/**
+ * 将代理思考事件合并到思考记录映射表中
+ *
+ * AGENT_MESSAGE 事件以流式分块发送，同一个 id 的多个分块需要拼接
+ * thought 和 answer，流式结束后补发的分块携带 token 用量与费用，需要保留；
+ * PING 事件仅用于保活，不需要记录；其他事件直接覆盖存储。
+ *
+ * @param agentThoughts - 以事件 id 为键的思考记录映射表
+ * @param agentThought - 新接收到的代理思考事件
+ */
+export const mergeAgentThought = (
+  agentThoughts: Map<string, AgentThought>,
+  agentThought: AgentThought,
+) => {
+  const eventId = agentThought.id;
+
+  if (agentThought.event === QueueEvent.PING) {
+    return;
+  }
+
+  if (agentThought.event !== QueueEvent.AGENT_MESSAGE) {
+    agentThoughts.set(eventId, agentThought);
+    return;
+  }
+
+  const tempAgentThought = agentThoughts.get(eventId);
+  if (!tempAgentThought) {
+    agentThoughts.set(eventId, agentThought);
+    return;
+  }
+
+  const usage =
+    agentThought.totalTokenCount > 0
+      ? {
+          messageTokenCount: agentThought.messageTokenCount,
+          messageUnitPrice: agentThought.messageUnitPrice,
+          messagePriceUnit: agentThought.messagePriceUnit,
+          answerTokenCount: agentThought.answerTokenCount,
+          answerUnitPrice: agentThought.answerUnitPrice,
+          answerPriceUnit: agentThought.answerPriceUnit,
+          totalTokenCount: agentThought.totalTokenCount,
+          totalPrice: agentThought.totalPrice,
+        }
+      : {};
+
+  agentThoughts.set(eventId, {
+    ...tempAgentThought,
+    ...usage,
+    thought: `${tempAgentThought.thought}${agentThought.thought}`,
+    answer: `${tempAgentThought.answer}${agentThought.answer}`,
+    latency: agentThought.latency,
+  });
+};
@@ -6,6 +6,7 @@
  * - 长期记忆召回
  * - LLM 推理和工具调用
  * - 工具执行和结果处理
+ * - 结构化输出，最终回答需要符合用户定义的 JSON Schema
  * - 状态图驱动的执行流程
  *
  * 智能体使用 LangGraph 状态图来管理执行流程，支持流式响应和事件发射。
@@ -13,43 +14,43 @@
 
 import { randomUUID } from 'node:crypto';
 import { InternalServerErrorException } from '@/exceptions';
-import { DATASET_RETRIEVAL_TOOL_NAME } from '@/lib/entity';
 import { log } from '@/lib/logger';
-import type { BaseLanguageModel } from '@langchain/core/language_models/base';
 import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import {
   AIMessage,
   type AIMessageChunk,
   HumanMessage,
-  RemoveMessage,
-  SystemMessage,
-  ToolMessage,
-  isAIMessage,
 } from '@langchain/core/messages';
-import type { StructuredTool } from '@langchain/core/tools';
-import { END, START, StateGraph } from '@langchain/langgraph';
+import { END, MemorySaver, START, StateGraph } from '@langchain/langgraph';
+import {
+  createLongTermMemoryRecallNode,
+  createPresetOperationNode,
+  createToolApprovalNode,
+  createToolsNode,
+  maxIterationResponse,
+  presetOperationCondition,
+  reviewOutputContent,
+  toolApprovalCondition,
+} from './base-node';
 import {
-  AGENT_SYSTEM_PROMPT_TEMPLATE,
   type AgentConfig,
+  type AgentOptions,
   AgentState,
   type AgentStateType,
-  MAX_ITERATION_RESPONSE,
   QueueEvent,
   createAgentThought,
   createErrorAgentThought,
   defaultAgentConfig,
 } from './entity';
-import { stopCondition, withStopCheck } from './helper';
-
-/**
- * 智能体配置选项
- */
-type AgentOptions = {
-  /** 语言模型实例 */
-  llm: BaseLanguageModel;
-  /** 智能体配置参数 */
-  agentConfig: AgentConfig;
-};
+import { calculateTokenUsage, stopCondition, withStopCheck } from './helper';
+import {
+  STRUCTURED_OUTPUT_MAX_RETRIES,
+  STRUCTURED_OUTPUT_NAME,
+  STRUCTURED_OUTPUT_PROMPT,
+  STRUCTURED_OUTPUT_RETRY_PROMPT_TEMPLATE,
+  createStructuredOutputSchema,
+  formatStructuredOutputError,
+} from './structured-output';
 
 /**
  * 创建函数调用智能体
@@ -58,13 +59,19 @@ type AgentOptions = {
  * 1. preset_operation: 处理预设操作（关键词匹配）
  * 2. long_term_memory_recall: 长期记忆召回
  * 3. llm: LLM 推理和工具调用决策
- * 4. tools: 工具执行
+ * 4. tool_approval: 修改外部状态的工具执行前等待用户审批
+ * 5. tools: 工具执行
+ * 6. structured_output: 启用结构化输出时，生成符合 JSON Schema 的最终回答
  *
  * @param options - 智能体配置选项
  * @returns 编译后的状态图实例
  */
 export const createFunctionCallAgent = (options: AgentOptions) => {
-  const { llm, agentConfig: inputAgentConfig } = options;
+  const {
+    llm,
+    agentConfig: inputAgentConfig,
+    checkpointer = new MemorySaver(),
+  } = options;
 
   // 合并默认配置和用户配置
   const agentConfig: AgentConfig = {
@@ -72,140 +79,6 @@ export const createFunctionCallAgent = (options: AgentOptions) => {
     ...inputAgentConfig,
   };
 
-  /**
-   * 预设操作节点
-   *
-   * 检查用户查询是否包含预设关键词，如果包含则返回预设响应。
-   * 这个节点在智能体执行流程的最开始执行。
-   *
-   * @param state - 当前智能体状态
-   * @returns 更新后的状态部分
-   */
-  const presetOperationNode = (
-    state: AgentStateType,
-  ): Partial<AgentStateType> => {
-    const reviewConfig = options.agentConfig.reviewConfig;
-    const query = state.messages[state.messages.length - 1].content as string;
-
-    // 检查是否启用预设操作且包含关键词
-    if (reviewConfig.enable && reviewConfig.inputsConfig.enable) {
-      if (reviewConfig.keywords.some((keyword) => query.includes(keyword))) {
-        const presetResponse = reviewConfig.inputsConfig.presetResponse;
-
-        // 发射预设响应事件
-        state.emit(
-          createAgentThought({
-            id: randomUUID(),
-            taskId: state.taskId,
-            event: QueueEvent.AGENT_MESSAGE,
-            thought: presetResponse,
-            message: state.messages.map((message) => message.toDict()),
-            answer: presetResponse,
-            latency: 0,
-          }),
-        );
-
-        // 发射智能体结束事件
-        state.emit(
-          createAgentThought({
-            id: randomUUID(),
-            taskId: state.taskId,
-            event: QueueEvent.AGENT_END,
-          }),
-        );
-
-        return {
-          messages: [new AIMessage(presetResponse)],
-        };
-      }
-    }
-
-    // 如果没有匹配的关键词，返回空消息数组继续执行
-    return {
-      messages: [],
-    };
-  };
-
-  /**
-   * 长期记忆召回节点
-   *
-   * 构建完整的消息上下文，包括：
-   * - 系统提示词（包含预设提示和长期记忆）
-   * - 历史对话记录
-   * - 当前用户消息
-   *
-   * @param state - 当前智能体状态
-   * @returns 更新后的状态部分
-   */
-  const longTermMemoryRecallNode = (
-    state: AgentStateType,
-  ): Partial<AgentStateType> => {
-    let longTermMemory = '';
-
-    // 如果启用长期记忆，获取并记录长期记忆内容
-    if (agentConfig.enableLongTermMemory) {
-      longTermMemory = state.longTermMemory;
-      state.emit(
-        createAgentThought({
-          id: randomUUID(),
-          taskId: state.taskId,
-          event: QueueEvent.LONG_TERM_MEMORY_RECALL,
-          observation: longTermMemory,
-        }),
-      );
-    }
-
-    // 构建系统消息，替换模板中的占位符
-    const presetMessages = [
-      new SystemMessage(
-        AGENT_SYSTEM_PROMPT_TEMPLATE.replace(
-          '{preset_prompt}',
-          agentConfig.presetPrompt,
-        ).replace('{long_term_memory}', longTermMemory),
-      ),
-    ];
-
-    // 添加历史对话记录
-    const history = state.history;
-    if (history.length > 0) {
-      // 验证历史消息格式（应该是成对的人机对话）
-      if (history.length % 2 !== 0) {
-        state.emit(
-          createErrorAgentThought(
-            state.taskId,
-            new Error('智能体历史消息列表格式错误'),
-          ),
-        );
-        log.error(
-          '智能体历史消息列表格式错误, len(history)={%d}, history={%s}',
-          history.length,
-          JSON.stringify(history.map((message) => message.toDict())),
-        );
-        throw new InternalServerErrorException('智能体历史消息列表格式错误');
-      }
-      presetMessages.push(...history);
-    }
-
-    // 添加当前用户消息
-    const humanMessage = state.messages[
-      state.messages.length - 1
-    ] as HumanMessage;
-    presetMessages.push(new HumanMessage(humanMessage.content as string));
-
-    // 如果用户消息有ID，需要先移除旧消息再添加新消息
-    let returnMessages = [...presetMessages];
-    if (humanMessage.id) {
-      returnMessages = [
-        new RemoveMessage({ id: humanMessage.id }),
-        ...presetMessages,
-      ];
-    }
-
-    return {
-      messages: returnMessages,
-    };
-  };
-
   /**
    * LLM 推理节点
    *
@@ -221,29 +94,11 @@ export const createFunctionCallAgent = (options: AgentOptions) => {
   const llmNode = async (
     state: AgentStateType,
   ): Promise<Partial<AgentStateType>> => {
-    // 检查是否超过最大迭代次数
+    // 检查是否超过最大迭代次数，启用结构化输出时直接根据已有的对话内容生成最终回答
     if (state.iterationCount >= agentConfig.maxIterationCount) {
-      state.emit(
-        createAgentThought({
-          id: randomUUID(),
-          taskId: state.taskId,
-          event: QueueEvent.AGENT_MESSAGE,
-          thought: MAX_ITERATION_RESPONSE,
-          message: state.messages.map((message) => message.toDict()),
-          answer: MAX_ITERATION_RESPONSE,
-          latency: 0,
-        }),
-      );
-      state.emit(
-        createAgentThought({
-          id: randomUUID(),
-          taskId: state.taskId,
-          event: QueueEvent.AGENT_END,
-        }),
-      );
-      return {
-        messages: [new AIMessage(MAX_ITERATION_RESPONSE)],
-      };
+      return agentConfig.structuredOutput.enable
+        ? {}
+        : maxIterationResponse(state);
     }
 
     const startAt = Date.now();
@@ -283,20 +138,16 @@ export const createFunctionCallAgent = (options: AgentOptions) => {
       }
 
       // 如果是普通消息，处理内容过滤并发射事件
-      if (generationType === 'message') {
-        const reviewConfig = agentConfig.reviewConfig;
-        let content = chunk.content as string;
-
+      // 启用结构化输出时，普通消息只是中间推理内容，最终回答由结构化输出节点生成
+      if (
+        generationType === 'message' &&
+        !agentConfig.structuredOutput.enable
+      ) {
         // 如果启用输出过滤，替换敏感关键词
-        if (reviewConfig.enable && reviewConfig.outputsConfig.enable) {
-          for (const keyword of reviewConfig.keywords) {
-            const regex = new RegExp(
-              keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
-              'gi',
-            );
-            content = content.replace(regex, '**');
-          }
-        }
+        const content = reviewOutputContent(
+          chunk.content as string,
+          agentConfig.reviewConfig,
+        );
 
         state.emit(
           createAgentThought({
@@ -324,6 +175,13 @@ export const createFunctionCallAgent = (options: AgentOptions) => {
       throw new InternalServerErrorException('LLM 生成消息失败');
     }
 
+    // 计算本次模型调用的 token 用量与费用
+    const usage = calculateTokenUsage(
+      state.messages,
+      gathered,
+      agentConfig.modelPricing,
+    );
+
     // 根据生成类型发射相应事件
     if (generationType === 'thought') {
       state.emit(
@@ -334,11 +192,38 @@ export const createFunctionCallAgent = (options: AgentOptions) => {
           thought: JSON.stringify(gathered.tool_calls),
           message: state.messages.map((message) => message.toDict()),
           latency: Date.now() - startAt,
+          ...usage,
         }),
       );
     }
 
-    if (generationType === 'message') {
+    if (generationType === 'message' && agentConfig.structuredOutput.enable) {
+      state.emit(
+        createAgentThought({
+          id,
+          taskId: state.taskId,
+          event: QueueEvent.AGENT_THOUGHT,
+          thought: reviewOutputContent(
+            gathered.content as string,
+            agentConfig.reviewConfig,
+          ),
+          message: state.messages.map((message) => message.toDict()),
+          latency: Date.now() - startAt,
+          ...usage,
+        }),
+      );
+    } else if (generationType === 'message') {
+      // 流式输出结束后，使用相同的事件ID补充本次消息的用量与费用
+      state.emit(
+        createAgentThought({
+          id,
+          taskId: state.taskId,
+          event: QueueEvent.AGENT_MESSAGE,
+          message: state.messages.map((message) => message.toDict()),
+          latency: Date.now() - startAt,
+          ...usage,
+        }),
+      );
       state.emit(
         createAgentThought({
           id: randomUUID(),
@@ -355,133 +240,129 @@ export const createFunctionCallAgent = (options: AgentOptions) => {
   };
 
   /**
-   * 工具执行节点
+   * LLM 条件判断
+   *
+   * 检查LLM节点是否需要调用工具或结束
+   *
+   * @param state - 当前智能体状态
+   * @returns 下一个节点的名称
+   */
+  const llmCondition = (state: AgentStateType) => {
+    const message = state.messages[state.messages.length - 1] as AIMessage;
+    if (message.tool_calls && message.tool_calls.length > 0) {
+      return 'tool_approval'; // 如果有工具调用，审批后执行工具节点
+    }
+    if (agentConfig.structuredOutput.enable) {
+      return 'structured_output'; // 启用结构化输出时，生成符合 JSON Schema 的最终回答
+    }
+    return END; // 否则结束执行
+  };
+
+  /**
+   * 结构化输出节点
    *
-   * 执行LLM调用的工具，包括：
-   * - 工具参数验证
-   * - 工具调用执行
-   * - 错误处理
-   * - 结果记录
+   * 使用工具调用强制模型按照用户定义的 JSON Schema 生成最终回答：
+   * - 使用 Zod 验证模式校验模型输出
+   * - 校验失败时将错误信息反馈给模型并重试
+   * - 重试后仍然失败时发射错误事件
    *
    * @param state - 当前智能体状态
    * @returns 更新后的状态部分
    */
-  const toolsNode = async (
+  const structuredOutputNode = async (
     state: AgentStateType,
   ): Promise<Partial<AgentStateType>> => {
-    // 创建工具名称到工具实例的映射
-    const toolNameMap = new Map<string, StructuredTool>(
-      agentConfig.tools.map((tool) => [tool.name, tool]),
-    );
-
-    const aiMessage = state.messages[state.messages.length - 1] as AIMessage;
-    const toolCalls = aiMessage.tool_calls ?? [];
-
-    const toolMessages: ToolMessage[] = [];
-    try {
-      // 逐个执行工具调用
-      for (const toolCall of toolCalls) {
-        if (!toolCall.id) {
-          log.error('工具调用 ID 不存在, toolCall.name={%s}', toolCall.name);
-          throw new Error('工具调用 ID 不存在');
-        }
-
-        const id = randomUUID();
-        const startAt = Date.now();
-        let result: unknown = null;
-
-        try {
-          // 查找并执行工具
-          const tool = toolNameMap.get(toolCall.name);
-          if (!tool) {
-            log.error('工具不存在, toolCall.name={%s}', toolCall.name);
-            throw new Error('工具不存在');
-          }
-          result = await tool.invoke(toolCall.args);
-        } catch (err) {
-          log.error(
-            '工具调用失败, toolCall.name={%s}, toolCall.args={%s}, error={%o}',
-            toolCall.name,
-            JSON.stringify(toolCall.args),
-            err,
-          );
-          result = `工具执行出错: ${JSON.stringify(err)}`;
-        }
-
-        // 创建工具消息
-        toolMessages.push(
-          new ToolMessage({
-            content: JSON.stringify(result),
-            name: toolCall.name,
-            tool_call_id: toolCall.id,
+    const startAt = Date.now();
+    const { schema } = agentConfig.structuredOutput;
+    const zodSchema = createStructuredOutputSchema(schema);
+
+    // 使用 JSON Schema 而不是 Zod 验证模式生成结构化输出，LangChain 不会校验输出，由本节点校验并重试
+    const structuredLlm = (llm as BaseChatModel).withStructuredOutput(schema, {
+      name: STRUCTURED_OUTPUT_NAME,
+      includeRaw: true,
+    });
+
+    let prompt = STRUCTURED_OUTPUT_PROMPT;
+    let usage: ReturnType<typeof calculateTokenUsage> | null = null;
+    let lastError = '';
+
+    for (let attempt = 0; attempt <= STRUCTURED_OUTPUT_MAX_RETRIES; attempt++) {
+      const inputMessages = [...state.messages, new HumanMessage(prompt)];
+      const { raw, parsed } = await structuredLlm.invoke(inputMessages);
+
+      // 累加每次模型调用的 token 用量与费用
+      const attemptUsage = calculateTokenUsage(
+        inputMessages,
+        raw as AIMessage,
+        agentConfig.modelPricing,
+      );
+      usage =
+        usage === null
+          ? attemptUsage
+          : {
+              ...attemptUsage,
+              messageTokenCount:
+                usage.messageTokenCount + attemptUsage.messageTokenCount,
+              answerTokenCount:
+                usage.answerTokenCount + attemptUsage.answerTokenCount,
+              totalTokenCount:
+                usage.totalTokenCount + attemptUsage.totalTokenCount,
+              totalPrice: usage.totalPrice + attemptUsage.totalPrice,
+            };
+
+      const result = zodSchema.safeParse(parsed);
+      if (result.success) {
+        const answer = JSON.stringify(result.data);
+        state.emit(
+          createAgentThought({
+            id: randomUUID(),
+            taskId: state.taskId,
+            event: QueueEvent.AGENT_MESSAGE,
+            thought: answer,
+            message: state.messages.map((message) => message.toDict()),
+            answer,
+            structuredAnswer: result.data,
+            latency: Date.now() - startAt,
+            ...usage,
           }),
         );
-
-        // 根据工具类型确定事件类型
-        const event =
-          toolCall.name === DATASET_RETRIEVAL_TOOL_NAME
-            ? QueueEvent.DATASET_RETRIEVAL
-            : QueueEvent.AGENT_ACTION;
-
-        // 发射工具执行事件
         state.emit(
           createAgentThought({
-            id,
+            id: randomUUID(),
             taskId: state.taskId,
-            event,
-            observation: JSON.stringify(result),
-            tool: toolCall.name,
-            toolInput: toolCall.args,
-            latency: Date.now() - startAt,
+            event: QueueEvent.AGENT_END,
           }),
         );
+        return {
+          messages: [new AIMessage(answer)],
+        };
       }
-    } catch (error) {
-      log.error('Tool 节点执行出错, error={%o}', error);
-      state.emit(
-        createErrorAgentThought(
-          state.taskId,
-          new Error(`Tool 节点执行出错: ${JSON.stringify(error)}`),
-        ),
+
+      // 校验失败时，将上一次的输出和错误信息反馈给模型重新生成
+      lastError =
+        parsed === null || parsed === undefined
+          ? '输出不是有效的 JSON'
+          : formatStructuredOutputError(result.error);
+      log.warn(
+        'Structured output validation failed, attempt={%s}, error={%s}',
+        attempt,
+        lastError,
       );
-      throw new InternalServerErrorException('Tool 节点执行出错');
+      prompt = STRUCTURED_OUTPUT_RETRY_PROMPT_TEMPLATE.replace(
+        '{output}',
+        parsed === null || parsed === undefined
+          ? String((raw as AIMessage).content)
+          : JSON.stringify(parsed),
+      ).replace('{error}', lastError);
     }
 
-    return {
-      messages: toolMessages,
-    };
-  };
-
-  /**
-   * 预设操作条件判断
-   *
-   * 检查预设操作节点是否需要继续执行或结束
-   *
-   * @param state - 当前智能体状态
-   * @returns 下一个节点的名称
-   */
-  const presetOperationCondition = (state: AgentStateType) => {
-    const message = state.messages[state.messages.length - 1];
-    if (isAIMessage(message)) {
-      return END; // 如果已经生成了AI消息，结束执行
-    }
-    return 'long_term_memory_recall'; // 否则继续到长期记忆召回
-  };
-
-  /**
-   * LLM 条件判断
-   *
-   * 检查LLM节点是否需要调用工具或结束
-   *
-   * @param state - 当前智能体状态
-   * @returns 下一个节点的名称
-   */
-  const llmCondition = (state: AgentStateType) => {
-    const message = state.messages[state.messages.length - 1] as AIMessage;
-    if (message.tool_calls && message.tool_calls.length > 0) {
-      return 'tools'; // 如果有工具调用，执行工具节点
-    }
-    return END; // 否则结束执行
+    state.emit(
+      createErrorAgentThought(
+        state.taskId,
+        new Error(`结构化输出不符合 JSON Schema: ${lastError}`),
+      ),
+    );
+    return {};
   };
 
   /**
@@ -497,13 +378,21 @@ export const createFunctionCallAgent = (options: AgentOptions) => {
   const buildGraph = () => {
     const graph = new StateGraph(AgentState)
       // 添加所有执行节点
-      .addNode('preset_operation', withStopCheck(presetOperationNode))
+      .addNode(
+        'preset_operation',
+        withStopCheck(createPresetOperationNode(agentConfig)),
+      )
       .addNode(
         'long_term_memory_recall',
-        withStopCheck(longTermMemoryRecallNode),
+        withStopCheck(createLongTermMemoryRecallNode(agentConfig)),
       )
       .addNode('llm', withStopCheck(llmNode))
-      .addNode('tools', withStopCheck(toolsNode))
+      .addNode(
+        'tool_approval',
+        withStopCheck(createToolApprovalNode(agentConfig)),
+      )
+      .addNode('tools', withStopCheck(createToolsNode(agentConfig)))
+      .addNode('structured_output', withStopCheck(structuredOutputNode))
 
       // 设置起始边
       .addEdge(START, 'preset_operation')
@@ -515,10 +404,15 @@ export const createFunctionCallAgent = (options: AgentOptions) => {
       )
       .addConditionalEdges('long_term_memory_recall', stopCondition('llm'))
       .addConditionalEdges('llm', stopCondition(llmCondition))
+      .addConditionalEdges(
+        'tool_approval',
+        stopCondition(toolApprovalCondition),
+      )
       .addConditionalEdges('tools', stopCondition('llm'))
+      .addEdge('structured_output', END)
 
-      // 编译图
-      .compile();
+      // 编译图，使用检查点保存运行状态，工具审批中断后可以恢复运行
+      .compile({ checkpointer });
 
     return graph;
   };
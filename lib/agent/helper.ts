@@ -5,16 +5,25 @@
  * - 任务停止控制机制
  * - 停止检查装饰器
  * - 停止条件判断
+ * - 模型调用的 token 用量与费用计算
  *
  * 使用 Redis 来管理任务的停止状态，支持跨进程的任务控制。
  */
 
 import { randomUUID } from 'node:crypto';
+import { calculateTokenCount } from '@/lib/embedding';
 import { InvokeFrom } from '@/lib/entity';
+import type { ModelPricing } from '@/lib/llm';
 import { redisClient } from '@/lib/redis';
+import {
+  type AIMessage,
+  type BaseMessage,
+  getBufferString,
+} from '@langchain/core/messages';
 import { END } from '@langchain/langgraph';
 import {
   type AgentStateType,
+  type AgentThought,
   QueueEvent,
   TASK_TIMEOUT,
   createAgentThought,
@@ -191,3 +200,63 @@ export const clearTaskBelongCache = async (taskId: string) => {
   const key = TASK_BELONG_CACHE_KEY.replace('{task_id}', taskId);
   await redisClient.del(key);
 };
+
+/**
+ * 计算一次模型调用的 token 用量与费用
+ *
+ * 优先使用模型提供商返回的用量元数据，如果提供商未返回用量信息，
+ * 则使用 tiktoken 对输入消息和输出内容进行估算。
+ *
+ * @param inputMessages - 发送给模型的消息列表
+ * @param output - 模型输出的消息，流式调用时为合并后的消息
+ * @param pricing - 模型价格信息
+ * @returns 可直接合并到智能体思考记录中的用量与费用字段
+ */
+export const calculateTokenUsage = (
+  inputMessages: BaseMessage[],
+  output: AIMessage,
+  pricing: ModelPricing,
+): Pick<
+  AgentThought,
+  | 'messageTokenCount'
+  | 'messageUnitPrice'
+  | 'messagePriceUnit'
+  | 'answerTokenCount'
+  | 'answerUnitPrice'
+  | 'answerPriceUnit'
+  | 'totalTokenCount'
+  | 'totalPrice'
+> => {
+  let messageTokenCount = output.usage_metadata?.input_tokens ?? 0;
+  let answerTokenCount = output.usage_metadata?.output_tokens ?? 0;
+
+  // 提供商未返回用量信息时，使用 tiktoken 进行估算
+  if (messageTokenCount === 0 && answerTokenCount === 0) {
+    messageTokenCount = calculateTokenCount(getBufferString(inputMessages));
+    const outputText =
+      typeof output.content === 'string'
+        ? output.content
+        : JSON.stringify(output.content);
+    answerTokenCount = calculateTokenCount(
+      output.tool_calls && output.tool_calls.length > 0
+        ? `${outputText}${JSON.stringify(output.tool_calls)}`
+        : outputText,
+    );
+  }
+
+  const totalPrice =
+    (messageTokenCount * pricing.inputPrice +
+      answerTokenCount * pricing.outputPrice) *
+    pricing.unit;
+
+  return {
+    messageTokenCount,
+    messageUnitPrice: pricing.inputPrice,
+    messagePriceUnit: pricing.unit,
+    answerTokenCount,
+    answerUnitPrice: pricing.outputPrice,
+    answerPriceUnit: pricing.unit,
+    totalTokenCount: messageTokenCount + answerTokenCount,
+    totalPrice,
+  };
+};
@@ -0,0 +1,198 @@
+/**
+ * 智能体模块主文件
+ *
+ * 根据模型的能力元数据选择智能体的实现方式：
+ * - 支持原生工具调用的模型使用函数调用智能体
+ * - 不支持原生工具调用的模型使用基于提示词的 ReAct 智能体
+ *
+ * 并提供统一的智能体运行入口，负责处理工具审批中断与恢复运行，
+ * 以及进程退出后从检查点恢复未完成的运行。
+ */
+
+import { randomUUID } from 'node:crypto';
+import { type LanguageModel, ModelFeature } from '@/lib/llm';
+import { log } from '@/lib/logger';
+import { Command } from '@langchain/langgraph';
+import {
+  type AgentOptions,
+  type AgentStateType,
+  QueueEvent,
+  createAgentThought,
+} from './entity';
+import { createFunctionCallAgent } from './function-call-agent';
+import { checkForStop } from './helper';
+import { createReActAgent } from './react-agent';
+import {
+  type ToolApprovalRequest,
+  UNATTENDED_TOOL_APPROVAL_DECISION,
+  waitForToolApproval,
+} from './tool-approval';
+
+/**
+ * 创建智能体
+ *
+ * @param options - 智能体配置选项
+ * @param languageModel - 模型注册表中的模型定义，用于判断模型是否支持原生工具调用
+ * @returns 编译后的状态图实例
+ */
+export const createAgent = (
+  options: AgentOptions,
+  languageModel: LanguageModel,
+) => {
+  if (languageModel.features.includes(ModelFeature.TOOL_CALL)) {
+    return createFunctionCallAgent(options);
+  }
+  return createReActAgent(options);
+};
+
+/**
+ * 处理智能体的工具审批中断
+ *
+ * 智能体因工具审批中断时：
+ * 1. 发射工具审批事件，通知客户端审批工具调用
+ * 2. 等待用户审批，任务被停止时发射停止事件并结束运行
+ * 3. 将审批结果传入智能体，从检查点恢复运行
+ *
+ * 调用方无法审批时（如阻塞式调用）不等待审批，需要审批的工具调用直接视为拒绝执行。
+ *
+ * @param agent - 编译后的智能体状态图
+ * @param taskId - 任务ID，同时作为检查点的线程ID
+ * @param emit - 事件发射器
+ * @param waitForApproval - 是否等待用户审批
+ */
+const handleToolApprovalInterrupts = async (
+  agent: ReturnType<typeof createAgent>,
+  taskId: string,
+  emit: AgentStateType['emit'],
+  waitForApproval = true,
+) => {
+  const config = { configurable: { thread_id: taskId } };
+
+  while (true) {
+    // 检查智能体是否因工具审批中断
+    const snapshot = await agent.getState(config);
+    const interrupts = snapshot.tasks.flatMap((task) => task.interrupts);
+    if (interrupts.length === 0) {
+      return;
+    }
+
+    const request = interrupts[0].value as ToolApprovalRequest;
+    log.info(
+      '工具调用等待审批, taskId={%s}, toolCalls={%s}',
+      taskId,
+      JSON.stringify(request.toolCalls),
+    );
+    if (!waitForApproval) {
+      await agent.invoke(
+        new Command({
+          resume: UNATTENDED_TOOL_APPROVAL_DECISION,
+          update: { emit },
+        }),
+        config,
+      );
+      continue;
+    }
+
+    emit(
+      createAgentThought({
+        id: randomUUID(),
+        taskId,
+        event: QueueEvent.TOOL_APPROVAL,
+        thought: JSON.stringify(request.toolCalls),
+        tool: request.toolCalls.map((toolCall) => toolCall.name).join(','),
+        toolInput: request,
+      }),
+    );
+
+    const decision = await waitForToolApproval(taskId, request, () =>
+      checkForStop(taskId),
+    );
+    if (decision === null) {
+      emit(
+        createAgentThought({
+          id: randomUUID(),
+          taskId,
+          event: QueueEvent.STOP,
+        }),
+      );
+      return;
+    }
+
+    await agent.invoke(
+      new Command({ resume: decision, update: { emit } }),
+      config,
+    );
+  }
+};
+
+/**
+ * 运行智能体
+ *
+ * 以任务ID作为检查点的线程ID运行智能体，并处理运行过程中的工具审批中断。
+ * 检查点不会保存事件发射器，恢复运行时需要重新传入。
+ *
+ * @param agent - 编译后的智能体状态图
+ * @param input - 智能体初始状态
+ * @param options - 运行选项
+ * @param options.waitForApproval - 是否等待用户审批工具调用，默认为 true
+ */
+export const invokeAgent = async (
+  agent: ReturnType<typeof createAgent>,
+  input: Pick<
+    AgentStateType,
+    | 'messages'
+    | 'history'
+    | 'historySummary'
+    | 'longTermMemory'
+    | 'taskId'
+    | 'iterationCount'
+    | 'emit'
+    | 'stop'
+  >,
+  options: { waitForApproval?: boolean } = {},
+) => {
+  const { taskId, emit } = input;
+  await agent.invoke(input, { configurable: { thread_id: taskId } });
+  await handleToolApprovalInterrupts(
+    agent,
+    taskId,
+    emit,
+    options.waitForApproval ?? true,
+  );
+};
+
+/**
+ * 从检查点恢复智能体运行
+ *
+ * 用于运行任务的进程退出后继续未完成的运行：从任务最后一个检查点开始，
+ * 重新执行未完成的节点，等待审批的工具调用会重新发射工具审批事件。
+ *
+ * @param agent - 使用相同检查点存储编译的智能体状态图
+ * @param taskId - 任务ID，同时作为检查点的线程ID
+ * @param emit - 新的事件发射器
+ * @returns 是否存在可以恢复的运行
+ */
+export const resumeAgent = async (
+  agent: ReturnType<typeof createAgent>,
+  taskId: string,
+  emit: AgentStateType['emit'],
+) => {
+  const config = { configurable: { thread_id: taskId } };
+  const snapshot = await agent.getState(config);
+  if (snapshot.next.length === 0) {
+    return false;
+  }
+
+  log.info(
+    '从检查点恢复智能体运行, taskId={%s}, next={%s}',
+    taskId,
+    snapshot.next.join(','),
+  );
+  // 因工具审批中断的运行直接重新等待审批，否则重新执行未完成的节点
+  const interrupted = snapshot.tasks.some((task) => task.interrupts.length > 0);
+  if (!interrupted) {
+    await agent.invoke(new Command({ update: { emit } }), config);
+  }
+  await handleToolApprovalInterrupts(agent, taskId, emit);
+  return true;
+};
@@ -0,0 +1,383 @@
+/**
+ * ReAct 智能体模块
+ *
+ * 这个模块为不支持原生工具调用的模型实现了基于提示词的 ReAct 智能体，支持：
+ * - 预设操作处理（关键词匹配和预设响应）
+ * - 长期记忆召回，并在系统提示中追加工具说明与输出格式约定
+ * - 解析模型输出中的思考、行动和最终回复，格式错误时要求模型重新输出
+ * - 工具执行和结果处理，工具结果以 Observation 的形式反馈给模型
+ *
+ * 智能体与函数调用智能体共用状态、事件和停止检查机制，
+ * 解析出的行动会被转换为标准的工具调用消息，由公共的工具执行节点执行。
+ */
+
+import { randomUUID } from 'node:crypto';
+import { InternalServerErrorException } from '@/exceptions';
+import { log } from '@/lib/logger';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import {
+  AIMessage,
+  type AIMessageChunk,
+  type BaseMessage,
+  HumanMessage,
+  isAIMessage,
+  isHumanMessage,
+  isToolMessage,
+} from '@langchain/core/messages';
+import type { StructuredTool } from '@langchain/core/tools';
+import { toJsonSchema } from '@langchain/core/utils/json_schema';
+import { END, MemorySaver, START, StateGraph } from '@langchain/langgraph';
+import {
+  createLongTermMemoryRecallNode,
+  createPresetOperationNode,
+  createToolApprovalNode,
+  createToolsNode,
+  maxIterationResponse,
+  presetOperationCondition,
+  reviewOutputContent,
+  toolApprovalCondition,
+} from './base-node';
+import {
+  type AgentConfig,
+  type AgentOptions,
+  AgentState,
+  type AgentStateType,
+  QueueEvent,
+  REACT_AGENT_PROMPT_TEMPLATE,
+  createAgentThought,
+  createErrorAgentThought,
+  defaultAgentConfig,
+} from './entity';
+import { calculateTokenUsage, stopCondition, withStopCheck } from './helper';
+import { extractFinalAnswer, parseReActOutput } from './react-output-parser';
+
+/**
+ * 模型输出的停止标记，避免模型自行编造工具执行结果
+ */
+const REACT_STOP_SEQUENCES = ['\nObservation:', '\nObservation：'];
+
+/**
+ * 渲染工具使用说明
+ *
+ * @param tools - 可用的工具列表
+ * @returns 追加在系统提示之后的工具使用说明，没有工具时返回空字符串
+ */
+const renderReActPrompt = (tools: StructuredTool[]) => {
+  if (tools.length === 0) {
+    return '';
+  }
+
+  const toolDescriptions = tools
+    .map(
+      (tool) =>
+        `- ${tool.name}: ${tool.description}\n  参数定义: ${JSON.stringify(toJsonSchema(tool.schema))}`,
+    )
+    .join('\n');
+
+  return REACT_AGENT_PROMPT_TEMPLATE.replace(
+    '{tools}',
+    toolDescriptions,
+  ).replace('{tool_names}', tools.map((tool) => tool.name).join(', '));
+};
+
+/**
+ * 将消息内容转换为文本，非字符串内容（如多模态内容）序列化为 JSON
+ *
+ * @param content - 消息内容
+ * @returns 文本内容
+ */
+const toText = (content: BaseMessage['content']) =>
+  typeof content === 'string' ? content : JSON.stringify(content);
+
+/**
+ * 将状态中的消息转换为 ReAct 模型可以理解的消息
+ *
+ * 不支持工具调用的模型无法处理工具调用消息和工具消息：
+ * - 带有工具调用的 AI 消息只保留文本内容
+ * - 工具消息转换为以 Observation 开头的人类消息
+ *
+ * @param messages - 状态中的消息列表
+ * @returns 转换后的消息列表
+ */
+const toReActMessages = (messages: BaseMessage[]) => {
+  return messages.map((message) => {
+    if (isToolMessage(message)) {
+      return new HumanMessage(`Observation: ${toText(message.content)}`);
+    }
+    if (isAIMessage(message) && message.tool_calls?.length) {
+      return new AIMessage(toText(message.content));
+    }
+    return message;
+  });
+};
+
+/**
+ * 创建 ReAct 智能体
+ *
+ * 这个函数创建一个完整的智能体系统，包含以下执行节点：
+ * 1. preset_operation: 处理预设操作（关键词匹配）
+ * 2. long_term_memory_recall: 长期记忆召回，并追加工具使用说明
+ * 3. llm: LLM 推理并解析行动或最终回复
+ * 4. tool_approval: 修改外部状态的工具执行前等待用户审批
+ * 5. tools: 工具执行
+ *
+ * @param options - 智能体配置选项
+ * @returns 编译后的状态图实例
+ */
+export const createReActAgent = (options: AgentOptions) => {
+  const {
+    llm,
+    agentConfig: inputAgentConfig,
+    checkpointer = new MemorySaver(),
+  } = options;
+
+  // 合并默认配置和用户配置
+  const agentConfig: AgentConfig = {
+    ...defaultAgentConfig,
+    ...inputAgentConfig,
+  };
+
+  /**
+   * LLM 推理节点
+   *
+   * 这是智能体的核心节点，负责：
+   * - 检查迭代次数限制
+   * - 调用语言模型进行推理，流式输出最终回复
+   * - 解析模型输出，将行动转换为工具调用
+   * - 输出格式错误时反馈错误信息，要求模型重新输出
+   *
+   * @param state - 当前智能体状态
+   * @returns 更新后的状态部分
+   */
+  const llmNode = async (
+    state: AgentStateType,
+  ): Promise<Partial<AgentStateType>> => {
+    // 检查是否超过最大迭代次数
+    if (state.iterationCount >= agentConfig.maxIterationCount) {
+      return maxIterationResponse(state);
+    }
+
+    const startAt = Date.now();
+    const id = randomUUID();
+    const inputMessages = toReActMessages(state.messages);
+
+    // 流式调用LLM
+    const chunks = await (llm as BaseChatModel).stream(inputMessages, {
+      stop: REACT_STOP_SEQUENCES,
+    });
+    let gathered: AIMessageChunk | null = null;
+    let text = '';
+    let streamedLength = 0;
+
+    /**
+     * 发射最终回复中尚未输出的内容
+     * @param answer - 当前已生成的最终回复
+     */
+    const emitAnswer = (answer: string) => {
+      if (answer.length <= streamedLength) {
+        return;
+      }
+      const content = reviewOutputContent(
+        answer.slice(streamedLength),
+        agentConfig.reviewConfig,
+      );
+      streamedLength = answer.length;
+      state.emit(
+        createAgentThought({
+          id,
+          taskId: state.taskId,
+          event: QueueEvent.AGENT_MESSAGE,
+          thought: content,
+          message: state.messages.map((message) => message.toDict()),
+          answer: content,
+          latency: Date.now() - startAt,
+        }),
+      );
+    };
+
+    // 处理流式响应，出现最终回复标记后开始流式输出
+    for await (const chunk of chunks) {
+      gathered = gathered === null ? chunk : gathered.concat(chunk);
+      if (typeof chunk.content === 'string') {
+        text += chunk.content;
+      }
+
+      const answer = extractFinalAnswer(text);
+      if (answer !== null) {
+        emitAnswer(answer);
+      }
+    }
+
+    // 检查是否成功生成消息
+    if (gathered === null) {
+      state.emit(
+        createErrorAgentThought(state.taskId, new Error('LLM 生成消息失败')),
+      );
+      log.error(
+        'LLM 生成消息失败, state.messages={%s}',
+        JSON.stringify(state.messages.map((message) => message.toDict())),
+      );
+      throw new InternalServerErrorException('LLM 生成消息失败');
+    }
+
+    // 计算本次模型调用的 token 用量与费用
+    const usage = calculateTokenUsage(
+      inputMessages,
+      gathered,
+      agentConfig.modelPricing,
+    );
+    const output = parseReActOutput(text);
+
+    // 模型选择调用工具，转换为标准的工具调用消息
+    if (output.type === 'action') {
+      const toolCall = {
+        id: `call_${randomUUID()}`,
+        name: output.tool,
+        args: output.toolInput,
+        type: 'tool_call' as const,
+      };
+      state.emit(
+        createAgentThought({
+          id,
+          taskId: state.taskId,
+          event: QueueEvent.AGENT_THOUGHT,
+          thought: output.thought || JSON.stringify([toolCall]),
+          message: state.messages.map((message) => message.toDict()),
+          latency: Date.now() - startAt,
+          ...usage,
+        }),
+      );
+      return {
+        messages: [new AIMessage({ content: text, tool_calls: [toolCall] })],
+        iterationCount: state.iterationCount + 1,
+      };
+    }
+
+    // 输出格式错误，将错误信息反馈给模型重新输出
+    if (output.type === 'invalid') {
+      log.warn('ReAct 输出格式错误, error={%s}, text={%s}', output.error, text);
+      state.emit(
+        createAgentThought({
+          id,
+          taskId: state.taskId,
+          event: QueueEvent.AGENT_THOUGHT,
+          thought: output.thought,
+          observation: output.error,
+          message: state.messages.map((message) => message.toDict()),
+          latency: Date.now() - startAt,
+          ...usage,
+        }),
+      );
+      return {
+        messages: [
+          new AIMessage(text),
+          new HumanMessage(
+            `Observation: 输出格式错误，${output.error}，请严格按照工具使用说明中的格式重新回复`,
+          ),
+        ],
+        iterationCount: state.iterationCount + 1,
+      };
+    }
+
+    // 最终回复，补充输出没有格式标记时未流式输出的内容
+    emitAnswer(output.answer);
+    state.emit(
+      createAgentThought({
+        id,
+        taskId: state.taskId,
+        event: QueueEvent.AGENT_MESSAGE,
+        message: state.messages.map((message) => message.toDict()),
+        latency: Date.now() - startAt,
+        ...usage,
+      }),
+    );
+    state.emit(
+      createAgentThought({
+        id: randomUUID(),
+        taskId: state.taskId,
+        event: QueueEvent.AGENT_END,
+      }),
+    );
+
+    return {
+      messages: [new AIMessage(output.answer)],
+      iterationCount: state.iterationCount + 1,
+    };
+  };
+
+  /**
+   * LLM 条件判断
+   *
+   * 检查LLM节点是否需要调用工具、重新推理或结束
+   *
+   * @param state - 当前智能体状态
+   * @returns 下一个节点的名称
+   */
+  const llmCondition = (state: AgentStateType) => {
+    const message = state.messages[state.messages.length - 1];
+    if (isAIMessage(message) && message.tool_calls?.length) {
+      return 'tool_approval'; // 如果有工具调用，审批后执行工具节点
+    }
+    if (isHumanMessage(message)) {
+      return 'llm'; // 输出格式错误，重新推理
+    }
+    return END; // 否则结束执行
+  };
+
+  /**
+   * 构建状态图
+   *
+   * 创建完整的智能体执行流程图，包括：
+   * - 节点定义和连接
+   * - 条件边（条件判断）
+   * - 停止检查包装
+   *
+   * @returns 编译后的状态图实例
+   */
+  const buildGraph = () => {
+    const graph = new StateGraph(AgentState)
+      // 添加所有执行节点
+      .addNode(
+        'preset_operation',
+        withStopCheck(createPresetOperationNode(agentConfig)),
+      )
+      .addNode(
+        'long_term_memory_recall',
+        withStopCheck(
+          createLongTermMemoryRecallNode(
+            agentConfig,
+            renderReActPrompt(agentConfig.tools),
+          ),
+        ),
+      )
+      .addNode('llm', withStopCheck(llmNode))
+      .addNode(
+        'tool_approval',
+        withStopCheck(createToolApprovalNode(agentConfig)),
+      )
+      .addNode('tools', withStopCheck(createToolsNode(agentConfig)))
+
+      // 设置起始边
+      .addEdge(START, 'preset_operation')
+
+      // 设置条件边
+      .addConditionalEdges(
+        'preset_operation',
+        stopCondition(presetOperationCondition),
+      )
+      .addConditionalEdges('long_term_memory_recall', stopCondition('llm'))
+      .addConditionalEdges('llm', stopCondition(llmCondition))
+      .addConditionalEdges(
+        'tool_approval',
+        stopCondition(toolApprovalCondition),
+      )
+      .addConditionalEdges('tools', stopCondition('llm'))
+
+      // 编译图，使用检查点保存运行状态，工具审批中断后可以恢复运行
+      .compile({ checkpointer });
+
+    return graph;
+  };
+
+  return buildGraph();
+};
@@ -0,0 +1,172 @@
+/**
+ * ReAct 输出解析模块
+ *
+ * 解析 ReAct 智能体的模型输出，支持以下格式：
+ *
+ * ```
+ * Thought: 思考内容
+ * Action: 工具名称
+ * Action Input: {"参数": "值"}
+ * ```
+ *
+ * ```
+ * Thought: 思考内容
+ * Final Answer: 最终回复
+ * ```
+ *
+ * 能力较弱的模型经常输出不规范的格式，解析时会尽量修复：
+ * - 忽略模型自行编造的 Observation 及之后的内容
+ * - 去除 Action Input 外层的 Markdown 代码块，截取第一个 JSON 对象
+ * - 没有任何格式标记的输出视为最终回复
+ */
+
+/** 最终回复标记 */
+const FINAL_ANSWER_REGEX = /Final\s*Answer\s*[:：]/i;
+/** 工具名称标记 */
+const ACTION_REGEX = /^\s*Action\s*\d*\s*[:：]\s*(.*)$/im;
+/** 工具参数标记 */
+const ACTION_INPUT_REGEX = /Action\s*\d*\s*Input\s*\d*\s*[:：]/i;
+/** 思考内容标记 */
+const THOUGHT_REGEX = /^\s*Thought\s*[:：]\s*/i;
+/** 观察结果标记，模型不应该输出该标记之后的内容 */
+const OBSERVATION_REGEX = /\n\s*Observation\s*[:：]/i;
+
+/**
+ * ReAct 输出解析结果
+ * - final: 最终回复
+ * - action: 工具调用
+ * - invalid: 格式错误，error 为需要反馈给模型的错误信息
+ */
+export type ReActOutput =
+  | { type: 'final'; thought: string; answer: string }
+  | {
+      type: 'action';
+      thought: string;
+      tool: string;
+      toolInput: Record<string, unknown>;
+    }
+  | { type: 'invalid'; thought: string; error: string };
+
+/**
+ * 提取最终回复标记之后的内容
+ *
+ * @param text - 模型输出内容
+ * @returns 最终回复内容，没有最终回复标记时返回 null
+ */
+export const extractFinalAnswer = (text: string) => {
+  const match = FINAL_ANSWER_REGEX.exec(text);
+  if (!match) {
+    return null;
+  }
+  return text.slice(match.index + match[0].length).replace(/^\s+/, '');
+};
+
+/**
+ * 提取思考内容
+ *
+ * @param text - 模型输出内容中标记之前的部分
+ * @returns 去除 Thought 标记后的思考内容
+ */
+const extractThought = (text: string) => {
+  return text.replace(THOUGHT_REGEX, '').trim();
+};
+
+/**
+ * 解析工具参数，并尽量修复常见的格式问题
+ *
+ * @param text - Action Input 标记之后的内容
+ * @returns 工具参数对象，无法解析时返回 null
+ */
+export const parseActionInput = (text: string) => {
+  const content = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```[\s\S]*$/, '')
+    .trim();
+  if (content === '') {
+    return {};
+  }
+
+  const candidates = [content];
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    candidates.push(content.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      const value = JSON.parse(candidate);
+      if (
+        typeof value === 'object' &&
+        value !== null &&
+        !Array.isArray(value)
+      ) {
+        return value as Record<string, unknown>;
+      }
+    } catch {
+      // 继续尝试下一个候选内容
+    }
+  }
+  return null;
+};
+
+/**
+ * 解析 ReAct 智能体的模型输出
+ *
+ * @param output - 模型输出内容
+ * @returns 解析结果
+ */
+export const parseReActOutput = (output: string): ReActOutput => {
+  // 模型不应该自行输出观察结果，截断观察结果及之后的内容
+  const observationMatch = OBSERVATION_REGEX.exec(output);
+  const text = observationMatch
+    ? output.slice(0, observationMatch.index)
+    : output;
+
+  const actionMatch = ACTION_REGEX.exec(text);
+  const finalAnswerMatch = FINAL_ANSWER_REGEX.exec(text);
+
+  // 最终回复出现在工具调用之前时，以最终回复为准
+  if (
+    finalAnswerMatch &&
+    (!actionMatch || finalAnswerMatch.index < actionMatch.index)
+  ) {
+    return {
+      type: 'final',
+      thought: extractThought(text.slice(0, finalAnswerMatch.index)),
+      answer: extractFinalAnswer(text) ?? '',
+    };
+  }
+
+  if (actionMatch) {
+    const thought = extractThought(text.slice(0, actionMatch.index));
+    const tool = actionMatch[1].trim().replace(/^[`"'[]+|[`"'\]]+$/g, '');
+    if (tool === '') {
+      return { type: 'invalid', thought, error: 'Action 中缺少工具名称' };
+    }
+
+    const actionInputMatch = ACTION_INPUT_REGEX.exec(text);
+    const toolInput = actionInputMatch
+      ? parseActionInput(
+          text.slice(actionInputMatch.index + actionInputMatch[0].length),
+        )
+      : {};
+    if (toolInput === null) {
+      return {
+        type: 'invalid',
+        thought,
+        error: 'Action Input 必须是合法的 JSON 对象',
+      };
+    }
+
+    return { type: 'action', thought, tool, toolInput };
+  }
+
+  // 没有任何格式标记时，将整个输出视为最终回复
+  return {
+    type: 'final',
+    thought: '',
+    answer: text.replace(THOUGHT_REGEX, '').trim(),
+  };
+};
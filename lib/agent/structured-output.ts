@@ -0,0 +1,125 @@
+/**
+ * 结构化输出模块
+ *
+ * 应用启用结构化输出后，智能体的最终回答需要符合用户定义的 JSON Schema：
+ * - 将用户定义的 JSON Schema 转换为 Zod 验证模式，用于校验模型输出
+ * - 提供生成结构化输出以及校验失败后重试的提示词
+ *
+ * 支持的 JSON Schema 子集：object、array、string（含 enum）、number、integer、boolean、null，
+ * 以及 properties、required、items、description 关键字。
+ */
+
+import { z } from 'zod';
+
+/** 结构化输出工具的名称 */
+export const STRUCTURED_OUTPUT_NAME = 'structured_output';
+
+/** 结构化输出校验失败后的最大重试次数 */
+export const STRUCTURED_OUTPUT_MAX_RETRIES = 1;
+
+/** 生成结构化输出的提示词 */
+export const STRUCTURED_OUTPUT_PROMPT =
+  '请根据以上对话内容生成最终回答，回答必须严格符合指定的 JSON Schema。';
+
+/** 结构化输出校验失败后重试的提示词模板 */
+export const STRUCTURED_OUTPUT_RETRY_PROMPT_TEMPLATE = `请根据以上对话内容生成最终回答，回答必须严格符合指定的 JSON Schema。
+上一次生成的回答不符合 JSON Schema，请修正后重新生成：
+<output>{output}</output>
+<error>{error}</error>`;
+
+/** JSON Schema 定义 */
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * 将 JSON Schema 转换为 Zod 验证模式
+ *
+ * @param schema - JSON Schema 定义
+ * @param path - 当前字段的路径，用于生成错误信息
+ * @returns 对应的 Zod 验证模式
+ * @throws {Error} 当 JSON Schema 包含不支持的类型时抛出异常
+ */
+const convertJsonSchema = (schema: JsonSchema, path: string): z.ZodTypeAny => {
+  let zodType: z.ZodTypeAny;
+
+  switch (schema.type) {
+    case 'object': {
+      const properties = (schema.properties ?? {}) as Record<
+        string,
+        JsonSchema
+      >;
+      const required = new Set((schema.required ?? []) as string[]);
+      const shape: Record<string, z.ZodTypeAny> = {};
+      for (const [name, property] of Object.entries(properties)) {
+        const propertyType = convertJsonSchema(property, `${path}.${name}`);
+        shape[name] = required.has(name)
+          ? propertyType
+          : propertyType.optional();
+      }
+      zodType = z.object(shape);
+      break;
+    }
+    case 'array': {
+      if (!schema.items || typeof schema.items !== 'object') {
+        throw new Error(`字段 ${path} 缺少 items 定义`);
+      }
+      zodType = z.array(
+        convertJsonSchema(schema.items as JsonSchema, `${path}[]`),
+      );
+      break;
+    }
+    case 'string': {
+      const values = schema.enum as string[] | undefined;
+      zodType =
+        Array.isArray(values) && values.length > 0
+          ? z.enum(values as [string, ...string[]])
+          : z.string();
+      break;
+    }
+    case 'number':
+      zodType = z.number();
+      break;
+    case 'integer':
+      zodType = z.number().int();
+      break;
+    case 'boolean':
+      zodType = z.boolean();
+      break;
+    case 'null':
+      zodType = z.null();
+      break;
+    default:
+      throw new Error(`字段 ${path} 的类型 ${String(schema.type)} 不支持`);
+  }
+
+  return typeof schema.description === 'string'
+    ? zodType.describe(schema.description)
+    : zodType;
+};
+
+/**
+ * 根据 JSON Schema 创建结构化输出的 Zod 验证模式
+ *
+ * 结构化输出的根节点必须是 object 类型。
+ *
+ * @param schema - 用户定义的 JSON Schema
+ * @returns 对应的 Zod 验证模式
+ * @throws {Error} 当 JSON Schema 无效或包含不支持的类型时抛出异常
+ */
+export const createStructuredOutputSchema = (schema: JsonSchema) => {
+  if (schema.type !== 'object') {
+    throw new Error('根节点的类型必须为 object');
+  }
+  return convertJsonSchema(schema, '$');
+};
+
+/**
+ * 格式化 Zod 校验错误，用于反馈给模型
+ *
+ * @param error - Zod 校验错误
+ * @returns 每行一个错误的错误信息
+ */
+export const formatStructuredOutputError = (error: z.ZodError) => {
+  return error.issues
+    .map((issue) => `${['$', ...issue.path].join('.')}: ${issue.message}`)
+    .join('\n');
+};
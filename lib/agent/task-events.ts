@@ -0,0 +1,178 @@
+/**
+ * 智能体任务事件日志模块
+ *
+ * 智能体任务在队列 worker 中运行，运行过程中发射的事件按顺序记录在 Redis 列表中，
+ * 并通过 Redis 发布订阅实时推送给 HTTP 层转发为 SSE 事件，客户端断开连接后，
+ * 可以根据任务ID重新连接事件流并从指定位置回放错过的事件：
+ * - 任务运行上下文：记录任务所属的应用、对话和消息，以及任务是否已经结束
+ * - 任务事件列表：按发射顺序记录任务的所有事件（心跳事件除外）
+ * - 任务事件频道：实时推送任务事件和任务结束消息
+ */
+
+import { redisClient } from '@/lib/redis';
+import { type AgentThought, QueueEvent, TASK_TIMEOUT } from './entity';
+
+/** Redis 中存储任务运行上下文的键模板 */
+const TASK_RUN_KEY = 'task_run:{task_id}';
+/** Redis 中存储任务事件列表的键模板 */
+const TASK_EVENTS_KEY = 'task_events:{task_id}';
+/** Redis 中推送任务事件的频道模板 */
+const TASK_EVENTS_CHANNEL = 'task_events_channel:{task_id}';
+
+/** 任务运行上下文与事件列表的保留时间（毫秒）- 任务超时时间之后再保留1小时，用于任务结束后回放事件 */
+const TASK_EVENTS_RETENTION = TASK_TIMEOUT + 60 * 60 * 1000;
+
+/**
+ * 记录并推送任务事件的 Lua 脚本，保证事件的记录顺序与推送顺序一致
+ * 心跳事件只推送不记录，推送消息中的事件索引为 null
+ */
+const APPEND_TASK_EVENT_SCRIPT = `
+  local index = 'null'
+  if ARGV[2] == '1' then
+    index = redis.call('RPUSH', KEYS[1], ARGV[1]) - 1
+    redis.call('PEXPIRE', KEYS[1], ARGV[3])
+  end
+  redis.call('PUBLISH', ARGV[4], '{"finished":false,"index":' .. index .. ',"agentThought":' .. ARGV[1] .. '}')
+`;
+
+/**
+ * 任务运行上下文
+ */
+export type TaskRunContext = {
+  /** 应用ID */
+  appId: string;
+  /** 发起任务的用户ID */
+  userId: string;
+  /** 对话ID */
+  conversationId: string;
+  /** 消息ID */
+  messageId: string;
+  /** 任务是否已经结束 */
+  finished: boolean;
+};
+
+/**
+ * 任务事件频道推送的消息
+ */
+export type TaskEventMessage =
+  | {
+      finished: false;
+      /** 事件在任务事件列表中的索引，心跳事件为 null */
+      index: number | null;
+      /** 任务发射的事件 */
+      agentThought: AgentThought;
+    }
+  | {
+      /** 任务已经结束，不会再推送新的事件 */
+      finished: true;
+    };
+
+/**
+ * 保存任务运行上下文
+ *
+ * @param taskId - 任务ID
+ * @param context - 任务运行上下文
+ */
+export const setTaskRunContext = async (
+  taskId: string,
+  context: TaskRunContext,
+) => {
+  const key = TASK_RUN_KEY.replace('{task_id}', taskId);
+  await redisClient.set(
+    key,
+    JSON.stringify(context),
+    'PX',
+    TASK_EVENTS_RETENTION,
+  );
+};
+
+/**
+ * 获取任务运行上下文
+ *
+ * @param taskId - 任务ID
+ * @returns 任务运行上下文，任务不存在或已过期时返回 null
+ */
+export const getTaskRunContext = async (taskId: string) => {
+  const key = TASK_RUN_KEY.replace('{task_id}', taskId);
+  const value = await redisClient.get(key);
+  return value ? (JSON.parse(value) as TaskRunContext) : null;
+};
+
+/**
+ * 标记任务已经结束，并推送任务结束消息
+ *
+ * @param taskId - 任务ID
+ */
+export const markTaskFinished = async (taskId: string) => {
+  const context = await getTaskRunContext(taskId);
+  if (context) {
+    await setTaskRunContext(taskId, { ...context, finished: true });
+  }
+  const channel = TASK_EVENTS_CHANNEL.replace('{task_id}', taskId);
+  await redisClient.publish(channel, JSON.stringify({ finished: true }));
+};
+
+/**
+ * 记录并推送任务事件
+ *
+ * 心跳事件仅用于保持连接活跃，只推送不记录。
+ * 需要在事件处理器中首先调用，保证事件的记录顺序与发射顺序一致。
+ *
+ * @param taskId - 任务ID
+ * @param agentThought - 任务发射的事件
+ */
+export const appendTaskEvent = async (
+  taskId: string,
+  agentThought: AgentThought,
+) => {
+  const key = TASK_EVENTS_KEY.replace('{task_id}', taskId);
+  const channel = TASK_EVENTS_CHANNEL.replace('{task_id}', taskId);
+  await redisClient.eval(
+    APPEND_TASK_EVENT_SCRIPT,
+    1,
+    key,
+    JSON.stringify(agentThought),
+    agentThought.event === QueueEvent.PING ? '0' : '1',
+    TASK_EVENTS_RETENTION,
+    channel,
+  );
+};
+
+/**
+ * 获取任务事件
+ *
+ * @param taskId - 任务ID
+ * @param start - 起始事件索引，从 0 开始
+ * @returns 起始索引之后的所有事件
+ */
+export const getTaskEvents = async (taskId: string, start = 0) => {
+  const key = TASK_EVENTS_KEY.replace('{task_id}', taskId);
+  const values = await redisClient.lrange(key, start, -1);
+  return values.map((value) => JSON.parse(value) as AgentThought);
+};
+
+/**
+ * 订阅任务事件频道
+ *
+ * 订阅需要使用独立的 Redis 连接，取消订阅时会关闭该连接。
+ *
+ * @param taskId - 任务ID
+ * @param onMessage - 收到任务事件消息的回调
+ * @returns 取消订阅的函数
+ */
+export const subscribeTaskEvents = async (
+  taskId: string,
+  onMessage: (message: TaskEventMessage) => void,
+) => {
+  const channel = TASK_EVENTS_CHANNEL.replace('{task_id}', taskId);
+  const subscriber = redisClient.duplicate();
+  subscriber.on('message', (_channel: string, value: string) => {
+    onMessage(JSON.parse(value) as TaskEventMessage);
+  });
+  await subscriber.subscribe(channel);
+
+  return async () => {
+    await subscriber.unsubscribe(channel);
+    await subscriber.quit();
+  };
+};
@@ -0,0 +1,201 @@
+/**
+ * 工具调用审批模块
+ *
+ * 会修改外部状态的 API 插件（POST/PUT/PATCH/DELETE 请求）在执行前需要用户审批：
+ * - 创建工具时在工具的 metadata 中标记是否需要审批
+ * - 智能体在执行工具前中断运行，等待用户通过审批接口批准、修改参数或拒绝
+ * - 审批结果通过 Redis 传递给正在运行的任务，任务收到结果后从检查点恢复运行
+ */
+
+import { BadRequestException } from '@/exceptions';
+import { log } from '@/lib/logger';
+import { redisClient } from '@/lib/redis';
+import type { ToolCall } from '@langchain/core/messages/tool';
+import type { StructuredTool } from '@langchain/core/tools';
+
+/** 工具 metadata 中标记是否需要审批的键 */
+const TOOL_APPROVAL_METADATA_KEY = 'requiresApproval';
+
+/** Redis 中存储等待审批的工具调用的键模板 */
+const TOOL_APPROVAL_PENDING_KEY = 'tool_approval_pending:{task_id}';
+/** Redis 中存储审批结果的键模板 */
+const TOOL_APPROVAL_DECISION_KEY = 'tool_approval_decision:{task_id}';
+
+/** 需要审批的 HTTP 请求方法 */
+const APPROVAL_REQUIRED_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+/** 等待审批的超时时间（毫秒）- 5分钟，需要小于任务超时时间 */
+export const TOOL_APPROVAL_TIMEOUT = 5 * 60 * 1000;
+/** 轮询审批结果的间隔（毫秒） */
+const TOOL_APPROVAL_POLL_INTERVAL = 500;
+
+/**
+ * 等待审批的工具调用
+ */
+export type ToolApprovalRequest = {
+  /** 需要审批的工具调用列表 */
+  toolCalls: Array<Pick<ToolCall, 'id' | 'name' | 'args'>>;
+};
+
+/**
+ * 工具调用审批结果
+ */
+export type ToolApprovalDecision = {
+  /** 是否批准执行 */
+  approved: boolean;
+  /** 用户修改后的工具参数，未修改的工具调用使用模型生成的参数 */
+  toolCalls: Array<{ id: string; args: Record<string, unknown> }>;
+  /** 拒绝原因，反馈给模型 */
+  reason: string;
+};
+
+/**
+ * 为 API 插件标记是否需要审批
+ *
+ * @param tool - 工具实例
+ * @param method - API 插件的 HTTP 请求方法
+ * @returns 标记后的工具实例
+ */
+export const withToolApproval = <T extends StructuredTool>(
+  tool: T,
+  method: string,
+) => {
+  tool.metadata = {
+    ...tool.metadata,
+    [TOOL_APPROVAL_METADATA_KEY]: APPROVAL_REQUIRED_METHODS.has(
+      method.toUpperCase(),
+    ),
+  };
+  return tool;
+};
+
+/**
+ * 判断工具调用前是否需要审批
+ *
+ * @param tool - 工具实例
+ * @returns 是否需要审批
+ */
+export const requiresToolApproval = (tool: StructuredTool) => {
+  return tool.metadata?.[TOOL_APPROVAL_METADATA_KEY] === true;
+};
+
+/**
+ * 获取任务等待审批的工具调用
+ *
+ * @param taskId - 任务ID
+ * @returns 等待审批的工具调用，没有等待审批时返回 null
+ */
+export const getPendingToolApproval = async (taskId: string) => {
+  const key = TOOL_APPROVAL_PENDING_KEY.replace('{task_id}', taskId);
+  const value = await redisClient.get(key);
+  return value ? (JSON.parse(value) as ToolApprovalRequest) : null;
+};
+
+/**
+ * 提交工具调用审批结果
+ *
+ * @param taskId - 任务ID
+ * @param decision - 审批结果
+ */
+export const setToolApprovalDecision = async (
+  taskId: string,
+  decision: ToolApprovalDecision,
+) => {
+  const key = TOOL_APPROVAL_DECISION_KEY.replace('{task_id}', taskId);
+  await redisClient.set(
+    key,
+    JSON.stringify(decision),
+    'PX',
+    TOOL_APPROVAL_TIMEOUT,
+  );
+};
+
+/**
+ * 校验并提交用户的工具调用审批结果
+ *
+ * @param taskId - 任务ID
+ * @param decision - 审批结果
+ * @throws {BadRequestException} 任务没有等待审批的工具调用或工具调用ID不存在时
+ */
+export const submitToolApprovalDecision = async (
+  taskId: string,
+  decision: ToolApprovalDecision,
+) => {
+  // 检查任务是否有等待审批的工具调用
+  const pendingApproval = await getPendingToolApproval(taskId);
+  if (!pendingApproval) {
+    throw new BadRequestException('任务没有等待审批的工具调用');
+  }
+
+  // 只能修改等待审批的工具调用的参数
+  const pendingToolCallIds = new Set(
+    pendingApproval.toolCalls.map((toolCall) => toolCall.id),
+  );
+  if (
+    decision.toolCalls.some((toolCall) => !pendingToolCallIds.has(toolCall.id))
+  ) {
+    throw new BadRequestException('工具调用ID不存在');
+  }
+
+  // 提交审批结果，通知任务恢复运行
+  await setToolApprovalDecision(taskId, decision);
+};
+
+/**
+ * 调用方无法审批时的审批结果，需要审批的工具调用直接视为拒绝执行
+ */
+export const UNATTENDED_TOOL_APPROVAL_DECISION: ToolApprovalDecision = {
+  approved: false,
+  toolCalls: [],
+  reason: '当前调用方式不支持审批工具调用，工具未执行',
+};
+
+/**
+ * 等待用户审批工具调用
+ *
+ * 在 Redis 中记录等待审批的工具调用，并轮询审批结果，直到：
+ * - 用户提交审批结果
+ * - 任务被停止，返回 null
+ * - 等待超时，视为拒绝执行
+ *
+ * @param taskId - 任务ID
+ * @param request - 等待审批的工具调用
+ * @param isStopped - 检查任务是否被停止的函数
+ * @returns 审批结果，任务被停止时返回 null
+ */
+export const waitForToolApproval = async (
+  taskId: string,
+  request: ToolApprovalRequest,
+  isStopped: () => Promise<boolean>,
+): Promise<ToolApprovalDecision | null> => {
+  const pendingKey = TOOL_APPROVAL_PENDING_KEY.replace('{task_id}', taskId);
+  const decisionKey = TOOL_APPROVAL_DECISION_KEY.replace('{task_id}', taskId);
+  await redisClient.del(decisionKey);
+  await redisClient.set(
+    pendingKey,
+    JSON.stringify(request),
+    'PX',
+    TOOL_APPROVAL_TIMEOUT,
+  );
+
+  try {
+    const deadline = Date.now() + TOOL_APPROVAL_TIMEOUT;
+    while (Date.now() < deadline) {
+      const value = await redisClient.get(decisionKey);
+      if (value) {
+        return JSON.parse(value) as ToolApprovalDecision;
+      }
+      if (await isStopped()) {
+        return null;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, TOOL_APPROVAL_POLL_INTERVAL),
+      );
+    }
+
+    log.warn('工具调用审批超时, taskId={%s}', taskId);
+    return { approved: false, toolCalls: [], reason: '审批超时' };
+  } finally {
+    await redisClient.del(pendingKey, decisionKey);
+  }
+};
@@ -0,0 +1,416 @@
+/**
+ * 工具执行策略模块
+ *
+ * 这个模块为智能体的工具调用提供统一的执行策略，包括：
+ * - 单次调用超时，超时后中止工具执行
+ * - 幂等工具失败后按指数退避重试
+ * - 基于 Redis 的熔断器，同一 API 插件提供者连续失败后短时间内直接拒绝调用
+ *
+ * 策略通过应用配置中 `tools[].params.policy` 进行配置，
+ * 在创建 LangChain 工具时写入工具的 metadata，由工具执行节点读取。
+ */
+
+import { log } from '@/lib/logger';
+import { redisClient } from '@/lib/redis';
+import type { StructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+
+/** 应用配置中工具策略所在的参数名 */
+export const TOOL_POLICY_PARAM_KEY = 'policy';
+/** 工具 metadata 中存储执行策略的键 */
+const TOOL_POLICY_METADATA_KEY = 'toolPolicy';
+
+/** Redis 中存储熔断器失败次数的键模板 */
+const TOOL_CIRCUIT_FAILURE_KEY = 'tool_circuit_failure:{circuit_key}';
+/** Redis 中存储熔断器打开状态的键模板 */
+const TOOL_CIRCUIT_OPEN_KEY = 'tool_circuit_open:{circuit_key}';
+/** Redis 中存储熔断器曾经打开的键模板，打开状态过期后进入半开状态 */
+const TOOL_CIRCUIT_TRIPPED_KEY = 'tool_circuit_tripped:{circuit_key}';
+
+/** 幂等的 HTTP 请求方法，只有这些方法的 API 插件允许重试 */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/**
+ * 工具策略配置验证模式
+ *
+ * 时间单位均为秒，未配置的字段使用默认值
+ */
+export const toolPolicyConfigSchema = z.object({
+  timeout: z.number().min(1).max(120).optional(),
+  maxRetries: z.number().int().min(0).max(3).optional(),
+  retryDelay: z.number().min(0).max(10).optional(),
+  failureThreshold: z.number().int().min(1).max(20).optional(),
+  resetTimeout: z.number().int().min(10).max(600).optional(),
+});
+
+export type ToolPolicyConfig = z.infer<typeof toolPolicyConfigSchema>;
+
+/**
+ * 工具执行策略
+ */
+export type ToolPolicy = {
+  /** 单次调用超时时间（毫秒） */
+  timeout: number;
+  /** 最大重试次数，只对幂等工具生效 */
+  maxRetries: number;
+  /** 首次重试前的等待时间（毫秒），之后每次翻倍 */
+  retryDelay: number;
+  /** 工具是否幂等 */
+  idempotent: boolean;
+  /** 熔断器配置，为 null 时不启用熔断 */
+  circuitBreaker: {
+    /** 熔断器标识，同一标识的工具共享熔断状态 */
+    key: string;
+    /** 连续失败多少次后打开熔断器 */
+    failureThreshold: number;
+    /** 熔断器打开的时长（毫秒） */
+    resetTimeout: number;
+  } | null;
+};
+
+/**
+ * 熔断器状态
+ */
+export enum CircuitState {
+  CLOSED = 'closed',
+  OPEN = 'open',
+  HALF_OPEN = 'half_open',
+}
+
+/**
+ * 工具执行策略的执行结果，记录在智能体思考记录中
+ */
+export type ToolPolicyOutcome = {
+  /** 执行状态 */
+  status: 'success' | 'error' | 'timeout' | 'circuit_open';
+  /** 实际执行次数，熔断时为 0 */
+  attempts: number;
+  /** 单次调用超时时间（毫秒） */
+  timeout: number;
+  /** 工具是否幂等 */
+  idempotent: boolean;
+  /** 执行结束后的熔断器状态，未启用熔断时为 null */
+  circuitState: CircuitState | null;
+  /** 最后一次失败的错误信息 */
+  error: string;
+};
+
+/** 默认的重试次数 */
+const DEFAULT_MAX_RETRIES = 1;
+/** 默认的首次重试等待时间（秒） */
+const DEFAULT_RETRY_DELAY = 0.5;
+/** 默认的熔断失败次数阈值 */
+const DEFAULT_FAILURE_THRESHOLD = 5;
+/** 默认的熔断时长（秒） */
+const DEFAULT_RESET_TIMEOUT = 60;
+
+/**
+ * 工具执行超时错误
+ */
+class ToolTimeoutError extends Error {
+  constructor(timeout: number) {
+    super(`工具执行超时（${timeout}ms）`);
+    this.name = 'ToolTimeoutError';
+  }
+}
+
+/**
+ * 解析应用配置中的工具策略配置
+ *
+ * @param config - `tools[].params.policy` 中的原始配置
+ * @returns 验证后的策略配置，未配置或配置无效时返回 undefined
+ */
+export const parseToolPolicyConfig = (config: unknown) => {
+  if (config === undefined || config === null) {
+    return undefined;
+  }
+  const result = toolPolicyConfigSchema.safeParse(config);
+  if (!result.success) {
+    log.warn('工具策略配置无效, config={%s}', JSON.stringify(config));
+    return undefined;
+  }
+  return result.data;
+};
+
+/**
+ * 判断 API 插件的请求方法是否幂等
+ *
+ * @param method - HTTP 请求方法
+ * @returns 是否幂等
+ */
+export const isIdempotentMethod = (method: string) => {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase());
+};
+
+/**
+ * 为工具设置执行策略
+ *
+ * @param tool - 工具实例
+ * @param config - 应用配置中的策略配置
+ * @param options - 由工具类型决定的策略选项
+ * @param options.idempotent - 工具是否幂等
+ * @param options.circuitKey - 熔断器标识，不传时不启用熔断
+ * @returns 设置策略后的工具实例
+ */
+export const withToolPolicy = <T extends StructuredTool>(
+  tool: T,
+  config: ToolPolicyConfig | undefined,
+  options: { idempotent: boolean; circuitKey?: string },
+) => {
+  const policy: Partial<ToolPolicy> = {
+    timeout: config?.timeout === undefined ? undefined : config.timeout * 1000,
+    maxRetries: config?.maxRetries ?? DEFAULT_MAX_RETRIES,
+    retryDelay: (config?.retryDelay ?? DEFAULT_RETRY_DELAY) * 1000,
+    idempotent: options.idempotent,
+    circuitBreaker: options.circuitKey
+      ? {
+          key: options.circuitKey,
+          failureThreshold:
+            config?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD,
+          resetTimeout: (config?.resetTimeout ?? DEFAULT_RESET_TIMEOUT) * 1000,
+        }
+      : null,
+  };
+  tool.metadata = {
+    ...tool.metadata,
+    [TOOL_POLICY_METADATA_KEY]: policy,
+  };
+  return tool;
+};
+
+/**
+ * 获取工具的执行策略
+ *
+ * 没有设置策略的工具（例如工作流工具）不重试也不熔断，只使用默认超时
+ *
+ * @param tool - 工具实例
+ * @param defaultTimeout - 默认超时时间（毫秒）
+ * @returns 完整的执行策略
+ */
+export const resolveToolPolicy = (
+  tool: StructuredTool,
+  defaultTimeout: number,
+): ToolPolicy => {
+  const policy = (tool.metadata?.[TOOL_POLICY_METADATA_KEY] ??
+    {}) as Partial<ToolPolicy>;
+  return {
+    timeout: policy.timeout ?? defaultTimeout,
+    maxRetries: policy.maxRetries ?? 0,
+    retryDelay: policy.retryDelay ?? 0,
+    idempotent: policy.idempotent ?? false,
+    circuitBreaker: policy.circuitBreaker ?? null,
+  };
+};
+
+/**
+ * 在超时时间内执行工具
+ *
+ * 超时后通过中止信号通知工具停止执行，并直接返回超时错误，不再等待工具返回
+ *
+ * @param tool - 工具实例
+ * @param args - 工具参数
+ * @param timeout - 超时时间（毫秒）
+ * @returns 工具执行结果
+ */
+const invokeToolWithTimeout = async (
+  tool: StructuredTool,
+  args: Record<string, unknown>,
+  timeout: number,
+) => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      tool.invoke(args, { signal: controller.signal }),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          controller.abort();
+          reject(new ToolTimeoutError(timeout));
+        }, timeout);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * 获取熔断器当前状态
+ *
+ * @param circuitKey - 熔断器标识
+ * @returns 熔断器状态
+ */
+const getCircuitState = async (circuitKey: string) => {
+  const [isOpen, isTripped] = await Promise.all([
+    redisClient.exists(
+      TOOL_CIRCUIT_OPEN_KEY.replace('{circuit_key}', circuitKey),
+    ),
+    redisClient.exists(
+      TOOL_CIRCUIT_TRIPPED_KEY.replace('{circuit_key}', circuitKey),
+    ),
+  ]);
+  if (isOpen === 1) {
+    return CircuitState.OPEN;
+  }
+  return isTripped === 1 ? CircuitState.HALF_OPEN : CircuitState.CLOSED;
+};
+
+/**
+ * 记录一次成功调用，关闭熔断器
+ *
+ * @param circuitKey - 熔断器标识
+ * @returns 熔断器状态
+ */
+const recordCircuitSuccess = async (circuitKey: string) => {
+  await redisClient.del(
+    TOOL_CIRCUIT_FAILURE_KEY.replace('{circuit_key}', circuitKey),
+    TOOL_CIRCUIT_TRIPPED_KEY.replace('{circuit_key}', circuitKey),
+  );
+  return CircuitState.CLOSED;
+};
+
+/**
+ * 记录一次失败调用，失败次数达到阈值或半开状态下失败时打开熔断器
+ *
+ * @param circuitBreaker - 熔断器配置
+ * @param state - 调用前的熔断器状态
+ * @returns 熔断器状态
+ */
+const recordCircuitFailure = async (
+  circuitBreaker: NonNullable<ToolPolicy['circuitBreaker']>,
+  state: CircuitState,
+) => {
+  const { key, failureThreshold, resetTimeout } = circuitBreaker;
+  const failureKey = TOOL_CIRCUIT_FAILURE_KEY.replace('{circuit_key}', key);
+
+  let shouldOpen = state === CircuitState.HALF_OPEN;
+  if (!shouldOpen) {
+    const failureCount = await redisClient.incr(failureKey);
+    await redisClient.pexpire(failureKey, resetTimeout);
+    shouldOpen = failureCount >= failureThreshold;
+  }
+  if (!shouldOpen) {
+    return CircuitState.CLOSED;
+  }
+
+  log.warn('工具熔断器打开, circuitKey={%s}', key);
+  await Promise.all([
+    redisClient.set(
+      TOOL_CIRCUIT_OPEN_KEY.replace('{circuit_key}', key),
+      '1',
+      'PX',
+      resetTimeout,
+    ),
+    redisClient.set(
+      TOOL_CIRCUIT_TRIPPED_KEY.replace('{circuit_key}', key),
+      '1',
+      'PX',
+      resetTimeout * 2,
+    ),
+    redisClient.del(failureKey),
+  ]);
+  return CircuitState.OPEN;
+};
+
+/**
+ * 执行熔断器操作，Redis 异常时不影响工具执行
+ *
+ * @param fn - 熔断器操作
+ * @param fallback - 操作失败时返回的状态
+ * @returns 熔断器状态
+ */
+const safeCircuitOperation = async (
+  fn: () => Promise<CircuitState>,
+  fallback: CircuitState,
+) => {
+  try {
+    return await fn();
+  } catch (error) {
+    log.error('工具熔断器操作失败, error={%o}', error);
+    return fallback;
+  }
+};
+
+/**
+ * 按照执行策略执行工具
+ *
+ * 工具执行失败不会抛出异常，而是返回错误信息作为工具结果，由模型决定后续操作
+ *
+ * @param tool - 工具实例
+ * @param args - 工具参数
+ * @param defaultTimeout - 工具没有配置超时时间时使用的超时时间（毫秒）
+ * @returns 工具执行结果与策略执行结果
+ */
+export const invokeToolWithPolicy = async (
+  tool: StructuredTool,
+  args: Record<string, unknown>,
+  defaultTimeout: number,
+): Promise<{ result: unknown; outcome: ToolPolicyOutcome }> => {
+  const policy = resolveToolPolicy(tool, defaultTimeout);
+  const { circuitBreaker } = policy;
+  const outcome: ToolPolicyOutcome = {
+    status: 'success',
+    attempts: 0,
+    timeout: policy.timeout,
+    idempotent: policy.idempotent,
+    circuitState: null,
+    error: '',
+  };
+
+  // 熔断器打开时直接拒绝调用
+  let circuitState = CircuitState.CLOSED;
+  if (circuitBreaker) {
+    circuitState = await safeCircuitOperation(
+      () => getCircuitState(circuitBreaker.key),
+      CircuitState.CLOSED,
+    );
+    outcome.circuitState = circuitState;
+    if (circuitState === CircuitState.OPEN) {
+      outcome.status = 'circuit_open';
+      outcome.error = '工具连续调用失败，已暂时熔断';
+      return { result: `工具执行出错: ${outcome.error}`, outcome };
+    }
+  }
+
+  // 只有幂等工具允许重试
+  const maxAttempts = policy.idempotent ? policy.maxRetries + 1 : 1;
+  let lastError: unknown = null;
+  while (outcome.attempts < maxAttempts) {
+    if (outcome.attempts > 0) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, policy.retryDelay * 2 ** (outcome.attempts - 1)),
+      );
+    }
+    outcome.attempts++;
+
+    try {
+      const result = await invokeToolWithTimeout(tool, args, policy.timeout);
+      if (circuitBreaker) {
+        outcome.circuitState = await safeCircuitOperation(
+          () => recordCircuitSuccess(circuitBreaker.key),
+          circuitState,
+        );
+      }
+      return { result, outcome };
+    } catch (error) {
+      lastError = error;
+      log.warn(
+        '工具调用失败, tool={%s}, attempt={%d}, error={%o}',
+        tool.name,
+        outcome.attempts,
+        error,
+      );
+    }
+  }
+
+  if (circuitBreaker) {
+    outcome.circuitState = await safeCircuitOperation(
+      () => recordCircuitFailure(circuitBreaker, circuitState),
+      circuitState,
+    );
+  }
+  outcome.status = lastError instanceof ToolTimeoutError ? 'timeout' : 'error';
+  outcome.error =
+    lastError instanceof Error ? lastError.message : JSON.stringify(lastError);
+  return { result: `工具执行出错: ${outcome.error}`, outcome };
+};
@@ -0,0 +1,31 @@
+/**
+ * 语音实体定义
+ *
+ * 该模块定义了语音提供商注册表使用的类型，包括：
+ * - 语音转文字（transcribe）
+ * - 文字转语音（speech），以流的形式返回音频数据
+ */
+
+/**
+ * 文字转语音的结果
+ * @property contentType - 音频数据的 MIME 类型
+ * @property stream - 音频数据流
+ */
+export type SpeechResult = {
+  contentType: string;
+  stream: ReadableStream<Uint8Array>;
+};
+
+/**
+ * 语音提供商定义
+ * @property name - 提供商的唯一标识符，通过 AUDIO_PROVIDER 环境变量选择
+ * @property label - 提供商的显示名称
+ * @property transcribe - 将音频文件转换为文字
+ * @property speech - 将文字转换为音频数据流
+ */
+export type AudioProvider = {
+  name: string;
+  label: string;
+  transcribe: (file: File) => Promise<string>;
+  speech: (text: string, voice: string) => Promise<SpeechResult>;
+};
@@ -0,0 +1,45 @@
+/**
+ * 语音模块主文件
+ *
+ * 该模块维护系统中所有语音提供商的注册表，为应用的语音输入（语音转文字）
+ * 与语音输出（文字转语音）提供统一的调用入口。
+ *
+ * 当前支持的提供商：
+ * - OpenAI
+ * - 本地（用于本地开发与测试）
+ *
+ * 使用的提供商可以通过 AUDIO_PROVIDER 环境变量进行配置，默认为 OpenAI。
+ */
+
+import { InternalServerErrorException } from '@/exceptions';
+import { log } from '@/lib/logger';
+import type { AudioProvider } from './entity';
+import { localAudioProvider } from './local-provider';
+import { openaiAudioProvider } from './openai-provider';
+
+export * from './entity';
+
+/**
+ * 系统内置的语音提供商列表
+ */
+export const audioProviders: AudioProvider[] = [
+  openaiAudioProvider,
+  localAudioProvider,
+];
+
+/**
+ * 获取当前配置的语音提供商
+ * @returns 语音提供商
+ * @throws {InternalServerErrorException} 当配置的提供商不存在时抛出
+ */
+export const getAudioProvider = () => {
+  const providerName = process.env.AUDIO_PROVIDER || 'openai';
+  const provider = audioProviders.find(
+    (provider) => provider.name === providerName,
+  );
+  if (!provider) {
+    log.error('Audio provider not found, provider={%s}', providerName);
+    throw new InternalServerErrorException('语音提供商不存在');
+  }
+  return provider;
+};
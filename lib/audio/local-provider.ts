@@ -0,0 +1,78 @@
+/**
+ * 本地语音提供商
+ *
+ * 不依赖外部语音服务的替代实现，用于本地开发与测试：
+ * - 语音转文字返回基于文件名和大小的固定文本
+ * - 文字转语音返回与文字长度成正比的静音 WAV 音频
+ */
+
+import type { AudioProvider } from './entity';
+
+/** 静音音频的采样率 */
+const SAMPLE_RATE = 8000;
+
+/** 每个字符对应的静音时长，单位为毫秒 */
+const MILLISECONDS_PER_CHAR = 50;
+
+/** 音频数据流每个分块的大小，单位为字节 */
+const CHUNK_SIZE = 4096;
+
+/**
+ * 创建单声道 8 位静音 WAV 音频
+ * @param durationMs - 音频时长，单位为毫秒
+ * @returns WAV 音频数据
+ */
+export const createSilentWav = (durationMs: number) => {
+  const dataSize = Math.ceil((SAMPLE_RATE * durationMs) / 1000);
+  const buffer = Buffer.alloc(44 + dataSize);
+
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16); // fmt 块大小
+  buffer.writeUInt16LE(1, 20); // PCM 格式
+  buffer.writeUInt16LE(1, 22); // 单声道
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE, 28); // 字节率
+  buffer.writeUInt16LE(1, 32); // 块对齐
+  buffer.writeUInt16LE(8, 34); // 采样位数
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(dataSize, 40);
+  // 8 位 PCM 的静音值为 128
+  buffer.fill(128, 44);
+
+  return new Uint8Array(buffer);
+};
+
+/**
+ * 本地语音提供商
+ */
+export const localAudioProvider: AudioProvider = {
+  name: 'local',
+  label: '本地',
+  transcribe: async (file) => {
+    return `${file.name} (${file.size} bytes)`;
+  },
+  speech: async (text) => {
+    const wav = createSilentWav(text.length * MILLISECONDS_PER_CHAR);
+
+    // 分块输出音频数据，与外部语音服务的流式响应保持一致
+    let offset = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      pull: (controller) => {
+        if (offset >= wav.length) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(wav.subarray(offset, offset + CHUNK_SIZE));
+        offset += CHUNK_SIZE;
+      },
+    });
+
+    return {
+      contentType: 'audio/wav',
+      stream,
+    };
+  },
+};
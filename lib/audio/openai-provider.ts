@@ -0,0 +1,97 @@
+/**
+ * OpenAI 语音提供商
+ * 使用 OPENAI_API_KEY 和 OPENAI_API_URL 环境变量进行配置
+ */
+
+import { InternalServerErrorException } from '@/exceptions';
+import { log } from '@/lib/logger';
+import type { AudioProvider } from './entity';
+
+/** 语音转文字使用的模型 */
+const TRANSCRIBE_MODEL = 'whisper-1';
+
+/** 文字转语音使用的模型 */
+const SPEECH_MODEL = 'tts-1';
+
+/**
+ * 获取 OpenAI 接口地址
+ */
+const getBaseUrl = () => {
+  return (process.env.OPENAI_API_URL || 'https://api.openai.com/v1').replace(
+    /\/$/,
+    '',
+  );
+};
+
+/**
+ * 调用 OpenAI 语音接口，请求失败时抛出异常
+ * @param path - 接口路径
+ * @param body - 请求体
+ * @param headers - 额外的请求头
+ * @returns 接口响应
+ */
+const request = async (
+  path: string,
+  body: BodyInit,
+  headers: Record<string, string> = {},
+) => {
+  const response = await fetch(`${getBaseUrl()}${path}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${process.env.OPENAI_API_KEY ?? ''}`,
+      ...headers,
+    },
+    body,
+  });
+
+  if (!response.ok) {
+    log.error(
+      'OpenAI audio request failed, path={%s}, status={%s}, body={%s}',
+      path,
+      response.status,
+      await response.text(),
+    );
+    throw new InternalServerErrorException('语音服务调用失败');
+  }
+
+  return response;
+};
+
+/**
+ * OpenAI 语音提供商
+ */
+export const openaiAudioProvider: AudioProvider = {
+  name: 'openai',
+  label: 'OpenAI',
+  transcribe: async (file) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('model', TRANSCRIBE_MODEL);
+    formData.append('response_format', 'json');
+
+    const response = await request('/audio/transcriptions', formData);
+    const { text } = (await response.json()) as { text: string };
+    return text;
+  },
+  speech: async (text, voice) => {
+    const response = await request(
+      '/audio/speech',
+      JSON.stringify({
+        model: SPEECH_MODEL,
+        input: text,
+        voice,
+        response_format: 'mp3',
+      }),
+      { 'Content-Type': 'application/json' },
+    );
+
+    if (!response.body) {
+      throw new InternalServerErrorException('语音服务调用失败');
+    }
+
+    return {
+      contentType: 'audio/mpeg',
+      stream: response.body,
+    };
+  },
+};
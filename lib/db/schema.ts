@@ -1,4 +1,5 @@
 import {
+  type AnyPgColumn,
   boolean,
   index,
   integer,
@@ -191,6 +192,11 @@ export const dataset = pgTable(
     name: text('name').notNull().default(''),
     icon: text('icon').notNull().default(''),
     description: text('description').notNull().default(''),
+    termIndexVersion: integer('term_index_version').notNull().default(0),
+    vectorMetadataVersion: integer('vector_metadata_version')
+      .notNull()
+      .default(0),
+    retrievalConfig: jsonb('retrieval_config').notNull().default('{}'),
     createdAt: timestamp('created_at')
       .$defaultFn(() => new Date())
       .notNull(),
@@ -263,6 +269,7 @@ export const document = pgTable(
     error: text('error'),
     enabled: boolean('enabled').notNull().default(false),
     disabledAt: timestamp('disabled_at'),
+    metadata: jsonb('metadata').notNull().default('{}'),
     status: text('status').notNull().default(''),
     createdAt: timestamp('created_at')
       .$defaultFn(() => new Date())
@@ -296,6 +303,7 @@ export const segment = pgTable(
     characterCount: integer('character_count').notNull().default(0),
     tokenCount: integer('token_count').notNull().default(0),
     keywords: jsonb('keywords').notNull().default('[]'),
+    termCount: integer('term_count').notNull().default(0),
     hash: text('hash').notNull().default(''),
     hitCount: integer('hit_count').notNull().default(0),
     enabled: boolean('enabled').notNull().default(false),
@@ -324,14 +332,18 @@ export const segment = pgTable(
   ],
 );
 
-export const keywordTable = pgTable(
-  'keyword_table',
+export const segmentTerm = pgTable(
+  'segment_term',
   {
     id: uuid('id').defaultRandom().primaryKey(),
     datasetId: uuid('dataset_id')
       .notNull()
       .references(() => dataset.id, { onDelete: 'cascade' }),
-    keywords: jsonb('keywords').notNull().default('{}'),
+    segmentId: uuid('segment_id')
+      .notNull()
+      .references(() => segment.id, { onDelete: 'cascade' }),
+    term: text('term').notNull(),
+    frequency: integer('frequency').notNull().default(0),
     createdAt: timestamp('created_at')
       .$defaultFn(() => new Date())
       .notNull(),
@@ -340,7 +352,10 @@ export const keywordTable = pgTable(
       .$defaultFn(() => new Date())
       .$onUpdateFn(() => new Date()),
   },
-  (table) => [unique('uq_keyword_table_dataset_id').on(table.datasetId)],
+  (table) => [
+    index('idx_segment_term_dataset_id_term').on(table.datasetId, table.term),
+    index('idx_segment_term_segment_id').on(table.segmentId),
+  ],
 );
 
 export const app = pgTable(
@@ -414,6 +429,9 @@ export const appConfig = pgTable(
       .notNull()
       .default('{}'),
     reviewConfig: jsonb('review_config').notNull().default('{}'),
+    structuredOutput: jsonb('structured_output').notNull().default('{}'),
+    annotationReply: jsonb('annotation_reply').notNull().default('{}'),
+    memoryConfig: jsonb('memory_config').notNull().default('{}'),
     createdAt: timestamp('created_at')
       .$defaultFn(() => new Date())
       .notNull(),
@@ -448,6 +466,9 @@ export const appConfigVersion = pgTable(
       .notNull()
       .default('{}'),
     reviewConfig: jsonb('review_config').notNull().default('{}'),
+    structuredOutput: jsonb('structured_output').notNull().default('{}'),
+    annotationReply: jsonb('annotation_reply').notNull().default('{}'),
+    memoryConfig: jsonb('memory_config').notNull().default('{}'),
     version: integer('version').notNull().default(0),
     configType: text('config_type').notNull().default(''),
     createdAt: timestamp('created_at')
@@ -476,6 +497,8 @@ export const conversation = pgTable(
       .references(() => app.id, { onDelete: 'cascade' }),
     name: text('name').notNull().default(''),
     summary: text('summary').notNull().default(''),
+    historySummary: text('history_summary').notNull().default(''),
+    historySummaryMessageId: uuid('history_summary_message_id'),
     isPinned: boolean('is_pinned').notNull().default(false),
     isDeleted: boolean('is_deleted').notNull().default(false),
     invokeFrom: text('invoke_from').notNull().default(''),
@@ -501,9 +524,13 @@ export const message = pgTable(
     conversationId: uuid('conversation_id')
       .notNull()
       .references(() => conversation.id, { onDelete: 'cascade' }),
+    parentId: uuid('parent_id').references((): AnyPgColumn => message.id, {
+      onDelete: 'set null',
+    }),
     invokeFrom: text('invoke_from').notNull().default(''),
     createdBy: text('created_by').notNull().default(''),
     query: text('query').notNull().default(''),
+    imageUrls: jsonb('image_urls').notNull().default('[]'),
     message: jsonb('message').notNull().default('[]'),
     messageTokenCount: integer('message_token_count').notNull().default(0),
     messageUnitPrice: numeric('message_unit_price', {
@@ -519,6 +546,8 @@ export const message = pgTable(
       .notNull()
       .default('0.0'),
     answer: text('answer').notNull().default(''),
+    structuredAnswer: jsonb('structured_answer'),
+    citations: jsonb('citations').notNull().default('[]'),
     answerTokenCount: integer('answer_token_count').notNull().default(0),
     answerUnitPrice: numeric('answer_unit_price', {
       precision: 10,
@@ -580,6 +609,7 @@ export const messageAgentThought = pgTable(
     observation: text('observation').notNull().default(''),
     tool: text('tool').notNull().default(''),
     toolInput: jsonb('tool_input').notNull().default('{}'),
+    toolPolicy: jsonb('tool_policy'),
     message: jsonb('message').notNull().default('[]'),
     messageTokenCount: integer('message_token_count').notNull().default(0),
     messageUnitPrice: numeric('message_unit_price', {
@@ -633,6 +663,88 @@ export const messageAgentThought = pgTable(
   ],
 );
 
+export const messageFeedback = pgTable(
+  'message_feedback',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    appId: uuid('app_id')
+      .notNull()
+      .references(() => app.id, { onDelete: 'cascade' }),
+    conversationId: uuid('conversation_id')
+      .notNull()
+      .references(() => conversation.id, { onDelete: 'cascade' }),
+    messageId: uuid('message_id')
+      .notNull()
+      .references(() => message.id, { onDelete: 'cascade' }),
+    rating: text('rating').notNull().default(''),
+    content: text('content').notNull().default(''),
+    fromSource: text('from_source').notNull().default(''),
+    createdBy: text('created_by').notNull().default(''),
+    createdAt: timestamp('created_at')
+      .$defaultFn(() => new Date())
+      .notNull(),
+    updatedAt: timestamp('updated_at')
+      .notNull()
+      .$defaultFn(() => new Date())
+      .$onUpdateFn(() => new Date()),
+  },
+  (table) => [
+    index('idx_message_feedback_app_id').on(table.appId),
+    unique('uq_message_feedback_message_id_from_source').on(
+      table.messageId,
+      table.fromSource,
+    ),
+  ],
+);
+
+export const messageAnnotation = pgTable(
+  'message_annotation',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    appId: uuid('app_id')
+      .notNull()
+      .references(() => app.id, { onDelete: 'cascade' }),
+    messageId: uuid('message_id').references(() => message.id, {
+      onDelete: 'set null',
+    }),
+    question: text('question').notNull().default(''),
+    answer: text('answer').notNull().default(''),
+    hitCount: integer('hit_count').notNull().default(0),
+    createdBy: text('created_by').notNull().default(''),
+    createdAt: timestamp('created_at')
+      .$defaultFn(() => new Date())
+      .notNull(),
+    updatedAt: timestamp('updated_at')
+      .notNull()
+      .$defaultFn(() => new Date())
+      .$onUpdateFn(() => new Date()),
+  },
+  (table) => [index('idx_message_annotation_app_id').on(table.appId)],
+);
+
+export const userMemory = pgTable(
+  'user_memory',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    appId: uuid('app_id')
+      .notNull()
+      .references(() => app.id, { onDelete: 'cascade' }),
+    invokeFrom: text('invoke_from').notNull().default(''),
+    content: text('content').notNull().default(''),
+    createdBy: text('created_by').notNull().default(''),
+    createdAt: timestamp('created_at')
+      .$defaultFn(() => new Date())
+      .notNull(),
+    updatedAt: timestamp('updated_at')
+      .notNull()
+      .$defaultFn(() => new Date())
+      .$onUpdateFn(() => new Date()),
+  },
+  (table) => [
+    index('idx_user_memory_app_id_created_by').on(table.appId, table.createdBy),
+  ],
+);
+
 export const datasetQuery = pgTable(
   'dataset_query',
   {
@@ -654,3 +766,108 @@ export const datasetQuery = pgTable(
   },
   (table) => [index('idx_dataset_query_dataset_id').on(table.datasetId)],
 );
+
+export const endUser = pgTable(
+  'end_user',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    appId: uuid('app_id')
+      .notNull()
+      .references(() => app.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('created_at')
+      .$defaultFn(() => new Date())
+      .notNull(),
+    updatedAt: timestamp('updated_at')
+      .notNull()
+      .$defaultFn(() => new Date())
+      .$onUpdateFn(() => new Date()),
+  },
+  (table) => [index('idx_end_user_app_id').on(table.appId)],
+);
+
+export const workflow = pgTable(
+  'workflow',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    name: text('name').notNull().default(''),
+    toolCallName: text('tool_call_name').notNull().default(''),
+    icon: text('icon').notNull().default(''),
+    description: text('description').notNull().default(''),
+    graph: jsonb('graph').notNull().default('{}'),
+    draftGraph: jsonb('draft_graph').notNull().default('{}'),
+    isDebugPassed: boolean('is_debug_passed').notNull().default(false),
+    status: text('status').notNull().default(''),
+    publishedAt: timestamp('published_at'),
+    createdAt: timestamp('created_at')
+      .$defaultFn(() => new Date())
+      .notNull(),
+    updatedAt: timestamp('updated_at')
+      .notNull()
+      .$defaultFn(() => new Date())
+      .$onUpdateFn(() => new Date()),
+  },
+  (table) => [
+    index('idx_workflow_user_id').on(table.userId),
+    unique('uq_workflow_user_id_tool_call_name').on(
+      table.userId,
+      table.toolCallName,
+    ),
+  ],
+);
+
+export const agentCheckpoint = pgTable(
+  'agent_checkpoint',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    threadId: text('thread_id').notNull(),
+    checkpointNs: text('checkpoint_ns').notNull().default(''),
+    checkpointId: text('checkpoint_id').notNull(),
+    parentCheckpointId: text('parent_checkpoint_id'),
+    type: text('type').notNull().default(''),
+    checkpoint: text('checkpoint').notNull().default(''),
+    metadata: text('metadata').notNull().default(''),
+    createdAt: timestamp('created_at')
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    unique('uq_agent_checkpoint_thread_id_checkpoint_ns_checkpoint_id').on(
+      table.threadId,
+      table.checkpointNs,
+      table.checkpointId,
+    ),
+  ],
+);
+
+export const agentCheckpointWrite = pgTable(
+  'agent_checkpoint_write',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    threadId: text('thread_id').notNull(),
+    checkpointNs: text('checkpoint_ns').notNull().default(''),
+    checkpointId: text('checkpoint_id').notNull(),
+    taskId: text('task_id').notNull(),
+    idx: integer('idx').notNull().default(0),
+    channel: text('channel').notNull().default(''),
+    type: text('type').notNull().default(''),
+    value: text('value').notNull().default(''),
+    createdAt: timestamp('created_at')
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    unique('uq_agent_checkpoint_write_checkpoint_task_id_idx').on(
+      table.threadId,
+      table.checkpointNs,
+      table.checkpointId,
+      table.taskId,
+      table.idx,
+    ),
+  ],
+);
@@ -53,6 +53,50 @@ export const ALLOWED_IMAGE_EXTENSIONS = [
  */
 export const ALLOWED_IMAGE_SIZE = 1024 * 1024 * 5;
 
+/**
+ * 单条对话消息允许附带的最大图片数量
+ * 图片会作为图片内容传递给支持视觉输入的模型，数量过多会显著增加 token 消耗
+ *
+ * @constant
+ * @type {number}
+ */
+export const MAX_MESSAGE_IMAGE_COUNT = 5;
+
+/**
+ * 允许转换为文字的音频文件扩展名列表
+ * 支持的格式包括：MP3、MP4、MPEG、MPGA、M4A、WAV、WEBM
+ *
+ * @constant
+ * @type {string[]}
+ */
+export const ALLOWED_AUDIO_EXTENSIONS = [
+  'mp3',
+  'mp4',
+  'mpeg',
+  'mpga',
+  'm4a',
+  'wav',
+  'webm',
+];
+
+/**
+ * 允许转换为文字的音频文件大小限制
+ * 设置为 25MB (25 * 1024 * 1024 字节)，与语音服务的文件大小限制一致
+ *
+ * @constant
+ * @type {number}
+ */
+export const ALLOWED_AUDIO_SIZE = 1024 * 1024 * 25;
+
+/**
+ * 单次转换为语音的最大文字长度
+ * 超过该长度的回答会被截断后再转换
+ *
+ * @constant
+ * @type {number}
+ */
+export const MAX_SPEECH_TEXT_LENGTH = 4096;
+
 /**
  * 允许的 HTTP 方法列表
  * 包括：GET、POST、PUT、DELETE、PATCH
@@ -271,17 +315,6 @@ export enum SegmentStatus {
 export const LOCK_DOCUMENT_UPDATE_ENABLED =
   'lock:document:update:enabled_{document_id}';
 
-/**
- * 关键词表更新锁的键模板
- * 用于在更新数据集的关键词表时防止并发操作
- * 格式：lock:keyword_table:update:keyword_table_{dataset_id}
- *
- * @constant
- * @type {string}
- */
-export const LOCK_KEYWORD_TABLE_UPDATE_KEYWORD_TABLE =
-  'lock:keyword_table:update:keyword_table_{dataset_id}';
-
 /**
  * 文档片段启用状态更新锁的键模板
  * 用于在更新文档片段启用状态时防止并发操作
@@ -346,6 +379,203 @@ export enum RetrievalStrategy {
   HYBRID = 'hybrid',
 }
 
+/**
+ * 混合检索融合方式枚举
+ * 定义了混合检索合并语义检索和全文检索结果的方式：
+ * - WEIGHTED_SCORE: 加权分数，按权重对两种检索的归一化分数求和
+ * - RRF: 倒数排名融合，按权重对文档在两种检索结果中排名的倒数求和
+ *
+ * @enum {string}
+ */
+export enum FusionMethod {
+  /** 加权分数融合 */
+  WEIGHTED_SCORE = 'weighted_score',
+  /** 倒数排名融合 */
+  RRF = 'rrf',
+}
+
+/**
+ * 混合检索配置类型定义
+ * 两种检索的权重会被归一化后使用
+ */
+export type HybridConfig = {
+  /** 语义检索权重 */
+  semanticWeight: number;
+  /** 全文检索权重 */
+  keywordWeight: number;
+  /** 融合方式 */
+  fusionMethod: FusionMethod;
+};
+
+/**
+ * 对话记忆策略枚举
+ * 定义了智能体加载历史对话的方式：
+ * - NONE: 不加载历史对话
+ * - WINDOW: 窗口记忆，加载最近的对话轮次，只在超出模型可用上下文时裁剪
+ * - TOKEN_BUFFER: token 缓冲记忆，在对话轮次限制内加载不超过 token 预算的最近对话
+ * - SUMMARY_BUFFER: 摘要缓冲记忆，超出 token 预算或对话轮次限制的早期对话会被总结为摘要
+ *
+ * @enum {string}
+ */
+export enum MemoryStrategy {
+  /** 不加载历史对话 */
+  NONE = 'none',
+  /** 窗口记忆 */
+  WINDOW = 'window',
+  /** token 缓冲记忆 */
+  TOKEN_BUFFER = 'token_buffer',
+  /** 摘要缓冲记忆 */
+  SUMMARY_BUFFER = 'summary_buffer',
+}
+
+/**
+ * 文档元数据类型定义
+ * 文档的元数据由用户维护，文档下的所有片段都携带所属文档的元数据，用于在检索时过滤召回范围
+ */
+export type DocumentMetadata = {
+  /** 标签列表 */
+  tags: string[];
+  /** 来源 */
+  source: string;
+  /** 所属部门 */
+  department: string;
+  /** 文档日期，格式为 YYYY-MM-DD，为空字符串表示未设置 */
+  date: string;
+};
+
+/**
+ * 默认文档元数据
+ */
+export const DEFAULT_DOCUMENT_METADATA: DocumentMetadata = {
+  tags: [],
+  source: '',
+  department: '',
+  date: '',
+};
+
+/**
+ * 元数据过滤运算符枚举
+ * 定义了元数据过滤条件支持的比较方式：
+ * - EQ / NE: 等于 / 不等于
+ * - IN: 等于列表中的任意一个值
+ * - CONTAINS_ANY / CONTAINS_ALL: 标签包含列表中的任意一个 / 全部值
+ * - GT / GTE / LT / LTE: 日期晚于 / 不早于 / 早于 / 不晚于
+ *
+ * @enum {string}
+ */
+export enum MetadataFilterOperator {
+  EQ = 'eq',
+  NE = 'ne',
+  IN = 'in',
+  CONTAINS_ANY = 'contains_any',
+  CONTAINS_ALL = 'contains_all',
+  GT = 'gt',
+  GTE = 'gte',
+  LT = 'lt',
+  LTE = 'lte',
+}
+
+/**
+ * 各元数据字段支持的过滤运算符
+ */
+export const METADATA_FILTER_OPERATORS: Record<
+  keyof DocumentMetadata,
+  MetadataFilterOperator[]
+> = {
+  tags: [
+    MetadataFilterOperator.CONTAINS_ANY,
+    MetadataFilterOperator.CONTAINS_ALL,
+  ],
+  source: [
+    MetadataFilterOperator.EQ,
+    MetadataFilterOperator.NE,
+    MetadataFilterOperator.IN,
+  ],
+  department: [
+    MetadataFilterOperator.EQ,
+    MetadataFilterOperator.NE,
+    MetadataFilterOperator.IN,
+  ],
+  date: [
+    MetadataFilterOperator.EQ,
+    MetadataFilterOperator.GT,
+    MetadataFilterOperator.GTE,
+    MetadataFilterOperator.LT,
+    MetadataFilterOperator.LTE,
+  ],
+};
+
+/**
+ * 元数据过滤条件类型定义
+ * IN、CONTAINS_ANY 和 CONTAINS_ALL 运算符的值为字符串列表，其他运算符的值为字符串
+ */
+export type MetadataFilterCondition = {
+  /** 元数据字段 */
+  field: keyof DocumentMetadata;
+  /** 过滤运算符 */
+  operator: MetadataFilterOperator;
+  /** 比较的值 */
+  value: string | string[];
+};
+
+/**
+ * 元数据过滤表达式类型定义
+ * 例如只召回 2024 年之后的制度文档：
+ * { logic: 'and', conditions: [{ field: 'tags', operator: 'contains_any', value: ['制度'] }, { field: 'date', operator: 'gte', value: '2024-01-01' }] }
+ */
+export type MetadataFilter = {
+  /** 条件之间的逻辑关系 */
+  logic: 'and' | 'or';
+  /** 过滤条件列表 */
+  conditions: MetadataFilterCondition[];
+};
+
+/**
+ * 重排序配置类型定义
+ * 开启后检索得到的候选文档会由重排序提供商重新打分，
+ * 只保留分数不低于阈值的前 topN 个文档
+ */
+export type RerankConfig = {
+  /** 是否启用重排序 */
+  enable: boolean;
+  /** 重排序后保留的文档数量 */
+  topN: number;
+  /** 重排序分数阈值 */
+  score: number;
+};
+
+/**
+ * 知识库检索配置类型定义
+ * 召回测试未传递的检索参数使用知识库的配置；
+ * 知识库的元数据过滤表达式只作用于该知识库的片段，在召回测试和应用、工作流的检索中都会与检索请求的过滤表达式同时生效
+ */
+export type DatasetRetrievalConfig = {
+  /** 检索策略 */
+  retrievalStrategy: RetrievalStrategy;
+  /** 召回数量 */
+  k: number;
+  /** 相似度分数阈值 */
+  score: number;
+  /** 混合检索配置，为 null 时两种检索权重相等并使用倒数排名融合 */
+  hybrid: HybridConfig | null;
+  /** 重排序配置，为 null 时不进行重排序 */
+  rerank: RerankConfig | null;
+  /** 元数据过滤表达式，为 null 时不过滤 */
+  filter: MetadataFilter | null;
+};
+
+/**
+ * 默认知识库检索配置
+ */
+export const DEFAULT_DATASET_RETRIEVAL_CONFIG: DatasetRetrievalConfig = {
+  retrievalStrategy: RetrievalStrategy.SEMANTIC,
+  k: 4,
+  score: 0,
+  hybrid: null,
+  rerank: null,
+  filter: null,
+};
+
 /**
  * 草稿应用配置类型定义
  * 定义了应用在草稿状态下的完整配置结构，包括：
@@ -353,16 +583,19 @@ export enum RetrievalStrategy {
  * - dialogRound: 对话轮次限制，控制单次对话的最大轮数
  * - presetPrompt: 预设提示词，用于初始化对话的上下文
  * - tools: 可用工具列表，包含内置工具和 API 工具的配置
- * - workflows: 工作流配置（待实现）
+ * - workflows: 工作流配置，指定绑定为工具的已发布工作流
  * - datasets: 数据集配置，指定可用的知识库数据集
  * - retrievalConfig: 检索配置，包含检索策略和相关参数
  * - longTermMemory: 长期记忆配置，控制是否启用长期记忆功能
+ * - memoryConfig: 对话记忆配置，控制历史对话的加载策略和 token 预算
  * - openingStatement: 开场白，应用启动时显示的消息
  * - openingQuestions: 开场问题列表，为用户提供引导性问题
  * - speechToText: 语音转文字配置，控制语音输入功能
  * - textToSpeech: 文字转语音配置，控制语音输出功能
  * - reviewConfig: 审核配置，包含输入输出审核的相关设置
  * - suggestedAfterAnswer: 回答后建议配置，控制是否显示后续建议
+ * - structuredOutput: 结构化输出配置，控制最终回答是否需要符合 JSON Schema
+ * - annotationReply: 标注回复配置，控制相似提问是否直接使用标注的回答
  */
 export type DraftAppConfig = {
   /** 模型配置 */
@@ -382,9 +615,8 @@ export type DraftAppConfig = {
     /** 工具参数 */
     params: Record<string, unknown>;
   }>;
-  /** 工作流配置（待实现） */
-  // TODO: add workflows definition
-  workflows: unknown;
+  /** 工作流配置，已发布工作流的 ID 列表 */
+  workflows: Array<string>;
   /** 数据集配置 */
   datasets: Array<string>;
   /** 检索配置 */
@@ -395,12 +627,25 @@ export type DraftAppConfig = {
     k: number;
     /** 相似度分数阈值 */
     score: number;
+    /** 混合检索配置 */
+    hybrid: HybridConfig;
+    /** 重排序配置 */
+    rerank: RerankConfig;
+    /** 元数据过滤表达式，为 null 时不过滤 */
+    filter: MetadataFilter | null;
   };
   /** 长期记忆配置 */
   longTermMemory: {
     /** 是否启用长期记忆 */
     enable: boolean;
   };
+  /** 对话记忆配置 */
+  memoryConfig: {
+    /** 对话记忆策略 */
+    strategy: MemoryStrategy;
+    /** 历史对话的最大 token 数，为 0 时根据模型的上下文窗口和最大输出 token 数自动计算 */
+    maxTokenLimit: number;
+  };
   /** 开场白 */
   openingStatement: string;
   /** 开场问题列表 */
@@ -443,6 +688,20 @@ export type DraftAppConfig = {
     /** 是否启用回答后建议 */
     enable: boolean;
   };
+  /** 结构化输出配置 */
+  structuredOutput: {
+    /** 是否启用结构化输出 */
+    enable: boolean;
+    /** 最终回答需要符合的 JSON Schema，根节点必须为 object 类型 */
+    schema: Record<string, unknown>;
+  };
+  /** 标注回复配置 */
+  annotationReply: {
+    /** 是否启用标注回复 */
+    enable: boolean;
+    /** 相似度分数阈值，提问与标注问题的相似度达到阈值时直接返回标注的回答 */
+    scoreThreshold: number;
+  };
 };
 
 /**
@@ -456,12 +715,15 @@ export type DraftAppConfig = {
  * - datasets: 数据集配置
  * - retrievalConfig: 检索配置
  * - longTermMemory: 长期记忆配置
+ * - memoryConfig: 对话记忆配置
  * - openingStatement: 开场白
  * - openingQuestions: 开场问题列表
  * - speechToText: 语音转文字配置
  * - textToSpeech: 文字转语音配置
  * - reviewConfig: 审核配置
  * - suggestedAfterAnswer: 回答后建议配置
+ * - structuredOutput: 结构化输出配置
+ * - annotationReply: 标注回复配置
  */
 export const DEFAULT_APP_CONFIG: DraftAppConfig = {
   modelConfig: {
@@ -484,10 +746,25 @@ export const DEFAULT_APP_CONFIG: DraftAppConfig = {
     retrievalStrategy: RetrievalStrategy.SEMANTIC,
     k: 10,
     score: 0.5,
+    hybrid: {
+      semanticWeight: 0.5,
+      keywordWeight: 0.5,
+      fusionMethod: FusionMethod.RRF,
+    },
+    rerank: {
+      enable: false,
+      topN: 4,
+      score: 0,
+    },
+    filter: null,
   },
   longTermMemory: {
     enable: false,
   },
+  memoryConfig: {
+    strategy: MemoryStrategy.TOKEN_BUFFER,
+    maxTokenLimit: 0,
+  },
   openingStatement: '',
   openingQuestions: [],
   speechToText: {
@@ -512,6 +789,14 @@ export const DEFAULT_APP_CONFIG: DraftAppConfig = {
   suggestedAfterAnswer: {
     enable: true,
   },
+  structuredOutput: {
+    enable: false,
+    schema: {},
+  },
+  annotationReply: {
+    enable: false,
+    scoreThreshold: 0.9,
+  },
 };
 
 /**
@@ -525,6 +810,17 @@ export enum AppStatus {
   PUBLISHED = 'published',
 }
 
+/**
+ * 工作流状态枚举
+ * 定义了工作流的两种状态：
+ * - DRAFT: 草稿状态，表示工作流尚未发布，不能绑定到应用
+ * - PUBLISHED: 已发布状态，表示工作流已经发布，可以作为工具绑定到应用
+ */
+export enum WorkflowStatus {
+  DRAFT = 'draft',
+  PUBLISHED = 'published',
+}
+
 /**
  * 调用来源枚举
  * 定义了系统调用的不同来源：
@@ -564,6 +860,36 @@ export enum MessageStatus {
   TIMEOUT = 'timeout',
 }
 
+/**
+ * 消息反馈评价枚举
+ * 定义了对消息回答的评价类型：
+ * - LIKE: 点赞，回答符合预期
+ * - DISLIKE: 点踩，回答不符合预期
+ *
+ * @enum {string}
+ */
+export enum FeedbackRating {
+  /** 点赞 */
+  LIKE = 'like',
+  /** 点踩 */
+  DISLIKE = 'dislike',
+}
+
+/**
+ * 消息反馈来源枚举
+ * 定义了消息反馈的提交方：
+ * - USER: 终端用户在 Web 应用或服务 API 中提交的反馈
+ * - ADMIN: 应用所有者在管理端提交的反馈
+ *
+ * @enum {string}
+ */
+export enum FeedbackSource {
+  /** 终端用户反馈 */
+  USER = 'user',
+  /** 应用所有者反馈 */
+  ADMIN = 'admin',
+}
+
 /**
  * 检索来源枚举
  * 定义了检索操作的不同来源：
@@ -588,3 +914,36 @@ export enum RetrievalSource {
  * @type {string}
  */
 export const DATASET_RETRIEVAL_TOOL_NAME = 'dataset_retrieval';
+
+/**
+ * 引用来源类型定义
+ * 数据集检索工具召回的片段，模型在回答中以 [^引用编号] 的格式标注引用来源
+ *
+ * @property id - 引用编号，由片段ID生成，同一片段的引用编号始终相同
+ * @property datasetId - 片段所属的知识库ID
+ * @property documentId - 片段所属的文档ID
+ * @property documentName - 片段所属的文档名称
+ * @property segmentId - 片段ID
+ * @property position - 片段在文档中的位置
+ * @property snippet - 片段内容摘要
+ * @property score - 片段的检索得分
+ */
+export type Citation = {
+  id: string;
+  datasetId: string;
+  documentId: string;
+  documentName: string;
+  segmentId: string;
+  position: number;
+  snippet: string;
+  score: number;
+};
+
+/**
+ * 数据集检索工具的返回结果
+ * content 为带引用编号的检索内容，交给模型推理；citations 为召回片段的引用来源，随检索事件返回给前端
+ */
+export type DatasetRetrievalToolResult = {
+  content: string;
+  citations: Citation[];
+};
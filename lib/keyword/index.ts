@@ -1,7 +1,8 @@
 /**
  * 关键词提取模块，基于 nodejieba 分词库。
  *
- * 提供 extractKeywords 方法用于从文本中提取关键词。
+ * 提供 extractKeywords 方法用于从文本中提取关键词，
+ * 以及 tokenizeForSearch 方法用于为全文检索的倒排索引切分词项。
  * 注意：此模块只能在服务器端运行。
  */
 
@@ -31,3 +32,52 @@ export const extractKeywords = (text: string, maxKeywords = 10) => {
   // 只返回关键词字符串数组
   return keywords.map((item) => item.word);
 };
+
+/**
+ * 全文检索忽略的停用词，出现频率过高且不具备区分度
+ */
+const STOP_WORDS = new Set([
+  '的',
+  '了',
+  '是',
+  '在',
+  '和',
+  '与',
+  '及',
+  '或',
+  '等',
+  '也',
+  '就',
+  '都',
+  '而',
+  'a',
+  'an',
+  'the',
+  'of',
+  'to',
+  'and',
+  'or',
+  'is',
+  'are',
+]);
+
+/**
+ * 将文本切分为全文检索使用的词项。
+ *
+ * 使用搜索引擎模式分词，长词会额外切分出其中的短词（例如“数据库”同时产生“数据”），
+ * 使查询能够部分匹配文档中的长词。词项统一转换为小写，并过滤标点、空白和停用词。
+ *
+ * @param text - 需要切分的文本内容
+ * @returns 词项数组，保留重复的词项用于统计词频
+ */
+export const tokenizeForSearch = (text: string) => {
+  // 确保在服务器端运行
+  if (typeof window !== 'undefined') {
+    throw new Error('分词功能只能在服务器端运行');
+  }
+
+  return nodejieba
+    .cutForSearch(text, true)
+    .map((term) => term.trim().toLowerCase())
+    .filter((term) => /[\p{L}\p{N}]/u.test(term) && !STOP_WORDS.has(term));
+};
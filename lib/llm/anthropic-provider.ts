@@ -0,0 +1,90 @@
+/**
+ * Anthropic 模型提供商
+ * 通过 Anthropic 提供的 OpenAI 兼容接口调用 Claude 模型，
+ * 使用 ANTHROPIC_API_KEY 和 ANTHROPIC_API_URL 环境变量进行配置
+ */
+
+import {
+  type LanguageModel,
+  ModelFeature,
+  createOpenAICompatibleChatModel,
+  maxTokensParameter,
+  temperatureParameter,
+  topPParameter,
+} from './entity';
+
+/**
+ * Anthropic 支持的模型列表
+ */
+export const anthropicModels: LanguageModel[] = [
+  {
+    model: 'claude-3-5-haiku-20241022',
+    label: 'Claude 3.5 Haiku',
+    features: [ModelFeature.TOOL_CALL, ModelFeature.AGENT_THOUGHT],
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    parameters: [
+      temperatureParameter(1),
+      topPParameter,
+      maxTokensParameter(8192),
+    ],
+    pricing: {
+      inputPrice: 0.0008,
+      outputPrice: 0.004,
+      unit: 0.001,
+      currency: 'USD',
+    },
+  },
+  {
+    model: 'claude-3-7-sonnet-20250219',
+    label: 'Claude 3.7 Sonnet',
+    features: [
+      ModelFeature.TOOL_CALL,
+      ModelFeature.AGENT_THOUGHT,
+      ModelFeature.IMAGE_INPUT,
+    ],
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    parameters: [
+      temperatureParameter(1),
+      topPParameter,
+      maxTokensParameter(64000, 8192),
+    ],
+    pricing: {
+      inputPrice: 0.003,
+      outputPrice: 0.015,
+      unit: 0.001,
+      currency: 'USD',
+    },
+  },
+  {
+    model: 'claude-sonnet-4-20250514',
+    label: 'Claude Sonnet 4',
+    features: [
+      ModelFeature.TOOL_CALL,
+      ModelFeature.AGENT_THOUGHT,
+      ModelFeature.IMAGE_INPUT,
+    ],
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    parameters: [
+      temperatureParameter(1),
+      topPParameter,
+      maxTokensParameter(64000, 8192),
+    ],
+    pricing: {
+      inputPrice: 0.003,
+      outputPrice: 0.015,
+      unit: 0.001,
+      currency: 'USD',
+    },
+  },
+];
+
+/**
+ * 创建 Anthropic 聊天模型
+ */
+export const createAnthropicChatModel = createOpenAICompatibleChatModel(() => ({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+  baseURL: process.env.ANTHROPIC_API_URL || 'https://api.anthropic.com/v1/',
+}));
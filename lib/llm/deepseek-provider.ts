@@ -0,0 +1,65 @@
+/**
+ * DeepSeek 模型提供商
+ * 通过 DeepSeek 的 OpenAI 兼容接口调用模型，
+ * 使用 DEEPSEEK_API_KEY 环境变量进行配置
+ */
+
+import {
+  type LanguageModel,
+  ModelFeature,
+  createOpenAICompatibleChatModel,
+  frequencyPenaltyParameter,
+  maxTokensParameter,
+  presencePenaltyParameter,
+  temperatureParameter,
+  topPParameter,
+} from './entity';
+
+/**
+ * DeepSeek 支持的模型列表
+ * 推理模型 deepseek-reasoner 不支持工具调用和采样参数，仅可设置最大输出长度
+ */
+export const deepseekModels: LanguageModel[] = [
+  {
+    model: 'deepseek-chat',
+    label: 'DeepSeek V3',
+    features: [ModelFeature.TOOL_CALL, ModelFeature.AGENT_THOUGHT],
+    contextWindow: 65536,
+    maxOutputTokens: 8192,
+    parameters: [
+      temperatureParameter(),
+      topPParameter,
+      frequencyPenaltyParameter,
+      presencePenaltyParameter,
+      maxTokensParameter(8192),
+    ],
+    pricing: {
+      inputPrice: 0.002,
+      outputPrice: 0.008,
+      unit: 0.001,
+      currency: 'CNY',
+    },
+  },
+  {
+    model: 'deepseek-reasoner',
+    label: 'DeepSeek R1',
+    features: [ModelFeature.AGENT_THOUGHT],
+    contextWindow: 65536,
+    maxOutputTokens: 65536,
+    parameters: [maxTokensParameter(65536, 32768)],
+    pricing: {
+      inputPrice: 0.004,
+      outputPrice: 0.016,
+      unit: 0.001,
+      currency: 'CNY',
+    },
+  },
+];
+
+/**
+ * 创建 DeepSeek 聊天模型
+ */
+export const createDeepSeekChatModel = createOpenAICompatibleChatModel(() => ({
+  apiKey: process.env.DEEPSEEK_API_KEY,
+  baseURL: process.env.DEEPSEEK_API_URL || 'https://api.deepseek.com/v1',
+}));
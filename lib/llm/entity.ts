@@ -0,0 +1,212 @@
+/**
+ * 语言模型实体定义
+ *
+ * 该模块定义了语言模型提供商注册表使用的类型，包括：
+ * - 模型特性（工具调用、图片输入等）
+ * - 模型参数定义（用于前端渲染参数表单和后端参数校验）
+ * - 模型价格信息
+ * - 模型提供商定义
+ */
+
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatOpenAI } from '@langchain/openai';
+
+/**
+ * 模型特性枚举
+ * - TOOL_CALL: 支持原生工具调用（function calling）
+ * - AGENT_THOUGHT: 支持智能体推理
+ * - IMAGE_INPUT: 支持图片输入（视觉模型）
+ */
+export enum ModelFeature {
+  TOOL_CALL = 'tool_call',
+  AGENT_THOUGHT = 'agent_thought',
+  IMAGE_INPUT = 'image_input',
+}
+
+/**
+ * 模型参数定义
+ * @property name - 参数名称，与 ModelConfig.parameters 中的字段对应
+ * @property label - 参数的显示名称
+ * @property help - 参数的帮助说明文本
+ * @property type - 参数类型：浮点数或整数
+ * @property required - 参数是否必填
+ * @property default - 参数默认值
+ * @property min - 参数最小值
+ * @property max - 参数最大值
+ * @property precision - 浮点数保留的小数位数
+ */
+export type ModelParameter = {
+  name: string;
+  label: string;
+  help: string;
+  type: 'float' | 'int';
+  required: boolean;
+  default: number;
+  min: number;
+  max: number;
+  precision?: number;
+};
+
+/**
+ * 模型价格信息
+ * 单次调用价格 = token 数量 × 单价 × 价格单位
+ * @property inputPrice - 输入单价（每千 token）
+ * @property outputPrice - 输出单价（每千 token）
+ * @property unit - 价格单位，单价按千 token 计算时为 0.001
+ * @property currency - 货币类型
+ */
+export type ModelPricing = {
+  inputPrice: number;
+  outputPrice: number;
+  unit: number;
+  currency: 'USD' | 'CNY';
+};
+
+/**
+ * 语言模型定义
+ * @property model - 模型名称，调用提供商接口时使用
+ * @property label - 模型的显示名称
+ * @property features - 模型支持的特性列表
+ * @property contextWindow - 模型上下文窗口大小（token）
+ * @property maxOutputTokens - 模型单次最大输出 token 数
+ * @property parameters - 模型支持的参数定义列表
+ * @property pricing - 模型价格信息
+ */
+export type LanguageModel = {
+  model: string;
+  label: string;
+  features: ModelFeature[];
+  contextWindow: number;
+  maxOutputTokens: number;
+  parameters: ModelParameter[];
+  pricing: ModelPricing;
+};
+
+/**
+ * 语言模型提供商定义
+ * @property name - 提供商的唯一标识符，与 ModelConfig.provider 对应
+ * @property label - 提供商的显示名称
+ * @property description - 提供商的描述信息
+ * @property icon - 提供商图标的URL地址
+ * @property background - 提供商图标的背景色
+ * @property models - 提供商支持的模型列表
+ * @property createChatModel - 根据模型名称和参数创建聊天模型实例
+ */
+export type LanguageModelProvider = {
+  name: string;
+  label: string;
+  description: string;
+  icon: string;
+  background: string;
+  models: LanguageModel[];
+  createChatModel: (
+    model: string,
+    parameters: Record<string, number>,
+  ) => BaseChatModel;
+};
+
+/**
+ * 创建温度参数定义
+ * @param max - 温度最大值，不同提供商取值范围不同
+ * @param defaultValue - 默认温度
+ */
+export const temperatureParameter = (
+  max = 2,
+  defaultValue = 0.5,
+): ModelParameter => ({
+  name: 'temperature',
+  label: '温度',
+  help: '温度控制随机性，较低的温度会导致较少的随机生成。',
+  type: 'float',
+  required: false,
+  default: defaultValue,
+  min: 0,
+  max,
+  precision: 2,
+});
+
+/**
+ * 核采样参数定义
+ */
+export const topPParameter: ModelParameter = {
+  name: 'topP',
+  label: '最高概率',
+  help: '通过核采样控制多样性，0.5 表示考虑一半的所有可能性加权选项。',
+  type: 'float',
+  required: false,
+  default: 0.85,
+  min: 0,
+  max: 1,
+  precision: 2,
+};
+
+/**
+ * 频率惩罚参数定义
+ */
+export const frequencyPenaltyParameter: ModelParameter = {
+  name: 'frequencyPenalty',
+  label: '频率惩罚',
+  help: '根据新 token 在文本中已出现的频率对其进行惩罚，降低模型逐字重复的可能性。',
+  type: 'float',
+  required: false,
+  default: 0.2,
+  min: -2,
+  max: 2,
+  precision: 2,
+};
+
+/**
+ * 存在惩罚参数定义
+ */
+export const presencePenaltyParameter: ModelParameter = {
+  name: 'presencePenalty',
+  label: '存在惩罚',
+  help: '根据新 token 是否已在文本中出现对其进行惩罚，增加模型谈论新主题的可能性。',
+  type: 'float',
+  required: false,
+  default: 0.2,
+  min: -2,
+  max: 2,
+  precision: 2,
+};
+
+/**
+ * 创建最大生成 token 数参数定义
+ * @param max - 模型允许的最大输出 token 数
+ * @param defaultValue - 默认最大输出 token 数
+ */
+export const maxTokensParameter = (
+  max: number,
+  defaultValue = Math.min(max, 4096),
+): ModelParameter => ({
+  name: 'maxTokens',
+  label: '最大标记',
+  help: '指定生成结果长度的上限，如果生成结果截断，可以调大该参数。',
+  type: 'int',
+  required: false,
+  default: defaultValue,
+  min: 1,
+  max,
+});
+
+/**
+ * 创建兼容 OpenAI 接口协议的聊天模型工厂
+ *
+ * 大部分提供商都提供了兼容 OpenAI 的接口，只需替换接口地址和 API 秘钥即可复用 ChatOpenAI。
+ *
+ * @param getClientOptions - 获取接口地址和 API 秘钥，在创建模型时读取以便使用最新的环境变量
+ * @returns 聊天模型工厂函数
+ */
+export const createOpenAICompatibleChatModel =
+  (getClientOptions: () => { apiKey?: string; baseURL?: string }) =>
+  (model: string, parameters: Record<string, number>) => {
+    const { apiKey, baseURL } = getClientOptions();
+    return new ChatOpenAI({
+      model,
+      ...parameters,
+      apiKey,
+      configuration: {
+        baseURL,
+      },
+    });
+  };
@@ -0,0 +1,269 @@
+/**
+ * 语言模型模块主文件
+ *
+ * 该模块维护系统中所有语言模型提供商的注册表，包括：
+ * - 模型提供商及其支持的模型、参数定义和价格信息
+ * - 模型查询函数
+ * - 根据 ModelConfig 创建聊天模型实例
+ * - 构建包含图片内容的用户消息
+ *
+ * 当前支持的提供商：
+ * - OpenAI
+ * - Anthropic
+ * - 通义千问
+ * - Ollama
+ * - 月之暗面
+ * - DeepSeek
+ */
+
+import { BadRequestException } from '@/exceptions';
+import type { ModelConfig } from '@/lib/entity';
+import { log } from '@/lib/logger';
+import { HumanMessage } from '@langchain/core/messages';
+import {
+  anthropicModels,
+  createAnthropicChatModel,
+} from './anthropic-provider';
+import { createDeepSeekChatModel, deepseekModels } from './deepseek-provider';
+import {
+  type LanguageModel,
+  type LanguageModelProvider,
+  ModelFeature,
+} from './entity';
+import { createMoonshotChatModel, moonshotModels } from './moonshot-provider';
+import { createOllamaChatModel, ollamaModels } from './ollama-provider';
+import { createOpenAIChatModel, openaiModels } from './openai-provider';
+import { createTongyiChatModel, tongyiModels } from './tongyi-provider';
+
+export * from './entity';
+
+const host = process.env.LLM_OPS_NEXT_HOST;
+
+/**
+ * 系统内置的语言模型提供商列表
+ */
+export const languageModelProviders: LanguageModelProvider[] = [
+  {
+    name: 'openai',
+    label: 'OpenAI',
+    description:
+      'OpenAI 提供的 GPT 系列模型，同时支持任意兼容 OpenAI 接口的服务。',
+    icon: `${host}/icons/openai.svg`,
+    background: '#E5E7EB',
+    models: openaiModels,
+    createChatModel: createOpenAIChatModel,
+  },
+  {
+    name: 'anthropic',
+    label: 'Anthropic',
+    description: 'Anthropic 提供的 Claude 系列模型。',
+    icon: `${host}/icons/anthropic.svg`,
+    background: '#F5F0E8',
+    models: anthropicModels,
+    createChatModel: createAnthropicChatModel,
+  },
+  {
+    name: 'tongyi',
+    label: '通义千问',
+    description: '阿里云百炼平台提供的通义千问系列模型。',
+    icon: `${host}/icons/tongyi.svg`,
+    background: '#EEF2FF',
+    models: tongyiModels,
+    createChatModel: createTongyiChatModel,
+  },
+  {
+    name: 'ollama',
+    label: 'Ollama',
+    description: '通过 Ollama 在本地部署和运行的开源模型。',
+    icon: `${host}/icons/ollama.svg`,
+    background: '#FFFFFF',
+    models: ollamaModels,
+    createChatModel: createOllamaChatModel,
+  },
+  {
+    name: 'moonshot',
+    label: '月之暗面',
+    description: '月之暗面提供的 Kimi 系列模型，擅长长文本处理。',
+    icon: `${host}/icons/moonshot.svg`,
+    background: '#E5E7EB',
+    models: moonshotModels,
+    createChatModel: createMoonshotChatModel,
+  },
+  {
+    name: 'deepseek',
+    label: 'DeepSeek',
+    description: '深度求索提供的 DeepSeek 系列模型。',
+    icon: `${host}/icons/deepseek.svg`,
+    background: '#EFF6FF',
+    models: deepseekModels,
+    createChatModel: createDeepSeekChatModel,
+  },
+];
+
+/**
+ * 根据提供商名称获取语言模型提供商
+ * @param providerName - 提供商的唯一标识符
+ * @returns 找到的提供商，如果未找到则返回undefined
+ */
+export const getLanguageModelProvider = (providerName: string) => {
+  return languageModelProviders.find(
+    (provider) => provider.name === providerName,
+  );
+};
+
+/**
+ * 从指定的提供商中获取语言模型
+ * @param provider - 语言模型提供商
+ * @param modelName - 模型名称
+ * @returns 找到的模型，如果未找到则返回undefined
+ */
+export const getLanguageModel = (
+  provider: LanguageModelProvider,
+  modelName: string,
+) => {
+  return provider.models.find((model) => model.model === modelName);
+};
+
+/**
+ * 根据模型配置获取提供商和模型，如果不存在则抛出异常
+ * @param modelConfig - 应用的模型配置
+ * @returns 提供商和模型
+ * @throws {BadRequestException} 当提供商或模型不存在时抛出
+ */
+export const getLanguageModelOrThrow = (
+  modelConfig: Pick<ModelConfig, 'provider' | 'model'>,
+) => {
+  const provider = getLanguageModelProvider(modelConfig.provider);
+  if (!provider) {
+    log.warn('Language model provider not found: %s', modelConfig.provider);
+    throw new BadRequestException('模型提供商不存在');
+  }
+
+  const model = getLanguageModel(provider, modelConfig.model);
+  if (!model) {
+    log.warn(
+      'Language model not found: %s %s',
+      modelConfig.provider,
+      modelConfig.model,
+    );
+    throw new BadRequestException('模型不存在');
+  }
+
+  return { provider, model };
+};
+
+/**
+ * 按模型的参数定义规范化模型参数
+ *
+ * - 丢弃模型不支持的参数
+ * - 缺失的参数使用默认值
+ * - 超出范围的参数截断到允许的范围内
+ *
+ * @param model - 语言模型定义
+ * @param parameters - 原始模型参数
+ * @returns 规范化后的模型参数
+ */
+export const normalizeModelParameters = (
+  model: LanguageModel,
+  parameters: Partial<Record<string, number>> = {},
+) => {
+  return model.parameters.reduce(
+    (pre, curr) => {
+      const value = parameters[curr.name];
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        pre[curr.name] = curr.default;
+        return pre;
+      }
+      const clampedValue = Math.min(Math.max(value, curr.min), curr.max);
+      pre[curr.name] =
+        curr.type === 'int' ? Math.floor(clampedValue) : clampedValue;
+      return pre;
+    },
+    {} as Record<string, number>,
+  );
+};
+
+/**
+ * 根据模型配置创建聊天模型实例
+ * @param modelConfig - 应用的模型配置
+ * @returns 聊天模型实例
+ * @throws {BadRequestException} 当提供商或模型不存在时抛出
+ */
+export const createChatModel = (
+  modelConfig: Pick<ModelConfig, 'provider' | 'model'> & {
+    parameters?: Partial<ModelConfig['parameters']>;
+  },
+) => {
+  const { provider, model } = getLanguageModelOrThrow(modelConfig);
+  const parameters = normalizeModelParameters(model, modelConfig.parameters);
+  return provider.createChatModel(model.model, parameters);
+};
+
+/**
+ * 创建系统内部任务（摘要、会话命名、提示词优化等）使用的默认聊天模型
+ *
+ * 默认模型可以通过 DEFAULT_LLM_PROVIDER 和 DEFAULT_LLM_MODEL 环境变量进行配置
+ *
+ * @param parameters - 模型参数，未传递的参数使用模型默认值
+ * @returns 聊天模型实例
+ */
+export const createDefaultChatModel = (
+  parameters: Partial<ModelConfig['parameters']> = {},
+) => {
+  return createChatModel({
+    provider: process.env.DEFAULT_LLM_PROVIDER || 'openai',
+    model: process.env.DEFAULT_LLM_MODEL || 'gpt-4o-mini',
+    parameters,
+  });
+};
+
+/**
+ * 校验模型是否支持图片输入
+ *
+ * @param modelConfig - 应用的模型配置
+ * @param imageUrls - 用户消息附带的图片URL列表
+ * @throws {BadRequestException} 当消息附带图片但模型不支持图片输入时抛出
+ */
+export const validateImageInput = (
+  modelConfig: Pick<ModelConfig, 'provider' | 'model'>,
+  imageUrls: string[],
+) => {
+  if (imageUrls.length === 0) {
+    return;
+  }
+
+  const { model } = getLanguageModelOrThrow(modelConfig);
+  if (!model.features.includes(ModelFeature.IMAGE_INPUT)) {
+    log.warn(
+      'Model does not support image input, provider={%s}, model={%s}',
+      modelConfig.provider,
+      modelConfig.model,
+    );
+    throw new BadRequestException('当前模型不支持图片输入');
+  }
+};
+
+/**
+ * 构建用户消息
+ *
+ * 没有附带图片时使用纯文本内容，否则使用文本内容与图片内容组成的多模态内容。
+ *
+ * @param query - 用户查询内容
+ * @param imageUrls - 用户消息附带的图片URL列表
+ * @returns 用户消息实例
+ */
+export const createHumanMessage = (query: string, imageUrls: string[] = []) => {
+  if (imageUrls.length === 0) {
+    return new HumanMessage(query);
+  }
+
+  return new HumanMessage({
+    content: [
+      { type: 'text', text: query },
+      ...imageUrls.map((url) => ({
+        type: 'image_url',
+        image_url: { url },
+      })),
+    ],
+  });
+};
@@ -0,0 +1,90 @@
+/**
+ * 月之暗面模型提供商
+ * 通过 Moonshot 的 OpenAI 兼容接口调用 Kimi 模型，
+ * 使用 MOONSHOT_API_KEY 环境变量进行配置
+ */
+
+import {
+  type LanguageModel,
+  ModelFeature,
+  createOpenAICompatibleChatModel,
+  frequencyPenaltyParameter,
+  maxTokensParameter,
+  presencePenaltyParameter,
+  temperatureParameter,
+  topPParameter,
+} from './entity';
+
+/**
+ * 月之暗面支持的模型列表
+ */
+export const moonshotModels: LanguageModel[] = [
+  {
+    model: 'moonshot-v1-8k',
+    label: 'Moonshot V1 8K',
+    features: [ModelFeature.TOOL_CALL, ModelFeature.AGENT_THOUGHT],
+    contextWindow: 8192,
+    maxOutputTokens: 4096,
+    parameters: [
+      temperatureParameter(1, 0.3),
+      topPParameter,
+      frequencyPenaltyParameter,
+      presencePenaltyParameter,
+      maxTokensParameter(4096, 2048),
+    ],
+    pricing: {
+      inputPrice: 0.002,
+      outputPrice: 0.01,
+      unit: 0.001,
+      currency: 'CNY',
+    },
+  },
+  {
+    model: 'moonshot-v1-32k',
+    label: 'Moonshot V1 32K',
+    features: [ModelFeature.TOOL_CALL, ModelFeature.AGENT_THOUGHT],
+    contextWindow: 32768,
+    maxOutputTokens: 8192,
+    parameters: [
+      temperatureParameter(1, 0.3),
+      topPParameter,
+      frequencyPenaltyParameter,
+      presencePenaltyParameter,
+      maxTokensParameter(8192),
+    ],
+    pricing: {
+      inputPrice: 0.005,
+      outputPrice: 0.02,
+      unit: 0.001,
+      currency: 'CNY',
+    },
+  },
+  {
+    model: 'moonshot-v1-128k',
+    label: 'Moonshot V1 128K',
+    features: [ModelFeature.TOOL_CALL, ModelFeature.AGENT_THOUGHT],
+    contextWindow: 131072,
+    maxOutputTokens: 8192,
+    parameters: [
+      temperatureParameter(1, 0.3),
+      topPParameter,
+      frequencyPenaltyParameter,
+      presencePenaltyParameter,
+      maxTokensParameter(8192),
+    ],
+    pricing: {
+      inputPrice: 0.01,
+      outputPrice: 0.03,
+      unit: 0.001,
+      currency: 'CNY',
+    },
+  },
+];
+
+/**
+ * 创建月之暗面聊天模型
+ */
+export const createMoonshotChatModel = createOpenAICompatibleChatModel(() => ({
+  apiKey: process.env.MOONSHOT_API_KEY,
+  baseURL: process.env.MOONSHOT_API_URL || 'https://api.moonshot.cn/v1',
+}));
@@ -0,0 +1,90 @@
+/**
+ * Ollama 模型提供商
+ * 通过 Ollama 的 OpenAI 兼容接口调用本地部署的开源模型，
+ * 使用 OLLAMA_API_URL 环境变量配置服务地址
+ */
+
+import {
+  type LanguageModel,
+  ModelFeature,
+  createOpenAICompatibleChatModel,
+  frequencyPenaltyParameter,
+  maxTokensParameter,
+  presencePenaltyParameter,
+  temperatureParameter,
+  topPParameter,
+} from './entity';
+
+/**
+ * Ollama 支持的模型列表，本地部署的模型不产生费用
+ */
+export const ollamaModels: LanguageModel[] = [
+  {
+    model: 'llama3.1',
+    label: 'Llama 3.1',
+    features: [ModelFeature.TOOL_CALL, ModelFeature.AGENT_THOUGHT],
+    contextWindow: 131072,
+    maxOutputTokens: 8192,
+    parameters: [
+      temperatureParameter(),
+      topPParameter,
+      frequencyPenaltyParameter,
+      presencePenaltyParameter,
+      maxTokensParameter(8192),
+    ],
+    pricing: {
+      inputPrice: 0,
+      outputPrice: 0,
+      unit: 0.001,
+      currency: 'USD',
+    },
+  },
+  {
+    model: 'qwen2.5',
+    label: 'Qwen 2.5',
+    features: [ModelFeature.TOOL_CALL, ModelFeature.AGENT_THOUGHT],
+    contextWindow: 32768,
+    maxOutputTokens: 8192,
+    parameters: [
+      temperatureParameter(),
+      topPParameter,
+      frequencyPenaltyParameter,
+      presencePenaltyParameter,
+      maxTokensParameter(8192),
+    ],
+    pricing: {
+      inputPrice: 0,
+      outputPrice: 0,
+      unit: 0.001,
+      currency: 'USD',
+    },
+  },
+  {
+    model: 'llava',
+    label: 'LLaVA',
+    features: [ModelFeature.IMAGE_INPUT],
+    contextWindow: 4096,
+    maxOutputTokens: 2048,
+    parameters: [
+      temperatureParameter(),
+      topPParameter,
+      frequencyPenaltyParameter,
+      presencePenaltyParameter,
+      maxTokensParameter(2048),
+    ],
+    pricing: {
+      inputPrice: 0,
+      outputPrice: 0,
+      unit: 0.001,
+      currency: 'USD',
+    },
+  },
+];
+
+/**
+ * 创建 Ollama 聊天模型，Ollama 不校验 API 秘钥，但客户端要求提供非空值
+ */
+export const createOllamaChatModel = createOpenAICompatibleChatModel(() => ({
+  apiKey: 'ollama',
+  baseURL: process.env.OLLAMA_API_URL || 'http://localhost:11434/v1',
+}));
@@ -0,0 +1,145 @@
+/**
+ * OpenAI 模型提供商
+ * 使用 OPENAI_API_KEY 和 OPENAI_API_URL 环境变量进行配置
+ */
+
+import {
+  type LanguageModel,
+  ModelFeature,
+  createOpenAICompatibleChatModel,
+  frequencyPenaltyParameter,
+  maxTokensParameter,
+  presencePenaltyParameter,
+  temperatureParameter,
+  topPParameter,
+} from './entity';
+
+/**
+ * OpenAI 支持的模型列表
+ */
+export const openaiModels: LanguageModel[] = [
+  {
+    model: 'gpt-4o-mini',
+    label: 'GPT-4o mini',
+    features: [
+      ModelFeature.TOOL_CALL,
+      ModelFeature.AGENT_THOUGHT,
+      ModelFeature.IMAGE_INPUT,
+    ],
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    parameters: [
+      temperatureParameter(),
+      topPParameter,
+      frequencyPenaltyParameter,
+      presencePenaltyParameter,
+      maxTokensParameter(16384, 8192),
+    ],
+    pricing: {
+      inputPrice: 0.00015,
+      outputPrice: 0.0006,
+      unit: 0.001,
+      currency: 'USD',
+    },
+  },
+  {
+    model: 'gpt-4o',
+    label: 'GPT-4o',
+    features: [
+      ModelFeature.TOOL_CALL,
+      ModelFeature.AGENT_THOUGHT,
+      ModelFeature.IMAGE_INPUT,
+    ],
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    parameters: [
+      temperatureParameter(),
+      topPParameter,
+      frequencyPenaltyParameter,
+      presencePenaltyParameter,
+      maxTokensParameter(16384, 8192),
+    ],
+    pricing: {
+      inputPrice: 0.0025,
+      outputPrice: 0.01,
+      unit: 0.001,
+      currency: 'USD',
+    },
+  },
+  {
+    model: 'gpt-4.1-mini',
+    label: 'GPT-4.1 mini',
+    features: [
+      ModelFeature.TOOL_CALL,
+      ModelFeature.AGENT_THOUGHT,
+      ModelFeature.IMAGE_INPUT,
+    ],
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    parameters: [
+      temperatureParameter(),
+      topPParameter,
+      frequencyPenaltyParameter,
+      presencePenaltyParameter,
+      maxTokensParameter(32768, 8192),
+    ],
+    pricing: {
+      inputPrice: 0.0004,
+      outputPrice: 0.0016,
+      unit: 0.001,
+      currency: 'USD',
+    },
+  },
+  {
+    model: 'gpt-4.1',
+    label: 'GPT-4.1',
+    features: [
+      ModelFeature.TOOL_CALL,
+      ModelFeature.AGENT_THOUGHT,
+      ModelFeature.IMAGE_INPUT,
+    ],
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    parameters: [
+      temperatureParameter(),
+      topPParameter,
+      frequencyPenaltyParameter,
+      presencePenaltyParameter,
+      maxTokensParameter(32768, 8192),
+    ],
+    pricing: {
+      inputPrice: 0.002,
+      outputPrice: 0.008,
+      unit: 0.001,
+      currency: 'USD',
+    },
+  },
+  {
+    model: 'gpt-3.5-turbo',
+    label: 'GPT-3.5 Turbo',
+    features: [ModelFeature.TOOL_CALL, ModelFeature.AGENT_THOUGHT],
+    contextWindow: 16385,
+    maxOutputTokens: 4096,
+    parameters: [
+      temperatureParameter(),
+      topPParameter,
+      frequencyPenaltyParameter,
+      presencePenaltyParameter,
+      maxTokensParameter(4096),
+    ],
+    pricing: {
+      inputPrice: 0.0005,
+      outputPrice: 0.0015,
+      unit: 0.001,
+      currency: 'USD',
+    },
+  },
+];
+
+/**
+ * 创建 OpenAI 聊天模型
+ */
+export const createOpenAIChatModel = createOpenAICompatibleChatModel(() => ({
+  apiKey: process.env.OPENAI_API_KEY,
+  baseURL: process.env.OPENAI_API_URL,
+}));
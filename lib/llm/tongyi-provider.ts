@@ -0,0 +1,107 @@
+/**
+ * 通义千问模型提供商
+ * 通过阿里云百炼（DashScope）的 OpenAI 兼容接口调用通义千问模型，
+ * 与嵌入模型共用 ALIBABA_API_KEY 环境变量
+ */
+
+import {
+  type LanguageModel,
+  ModelFeature,
+  createOpenAICompatibleChatModel,
+  maxTokensParameter,
+  presencePenaltyParameter,
+  temperatureParameter,
+  topPParameter,
+} from './entity';
+
+/**
+ * 通义千问支持的模型列表
+ */
+export const tongyiModels: LanguageModel[] = [
+  {
+    model: 'qwen-turbo',
+    label: '通义千问-Turbo',
+    features: [ModelFeature.TOOL_CALL, ModelFeature.AGENT_THOUGHT],
+    contextWindow: 131072,
+    maxOutputTokens: 8192,
+    parameters: [
+      temperatureParameter(1.99),
+      topPParameter,
+      presencePenaltyParameter,
+      maxTokensParameter(8192),
+    ],
+    pricing: {
+      inputPrice: 0.0003,
+      outputPrice: 0.0006,
+      unit: 0.001,
+      currency: 'CNY',
+    },
+  },
+  {
+    model: 'qwen-plus',
+    label: '通义千问-Plus',
+    features: [ModelFeature.TOOL_CALL, ModelFeature.AGENT_THOUGHT],
+    contextWindow: 131072,
+    maxOutputTokens: 8192,
+    parameters: [
+      temperatureParameter(1.99),
+      topPParameter,
+      presencePenaltyParameter,
+      maxTokensParameter(8192),
+    ],
+    pricing: {
+      inputPrice: 0.0008,
+      outputPrice: 0.002,
+      unit: 0.001,
+      currency: 'CNY',
+    },
+  },
+  {
+    model: 'qwen-max',
+    label: '通义千问-Max',
+    features: [ModelFeature.TOOL_CALL, ModelFeature.AGENT_THOUGHT],
+    contextWindow: 32768,
+    maxOutputTokens: 8192,
+    parameters: [
+      temperatureParameter(1.99),
+      topPParameter,
+      presencePenaltyParameter,
+      maxTokensParameter(8192),
+    ],
+    pricing: {
+      inputPrice: 0.0024,
+      outputPrice: 0.0096,
+      unit: 0.001,
+      currency: 'CNY',
+    },
+  },
+  {
+    model: 'qwen-vl-plus',
+    label: '通义千问-VL-Plus',
+    features: [ModelFeature.IMAGE_INPUT],
+    contextWindow: 131072,
+    maxOutputTokens: 8192,
+    parameters: [
+      temperatureParameter(1.99),
+      topPParameter,
+      presencePenaltyParameter,
+      maxTokensParameter(8192),
+    ],
+    pricing: {
+      inputPrice: 0.0015,
+      outputPrice: 0.0045,
+      unit: 0.001,
+      currency: 'CNY',
+    },
+  },
+];
+
+/**
+ * 创建通义千问聊天模型
+ */
+export const createTongyiChatModel = createOpenAICompatibleChatModel(() => ({
+  apiKey: process.env.ALIBABA_API_KEY,
+  baseURL:
+    process.env.ALIBABA_API_URL ||
+    'https://dashscope.aliyuncs.com/compatible-mode/v1',
+}));
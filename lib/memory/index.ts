@@ -0,0 +1,108 @@
+import type { conversation } from '@/lib/db/schema';
+import type { BaseLanguageModel } from '@langchain/core/language_models/base';
+import type { BaseMessage } from '@langchain/core/messages';
+import {
+  type DraftAppConfig,
+  MemoryStrategy,
+  type ModelConfig,
+} from '../entity';
+import { type LanguageModel, ModelFeature } from '../llm/entity';
+import { createSummaryBufferMemory } from './summary-buffer-memory';
+import { calculateHistoryTokenLimit } from './token-budget';
+import { createTokenBufferMemory } from './token-buffer-memory';
+
+/**
+ * 加载对话记忆的参数
+ * @property conversationRecord - 对话记录
+ * @property modelInstance - 语言模型实例，用于计算 token 数量
+ * @property languageModel - 语言模型定义，用于计算 token 预算和判断是否支持图片输入
+ * @property modelConfig - 应用的模型配置
+ * @property memoryConfig - 应用的对话记忆配置
+ * @property dialogRound - 应用的对话轮次限制
+ */
+export type LoadConversationMemoryOptions = {
+  conversationRecord: typeof conversation.$inferSelect;
+  modelInstance: BaseLanguageModel;
+  languageModel: LanguageModel;
+  modelConfig: Pick<ModelConfig, 'parameters'>;
+  memoryConfig: DraftAppConfig['memoryConfig'];
+  dialogRound: number;
+};
+
+/**
+ * 按应用的对话记忆策略加载历史对话
+ *
+ * - NONE: 不加载历史对话
+ * - WINDOW: 加载最近 dialogRound 轮对话，只在超出模型可用上下文时裁剪
+ * - TOKEN_BUFFER: 加载最近 dialogRound 轮对话，并裁剪到 token 预算内
+ * - SUMMARY_BUFFER: 同 TOKEN_BUFFER，超出缓冲区的早期对话会被总结为摘要
+ *
+ * token 预算由模型的上下文窗口、最大输出 token 数和配置的最大 token 数计算得到。
+ *
+ * @param options - 加载对话记忆的参数
+ * @returns 历史对话消息列表与早期对话摘要
+ */
+export const loadConversationMemory = async ({
+  conversationRecord,
+  modelInstance,
+  languageModel,
+  modelConfig,
+  memoryConfig,
+  dialogRound,
+}: LoadConversationMemoryOptions): Promise<{
+  history: BaseMessage[];
+  historySummary: string;
+}> => {
+  const enableImageInput = languageModel.features.includes(
+    ModelFeature.IMAGE_INPUT,
+  );
+
+  switch (memoryConfig.strategy) {
+    case MemoryStrategy.NONE:
+      return { history: [], historySummary: '' };
+    case MemoryStrategy.WINDOW: {
+      // 不限制配置的最大 token 数，只保证不超出模型的可用上下文
+      const availableTokenLimit = calculateHistoryTokenLimit(
+        languageModel,
+        modelConfig.parameters,
+        Number.MAX_SAFE_INTEGER,
+      );
+      const history = await createTokenBufferMemory(
+        conversationRecord,
+        modelInstance,
+        enableImageInput,
+      ).getHistoryPromptMessages(availableTokenLimit, dialogRound);
+      return { history, historySummary: '' };
+    }
+    case MemoryStrategy.SUMMARY_BUFFER: {
+      const { messages, summary } = await createSummaryBufferMemory(
+        conversationRecord,
+        modelInstance,
+        enableImageInput,
+      ).getHistory(
+        calculateHistoryTokenLimit(
+          languageModel,
+          modelConfig.parameters,
+          memoryConfig.maxTokenLimit,
+        ),
+        dialogRound,
+      );
+      return { history: messages, historySummary: summary };
+    }
+    default: {
+      const history = await createTokenBufferMemory(
+        conversationRecord,
+        modelInstance,
+        enableImageInput,
+      ).getHistoryPromptMessages(
+        calculateHistoryTokenLimit(
+          languageModel,
+          modelConfig.parameters,
+          memoryConfig.maxTokenLimit,
+        ),
+        dialogRound,
+      );
+      return { history, historySummary: '' };
+    }
+  }
+};
@@ -0,0 +1,138 @@
+import { conversation } from '@/lib/db/schema';
+import type { BaseLanguageModel } from '@langchain/core/language_models/base';
+import { getBufferString } from '@langchain/core/messages';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { createDefaultChatModel } from '../llm';
+import { log } from '../logger';
+import {
+  getBranchMessageRecords,
+  toPromptMessages,
+  trimHistoryMessages,
+} from './token-buffer-memory';
+
+/**
+ * 摘要缓冲记忆最多读取的历史消息数量，更早的消息不再参与摘要
+ */
+const MAX_SUMMARY_BUFFER_MESSAGE_LIMIT = 100;
+
+/**
+ * 历史对话摘要生成模板
+ * 在之前的摘要基础上总结超出缓冲区的早期对话
+ */
+const HISTORY_SUMMARIZER_TEMPLATE = `逐步总结提供的早期对话内容，在之前的总结基础上继续添加并返回一个新的总结，新总结需要保留对后续对话有帮助的关键信息（例如用户的需求、约束条件、已经得出的结论），并确保新总结的长度不要超过2000个字符，尽可能简洁。
+
+当前总结:
+{summary}
+
+新的会话:
+{newLines}
+
+新的总结:`;
+
+/**
+ * 创建摘要缓冲记忆管理器
+ *
+ * 最近的对话在 token 限制和消息数量限制内原样保留，超出缓冲区的早期对话会被总结为摘要。
+ * 摘要缓存在对话记录中，并记录摘要包含的最后一条消息，
+ * 后续只需要在缓存的摘要基础上总结新超出缓冲区的对话；
+ * 缓存的消息不在当前激活分支的早期对话中时（例如重新生成了更早的消息），重新生成摘要。
+ *
+ * @param conversationRecord - 对话记录对象
+ * @param modelInstance - 语言模型实例，用于计算 token 数量
+ * @param enableImageInput - 模型是否支持图片输入，不支持时历史消息只保留文本内容
+ * @returns 包含获取历史记录方法的对象
+ */
+export const createSummaryBufferMemory = (
+  conversationRecord: typeof conversation.$inferSelect,
+  modelInstance: BaseLanguageModel,
+  enableImageInput = false,
+) => {
+  /**
+   * 总结超出缓冲区的早期对话
+   *
+   * @param oldSummary - 之前的摘要
+   * @param messageRecords - 需要总结的消息记录，按创建时间正序排列
+   * @returns 新的摘要内容
+   */
+  const summarize = async (
+    oldSummary: string,
+    messageRecords: Parameters<typeof toPromptMessages>[0],
+  ) => {
+    const prompt = ChatPromptTemplate.fromTemplate(HISTORY_SUMMARIZER_TEMPLATE);
+    const llm = createDefaultChatModel({ temperature: 0.5 });
+    const summaryChain = prompt.pipe(llm).pipe(new StringOutputParser());
+
+    return await summaryChain.invoke({
+      summary: oldSummary,
+      newLines: getBufferString(toPromptMessages(messageRecords, false)),
+    });
+  };
+
+  /**
+   * 获取历史对话消息列表和早期对话摘要
+   *
+   * @param maxTokenLimit - 最大 token 限制
+   * @param maxMessageLimit - 原样保留的最大消息数量
+   * @returns 原样保留的历史消息与早期对话摘要，没有超出缓冲区的对话时摘要为空字符串
+   */
+  const getHistory = async (maxTokenLimit: number, maxMessageLimit: number) => {
+    const messageRecords = (
+      await getBranchMessageRecords(
+        conversationRecord.id,
+        Math.max(maxMessageLimit, MAX_SUMMARY_BUFFER_MESSAGE_LIMIT),
+      )
+    ).reverse();
+
+    // 在消息数量限制内按 token 限制裁剪出原样保留的最近对话
+    const messages = await trimHistoryMessages(
+      toPromptMessages(
+        messageRecords.slice(
+          Math.max(messageRecords.length - maxMessageLimit, 0),
+        ),
+        enableImageInput,
+      ),
+      maxTokenLimit,
+      modelInstance,
+    );
+    const bufferSize = messages.length / 2;
+    const overflowRecords = messageRecords.slice(
+      0,
+      messageRecords.length - bufferSize,
+    );
+    if (overflowRecords.length === 0) {
+      return { messages, summary: '' };
+    }
+
+    // 缓存的摘要仍然属于当前分支时，只总结新超出缓冲区的对话
+    const summarizedIndex = overflowRecords.findIndex(
+      (record) => record.id === conversationRecord.historySummaryMessageId,
+    );
+    const oldSummary =
+      summarizedIndex === -1 ? '' : conversationRecord.historySummary;
+    const newRecords = overflowRecords.slice(summarizedIndex + 1);
+    if (newRecords.length === 0) {
+      return { messages, summary: oldSummary };
+    }
+
+    const summary = await summarize(oldSummary, newRecords);
+    const historySummaryMessageId = newRecords[newRecords.length - 1].id;
+    log.info(
+      'Update conversation history summary, conversationId={%s}, historySummaryMessageId={%s}',
+      conversationRecord.id,
+      historySummaryMessageId,
+    );
+    await db
+      .update(conversation)
+      .set({ historySummary: summary, historySummaryMessageId })
+      .where(eq(conversation.id, conversationRecord.id));
+
+    return { messages, summary };
+  };
+
+  return {
+    getHistory,
+  };
+};
@@ -0,0 +1,36 @@
+import { normalizeModelParameters } from '../llm';
+import type { LanguageModel } from '../llm/entity';
+
+/**
+ * 自动计算 token 预算时，历史对话可以占用的可用上下文比例
+ * 剩余部分留给系统提示词、工具定义、知识库检索结果和当前提问
+ */
+const HISTORY_TOKEN_RATIO = 0.5;
+
+/**
+ * 计算历史对话的 token 预算
+ *
+ * 模型的可用上下文 = 上下文窗口 - 最大输出 token 数（未配置时使用模型参数的默认值）。
+ * 配置了最大 token 数时使用配置值，但不能超过可用上下文；
+ * 未配置（为 0）时使用可用上下文的一半。
+ *
+ * @param model - 语言模型定义
+ * @param parameters - 应用配置的模型参数
+ * @param maxTokenLimit - 应用配置的历史对话最大 token 数，为 0 时自动计算
+ * @returns 历史对话的 token 预算
+ */
+export const calculateHistoryTokenLimit = (
+  model: LanguageModel,
+  parameters: Partial<Record<string, number>> = {},
+  maxTokenLimit = 0,
+) => {
+  const maxTokens =
+    normalizeModelParameters(model, parameters).maxTokens ??
+    model.maxOutputTokens;
+  const availableTokens = Math.max(model.contextWindow - maxTokens, 0);
+
+  if (maxTokenLimit > 0) {
+    return Math.min(maxTokenLimit, availableTokens);
+  }
+  return Math.floor(availableTokens * HISTORY_TOKEN_RATIO);
+};
@@ -2,80 +2,181 @@ import { type conversation, message } from '@/lib/db/schema';
 import type { BaseLanguageModel } from '@langchain/core/language_models/base';
 import {
   AIMessage,
-  HumanMessage,
+  type BaseMessage,
   getBufferString,
   trimMessages,
 } from '@langchain/core/messages';
 import { and, desc, eq, inArray, ne } from 'drizzle-orm';
 import { db } from '../db';
 import { MessageStatus } from '../entity';
+import { createHumanMessage } from '../llm';
+
+/**
+ * 获取对话当前激活分支上的消息ID列表
+ *
+ * 消息通过 parentId 组成消息树，重新生成或编辑后重新发送的消息与原消息拥有相同的父消息。
+ * 最新创建的消息所在的分支为激活分支，从最新消息沿 parentId 向上回溯得到分支上的全部消息。
+ *
+ * @param conversationId - 对话ID
+ * @returns 激活分支上的消息ID列表，从最新消息到根消息排列
+ */
+export const getActiveBranchMessageIds = async (conversationId: string) => {
+  const messageRecords = await db
+    .select({ id: message.id, parentId: message.parentId })
+    .from(message)
+    .where(eq(message.conversationId, conversationId))
+    .orderBy(desc(message.createdAt));
+  if (messageRecords.length === 0) {
+    return [];
+  }
+
+  const parentIdMap = new Map(
+    messageRecords.map((record) => [record.id, record.parentId]),
+  );
+  const branchMessageIds = new Set<string>();
+  let currentId: string | null | undefined = messageRecords[0].id;
+  // 已经访问过的消息不再回溯，避免异常数据导致死循环
+  while (currentId && !branchMessageIds.has(currentId)) {
+    branchMessageIds.add(currentId);
+    currentId = parentIdMap.get(currentId);
+  }
+
+  return Array.from(branchMessageIds);
+};
+
+/**
+ * 查询对话激活分支上的有效历史消息记录
+ *
+ * 只返回有效的消息（非空答案、未删除、状态正常），其他分支上被重新生成或编辑的消息不会出现在历史中。
+ *
+ * @param conversationId - 对话ID
+ * @param maxMessageLimit - 最大消息数量限制
+ * @returns 消息记录列表，按创建时间倒序排列
+ */
+export const getBranchMessageRecords = async (
+  conversationId: string,
+  maxMessageLimit: number,
+) => {
+  const branchMessageIds = await getActiveBranchMessageIds(conversationId);
+  if (branchMessageIds.length === 0) {
+    return [];
+  }
+
+  // 从数据库查询消息记录
+  // 条件：属于指定对话的激活分支、答案非空、未删除、状态为正常/停止/超时
+  return await db
+    .select()
+    .from(message)
+    .where(
+      and(
+        eq(message.conversationId, conversationId),
+        inArray(message.id, branchMessageIds),
+        ne(message.answer, ''), // 排除空答案的消息
+        eq(message.isDeleted, false), // 排除已删除的消息
+        inArray(message.status, [
+          MessageStatus.NORMAL,
+          MessageStatus.STOP,
+          MessageStatus.TIMEOUT,
+        ]), // 只包含有效状态的消息
+      ),
+    )
+    .orderBy(desc(message.createdAt)) // 按创建时间倒序排列
+    .limit(maxMessageLimit); // 限制返回的消息数量
+};
+
+/**
+ * 将消息记录转换为 LangChain 消息对象
+ *
+ * 附带图片的消息还原为包含图片内容的多模态消息，应用切换为不支持图片输入的模型后只保留文本内容。
+ *
+ * @param messageRecords - 消息记录列表，按创建时间正序排列
+ * @param enableImageInput - 模型是否支持图片输入
+ * @returns 成对的 HumanMessage 和 AIMessage 列表
+ */
+export const toPromptMessages = (
+  messageRecords: Array<typeof message.$inferSelect>,
+  enableImageInput: boolean,
+) => {
+  const messages = [];
+  for (const messageRecord of messageRecords) {
+    messages.push(
+      createHumanMessage(
+        messageRecord.query,
+        enableImageInput ? (messageRecord.imageUrls as string[]) : [],
+      ),
+    );
+    messages.push(new AIMessage(messageRecord.answer));
+  }
+  return messages;
+};
+
+/**
+ * 按 token 限制裁剪历史消息
+ *
+ * 策略：保留最后的消息，从人类消息开始，以 AI 消息结束
+ *
+ * @param messages - 历史消息列表，按时间正序排列
+ * @param maxTokenLimit - 最大 token 限制
+ * @param modelInstance - 语言模型实例，用于计算 token 数量
+ * @returns 裁剪后的消息列表
+ */
+export const trimHistoryMessages = async (
+  messages: BaseMessage[],
+  maxTokenLimit: number,
+  modelInstance: BaseLanguageModel,
+) => {
+  return await trimMessages(messages, {
+    maxTokens: maxTokenLimit,
+    tokenCounter: modelInstance,
+    strategy: 'last', // 保留最后的消息
+    startOn: 'human', // 从人类消息开始
+    endOn: 'ai', // 以 AI 消息结束
+  });
+};
 
 /**
  * 创建基于 token 缓冲区的记忆管理器
  *
- * 这个函数创建一个记忆管理器，用于从数据库中检索对话历史记录，
+ * 这个函数创建一个记忆管理器，用于从数据库中检索对话激活分支上的历史记录，
  * 并根据 token 限制和消息数量限制来优化历史记录的大小。
  *
  * @param conversationRecord - 对话记录对象，包含对话的基本信息
  * @param modelInstance - 语言模型实例，用于计算 token 数量
+ * @param enableImageInput - 模型是否支持图片输入，不支持时历史消息只保留文本内容
  * @returns 包含获取历史记录方法的对象
  */
 export const createTokenBufferMemory = (
   conversationRecord: typeof conversation.$inferSelect,
   modelInstance: BaseLanguageModel,
+  enableImageInput = false,
 ) => {
   /**
    * 获取历史对话消息列表
    *
-   * 从数据库中检索指定对话的历史消息，并根据 token 限制和消息数量限制进行优化。
-   * 只返回有效的消息（非空答案、未删除、状态正常）。
+   * 从数据库中检索指定对话激活分支上的历史消息，并根据 token 限制和消息数量限制进行优化。
+   * 只返回有效的消息（非空答案、未删除、状态正常），其他分支上被重新生成或编辑的消息不会出现在历史中。
    *
-   * @param maxTokenLimit - 最大 token 限制，默认为 200
+   * @param maxTokenLimit - 最大 token 限制，默认为 2000
    * @param maxMessageLimit - 最大消息数量限制，默认为 10
    * @returns 优化后的消息数组，包含 HumanMessage 和 AIMessage
    */
   const getHistoryPromptMessages = async (
-    // TODO: 确认最大 token 限制是 200 还是 2000
-    maxTokenLimit = 200,
+    maxTokenLimit = 2000,
     maxMessageLimit = 10,
   ) => {
-    // 从数据库查询消息记录
-    // 条件：属于指定对话、答案非空、未删除、状态为正常/停止/超时
-    const messageRecords = await db
-      .select()
-      .from(message)
-      .where(
-        and(
-          eq(message.conversationId, conversationRecord.id),
-          ne(message.answer, ''), // 排除空答案的消息
-          eq(message.isDeleted, false), // 排除已删除的消息
-          inArray(message.status, [
-            MessageStatus.NORMAL,
-            MessageStatus.STOP,
-            MessageStatus.TIMEOUT,
-          ]), // 只包含有效状态的消息
-        ),
-      )
-      .orderBy(desc(message.createdAt)) // 按创建时间倒序排列
-      .limit(maxMessageLimit); // 限制返回的消息数量
+    const messageRecords = await getBranchMessageRecords(
+      conversationRecord.id,
+      maxMessageLimit,
+    );
 
-    // 将数据库记录转换为 LangChain 消息对象
-    const messages = [];
-    for (const messageRecord of messageRecords.reverse()) {
-      // 注意：reverse() 是为了按时间正序排列消息
-      messages.push(new HumanMessage(messageRecord.query));
-      messages.push(new AIMessage(messageRecord.answer));
-    }
+    // 注意：reverse() 是为了按时间正序排列消息
+    const messages = toPromptMessages(
+      messageRecords.reverse(),
+      enableImageInput,
+    );
 
     // 根据 token 限制优化消息列表
-    // 策略：保留最后的消息，从人类消息开始，以 AI 消息结束
-    return await trimMessages(messages, {
-      maxTokens: maxTokenLimit,
-      tokenCounter: modelInstance,
-      strategy: 'last', // 保留最后的消息
-      startOn: 'human', // 从人类消息开始
-      endOn: 'ai', // 以 AI 消息结束
-    });
+    return await trimHistoryMessages(messages, maxTokenLimit, modelInstance);
   };
 
   /**
@@ -0,0 +1,66 @@
+/**
+ * 聊天队列管理模块
+ *
+ * 该模块负责将智能体运行任务添加到队列中，由 worker 进程执行。
+ * 智能体的运行与 HTTP 请求的生命周期解耦，运行过程中的事件通过 Redis 发布订阅推送给 HTTP 层。
+ *
+ * @module chat-queue
+ */
+
+import { log } from '@/lib/logger';
+import { redisConnection } from '@/lib/redis';
+import { Queue } from 'bullmq';
+import { CHAT_QUEUE_NAME, DEBUG_CHAT_TASK_NAME } from './queue-name';
+
+/**
+ * 聊天队列实例
+ * 用于处理所有智能体运行任务
+ */
+const chatQueue = new Queue(CHAT_QUEUE_NAME, {
+  connection: redisConnection,
+});
+
+/**
+ * 调试对话任务数据
+ */
+export type DebugChatTaskData = {
+  /** 任务ID，同时作为队列任务ID和检查点的线程ID */
+  taskId: string;
+  /** 应用ID */
+  appId: string;
+  /** 用户ID */
+  userId: string;
+  /** 对话ID */
+  conversationId: string;
+  /** 消息ID */
+  messageId: string;
+  /** 用户查询内容 */
+  query: string;
+  /** 用户消息附带的图片URL列表 */
+  imageUrls: string[];
+};
+
+/**
+ * 异步运行调试对话任务
+ *
+ * 使用任务ID作为队列任务ID，避免同一个任务被重复添加。
+ * worker 进程退出导致任务停滞时，BullMQ 会将任务重新交给其他 worker，从检查点恢复运行。
+ *
+ * @param data - 调试对话任务数据
+ * @returns Promise<Job> 返回队列任务对象
+ */
+export const debugChatAsyncTask = async (data: DebugChatTaskData) => {
+  log.info(
+    'Running debug chat, taskId: %s, appId: %s',
+    data.taskId,
+    data.appId,
+  );
+
+  return chatQueue.add(DEBUG_CHAT_TASK_NAME, data, {
+    jobId: data.taskId,
+    // 任务完成后自动从队列中移除
+    removeOnComplete: true,
+    // 任务失败后自动从队列中移除
+    removeOnFail: true,
+  });
+};
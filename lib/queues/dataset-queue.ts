@@ -1,7 +1,7 @@
 /**
  * 数据集队列管理模块
  *
- * 该模块负责处理数据集相关的异步任务，特别是数据集的删除操作。
+ * 该模块负责处理数据集相关的异步任务，包括数据集的删除、片段词项索引的重建和向量元数据的回填。
  * 使用 BullMQ 队列系统来管理任务，确保数据操作的可靠性和异步处理。
  *
  * @module dataset-queue
@@ -10,7 +10,12 @@
 import { log } from '@/lib/logger';
 import { redisConnection } from '@/lib/redis';
 import { Queue } from 'bullmq';
-import { DATASET_QUEUE_NAME, DELETE_DATASET_TASK_NAME } from './queue-name';
+import {
+  DATASET_QUEUE_NAME,
+  DELETE_DATASET_TASK_NAME,
+  REBUILD_SEGMENT_TERMS_TASK_NAME,
+  SYNC_VECTOR_METADATA_TASK_NAME,
+} from './queue-name';
 
 /**
  * 数据集队列实例
@@ -48,3 +53,51 @@ export const deleteDatasetAsyncTask = async (datasetId: string) => {
     },
   );
 };
+
+/**
+ * 异步重建数据集的片段词项索引任务
+ *
+ * 以数据集ID作为任务ID，同一数据集在队列中只有一个重建任务。
+ *
+ * @param datasetId - 要重建词项索引的数据集ID
+ * @returns Promise<Job> 返回队列任务对象
+ */
+export const rebuildSegmentTermsAsyncTask = async (datasetId: string) => {
+  log.info('Rebuilding segment terms, datasetId: %s', datasetId);
+
+  return datasetQueue.add(
+    REBUILD_SEGMENT_TERMS_TASK_NAME,
+    { datasetId },
+    {
+      jobId: `${REBUILD_SEGMENT_TERMS_TASK_NAME}:${datasetId}`,
+      // 任务完成后自动从队列中移除
+      removeOnComplete: true,
+      // 任务失败后自动从队列中移除
+      removeOnFail: true,
+    },
+  );
+};
+
+/**
+ * 异步同步数据集的向量元数据任务
+ *
+ * 以数据集ID作为任务ID，同一数据集在队列中只有一个同步任务。
+ *
+ * @param datasetId - 要同步向量元数据的数据集ID
+ * @returns Promise<Job> 返回队列任务对象
+ */
+export const syncVectorMetadataAsyncTask = async (datasetId: string) => {
+  log.info('Syncing vector metadata, datasetId: %s', datasetId);
+
+  return datasetQueue.add(
+    SYNC_VECTOR_METADATA_TASK_NAME,
+    { datasetId },
+    {
+      jobId: `${SYNC_VECTOR_METADATA_TASK_NAME}:${datasetId}`,
+      // 任务完成后自动从队列中移除
+      removeOnComplete: true,
+      // 任务失败后自动从队列中移除
+      removeOnFail: true,
+    },
+  );
+};
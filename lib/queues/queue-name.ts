@@ -7,3 +7,9 @@ export const DELETE_DOCUMENT_TASK_NAME = 'delete-document';
 // Dataset
 export const DATASET_QUEUE_NAME = 'dataset';
 export const DELETE_DATASET_TASK_NAME = 'delete-dataset';
+export const REBUILD_SEGMENT_TERMS_TASK_NAME = 'rebuild-segment-terms';
+export const SYNC_VECTOR_METADATA_TASK_NAME = 'sync-vector-metadata';
+
+// Chat
+export const CHAT_QUEUE_NAME = 'chat';
+export const DEBUG_CHAT_TASK_NAME = 'debug-chat';
@@ -0,0 +1,64 @@
+/**
+ * 重排序接口提供商
+ * 调用兼容 Cohere / Jina 格式的 /rerank 接口，由交叉编码器模型计算相关性分数
+ * 使用 RERANK_API_URL、RERANK_API_KEY 和 RERANK_MODEL 环境变量进行配置
+ */
+
+import { InternalServerErrorException } from '@/exceptions';
+import { log } from '@/lib/logger';
+import type { RerankProvider } from './entity';
+
+/** 默认使用的重排序模型 */
+const DEFAULT_RERANK_MODEL = 'rerank-multilingual-v3.0';
+
+/**
+ * 获取重排序接口地址
+ */
+const getBaseUrl = () => {
+  return (process.env.RERANK_API_URL || 'https://api.cohere.com/v2').replace(
+    /\/$/,
+    '',
+  );
+};
+
+/**
+ * 重排序接口提供商
+ */
+export const apiRerankProvider: RerankProvider = {
+  name: 'api',
+  label: '重排序接口',
+  rerank: async (query, documents, topN) => {
+    const response = await fetch(`${getBaseUrl()}/rerank`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${process.env.RERANK_API_KEY ?? ''}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: process.env.RERANK_MODEL || DEFAULT_RERANK_MODEL,
+        query,
+        documents,
+        top_n: topN,
+      }),
+    });
+
+    if (!response.ok) {
+      log.error(
+        'Rerank request failed, status={%s}, body={%s}',
+        response.status,
+        await response.text(),
+      );
+      throw new InternalServerErrorException('重排序服务调用失败');
+    }
+
+    const { results } = (await response.json()) as {
+      results: Array<{ index: number; relevance_score: number }>;
+    };
+    return results
+      .map((result) => ({
+        index: result.index,
+        score: result.relevance_score,
+      }))
+      .sort((a, b) => b.score - a.score);
+  },
+};
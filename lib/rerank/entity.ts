@@ -0,0 +1,32 @@
+/**
+ * 重排序实体定义
+ *
+ * 该模块定义了重排序提供商注册表使用的类型。
+ * 重排序在检索得到候选文档之后执行，按文档与查询的相关性重新打分和排序。
+ */
+
+/**
+ * 单个文档的重排序结果
+ * @property index - 文档在候选文档列表中的下标
+ * @property score - 文档与查询的相关性分数，范围 0-1，分数越大越相关
+ */
+export type RerankResult = {
+  index: number;
+  score: number;
+};
+
+/**
+ * 重排序提供商定义
+ * @property name - 提供商的唯一标识符，通过 RERANK_PROVIDER 环境变量选择
+ * @property label - 提供商的显示名称
+ * @property rerank - 计算候选文档与查询的相关性，返回按分数从高到低排列的前 topN 个结果
+ */
+export type RerankProvider = {
+  name: string;
+  label: string;
+  rerank: (
+    query: string,
+    documents: string[],
+    topN: number,
+  ) => Promise<RerankResult[]>;
+};
@@ -0,0 +1,87 @@
+/**
+ * 重排序模块主文件
+ *
+ * 该模块维护系统中所有重排序提供商的注册表，并提供对检索得到的候选文档重新排序的能力。
+ *
+ * 当前支持的提供商：
+ * - 重排序接口（兼容 Cohere / Jina 格式的交叉编码器接口）
+ * - 本地（基于词法匹配，用于本地开发与测试）
+ *
+ * 使用的提供商可以通过 RERANK_PROVIDER 环境变量进行配置，默认为本地。
+ */
+
+import { InternalServerErrorException } from '@/exceptions';
+import { log } from '@/lib/logger';
+import type { DocumentInterface } from '@langchain/core/documents';
+import { apiRerankProvider } from './api-provider';
+import type { RerankProvider } from './entity';
+import { localRerankProvider } from './local-provider';
+
+export * from './entity';
+
+/**
+ * 系统内置的重排序提供商列表
+ */
+export const rerankProviders: RerankProvider[] = [
+  localRerankProvider,
+  apiRerankProvider,
+];
+
+/**
+ * 获取当前配置的重排序提供商
+ * @returns 重排序提供商
+ * @throws {InternalServerErrorException} 当配置的提供商不存在时抛出
+ */
+export const getRerankProvider = () => {
+  const providerName = process.env.RERANK_PROVIDER || 'local';
+  const provider = rerankProviders.find(
+    (provider) => provider.name === providerName,
+  );
+  if (!provider) {
+    log.error('Rerank provider not found, provider={%s}', providerName);
+    throw new InternalServerErrorException('重排序提供商不存在');
+  }
+  return provider;
+};
+
+/**
+ * 对候选文档重新排序
+ *
+ * 文档的 metadata.score 会被替换为重排序分数，低于分数阈值的文档会被过滤，
+ * 最多返回 topN 个文档，按重排序分数从高到低排列。
+ *
+ * @param query - 搜索查询字符串
+ * @param docs - 检索得到的候选文档
+ * @param topN - 返回的最大文档数量
+ * @param score - 重排序分数阈值 (0-1之间)
+ * @param provider - 重排序提供商，默认为当前配置的提供商
+ * @returns 重新排序后的文档列表
+ */
+export const rerankDocuments = async (
+  query: string,
+  docs: DocumentInterface[],
+  topN: number,
+  score: number,
+  provider: RerankProvider = getRerankProvider(),
+): Promise<DocumentInterface[]> => {
+  if (docs.length === 0) {
+    return docs;
+  }
+
+  const results = await provider.rerank(
+    query,
+    docs.map((doc) => doc.pageContent),
+    topN,
+  );
+
+  return results
+    .filter((result) => result.score >= score)
+    .slice(0, topN)
+    .map((result) => {
+      const doc = docs[result.index];
+      return {
+        ...doc,
+        metadata: { ...doc.metadata, score: result.score },
+      };
+    });
+};
@@ -0,0 +1,82 @@
+/**
+ * 本地重排序提供商
+ *
+ * 不依赖外部重排序服务的词法重排序实现，用于本地开发与测试：
+ * 将查询和文档切分为词元（英文单词、数字以及中文的单字与相邻双字），
+ * 文档的分数为查询词元在文档中出现的比例，双字词元的权重高于单字词元。
+ */
+
+import type { RerankProvider } from './entity';
+
+/** 中日韩文字的匹配规则 */
+const CJK_PATTERN = /[぀-ヿ㐀-鿿豈-﫿]/;
+
+/** 词元切分规则：连续的英文字母和数字，或单个中日韩文字 */
+const TOKEN_PATTERN = /[a-z0-9]+|[぀-ヿ㐀-鿿豈-﫿]/g;
+
+/**
+ * 将文本切分为带权重的词元
+ *
+ * 英文单词与数字的权重为 2，中文单字的权重为 1，相邻中文双字的权重为 2。
+ *
+ * @param text - 文本内容
+ * @returns 词元到权重的映射
+ */
+export const tokenize = (text: string) => {
+  const tokens = new Map<string, number>();
+  const matches = text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+
+  matches.forEach((token, index) => {
+    if (!CJK_PATTERN.test(token)) {
+      tokens.set(token, 2);
+      return;
+    }
+    tokens.set(token, 1);
+    const next = matches[index + 1];
+    if (next && CJK_PATTERN.test(next)) {
+      tokens.set(token + next, 2);
+    }
+  });
+
+  return tokens;
+};
+
+/**
+ * 计算文档与查询的词法相关性分数
+ * @param queryTokens - 查询的词元
+ * @param document - 文档内容
+ * @returns 相关性分数，范围 0-1
+ */
+const lexicalScore = (queryTokens: Map<string, number>, document: string) => {
+  const documentTokens = tokenize(document);
+  let totalWeight = 0;
+  let matchedWeight = 0;
+  for (const [token, weight] of queryTokens) {
+    totalWeight += weight;
+    if (documentTokens.has(token)) {
+      matchedWeight += weight;
+    }
+  }
+  return totalWeight === 0 ? 0 : matchedWeight / totalWeight;
+};
+
+/**
+ * 本地重排序提供商
+ */
+export const localRerankProvider: RerankProvider = {
+  name: 'local',
+  label: '本地',
+  rerank: async (query, documents, topN) => {
+    const queryTokens = tokenize(query);
+    return (
+      documents
+        .map((document, index) => ({
+          index,
+          score: lexicalScore(queryTokens, document),
+        }))
+        // 分数相同时保留原有的检索顺序
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .slice(0, topN)
+    );
+  },
+};
@@ -0,0 +1,103 @@
+/**
+ * 标注回复检索模块
+ *
+ * 根据用户提问在应用的标注问题中进行语义相似度搜索，
+ * 命中的标注会累加命中次数，并将标注的回答作为本次提问的回复。
+ */
+
+import { db } from '@/lib/db';
+import { messageAnnotation } from '@/lib/db/schema';
+import { log } from '@/lib/logger';
+import { eq, sql } from 'drizzle-orm';
+import {
+  annotationVectorStore,
+  annotationVectorStoreCollection,
+} from '../vector-store';
+
+/**
+ * 命中的标注回复
+ */
+export type AnnotationReply = {
+  /** 标注ID */
+  id: string;
+  /** 标注的问题 */
+  question: string;
+  /** 标注的回答 */
+  answer: string;
+  /** 提问与标注问题的相似度分数 */
+  score: number;
+};
+
+/**
+ * 标注回复检索函数，根据用户提问返回命中的标注回复，未命中时返回 null
+ */
+export type AnnotationReplyRetriever = (
+  query: string,
+) => Promise<AnnotationReply | null>;
+
+/**
+ * 搜索与提问最相似的标注回复
+ *
+ * 只在指定应用的标注中搜索，相似度分数低于阈值时视为未命中。
+ * 命中时会累加标注的命中次数。
+ *
+ * @param appId - 应用ID
+ * @param query - 用户提问
+ * @param scoreThreshold - 相似度分数阈值 (0-1之间)
+ * @returns 命中的标注回复，未命中时返回 null
+ */
+const searchAnnotationReply = async (
+  appId: string,
+  query: string,
+  scoreThreshold: number,
+): Promise<AnnotationReply | null> => {
+  const collection = annotationVectorStoreCollection();
+  const searchResults = await annotationVectorStore.similaritySearchWithScore(
+    query,
+    1,
+    collection.filter.byProperty('app_id').equal(appId),
+  );
+  if (searchResults.length === 0 || searchResults[0][1] < scoreThreshold) {
+    return null;
+  }
+
+  const [doc, score] = searchResults[0];
+  const annotationRecords = await db
+    .update(messageAnnotation)
+    .set({
+      hitCount: sql`${messageAnnotation.hitCount} + 1`,
+    })
+    .where(eq(messageAnnotation.id, doc.metadata.annotation_id))
+    .returning();
+
+  // 向量存储中残留的已删除标注不视为命中
+  if (annotationRecords.length === 0) {
+    log.warn(
+      'Annotation not found, annotationId={%s}',
+      doc.metadata.annotation_id,
+    );
+    return null;
+  }
+
+  const annotationRecord = annotationRecords[0];
+  return {
+    id: annotationRecord.id,
+    question: annotationRecord.question,
+    answer: annotationRecord.answer,
+    score,
+  };
+};
+
+/**
+ * 创建应用的标注回复检索函数
+ *
+ * 智能体的预设操作节点通过该函数匹配标注回复，智能体本身不依赖向量存储。
+ *
+ * @param appId - 应用ID
+ * @param scoreThreshold - 相似度分数阈值 (0-1之间)
+ * @returns 标注回复检索函数
+ */
+export const createAnnotationReplyRetriever =
+  (appId: string, scoreThreshold: number): AnnotationReplyRetriever =>
+  (query) =>
+    searchAnnotationReply(appId, query, scoreThreshold);
@@ -0,0 +1,114 @@
+/**
+ * BM25 评分模块
+ *
+ * 根据倒排索引中查询词项的命中记录计算文档片段的 BM25 分数，
+ * 并按查询词项的逆文档频率之和归一化到 0-1 之间，便于与语义检索的相似度分数融合。
+ */
+
+/** 词频饱和参数，越大词频对分数的影响越大 */
+const BM25_K1 = 1.2;
+
+/** 文档长度归一化参数，0 表示不考虑文档长度，1 表示完全按长度归一化 */
+const BM25_B = 0.75;
+
+/**
+ * 倒排索引中的一条命中记录
+ */
+export type TermPosting = {
+  /** 文档片段ID */
+  segmentId: string;
+  /** 词项 */
+  term: string;
+  /** 词项在文档片段中出现的次数 */
+  frequency: number;
+  /** 文档片段的词项总数 */
+  termCount: number;
+};
+
+/**
+ * 语料统计信息
+ */
+export type CorpusStats = {
+  /** 已建立索引的文档片段数量 */
+  segmentCount: number;
+  /** 文档片段的平均词项数量 */
+  avgTermCount: number;
+  /** 查询词项在整个索引中的文档频率，命中记录经过过滤时需要提供，未提供时按命中记录统计 */
+  documentFrequencies?: Map<string, number>;
+};
+
+/**
+ * 计算逆文档频率，使用 BM25 的平滑形式保证结果非负
+ * @param segmentCount - 文档片段总数
+ * @param documentFrequency - 包含词项的文档片段数量
+ */
+const idf = (segmentCount: number, documentFrequency: number) =>
+  Math.log(
+    1 + (segmentCount - documentFrequency + 0.5) / (documentFrequency + 0.5),
+  );
+
+/**
+ * 计算文档片段的 BM25 分数
+ *
+ * 只有在语料中出现过的查询词项参与归一化，文档片段以平均长度、每个查询词项出现一次时分数约为 1，
+ * 只命中部分查询词项时按命中词项的逆文档频率占比得到较低的分数。
+ *
+ * @param postings - 查询词项的命中记录
+ * @param queryTerms - 去重后的查询词项
+ * @param stats - 语料统计信息
+ * @returns 文档片段ID到归一化分数的映射
+ */
+export const scoreBm25 = (
+  postings: TermPosting[],
+  queryTerms: string[],
+  stats: CorpusStats,
+) => {
+  const queryTermSet = new Set(queryTerms);
+  const documentFrequencies = new Map<string, number>();
+  if (stats.documentFrequencies) {
+    for (const [term, documentFrequency] of stats.documentFrequencies) {
+      if (queryTermSet.has(term) && documentFrequency > 0) {
+        documentFrequencies.set(term, documentFrequency);
+      }
+    }
+  } else {
+    for (const posting of postings) {
+      if (queryTermSet.has(posting.term)) {
+        documentFrequencies.set(
+          posting.term,
+          (documentFrequencies.get(posting.term) ?? 0) + 1,
+        );
+      }
+    }
+  }
+
+  const termIdfs = new Map<string, number>();
+  let maxScore = 0;
+  for (const [term, documentFrequency] of documentFrequencies) {
+    const termIdf = idf(
+      Math.max(stats.segmentCount, documentFrequency),
+      documentFrequency,
+    );
+    termIdfs.set(term, termIdf);
+    maxScore += termIdf;
+  }
+
+  const avgTermCount = stats.avgTermCount > 0 ? stats.avgTermCount : 1;
+  const scores = new Map<string, number>();
+  for (const posting of postings) {
+    const termIdf = termIdfs.get(posting.term);
+    if (termIdf === undefined) {
+      continue;
+    }
+    const lengthNorm = 1 - BM25_B + (BM25_B * posting.termCount) / avgTermCount;
+    const score =
+      (termIdf * posting.frequency * (BM25_K1 + 1)) /
+      (posting.frequency + BM25_K1 * lengthNorm);
+    scores.set(posting.segmentId, (scores.get(posting.segmentId) ?? 0) + score);
+  }
+
+  for (const [segmentId, score] of scores) {
+    scores.set(segmentId, maxScore > 0 ? Math.min(score / maxScore, 1) : 0);
+  }
+  return scores;
+};
@@ -0,0 +1,106 @@
+/**
+ * 引用来源模块
+ *
+ * 为数据集检索召回的片段生成引用来源：
+ * - 引用编号由片段ID生成，同一片段在多次检索、多轮对话中的引用编号保持不变
+ * - 检索内容按片段标注引用编号，模型在回答中以 [^引用编号] 的格式标注引用来源
+ * - 同一条消息中多次检索的引用来源按片段去重，前端根据引用编号展示可点击的来源
+ */
+
+import type { Citation } from '@/lib/entity';
+import type { DocumentInterface } from '@langchain/core/documents';
+
+/**
+ * 引用编号的长度
+ */
+const CITATION_ID_LENGTH = 8;
+
+/**
+ * 引用来源中片段内容摘要的最大长度
+ */
+const CITATION_SNIPPET_LENGTH = 200;
+
+/**
+ * 根据片段ID生成引用编号
+ *
+ * @param segmentId - 片段ID
+ * @returns 引用编号
+ */
+export const toCitationId = (segmentId: string) =>
+  segmentId.replaceAll('-', '').slice(0, CITATION_ID_LENGTH);
+
+/**
+ * 截取片段内容摘要，超出长度时以省略号结尾
+ *
+ * @param content - 片段内容
+ * @returns 片段内容摘要
+ */
+const toSnippet = (content: string) => {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > CITATION_SNIPPET_LENGTH
+    ? `${text.slice(0, CITATION_SNIPPET_LENGTH)}...`
+    : text;
+};
+
+/**
+ * 根据检索到的文档创建引用来源
+ *
+ * @param doc - 检索到的文档，元数据中包含片段、文档和知识库ID以及检索得分
+ * @param segmentInfo - 片段所属的文档名称与片段在文档中的位置
+ * @returns 引用来源
+ */
+export const createCitation = (
+  doc: DocumentInterface,
+  segmentInfo: { documentName: string; position: number },
+): Citation => ({
+  id: toCitationId(doc.metadata.segment_id),
+  datasetId: doc.metadata.dataset_id,
+  documentId: doc.metadata.document_id,
+  documentName: segmentInfo.documentName,
+  segmentId: doc.metadata.segment_id,
+  position: segmentInfo.position,
+  snippet: toSnippet(doc.pageContent),
+  score: doc.metadata.score ?? 0,
+});
+
+/**
+ * 将检索到的文档格式化为带引用编号的检索内容
+ *
+ * @param docs - 检索到的文档
+ * @param citations - 与文档一一对应的引用来源
+ * @returns 交给模型推理的检索内容
+ */
+export const formatCitationContent = (
+  docs: DocumentInterface[],
+  citations: Citation[],
+) =>
+  docs
+    .map(
+      (doc, index) =>
+        `<片段 引用编号="[^${citations[index].id}]" 来源文档="${citations[index].documentName}">\n${doc.pageContent}\n</片段>`,
+    )
+    .join('\n\n');
+
+/**
+ * 合并多次检索的引用来源
+ *
+ * 按片段去重，保留首次出现的顺序与最高的检索得分
+ *
+ * @param citations - 引用来源列表
+ * @returns 去重后的引用来源列表
+ */
+export const mergeCitations = (citations: Citation[]) => {
+  const citationMap = new Map<string, Citation>();
+  for (const citation of citations) {
+    const existing = citationMap.get(citation.segmentId);
+    if (!existing) {
+      citationMap.set(citation.segmentId, citation);
+    } else if (citation.score > existing.score) {
+      citationMap.set(citation.segmentId, {
+        ...existing,
+        score: citation.score,
+      });
+    }
+  }
+  return Array.from(citationMap.values());
+};
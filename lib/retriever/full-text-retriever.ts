@@ -1,20 +1,26 @@
 import { db } from '@/lib/db';
-import { keywordTable, segment } from '@/lib/db/schema';
-import { extractKeywords } from '@/lib/keyword';
+import { document, segment, segmentTerm } from '@/lib/db/schema';
+import type { MetadataFilter } from '@/lib/entity';
+import { tokenizeForSearch } from '@/lib/keyword';
 import { log } from '@/lib/logger';
 import { Document } from '@langchain/core/documents';
 import {
   BaseRetriever,
   type BaseRetrieverInput,
 } from '@langchain/core/retrievers';
-import { inArray } from 'drizzle-orm';
-import { countBy } from 'es-toolkit/array';
+import { and, avg, count, eq, gt, inArray } from 'drizzle-orm';
+import { scoreBm25 } from './bm25';
+import { toSqlDatasetFilter, toSqlFilter } from './metadata-filter';
 
 /**
  * 全文检索器类
  *
- * 基于关键词匹配的全文检索实现，通过提取查询关键词并与文档片段的关键词进行匹配，
- * 返回最相关的文档片段。使用关键词出现频率作为相关性评分依据。
+ * 基于倒排索引的全文检索实现，对查询分词后在片段词项表中查找命中的文档片段，
+ * 使用 BM25 算法计算相关性评分，并归一化到 0-1 之间，
+ * 便于在混合检索中与语义检索的相似度分数进行融合。
+ * 查询只需要命中部分词项即可召回，命中的词项越多、越稀有，分数越高。
+ * 配置元数据过滤表达式时，只召回所属文档的元数据满足过滤表达式的片段，
+ * 数据集配置的过滤表达式只作用于该数据集的片段。
  *
  * @example
  * ```typescript
@@ -32,70 +38,127 @@ export class FullTextRetriever extends BaseRetriever {
   /** 返回的最大文档数量 */
   k: number;
 
+  /** 元数据过滤表达式，为 null 时不过滤 */
+  filter: MetadataFilter | null;
+
+  /** 数据集ID到该数据集元数据过滤表达式的映射，只作用于对应数据集的片段 */
+  datasetFilters: Record<string, MetadataFilter | null>;
+
   /**
    * 创建全文检索器实例
    *
    * @param datasetIds - 要检索的数据集ID数组
    * @param k - 返回的最大文档数量
+   * @param filter - 元数据过滤表达式
+   * @param datasetFilters - 各数据集的元数据过滤表达式
    * @param fields - 可选的 BaseRetriever 配置字段
    */
-  constructor(datasetIds: string[], k: number, fields?: BaseRetrieverInput) {
+  constructor(
+    datasetIds: string[],
+    k: number,
+    filter: MetadataFilter | null = null,
+    datasetFilters: Record<string, MetadataFilter | null> = {},
+    fields?: BaseRetrieverInput,
+  ) {
     super(fields);
     this.datasetIds = datasetIds;
     this.k = k;
+    this.filter = filter;
+    this.datasetFilters = datasetFilters;
   }
 
   /**
    * 获取与查询相关的文档
    *
    * 实现步骤：
-   * 1. 提取查询中的关键词
-   * 2. 从数据库中获取指定数据集的关键词记录
-   * 3. 匹配查询关键词与文档关键词
-   * 4. 统计每个文档片段的相关性得分
+   * 1. 对查询分词得到查询词项
+   * 2. 统计数据集中已建立索引的片段数量、平均长度和查询词项的文档频率
+   * 3. 从片段词项表中获取查询词项的命中记录，并按所属文档的元数据过滤
+   * 4. 使用 BM25 计算每个文档片段的相关性得分
    * 5. 按得分排序并返回前k个最相关的文档
    *
    * @param query - 用户查询字符串
    * @returns 包含相关文档的 Promise
    */
   async _getRelevantDocuments(query: string) {
-    // 提取查询中的关键词
-    const queryKeywords = extractKeywords(query);
+    // 对查询分词并去重
+    const queryTerms = Array.from(new Set(tokenizeForSearch(query)));
+    if (queryTerms.length === 0 || this.datasetIds.length === 0) {
+      return [];
+    }
 
-    // 从数据库中获取指定数据集的所有关键词记录
-    const keywordRecords = await db
+    // 统计已建立索引（词项数量大于0）的片段数量和平均长度，并获取查询词项的命中记录
+    const statsQuery = db
       .select({
-        keywords: keywordTable.keywords,
+        segmentCount: count(),
+        avgTermCount: avg(segment.termCount),
       })
-      .from(keywordTable)
-      .where(inArray(keywordTable.datasetId, this.datasetIds));
-
-    // 将所有关键词记录转换为数组格式
-    const allKeywords = keywordRecords.map(
-      (record) => record.keywords,
-    ) as Array<Record<string, string[]>>;
-
-    // 收集所有匹配查询关键词的文档片段ID
-    let allSegmentIds: string[] = [];
-    for (const keywords of allKeywords) {
-      for (const keyword of Object.keys(keywords)) {
-        // 如果查询关键词包含当前关键词，则收集对应的文档片段ID
-        if (queryKeywords.includes(keyword)) {
-          allSegmentIds = allSegmentIds.concat(keywords[keyword]);
-        }
-      }
-    }
+      .from(segment)
+      .where(
+        and(
+          inArray(segment.datasetId, this.datasetIds),
+          gt(segment.termCount, 0),
+        ),
+      );
+    const postingsQuery = db
+      .select({
+        segmentId: segmentTerm.segmentId,
+        term: segmentTerm.term,
+        frequency: segmentTerm.frequency,
+        termCount: segment.termCount,
+      })
+      .from(segmentTerm)
+      .innerJoin(segment, eq(segment.id, segmentTerm.segmentId))
+      .innerJoin(document, eq(document.id, segment.documentId))
+      .where(
+        and(
+          inArray(segmentTerm.datasetId, this.datasetIds),
+          inArray(segmentTerm.term, queryTerms),
+          toSqlFilter(this.filter),
+          toSqlDatasetFilter(this.datasetIds, this.datasetFilters),
+        ),
+      );
+    // 文档频率按整个数据集的索引统计，不受元数据过滤的影响，与片段数量和平均长度保持一致
+    const documentFrequencyQuery = db
+      .select({
+        term: segmentTerm.term,
+        documentFrequency: count(),
+      })
+      .from(segmentTerm)
+      .where(
+        and(
+          inArray(segmentTerm.datasetId, this.datasetIds),
+          inArray(segmentTerm.term, queryTerms),
+        ),
+      )
+      .groupBy(segmentTerm.term);
+    const [stats, postings, documentFrequencies] = await Promise.all([
+      statsQuery,
+      postingsQuery,
+      documentFrequencyQuery,
+    ]);
 
-    // 使用 countBy 统计每个 segmentId 出现的次数作为相关性得分
-    const idCounter = countBy(allSegmentIds, (id) => id);
+    const scores = scoreBm25(postings, queryTerms, {
+      segmentCount: stats[0]?.segmentCount ?? 0,
+      avgTermCount: Number(stats[0]?.avgTermCount ?? 0),
+      documentFrequencies: new Map(
+        documentFrequencies.map((record) => [
+          record.term,
+          record.documentFrequency,
+        ]),
+      ),
+    });
 
-    // 将计数结果转换为数组，按出现次数降序排序，取前k个
-    const sortedSegmentIds = Object.entries(idCounter)
-      .sort(([, countA], [, countB]) => countB - countA) // 降序排序
-      .slice(0, this.k) // 取前k个
-      .map(([segmentId]) => segmentId); // 提取segmentId
+    // 按得分降序排序，取前k个
+    const sortedSegmentIds = Array.from(scores.entries())
+      .sort(([, scoreA], [, scoreB]) => scoreB - scoreA)
+      .slice(0, this.k)
+      .map(([segmentId]) => segmentId);
 
     log.info('sortedSegmentIds %o', sortedSegmentIds);
+    if (sortedSegmentIds.length === 0) {
+      return [];
+    }
 
     // 根据排序后的ID获取完整的文档片段记录
     const segmentRecords = await db
@@ -130,7 +193,7 @@ export class FullTextRetriever extends BaseRetriever {
             node_id: record.nodeId,
             document_enabled: true,
             segment_enabled: true,
-            score: 0, // 当前实现中分数为0，可根据需要计算实际分数
+            score: scores.get(record.id) ?? 0,
           },
         }),
     );
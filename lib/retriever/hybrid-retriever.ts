@@ -0,0 +1,139 @@
+import { FusionMethod } from '@/lib/entity';
+import type { DocumentInterface } from '@langchain/core/documents';
+import {
+  BaseRetriever,
+  type BaseRetrieverInput,
+} from '@langchain/core/retrievers';
+
+/**
+ * 倒数排名融合的平滑常数，常数越大，排名靠前与靠后的文档分数差距越小
+ */
+const RRF_C = 60;
+
+/**
+ * 融合多个检索器的检索结果
+ *
+ * 同一个文档片段（按 segment_id 识别）在多个检索结果中出现时合并为一个文档：
+ * - WEIGHTED_SCORE: 分数为各检索结果中归一化分数（metadata.score）的加权和
+ * - RRF: 分数为各检索结果中排名倒数的加权和，并除以最大可能分数归一化到 0-1
+ *
+ * 权重会被归一化，权重之和不大于 0 时各检索器权重相等。
+ *
+ * @param resultLists - 各检索器的检索结果，每个结果按相关性从高到低排列
+ * @param weights - 各检索器的权重
+ * @param fusionMethod - 融合方式
+ * @returns 融合后的文档列表，metadata.score 为融合分数，按分数从高到低排列
+ */
+export const fuseDocuments = (
+  resultLists: DocumentInterface[][],
+  weights: number[],
+  fusionMethod: FusionMethod,
+): DocumentInterface[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const normalizedWeights = resultLists.map((_, index) =>
+    totalWeight > 0
+      ? (weights[index] ?? 0) / totalWeight
+      : 1 / resultLists.length,
+  );
+
+  const fusedDocs = new Map<
+    string,
+    { doc: DocumentInterface; score: number }
+  >();
+  resultLists.forEach((docs, listIndex) => {
+    const weight = normalizedWeights[listIndex];
+    docs.forEach((doc, rank) => {
+      const key = doc.metadata.segment_id ?? doc.pageContent;
+      const score =
+        fusionMethod === FusionMethod.RRF
+          ? (weight * (RRF_C + 1)) / (RRF_C + rank + 1)
+          : weight * (doc.metadata.score ?? 0);
+      const fusedDoc = fusedDocs.get(key);
+      if (fusedDoc) {
+        fusedDoc.score += score;
+      } else {
+        fusedDocs.set(key, { doc, score });
+      }
+    });
+  });
+
+  return Array.from(fusedDocs.values())
+    .sort((a, b) => b.score - a.score)
+    .map(({ doc, score }) => ({
+      ...doc,
+      metadata: { ...doc.metadata, score },
+    }));
+};
+
+/**
+ * 混合检索器类
+ *
+ * 并行调用多个检索器（语义检索器与全文检索器），
+ * 按配置的权重和融合方式合并检索结果，返回融合分数最高的前 k 个文档。
+ *
+ * @example
+ * ```typescript
+ * const retriever = new HybridRetriever(
+ *   [semanticRetriever, fullTextRetriever],
+ *   [0.7, 0.3],
+ *   FusionMethod.WEIGHTED_SCORE,
+ *   10,
+ * );
+ * const documents = await retriever.invoke('用户查询');
+ * ```
+ */
+export class HybridRetriever extends BaseRetriever {
+  /** LangChain 命名空间标识 */
+  lc_namespace = ['langchain', 'retrievers'];
+
+  /** 参与融合的检索器列表 */
+  retrievers: BaseRetriever[];
+
+  /** 各检索器的权重 */
+  weights: number[];
+
+  /** 融合方式 */
+  fusionMethod: FusionMethod;
+
+  /** 返回的最大文档数量 */
+  k: number;
+
+  /**
+   * 创建混合检索器实例
+   *
+   * @param retrievers - 参与融合的检索器列表
+   * @param weights - 各检索器的权重
+   * @param fusionMethod - 融合方式
+   * @param k - 返回的最大文档数量
+   * @param fields - 可选的 BaseRetriever 配置字段
+   */
+  constructor(
+    retrievers: BaseRetriever[],
+    weights: number[],
+    fusionMethod: FusionMethod,
+    k: number,
+    fields?: BaseRetrieverInput,
+  ) {
+    super(fields);
+    this.retrievers = retrievers;
+    this.weights = weights;
+    this.fusionMethod = fusionMethod;
+    this.k = k;
+  }
+
+  /**
+   * 获取与查询相关的文档
+   *
+   * @param query - 用户查询字符串
+   * @returns 融合后的前 k 个文档
+   */
+  async _getRelevantDocuments(query: string) {
+    const resultLists = await Promise.all(
+      this.retrievers.map((retriever) => retriever.invoke(query)),
+    );
+    return fuseDocuments(resultLists, this.weights, this.fusionMethod).slice(
+      0,
+      this.k,
+    );
+  }
+}
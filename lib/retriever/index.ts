@@ -4,27 +4,40 @@
  * 该模块提供了多种检索策略来从知识库中搜索相关内容：
  * - 语义检索：基于向量相似度搜索
  * - 全文检索：基于关键词匹配搜索
- * - 混合检索：结合语义和全文检索的结果
+ * - 混合检索：按配置的权重和融合方式（加权分数或倒数排名融合）结合语义和全文检索的结果
+ *
+ * 检索时可以按片段携带的文档元数据过滤召回范围，知识库检索配置中的过滤表达式只作用于该知识库的片段，并与检索请求的过滤表达式同时生效。
+ * 检索结果可以选择经过重排序，由重排序提供商重新计算相关性后只保留前 topN 个文档。
  *
  * 主要功能：
  * 1. 支持多种检索策略配置
  * 2. 自动记录查询历史和命中统计
- * 3. 提供 LangChain 工具接口
+ * 3. 提供 LangChain 工具接口，工具返回带引用编号的检索内容与召回片段的引用来源
  */
 
 import { db } from '@/lib/db';
-import { dataset, datasetQuery, segment } from '@/lib/db/schema';
+import { dataset, datasetQuery, document, segment } from '@/lib/db/schema';
 import {
+  type Citation,
   DATASET_RETRIEVAL_TOOL_NAME,
+  type DatasetRetrievalConfig,
+  type DatasetRetrievalToolResult,
+  FusionMethod,
+  type HybridConfig,
+  type MetadataFilter,
+  type RerankConfig,
   RetrievalSource,
   RetrievalStrategy,
 } from '@/lib/entity';
+import { log } from '@/lib/logger';
+import { rerankDocuments } from '@/lib/rerank';
 import type { DocumentInterface } from '@langchain/core/documents';
 import { tool } from '@langchain/core/tools';
 import { and, eq, inArray, sql } from 'drizzle-orm';
-import { EnsembleRetriever } from 'langchain/retrievers/ensemble';
 import { z } from 'zod';
+import { createCitation, formatCitationContent } from './citation';
 import { FullTextRetriever } from './full-text-retriever';
+import { HybridRetriever } from './hybrid-retriever';
 import { SemanticRetriever } from './semantic-retriever';
 
 /**
@@ -39,6 +52,12 @@ type RetrievalConfig = {
   retrievalSource: RetrievalSource;
   /** 相似度阈值，用于过滤低质量结果 */
   score: number;
+  /** 混合检索配置，未配置时两种检索权重相等并使用倒数排名融合 */
+  hybrid?: HybridConfig;
+  /** 重排序配置，未配置时不进行重排序 */
+  rerank?: RerankConfig;
+  /** 元数据过滤表达式，未配置时不过滤 */
+  filter?: MetadataFilter | null;
 };
 
 /**
@@ -51,6 +70,15 @@ const defaultRetrievalConfig: RetrievalConfig = {
   score: 0,
 };
 
+/**
+ * 默认混合检索配置
+ */
+const defaultHybridConfig: HybridConfig = {
+  semanticWeight: 0.5,
+  keywordWeight: 0.5,
+  fusionMethod: FusionMethod.RRF,
+};
+
 /**
  * 在指定数据集中搜索相关内容
  *
@@ -74,24 +102,40 @@ export const searchInDataset = async (
 
   const availiableDatasetIds = availableDatasets.map((record) => record.id);
 
+  // 各知识库检索配置中的元数据过滤表达式
+  const datasetFilters = Object.fromEntries(
+    availableDatasets.map((record) => [
+      record.id,
+      (record.retrievalConfig as Partial<DatasetRetrievalConfig>).filter ??
+        null,
+    ]),
+  );
+
   // 初始化语义检索器
   const semanticRetriever = new SemanticRetriever(
     availiableDatasetIds,
     retrievalConfig.k,
     retrievalConfig.score,
+    retrievalConfig.filter ?? null,
+    datasetFilters,
   );
 
   // 初始化全文检索器
   const fullTextRetriever = new FullTextRetriever(
     availiableDatasetIds,
     retrievalConfig.k,
+    retrievalConfig.filter ?? null,
+    datasetFilters,
   );
 
-  // 创建混合检索器，结合语义和全文检索结果
-  const hybridRetriever = new EnsembleRetriever({
-    retrievers: [semanticRetriever, fullTextRetriever],
-    weights: [0.5, 0.5], // 两种检索方式权重相等
-  });
+  // 创建混合检索器，按配置的权重和融合方式结合语义和全文检索结果
+  const hybridConfig = retrievalConfig.hybrid ?? defaultHybridConfig;
+  const hybridRetriever = new HybridRetriever(
+    [semanticRetriever, fullTextRetriever],
+    [hybridConfig.semanticWeight, hybridConfig.keywordWeight],
+    hybridConfig.fusionMethod,
+    retrievalConfig.k,
+  );
 
   let langchainDocs: DocumentInterface[] = [];
 
@@ -106,6 +150,17 @@ export const searchInDataset = async (
     langchainDocs = await hybridRetriever.invoke(query);
   }
 
+  // 开启重排序时对候选文档重新打分，重排序失败时降级为原始检索结果
+  if (retrievalConfig.rerank?.enable) {
+    const { topN, score } = retrievalConfig.rerank;
+    try {
+      langchainDocs = await rerankDocuments(query, langchainDocs, topN, score);
+    } catch (error) {
+      log.error('Rerank documents failed, error={%o}', error);
+      langchainDocs = langchainDocs.slice(0, topN);
+    }
+  }
+
   // 提取涉及的数据集ID
   const datasetIdSet = new Set(
     langchainDocs.map((doc) => doc.metadata.dataset_id),
@@ -139,6 +194,40 @@ export const searchInDataset = async (
   return langchainDocs;
 };
 
+/**
+ * 为检索到的文档创建引用来源
+ *
+ * @param docs - 检索到的文档
+ * @returns 与文档一一对应的引用来源
+ */
+const getCitations = async (docs: DocumentInterface[]): Promise<Citation[]> => {
+  const segmentRecords = await db
+    .select({
+      id: segment.id,
+      position: segment.position,
+      documentName: document.name,
+    })
+    .from(segment)
+    .innerJoin(document, eq(segment.documentId, document.id))
+    .where(
+      inArray(
+        segment.id,
+        docs.map((doc) => doc.metadata.segment_id),
+      ),
+    );
+  const segmentMap = new Map(
+    segmentRecords.map((record) => [record.id, record]),
+  );
+
+  return docs.map((doc) => {
+    const segmentRecord = segmentMap.get(doc.metadata.segment_id);
+    return createCitation(doc, {
+      documentName: segmentRecord?.documentName ?? '',
+      position: segmentRecord?.position ?? 0,
+    });
+  });
+};
+
 /**
  * 数据集检索工具的输入参数模式
  */
@@ -151,6 +240,7 @@ const datasetRetrievalToolInputSchema = z.object({
  *
  * 该工具可以在 AI 对话中被调用，用于搜索知识库中的相关内容。
  * 当 AI 认为用户的提问超出其知识范围时，可以调用此工具获取相关信息。
+ * 工具返回带引用编号的检索内容与召回片段的引用来源，智能体只将检索内容交给模型推理。
  *
  * @param datasetIds - 可搜索的数据集ID列表
  * @param userId - 用户ID，用于权限验证
@@ -169,7 +259,11 @@ export const createLangchainToolForDataset = (
   };
 
   return tool(
-    async ({ query }: z.infer<typeof datasetRetrievalToolInputSchema>) => {
+    async ({
+      query,
+    }: z.infer<
+      typeof datasetRetrievalToolInputSchema
+    >): Promise<DatasetRetrievalToolResult> => {
       // 执行数据集搜索
       const langchainDocs = await searchInDataset(
         query,
@@ -180,16 +274,20 @@ export const createLangchainToolForDataset = (
 
       // 如果没有找到相关内容，返回提示信息
       if (langchainDocs.length === 0) {
-        return '知识库内没有检索到对应内容';
+        return { content: '知识库内没有检索到对应内容', citations: [] };
       }
 
-      // 将所有检索到的文档内容合并为一个字符串返回
-      return langchainDocs.map((doc) => doc.pageContent).join('\n\n');
+      // 为每个片段标注引用编号，合并为一个字符串返回
+      const citations = await getCitations(langchainDocs);
+      return {
+        content: formatCitationContent(langchainDocs, citations),
+        citations,
+      };
     },
     {
       name: DATASET_RETRIEVAL_TOOL_NAME,
       description:
-        '如果需要搜索扩展的知识库内容，当你觉得用户的提问超过你的知识范围时，可以尝试调用该工具，输入为搜索query语句，返回数据为检索内容字符串',
+        '如果需要搜索扩展的知识库内容，当你觉得用户的提问超过你的知识范围时，可以尝试调用该工具，输入为搜索query语句，返回数据为检索内容字符串，每个片段都带有引用编号，回答中使用片段内容时需要标注对应的引用编号',
       schema: datasetRetrievalToolInputSchema,
     },
   );
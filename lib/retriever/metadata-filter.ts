@@ -0,0 +1,239 @@
+/**
+ * 元数据过滤模块
+ *
+ * 将元数据过滤表达式转换为不同存储的过滤条件：
+ * - 语义检索：转换为 Weaviate 的过滤条件，作用于片段向量对象上的元数据属性
+ * - 全文检索：转换为 SQL 条件，作用于片段所属文档的 metadata 字段
+ *
+ * 片段在向量数据库中以 meta_ 前缀的属性携带所属文档的元数据，避免与文件解析器写入的元数据冲突。
+ * 知识库检索配置中的过滤表达式按数据集转换，每个数据集的片段只需满足该数据集的过滤表达式。
+ */
+
+import { document } from '@/lib/db/schema';
+import {
+  type DocumentMetadata,
+  type MetadataFilter,
+  type MetadataFilterCondition,
+  MetadataFilterOperator,
+} from '@/lib/entity';
+import { type SQL, and, eq, inArray, or, sql } from 'drizzle-orm';
+import { type FilterValue, Filters } from 'weaviate-client';
+import type { vectorStoreCollection } from '../vector-store';
+
+/**
+ * 向量数据库集合类型
+ */
+type VectorStoreCollection = ReturnType<typeof vectorStoreCollection>;
+
+/**
+ * 将日期字符串转换为向量数据库中存储的时间戳，未设置日期时为 0
+ * @param date - 格式为 YYYY-MM-DD 的日期字符串
+ * @returns 毫秒时间戳
+ */
+const toTimestamp = (date: string) => {
+  const timestamp = Date.parse(date);
+  return Number.isNaN(timestamp) ? 0 : timestamp;
+};
+
+/**
+ * 将过滤条件的值转换为字符串列表
+ */
+const toValues = (value: string | string[]) =>
+  Array.isArray(value) ? value : [value];
+
+/**
+ * 将过滤条件的值转换为单个字符串
+ */
+const toValue = (value: string | string[]) =>
+  Array.isArray(value) ? (value[0] ?? '') : value;
+
+/**
+ * 将文档元数据转换为片段向量对象的属性
+ *
+ * @param metadata - 文档元数据
+ * @returns 向量对象的元数据属性
+ */
+export const toVectorStoreMetadata = (metadata: Partial<DocumentMetadata>) => ({
+  meta_tags: metadata.tags ?? [],
+  meta_source: metadata.source ?? '',
+  meta_department: metadata.department ?? '',
+  meta_date: toTimestamp(metadata.date ?? ''),
+});
+
+/**
+ * 将单个过滤条件转换为 Weaviate 过滤条件
+ */
+const toWeaviateCondition = (
+  collection: VectorStoreCollection,
+  condition: MetadataFilterCondition,
+) => {
+  const property = collection.filter.byProperty(`meta_${condition.field}`);
+  const value = toValue(condition.value);
+  const date = toTimestamp(value);
+
+  switch (condition.operator) {
+    case MetadataFilterOperator.CONTAINS_ANY:
+    case MetadataFilterOperator.IN:
+      return property.containsAny(toValues(condition.value));
+    case MetadataFilterOperator.CONTAINS_ALL:
+      return property.containsAll(toValues(condition.value));
+    case MetadataFilterOperator.NE:
+      return property.notEqual(value);
+    case MetadataFilterOperator.GT:
+      return property.greaterThan(date);
+    case MetadataFilterOperator.GTE:
+      return property.greaterOrEqual(date);
+    case MetadataFilterOperator.LT:
+      // 未设置日期的片段时间戳为 0，不应满足早于条件
+      return Filters.and(property.lessThan(date), property.greaterThan(0));
+    case MetadataFilterOperator.LTE:
+      return Filters.and(property.lessOrEqual(date), property.greaterThan(0));
+    default:
+      return property.equal(condition.field === 'date' ? date : value);
+  }
+};
+
+/**
+ * 将元数据过滤表达式转换为 Weaviate 过滤条件
+ *
+ * @param collection - 向量数据库集合
+ * @param filter - 元数据过滤表达式
+ * @returns Weaviate 过滤条件，没有过滤条件时返回 null
+ */
+export const toWeaviateFilter = (
+  collection: VectorStoreCollection,
+  filter: MetadataFilter | null | undefined,
+): FilterValue | null => {
+  if (!filter || filter.conditions.length === 0) {
+    return null;
+  }
+  const conditions = filter.conditions.map((condition) =>
+    toWeaviateCondition(collection, condition),
+  );
+  return filter.logic === 'or'
+    ? Filters.or(...conditions)
+    : Filters.and(...conditions);
+};
+
+/**
+ * 将各数据集的元数据过滤表达式转换为 Weaviate 过滤条件
+ *
+ * @param collection - 向量数据库集合
+ * @param datasetIds - 检索的数据集ID列表
+ * @param datasetFilters - 数据集ID到该数据集元数据过滤表达式的映射，没有过滤表达式的数据集不过滤
+ * @returns Weaviate 过滤条件，所有数据集都没有过滤条件时返回 null
+ */
+export const toWeaviateDatasetFilter = (
+  collection: VectorStoreCollection,
+  datasetIds: string[],
+  datasetFilters: Record<string, MetadataFilter | null>,
+): FilterValue | null => {
+  const unfilteredDatasetIds: string[] = [];
+  const filters: FilterValue[] = [];
+  for (const datasetId of datasetIds) {
+    const filter = toWeaviateFilter(collection, datasetFilters[datasetId]);
+    if (filter) {
+      filters.push(
+        Filters.and(
+          collection.filter.byProperty('dataset_id').equal(datasetId),
+          filter,
+        ),
+      );
+    } else {
+      unfilteredDatasetIds.push(datasetId);
+    }
+  }
+
+  if (filters.length === 0) {
+    return null;
+  }
+  if (unfilteredDatasetIds.length > 0) {
+    filters.push(
+      collection.filter
+        .byProperty('dataset_id')
+        .containsAny(unfilteredDatasetIds),
+    );
+  }
+  return filters.length === 1 ? filters[0] : Filters.or(...filters);
+};
+
+/**
+ * 将单个过滤条件转换为 SQL 条件
+ */
+const toSqlCondition = (condition: MetadataFilterCondition) => {
+  const field = sql`${document.metadata}->>${condition.field}`;
+  const values = sql.join(
+    toValues(condition.value).map((value) => sql`${value}`),
+    sql`, `,
+  );
+  const value = toValue(condition.value);
+
+  switch (condition.operator) {
+    case MetadataFilterOperator.CONTAINS_ANY:
+      return sql`(${document.metadata}->${condition.field}) ?| array[${values}]::text[]`;
+    case MetadataFilterOperator.CONTAINS_ALL:
+      return sql`(${document.metadata}->${condition.field}) ?& array[${values}]::text[]`;
+    case MetadataFilterOperator.IN:
+      return sql`${field} in (${values})`;
+    case MetadataFilterOperator.NE:
+      return sql`${field} is distinct from ${value}`;
+    // 日期格式固定为 YYYY-MM-DD，可以直接按字符串比较，未设置的日期为空字符串
+    case MetadataFilterOperator.GT:
+      return sql`${field} > ${value}`;
+    case MetadataFilterOperator.GTE:
+      return sql`${field} >= ${value}`;
+    case MetadataFilterOperator.LT:
+      return sql`(${field} < ${value} and ${field} <> '')`;
+    case MetadataFilterOperator.LTE:
+      return sql`(${field} <= ${value} and ${field} <> '')`;
+    default:
+      return sql`${field} = ${value}`;
+  }
+};
+
+/**
+ * 将元数据过滤表达式转换为作用于文档表的 SQL 条件
+ *
+ * @param filter - 元数据过滤表达式
+ * @returns SQL 条件，没有过滤条件时返回 undefined
+ */
+export const toSqlFilter = (
+  filter: MetadataFilter | null | undefined,
+): SQL | undefined => {
+  if (!filter || filter.conditions.length === 0) {
+    return undefined;
+  }
+  const conditions = filter.conditions.map(toSqlCondition);
+  return filter.logic === 'or' ? or(...conditions) : and(...conditions);
+};
+
+/**
+ * 将各数据集的元数据过滤表达式转换为作用于文档表的 SQL 条件
+ *
+ * @param datasetIds - 检索的数据集ID列表
+ * @param datasetFilters - 数据集ID到该数据集元数据过滤表达式的映射，没有过滤表达式的数据集不过滤
+ * @returns SQL 条件，所有数据集都没有过滤条件时返回 undefined
+ */
+export const toSqlDatasetFilter = (
+  datasetIds: string[],
+  datasetFilters: Record<string, MetadataFilter | null>,
+): SQL | undefined => {
+  const unfilteredDatasetIds: string[] = [];
+  const conditions: Array<SQL | undefined> = [];
+  for (const datasetId of datasetIds) {
+    const filter = toSqlFilter(datasetFilters[datasetId]);
+    if (filter) {
+      conditions.push(and(eq(document.datasetId, datasetId), filter));
+    } else {
+      unfilteredDatasetIds.push(datasetId);
+    }
+  }
+
+  if (conditions.length === 0) {
+    return undefined;
+  }
+  if (unfilteredDatasetIds.length > 0) {
+    conditions.push(inArray(document.datasetId, unfilteredDatasetIds));
+  }
+  return or(...conditions);
+};
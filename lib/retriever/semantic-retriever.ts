@@ -1,15 +1,18 @@
+import type { MetadataFilter } from '@/lib/entity';
 import {
   BaseRetriever,
   type BaseRetrieverInput,
 } from '@langchain/core/retrievers';
-import { Filters } from 'weaviate-client';
+import { type FilterValue, Filters } from 'weaviate-client';
 import { vectorStore, vectorStoreCollection } from '../vector-store';
+import { toWeaviateDatasetFilter, toWeaviateFilter } from './metadata-filter';
 
 /**
  * 语义检索器类
  *
  * 基于向量数据库进行语义相似度搜索的检索器实现。
- * 支持多数据集查询，并可以根据相似度分数进行过滤。
+ * 支持多数据集查询，并可以根据相似度分数和片段携带的文档元数据进行过滤，
+ * 每个数据集还可以配置只作用于该数据集片段的元数据过滤表达式。
  *
  * @example
  * ```typescript
@@ -34,24 +37,36 @@ export class SemanticRetriever extends BaseRetriever {
   /** 相似度分数阈值，低于此值的文档将被过滤 */
   scoreThreshold: number;
 
+  /** 元数据过滤表达式，为 null 时不过滤 */
+  filter: MetadataFilter | null;
+
+  /** 数据集ID到该数据集元数据过滤表达式的映射，只作用于对应数据集的片段 */
+  datasetFilters: Record<string, MetadataFilter | null>;
+
   /**
    * 创建语义检索器实例
    *
    * @param datasetIds - 要搜索的数据集ID数组
    * @param k - 返回的最大文档数量
    * @param scoreThreshold - 相似度分数阈值 (0-1之间)
+   * @param filter - 元数据过滤表达式
+   * @param datasetFilters - 各数据集的元数据过滤表达式
    * @param fields - 基础检索器的可选配置字段
    */
   constructor(
     datasetIds: string[],
     k: number,
     scoreThreshold: number,
+    filter: MetadataFilter | null = null,
+    datasetFilters: Record<string, MetadataFilter | null> = {},
     fields?: BaseRetrieverInput,
   ) {
     super(fields);
     this.datasetIds = datasetIds;
     this.k = k;
     this.scoreThreshold = scoreThreshold;
+    this.filter = filter;
+    this.datasetFilters = datasetFilters;
   }
 
   /**
@@ -62,6 +77,7 @@ export class SemanticRetriever extends BaseRetriever {
    * - 文档必须属于指定的数据集
    * - 文档必须已启用
    * - 文档片段必须已启用
+   * - 文档片段携带的元数据必须满足过滤表达式和所属数据集的过滤表达式
    * - 相似度分数必须达到阈值
    *
    * @param query - 查询文本
@@ -72,23 +88,38 @@ export class SemanticRetriever extends BaseRetriever {
     const collection = vectorStoreCollection();
 
     // 执行相似度搜索，应用过滤条件
+    const filters: FilterValue[] = [
+      // 过滤指定数据集
+      collection.filter
+        .byProperty('dataset_id')
+        .containsAny(this.datasetIds),
+      // 过滤已启用的文档
+      collection.filter
+        .byProperty('document_enabled')
+        .equal(true),
+      // 过滤已启用的文档片段
+      collection.filter
+        .byProperty('segment_enabled')
+        .equal(true),
+    ];
+    // 过滤元数据
+    const metadataFilter = toWeaviateFilter(collection, this.filter);
+    if (metadataFilter) {
+      filters.push(metadataFilter);
+    }
+    // 过滤各数据集配置的元数据
+    const datasetFilter = toWeaviateDatasetFilter(
+      collection,
+      this.datasetIds,
+      this.datasetFilters,
+    );
+    if (datasetFilter) {
+      filters.push(datasetFilter);
+    }
     const searchResults = await vectorStore.similaritySearchWithScore(
       query,
       this.k,
-      Filters.and(
-        // 过滤指定数据集
-        collection.filter
-          .byProperty('dataset_id')
-          .containsAny(this.datasetIds),
-        // 过滤已启用的文档
-        collection.filter
-          .byProperty('document_enabled')
-          .equal(true),
-        // 过滤已启用的文档片段
-        collection.filter
-          .byProperty('segment_enabled')
-          .equal(true),
-      ),
+      Filters.and(...filters),
     );
 
     // 根据相似度阈值过滤结果
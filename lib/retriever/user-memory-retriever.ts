@@ -0,0 +1,99 @@
+/**
+ * 用户长期记忆检索模块
+ *
+ * 根据用户提问在用户的长期记忆中进行语义相似度搜索，
+ * 长期记忆按应用和用户（终端用户或调试应用的账号）隔离，可以跨会话召回。
+ */
+
+import { Filters } from 'weaviate-client';
+import {
+  userMemoryVectorStore,
+  userMemoryVectorStoreCollection,
+} from '../vector-store';
+
+/**
+ * 召回记忆的最大数量
+ */
+const USER_MEMORY_RECALL_K = 5;
+
+/**
+ * 召回记忆的最小相似度分数
+ */
+const USER_MEMORY_RECALL_SCORE_THRESHOLD = 0.3;
+
+/**
+ * 召回的用户记忆
+ */
+export type RecalledUserMemory = {
+  /** 记忆ID */
+  id: string;
+  /** 记忆内容 */
+  content: string;
+  /** 提问与记忆内容的相似度分数 */
+  score: number;
+};
+
+/**
+ * 用户长期记忆检索函数，根据用户提问返回相关的记忆，按相似度从高到低排列
+ */
+export type UserMemoryRetriever = (
+  query: string,
+) => Promise<RecalledUserMemory[]>;
+
+/**
+ * 搜索与内容相似的用户记忆
+ *
+ * 只在指定应用下指定用户的记忆中搜索。
+ *
+ * @param appId - 应用ID
+ * @param createdBy - 记忆所属的用户ID（终端用户ID或账号ID）
+ * @param content - 搜索内容
+ * @param k - 返回的最大数量
+ * @param scoreThreshold - 相似度分数阈值 (0-1之间)，低于阈值的记忆不返回
+ * @returns 相似的用户记忆列表
+ */
+export const searchUserMemories = async (
+  appId: string,
+  createdBy: string,
+  content: string,
+  k: number,
+  scoreThreshold: number,
+): Promise<RecalledUserMemory[]> => {
+  const collection = userMemoryVectorStoreCollection();
+  const searchResults = await userMemoryVectorStore.similaritySearchWithScore(
+    content,
+    k,
+    Filters.and(
+      collection.filter.byProperty('app_id').equal(appId),
+      collection.filter.byProperty('created_by').equal(createdBy),
+    ),
+  );
+
+  return searchResults
+    .filter(([, score]) => score >= scoreThreshold)
+    .map(([doc, score]) => ({
+      id: doc.metadata.memory_id,
+      content: doc.pageContent,
+      score,
+    }));
+};
+
+/**
+ * 创建用户的长期记忆检索函数
+ *
+ * 智能体的长期记忆召回节点通过该函数召回与提问相关的记忆，智能体本身不依赖向量存储。
+ *
+ * @param appId - 应用ID
+ * @param createdBy - 记忆所属的用户ID（终端用户ID或账号ID）
+ * @returns 用户长期记忆检索函数
+ */
+export const createUserMemoryRetriever =
+  (appId: string, createdBy: string): UserMemoryRetriever =>
+  (query) =>
+    searchUserMemories(
+      appId,
+      createdBy,
+      query,
+      USER_MEMORY_RECALL_K,
+      USER_MEMORY_RECALL_SCORE_THRESHOLD,
+    );
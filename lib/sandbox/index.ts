@@ -0,0 +1,243 @@
+/**
+ * 代码沙箱模块
+ *
+ * 在独立的 Worker 线程中执行用户编写的 JavaScript 代码，提供以下隔离与限制：
+ * - 代码运行在全新的 vm 上下文中，不暴露 require、process、fetch 等全局对象，无法访问网络和文件系统
+ * - 上下文中不包含任何宿主环境的函数或对象，参数以 JSON 字符串传入，结果以 JSON 字符串传出
+ * - 禁止通过 eval、new Function 和 WebAssembly 动态生成代码
+ * - 通过 Worker 的 resourceLimits 限制内存占用
+ * - 同步代码与 Promise 微任务受 vm 超时限制，超过执行时间后同时终止 Worker 线程
+ *
+ * 代码需要定义 main 函数，main 函数接收输入参数对象，返回值必须可以被 JSON 序列化：
+ *
+ * ```js
+ * function main(params) {
+ *   return { result: params.a + params.b };
+ * }
+ * ```
+ */
+
+import { Worker } from 'node:worker_threads';
+
+/**
+ * 默认的代码执行超时时间（毫秒）
+ */
+export const DEFAULT_SANDBOX_TIMEOUT = 3000;
+
+/**
+ * 默认的代码执行内存上限（MB）
+ */
+export const DEFAULT_SANDBOX_MEMORY_LIMIT = 32;
+
+/**
+ * 单次执行最多保留的日志条数
+ */
+const MAX_LOG_COUNT = 50;
+
+/**
+ * 沙箱执行选项
+ * @property timeout - 代码执行超时时间（毫秒）
+ * @property memoryLimit - 代码执行内存上限（MB）
+ */
+export type SandboxOptions = {
+  timeout?: number;
+  memoryLimit?: number;
+};
+
+/**
+ * 沙箱执行结果
+ * @property result - main 函数的返回值，经过 JSON 序列化处理
+ * @property logs - 代码中通过 console 输出的日志
+ */
+export type SandboxResult = {
+  result: unknown;
+  logs: string[];
+};
+
+/**
+ * Worker 线程中执行的脚本
+ * 以字符串形式内联，避免构建工具对 Worker 文件路径的处理
+ */
+const WORKER_SCRIPT = `
+const { parentPort, workerData } = require('node:worker_threads');
+const vm = require('node:vm');
+
+// 上下文中不能放入宿主环境的函数或对象，否则可以通过其 constructor 拿到宿主的 Function，
+// 参数以 JSON 字符串传入，console 与结果序列化都在上下文内部完成
+const sandbox = Object.create(null);
+sandbox.__params__ = JSON.stringify(workerData.params);
+sandbox.__maxLogCount__ = workerData.maxLogCount;
+const context = vm.createContext(sandbox, {
+  codeGeneration: { strings: false, wasm: false },
+  // 微任务在 runInContext 内部执行完毕，同样受 vm 超时限制，宿主不需要等待上下文中的 Promise
+  microtaskMode: 'afterEvaluate',
+});
+
+const BOOTSTRAP_SCRIPT = \`
+(() => {
+  const logs = [];
+  const maxLogCount = __maxLogCount__;
+  const format = (args) =>
+    args
+      .map((arg) => (typeof arg === 'string' ? arg : JSON.stringify(arg)))
+      .join(' ');
+  const log = (...args) => {
+    if (logs.length < maxLogCount) {
+      logs.push(format(args));
+    }
+  };
+  globalThis.console = { log, info: log, warn: log, error: log, debug: log };
+  globalThis.__logs__ = logs;
+})();
+\`;
+
+const RUN_SCRIPT = \`
+(() => {
+  const logs = __logs__;
+  const params = JSON.parse(__params__);
+  Promise.resolve()
+    .then(() => main(params))
+    .then(
+      (result) => {
+        try {
+          globalThis.__output__ = JSON.stringify({
+            result: result === undefined ? null : result,
+            logs,
+          });
+        } catch (error) {
+          globalThis.__output__ = JSON.stringify({
+            error: '返回值无法序列化: ' + error.message,
+            logs,
+          });
+        }
+      },
+      (error) => {
+        const message =
+          error && typeof error.message === 'string'
+            ? error.message
+            : String(error);
+        globalThis.__output__ = JSON.stringify({ error: message, logs });
+      },
+    );
+})();
+\`;
+
+// 从上下文中读取字符串，结果不是字符串时视为没有结果，宿主不会调用上下文中定义的函数
+const readString = (expression) => {
+  const value = vm.runInContext(
+    '(() => { try { return ' + expression + '; } catch { return ""; } })()',
+    context,
+    { timeout: workerData.timeout },
+  );
+  return typeof value === 'string' ? value : '';
+};
+
+const readLogs = () => {
+  try {
+    const logs = JSON.parse(readString('JSON.stringify(__logs__)') || '[]');
+    return Array.isArray(logs) ? logs.map(String) : [];
+  } catch {
+    return [];
+  }
+};
+
+try {
+  vm.runInContext(BOOTSTRAP_SCRIPT, context);
+  vm.runInContext(workerData.code + '\\n;' + RUN_SCRIPT, context, {
+    timeout: workerData.timeout,
+  });
+  const output = readString('__output__');
+  if (output === '') {
+    parentPort.postMessage({ error: 'main 函数没有返回结果', logs: readLogs() });
+  } else {
+    const { result, error, logs } = JSON.parse(output);
+    parentPort.postMessage(
+      typeof error === 'string'
+        ? { error, logs: readLogs() }
+        : { result: result ?? null, logs: Array.isArray(logs) ? logs : [] },
+    );
+  }
+} catch (error) {
+  // 上下文中抛出的错误对象来自上下文，只读取字符串形式的错误信息
+  let message = '代码执行失败';
+  try {
+    message =
+      error && typeof error.message === 'string' ? error.message : String(error);
+  } catch {}
+  parentPort.postMessage({ error: String(message), logs: readLogs() });
+}
+`;
+
+/**
+ * 在沙箱中执行代码
+ *
+ * @param code - 用户编写的 JavaScript 代码，必须定义 main 函数
+ * @param params - 传递给 main 函数的输入参数
+ * @param options - 沙箱执行选项
+ * @returns main 函数的返回值与执行日志
+ * @throws {Error} 当代码执行失败、超时、超出内存上限或返回值无法序列化时抛出
+ */
+export const runInSandbox = (
+  code: string,
+  params: Record<string, unknown>,
+  options: SandboxOptions = {},
+) => {
+  const timeout = options.timeout ?? DEFAULT_SANDBOX_TIMEOUT;
+  const memoryLimit = options.memoryLimit ?? DEFAULT_SANDBOX_MEMORY_LIMIT;
+
+  return new Promise<SandboxResult>((resolve, reject) => {
+    let settled = false;
+    const worker = new Worker(WORKER_SCRIPT, {
+      eval: true,
+      env: {},
+      workerData: {
+        code,
+        params: structuredClone(params),
+        timeout,
+        maxLogCount: MAX_LOG_COUNT,
+      },
+      resourceLimits: {
+        maxOldGenerationSizeMb: memoryLimit,
+        maxYoungGenerationSizeMb: Math.max(1, Math.floor(memoryLimit / 4)),
+      },
+    });
+
+    /**
+     * 结束执行并终止 Worker 线程，保证结果只返回一次
+     * @param callback - 返回结果或错误的回调
+     */
+    const settle = (callback: () => void) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      worker.terminate();
+      callback();
+    };
+
+    // 异步代码不受 vm 超时限制，超时后直接终止 Worker 线程
+    const timer = setTimeout(() => {
+      settle(() => reject(new Error(`代码执行超时，超过 ${timeout}ms`)));
+    }, timeout);
+
+    worker.on(
+      'message',
+      (message: { result?: unknown; error?: string; logs: string[] }) => {
+        settle(() => {
+          if (message.error !== undefined) {
+            reject(new Error(message.error));
+            return;
+          }
+          resolve({ result: message.result, logs: message.logs });
+        });
+      },
+    );
+    worker.on('error', (error) => {
+      settle(() => reject(new Error(`代码执行失败: ${error.message}`)));
+    });
+    worker.on('exit', (exitCode) => {
+      settle(() => reject(new Error(`代码执行异常退出, code: ${exitCode}`)));
+    });
+  });
+};
@@ -1,6 +1,6 @@
 import type { apiTool, apiToolProvider } from '@/lib/db/schema';
 import type { ApiToolParameter } from '@/lib/entity';
-import { tool } from '@langchain/core/tools';
+import { type ToolRunnableConfig, tool } from '@langchain/core/tools';
 import { z } from 'zod';
 import { log } from '../logger';
 
@@ -41,9 +41,14 @@ export const createApiTool = (
    * 根据传入的参数构建 HTTP 请求并发送到目标 API
    *
    * @param params - 用户提供的参数对象
-   * @returns API 响应的文本内容或错误信息
+   * @param config - 工具调用配置，包含用于中止请求的信号
+   * @returns API 响应的文本内容
+   * @throws {Error} API 响应状态码不是 2xx 时抛出错误，由工具执行策略决定是否重试与熔断
    */
-  const callApi = async (params: Record<string, unknown>) => {
+  const callApi = async (
+    params: Record<string, unknown>,
+    config?: ToolRunnableConfig,
+  ) => {
     // 初始化不同位置的参数容器
     const allParams: Record<string, Record<string, unknown>> = {
       path: {}, // URL 路径参数
@@ -113,12 +118,13 @@ export const createApiTool = (
       method: apiToolRecord.method,
       headers,
       body: JSON.stringify(allParams.body),
+      signal: config?.signal,
     });
 
     // 检查响应状态
     if (!response.ok) {
       log.error(`Failed to call API ${url}: ${response.statusText}`);
-      return 'API 调用失败';
+      throw new Error(`API 调用失败: ${response.status}`);
     }
 
     // 返回响应内容
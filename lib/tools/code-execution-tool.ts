@@ -0,0 +1,150 @@
+/**
+ * 代码执行工具模块
+ *
+ * 该模块提供了一个在沙箱中执行 JavaScript 代码的工具，用于完成大语言模型不擅长的确定性计算，
+ * 例如日期计算、JSON 结构转换、单位换算等。
+ * 代码运行在无网络、无文件系统访问的隔离环境中，并受执行时间和内存上限限制。
+ */
+
+import { log } from '@/lib/logger';
+import { runInSandbox } from '@/lib/sandbox';
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+
+/**
+ * 代码参数描述文本
+ */
+const codeParamDescription =
+  '需要执行的 JavaScript 代码，必须定义 main(params) 函数，params 为输入参数对象，返回值必须可以被 JSON 序列化，代码中无法访问网络和文件系统，可以使用 console.log 输出日志';
+
+/**
+ * 输入参数描述文本
+ */
+const inputParamDescription =
+  '传递给 main 函数的输入参数，格式为 JSON 对象字符串，例如: {"a": 1, "b": 2}，没有参数时传递 {}';
+
+/**
+ * 代码执行工具的定义配置
+ * 包含工具名称、描述、输入参数和配置选项
+ */
+export const codeExecutionToolDefination = {
+  name: 'code_execution',
+  description:
+    '一个在安全沙箱中执行 JavaScript 代码的工具，当你需要进行精确的日期计算、JSON 数据转换、单位换算、数学计算等确定性操作时可以使用该工具',
+  inputs: [
+    {
+      name: 'code',
+      description: codeParamDescription,
+      required: true,
+      type: 'string' as const,
+    },
+    {
+      name: 'input',
+      description: inputParamDescription,
+      required: false,
+      type: 'string' as const,
+    },
+  ],
+  label: '执行 JavaScript 代码',
+  params: [
+    {
+      name: 'timeout',
+      label: '超时时间（秒）',
+      help: '代码执行的最长时间，超过后会被强制终止',
+      required: true,
+      type: 'number' as const,
+      default: 3,
+      min: 1,
+      max: 10,
+    },
+    {
+      name: 'memoryLimit',
+      label: '内存上限（MB）',
+      help: '代码执行时可以使用的最大内存',
+      required: true,
+      type: 'number' as const,
+      default: 32,
+      min: 16,
+      max: 128,
+    },
+  ],
+  createdAt: 1722498386,
+};
+
+/**
+ * 代码执行工具的参数验证模式
+ */
+const codeExecutionToolSchema = z.object({
+  code: z.string().describe(codeParamDescription),
+  input: z.string().optional().describe(inputParamDescription),
+});
+
+/**
+ * 代码执行工具的自定义配置
+ * @property timeout - 超时时间（秒）
+ * @property memoryLimit - 内存上限（MB）
+ */
+type CodeExecutionToolParams = {
+  timeout?: number;
+  memoryLimit?: number;
+};
+
+/**
+ * 解析输入参数
+ * @param input - JSON 对象字符串
+ * @returns 输入参数对象
+ * @throws {Error} 当输入参数不是 JSON 对象时抛出
+ */
+const parseInput = (input?: string) => {
+  if (!input?.trim()) {
+    return {};
+  }
+  const params = JSON.parse(input);
+  if (typeof params !== 'object' || params === null || Array.isArray(params)) {
+    throw new Error('输入参数必须是 JSON 对象');
+  }
+  return params as Record<string, unknown>;
+};
+
+/**
+ * 创建代码执行工具实例
+ *
+ * 工具返回 JSON 字符串，执行成功时包含 success、result 和 logs，
+ * 执行失败时包含 success、error 和 logs。
+ *
+ * @param params - 自定义参数，包括超时时间和内存上限
+ * @returns 返回配置好的代码执行工具
+ */
+export const createCodeExecutionTool = (
+  params: CodeExecutionToolParams = {},
+) => {
+  const timeout =
+    (params.timeout ?? codeExecutionToolDefination.params[0].default) * 1000;
+  const memoryLimit =
+    params.memoryLimit ?? codeExecutionToolDefination.params[1].default;
+
+  return tool(
+    async ({ code, input }: z.infer<typeof codeExecutionToolSchema>) => {
+      log.info('执行代码, timeout: %d, memoryLimit: %d', timeout, memoryLimit);
+      try {
+        const { result, logs } = await runInSandbox(code, parseInput(input), {
+          timeout,
+          memoryLimit,
+        });
+        return JSON.stringify({ success: true, result, logs });
+      } catch (error) {
+        log.error('执行代码失败, error: %o', error);
+        return JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          logs: [],
+        });
+      }
+    },
+    {
+      name: codeExecutionToolDefination.name,
+      description: codeExecutionToolDefination.description,
+      schema: codeExecutionToolSchema,
+    },
+  );
+};
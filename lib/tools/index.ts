@@ -15,6 +15,10 @@
  */
 
 import type { StructuredTool } from '@langchain/core/tools';
+import {
+  codeExecutionToolDefination,
+  createCodeExecutionTool,
+} from './code-execution-tool';
 import {
   createCurrentTimeTool,
   currentTimeToolDefination,
@@ -170,7 +174,7 @@ export type BuiltinToolParam =
  * @property category - 工具所属分类
  * @property createdAt - 工具创建时间戳
  * @property background - 工具背景色
- * @property tools - 工具的具体实现列表
+ * @property tools - 工具的具体实现列表，idempotent 标记工具是否幂等，只有幂等工具失败后允许重试，未标记时视为非幂等
  */
 type BuiltinTool = {
   name: string;
@@ -192,6 +196,7 @@ type BuiltinTool = {
     }[];
     params: BuiltinToolParam[];
     createdAt: number;
+    idempotent?: boolean;
     fn: (params: Record<string, unknown>) => StructuredTool;
   }[];
 };
@@ -204,6 +209,7 @@ type BuiltinTool = {
  * - DALL-E图片生成
  * - 维基百科查询
  * - 时间工具
+ * - 代码执行工具
  * - 高德工具包（天气和IP查询）
  */
 export const builtinTools: BuiltinTool[] = [
@@ -218,6 +224,7 @@ export const builtinTools: BuiltinTool[] = [
     tools: [
       {
         ...duckDuckGoSearchToolDefination,
+        idempotent: true,
         fn: createDuckDuckGoSearchTool,
       },
     ],
@@ -248,6 +255,7 @@ export const builtinTools: BuiltinTool[] = [
     tools: [
       {
         ...wikipediaToolDefination,
+        idempotent: true,
         fn: createWikipediaTool,
       },
     ],
@@ -263,10 +271,28 @@ export const builtinTools: BuiltinTool[] = [
     tools: [
       {
         ...currentTimeToolDefination,
+        idempotent: true,
         fn: createCurrentTimeTool,
       },
     ],
   },
+  {
+    name: 'code',
+    label: '代码执行',
+    description:
+      '在安全沙箱中执行 JavaScript 代码，用于日期计算、JSON 转换、单位换算等确定性操作。',
+    icon: `${host}/icons/code.svg`,
+    category: 'tool',
+    createdAt: 1722498386,
+    background: '#E5E7EB',
+    tools: [
+      {
+        ...codeExecutionToolDefination,
+        idempotent: true,
+        fn: createCodeExecutionTool,
+      },
+    ],
+  },
   {
     name: 'gaode',
     label: '高德工具包',
@@ -278,10 +304,12 @@ export const builtinTools: BuiltinTool[] = [
     tools: [
       {
         ...gaodeIpToolDefination,
+        idempotent: true,
         fn: createGaodeIpTool,
       },
       {
         ...gaodeWeatherToolDefination,
+        idempotent: true,
         fn: createGaodeWeatherTool,
       },
     ],
@@ -11,6 +11,16 @@ import weaviate from 'weaviate-client';
  */
 const COLLECTION_NAME = 'Dataset';
 
+/**
+ * 标注集合名称，应用标注的问题向量存储于此集合中，与知识库数据隔离。
+ */
+const ANNOTATION_COLLECTION_NAME = 'Annotation';
+
+/**
+ * 用户记忆集合名称，应用从对话中提取的用户长期记忆存储于此集合中。
+ */
+const USER_MEMORY_COLLECTION_NAME = 'UserMemory';
+
 /**
  * 初始化 Weaviate 客户端，连接到自定义主机和端口。
  * 主机和端口通过环境变量 WEAVIATE_HOST 和 WEAVIATE_PORT 配置，默认为 localhost:8080。
@@ -42,3 +52,35 @@ export const vectorStoreRetriver = () => vectorStore.asRetriever();
  */
 export const vectorStoreCollection = () =>
   weaviateClient.collections.get(COLLECTION_NAME);
+
+/**
+ * 标注向量存储实例，存储应用标注的问题文本，用于匹配相似提问。
+ */
+export const annotationVectorStore = new WeaviateStore(cacheBackedEmbeddings, {
+  client: weaviateClient,
+  indexName: ANNOTATION_COLLECTION_NAME,
+  textKey: 'text',
+});
+
+/**
+ * 获取标注集合对象，可用于集合级别的操作。
+ * @returns 集合对象
+ */
+export const annotationVectorStoreCollection = () =>
+  weaviateClient.collections.get(ANNOTATION_COLLECTION_NAME);
+
+/**
+ * 用户记忆向量存储实例，存储从对话中提取的用户事实，用于召回与提问相关的长期记忆。
+ */
+export const userMemoryVectorStore = new WeaviateStore(cacheBackedEmbeddings, {
+  client: weaviateClient,
+  indexName: USER_MEMORY_COLLECTION_NAME,
+  textKey: 'text',
+});
+
+/**
+ * 获取用户记忆集合对象，可用于集合级别的操作。
+ * @returns 集合对象
+ */
+export const userMemoryVectorStoreCollection = () =>
+  weaviateClient.collections.get(USER_MEMORY_COLLECTION_NAME);
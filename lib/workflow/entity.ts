@@ -0,0 +1,203 @@
+/**
+ * 工作流实体定义
+ *
+ * 该模块定义了工作流图 DSL 与执行器使用的类型，包括：
+ * - 节点类型、变量类型、变量值类型等枚举
+ * - 节点、连线和工作流图的类型（由 schemas/workflow-schema 中的 zod schema 推导）
+ * - 节点执行结果
+ * - 工作流执行状态
+ */
+
+import type {
+  codeNodeDataSchema,
+  datasetRetrievalNodeDataSchema,
+  endNodeDataSchema,
+  httpRequestNodeDataSchema,
+  ifElseNodeDataSchema,
+  llmNodeDataSchema,
+  startNodeDataSchema,
+  templateTransformNodeDataSchema,
+  toolNodeDataSchema,
+  variableEntitySchema,
+  workflowEdgeSchema,
+  workflowGraphSchema,
+  workflowNodeSchema,
+} from '@/schemas/workflow-schema';
+import { Annotation } from '@langchain/langgraph';
+import type { z } from 'zod';
+
+/**
+ * 工作流节点类型枚举
+ */
+export enum NodeType {
+  /** 开始节点，定义工作流的输入变量 */
+  START = 'start',
+  /** 结束节点，定义工作流的输出变量 */
+  END = 'end',
+  /** 大语言模型节点 */
+  LLM = 'llm',
+  /** 知识库检索节点 */
+  DATASET_RETRIEVAL = 'dataset_retrieval',
+  /** 代码执行节点 */
+  CODE = 'code',
+  /** HTTP 请求节点 */
+  HTTP_REQUEST = 'http_request',
+  /** 模板转换节点 */
+  TEMPLATE_TRANSFORM = 'template_transform',
+  /** 扩展插件节点 */
+  TOOL = 'tool',
+  /** 条件分支节点 */
+  IF_ELSE = 'if_else',
+}
+
+/**
+ * 变量类型枚举
+ */
+export enum VariableType {
+  STRING = 'string',
+  INT = 'int',
+  FLOAT = 'float',
+  BOOLEAN = 'boolean',
+}
+
+/**
+ * 变量值类型枚举
+ * - LITERAL: 直接输入的字面量
+ * - REF: 引用前置节点的输出变量
+ * - GENERATED: 由节点生成的变量，用于节点输出定义
+ */
+export enum VariableValueType {
+  LITERAL = 'literal',
+  REF = 'ref',
+  GENERATED = 'generated',
+}
+
+/**
+ * HTTP 请求节点输入变量的位置
+ */
+export enum HttpRequestInputType {
+  PARAMS = 'params',
+  HEADERS = 'headers',
+  BODY = 'body',
+}
+
+/**
+ * 条件分支节点支持的比较运算符
+ */
+export enum ComparisonOperator {
+  EQUAL = 'eq',
+  NOT_EQUAL = 'ne',
+  CONTAINS = 'contains',
+  NOT_CONTAINS = 'not_contains',
+  GREATER_THAN = 'gt',
+  GREATER_THAN_OR_EQUAL = 'ge',
+  LESS_THAN = 'lt',
+  LESS_THAN_OR_EQUAL = 'le',
+  EMPTY = 'empty',
+  NOT_EMPTY = 'not_empty',
+}
+
+/**
+ * 条件分支节点出口连线的标识
+ */
+export enum IfElseBranch {
+  TRUE = 'true',
+  FALSE = 'false',
+}
+
+/**
+ * 节点执行状态枚举
+ */
+export enum NodeStatus {
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+/**
+ * 各类型节点固定生成的输出变量名称
+ */
+export const NODE_GENERATED_OUTPUTS: Partial<Record<NodeType, string[]>> = {
+  [NodeType.LLM]: ['output'],
+  [NodeType.TEMPLATE_TRANSFORM]: ['output'],
+  [NodeType.DATASET_RETRIEVAL]: ['combine_documents'],
+  [NodeType.HTTP_REQUEST]: ['status_code', 'text'],
+  [NodeType.TOOL]: ['text'],
+  [NodeType.IF_ELSE]: ['result'],
+};
+
+export type VariableEntity = z.infer<typeof variableEntitySchema>;
+export type StartNodeData = z.infer<typeof startNodeDataSchema>;
+export type EndNodeData = z.infer<typeof endNodeDataSchema>;
+export type LLMNodeData = z.infer<typeof llmNodeDataSchema>;
+export type DatasetRetrievalNodeData = z.infer<
+  typeof datasetRetrievalNodeDataSchema
+>;
+export type CodeNodeData = z.infer<typeof codeNodeDataSchema>;
+export type HttpRequestNodeData = z.infer<typeof httpRequestNodeDataSchema>;
+export type TemplateTransformNodeData = z.infer<
+  typeof templateTransformNodeDataSchema
+>;
+export type ToolNodeData = z.infer<typeof toolNodeDataSchema>;
+export type IfElseNodeData = z.infer<typeof ifElseNodeDataSchema>;
+export type WorkflowNode = z.infer<typeof workflowNodeSchema>;
+export type WorkflowEdge = z.infer<typeof workflowEdgeSchema>;
+export type WorkflowGraph = z.infer<typeof workflowGraphSchema>;
+
+/**
+ * 节点执行结果
+ * @property nodeId - 节点ID
+ * @property nodeType - 节点类型
+ * @property title - 节点标题
+ * @property status - 节点执行状态
+ * @property inputs - 节点解析后的输入变量
+ * @property outputs - 节点的输出变量
+ * @property error - 执行失败时的错误信息
+ * @property latency - 节点执行耗时，单位为毫秒
+ */
+export type NodeResult = {
+  nodeId: string;
+  nodeType: NodeType;
+  title: string;
+  status: NodeStatus;
+  inputs: Record<string, unknown>;
+  outputs: Record<string, unknown>;
+  error: string;
+  latency: number;
+};
+
+/**
+ * 工作流执行状态定义
+ * - inputs: 工作流的输入变量
+ * - outputs: 工作流的输出变量，由结束节点写入
+ * - nodeResults: 已执行节点的结果列表，后续节点通过它解析引用变量
+ */
+export const WorkflowState = Annotation.Root({
+  inputs: Annotation<Record<string, unknown>>,
+  outputs: Annotation<Record<string, unknown>>({
+    reducer: (left, right) => ({ ...left, ...right }),
+    default: () => ({}),
+  }),
+  nodeResults: Annotation<NodeResult[]>({
+    reducer: (left, right) => left.concat(right),
+    default: () => [],
+  }),
+});
+
+export type WorkflowStateType = typeof WorkflowState.State;
+
+/**
+ * 节点执行的上下文
+ * @property userId - 工作流所属的账号ID，用于加载账号下的知识库与插件
+ */
+export type NodeContext = {
+  userId: string;
+};
+
+/**
+ * 节点执行函数的返回值
+ */
+export type NodeRunResult = {
+  inputs: Record<string, unknown>;
+  outputs: Record<string, unknown>;
+};
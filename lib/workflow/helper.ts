@@ -0,0 +1,154 @@
+/**
+ * 工作流辅助函数模块
+ *
+ * 提供节点执行过程中通用的功能：
+ * - 将变量值转换为变量定义的类型
+ * - 根据工作流状态解析节点的输入变量（字面量或引用前置节点的输出）
+ * - 渲染 {{变量名}} 形式的模板
+ */
+
+import {
+  type NodeResult,
+  NodeStatus,
+  type VariableEntity,
+  VariableType,
+  VariableValueType,
+  type WorkflowStateType,
+} from './entity';
+
+/**
+ * 将变量值转换为指定的变量类型
+ *
+ * @param value - 原始变量值
+ * @param type - 目标变量类型
+ * @returns 转换后的变量值
+ * @throws {Error} 当变量值无法转换为目标类型时抛出
+ */
+export const convertVariableValue = (value: unknown, type: VariableType) => {
+  switch (type) {
+    case VariableType.STRING:
+      if (typeof value === 'string') {
+        return value;
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    case VariableType.INT: {
+      const intValue = Number(value);
+      if (!Number.isInteger(intValue)) {
+        throw new Error(`变量值 ${String(value)} 不是有效的整数`);
+      }
+      return intValue;
+    }
+    case VariableType.FLOAT: {
+      const floatValue = Number(value);
+      if (Number.isNaN(floatValue)) {
+        throw new Error(`变量值 ${String(value)} 不是有效的数字`);
+      }
+      return floatValue;
+    }
+    case VariableType.BOOLEAN:
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      if (value === 'true' || value === 'false') {
+        return value === 'true';
+      }
+      throw new Error(`变量值 ${String(value)} 不是有效的布尔值`);
+    default:
+      return value;
+  }
+};
+
+/**
+ * 获取节点最近一次执行成功的结果
+ * @param state - 工作流状态
+ * @param nodeId - 节点ID
+ * @returns 节点执行结果，未执行时返回 undefined
+ */
+export const findNodeResult = (
+  state: WorkflowStateType,
+  nodeId: string,
+): NodeResult | undefined => {
+  return state.nodeResults.findLast(
+    (nodeResult) =>
+      nodeResult.nodeId === nodeId &&
+      nodeResult.status === NodeStatus.SUCCEEDED,
+  );
+};
+
+/**
+ * 解析单个变量的值
+ *
+ * - 字面量：直接使用变量内容
+ * - 引用：从前置节点的输出中读取，前置节点未执行或没有该输出时视为空值
+ *
+ * @param variable - 变量定义
+ * @param state - 工作流状态
+ * @returns 转换为变量类型后的变量值，空值返回 undefined
+ * @throws {Error} 当必填变量为空或类型转换失败时抛出
+ */
+export const resolveVariable = (
+  variable: VariableEntity,
+  state: WorkflowStateType,
+) => {
+  let value: unknown;
+  if (variable.value.type === VariableValueType.LITERAL) {
+    value = variable.value.content;
+  } else if (variable.value.type === VariableValueType.REF) {
+    const { refNodeId, refVarName } = variable.value.content;
+    value = findNodeResult(state, refNodeId)?.outputs[refVarName];
+  }
+
+  if (value === undefined || value === null || value === '') {
+    if (variable.required) {
+      throw new Error(`变量 ${variable.name} 不能为空`);
+    }
+    return undefined;
+  }
+
+  return convertVariableValue(value, variable.type);
+};
+
+/**
+ * 解析变量列表，返回变量名称到变量值的映射
+ * @param variables - 变量定义列表
+ * @param state - 工作流状态
+ * @returns 变量名称到变量值的映射，空值的可选变量不会出现在结果中
+ */
+export const resolveVariables = (
+  variables: VariableEntity[],
+  state: WorkflowStateType,
+) => {
+  return variables.reduce(
+    (pre, variable) => {
+      const value = resolveVariable(variable, state);
+      if (value !== undefined) {
+        pre[variable.name] = value;
+      }
+      return pre;
+    },
+    {} as Record<string, unknown>,
+  );
+};
+
+/**
+ * 渲染模板，将 {{变量名}} 替换为对应的变量值，不存在的变量替换为空字符串
+ *
+ * @param template - 模板字符串
+ * @param values - 变量名称到变量值的映射
+ * @returns 渲染后的字符串
+ */
+export const renderTemplate = (
+  template: string,
+  values: Record<string, unknown>,
+) => {
+  return template.replace(
+    /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g,
+    (_, name) => {
+      const value = values[name];
+      if (value === undefined || value === null) {
+        return '';
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    },
+  );
+};
@@ -0,0 +1,259 @@
+/**
+ * 工作流执行器模块
+ *
+ * 将工作流图转换为 LangGraph 状态图并执行：
+ * - 每个工作流节点对应状态图中的一个节点，节点执行结果写入状态中的 nodeResults
+ * - 普通连线转换为状态图的边，多个并行分支汇聚到同一节点时等待所有分支执行完成
+ * - 条件分支节点根据判断结果选择 true 或 false 分支的连线
+ * - 结束节点的输出作为整个工作流的输出
+ *
+ * 执行器不负责校验工作流图，调用前需要先使用 validateWorkflowGraph 校验。
+ */
+
+import { log } from '@/lib/logger';
+import { END, START, StateGraph } from '@langchain/langgraph';
+import {
+  IfElseBranch,
+  type NodeContext,
+  type NodeResult,
+  type NodeRunResult,
+  NodeStatus,
+  NodeType,
+  type WorkflowGraph,
+  type WorkflowNode,
+  WorkflowState,
+  type WorkflowStateType,
+} from './entity';
+import { findNodeResult } from './helper';
+import { runCodeNode } from './nodes/code-node';
+import { runDatasetRetrievalNode } from './nodes/dataset-retrieval-node';
+import { runEndNode } from './nodes/end-node';
+import { runHttpRequestNode } from './nodes/http-request-node';
+import { runIfElseNode } from './nodes/if-else-node';
+import { runLLMNode } from './nodes/llm-node';
+import { runStartNode } from './nodes/start-node';
+import { runTemplateTransformNode } from './nodes/template-transform-node';
+import { runToolNode } from './nodes/tool-node';
+
+export * from './entity';
+export { validateWorkflowGraph } from './validator';
+
+/**
+ * 工作流执行器配置选项
+ */
+type WorkflowOptions = {
+  /** 已校验的工作流图 */
+  graph: WorkflowGraph;
+  /** 工作流所属的账号ID */
+  userId: string;
+  /** 节点开始执行与执行结束时的回调，用于流式输出节点执行过程 */
+  onNodeResult?: (nodeResult: NodeResult) => void;
+};
+
+/**
+ * 根据节点类型执行节点
+ * @param node - 工作流节点
+ * @param state - 工作流状态
+ * @param context - 节点执行上下文
+ * @returns 节点的输入与输出
+ */
+const runNode = (
+  node: WorkflowNode,
+  state: WorkflowStateType,
+  context: NodeContext,
+): Promise<NodeRunResult> => {
+  switch (node.type) {
+    case NodeType.START:
+      return runStartNode(node, state);
+    case NodeType.END:
+      return runEndNode(node, state);
+    case NodeType.LLM:
+      return runLLMNode(node, state);
+    case NodeType.DATASET_RETRIEVAL:
+      return runDatasetRetrievalNode(node, state, context);
+    case NodeType.CODE:
+      return runCodeNode(node, state);
+    case NodeType.HTTP_REQUEST:
+      return runHttpRequestNode(node, state);
+    case NodeType.TEMPLATE_TRANSFORM:
+      return runTemplateTransformNode(node, state);
+    case NodeType.TOOL:
+      return runToolNode(node, state, context);
+    case NodeType.IF_ELSE:
+      return runIfElseNode(node, state);
+  }
+};
+
+/**
+ * 创建工作流执行器
+ *
+ * @param options - 工作流执行器配置选项
+ * @returns 工作流执行器，invoke 接收工作流输入变量，返回工作流输出与所有节点的执行结果
+ */
+export const createWorkflow = (options: WorkflowOptions) => {
+  const { graph, userId, onNodeResult } = options;
+  const context: NodeContext = { userId };
+  const nodeMap = new Map(graph.nodes.map((node) => [node.id, node]));
+
+  /**
+   * 将工作流节点包装为状态图节点，记录节点的执行状态、输入输出和耗时
+   *
+   * @param node - 工作流节点
+   * @returns 状态图节点函数
+   */
+  const createGraphNode =
+    (node: WorkflowNode) =>
+    async (state: WorkflowStateType): Promise<Partial<WorkflowStateType>> => {
+      const startAt = Date.now();
+      const baseResult = {
+        nodeId: node.id,
+        nodeType: node.type,
+        title: node.title,
+      };
+      onNodeResult?.({
+        ...baseResult,
+        status: NodeStatus.RUNNING,
+        inputs: {},
+        outputs: {},
+        error: '',
+        latency: 0,
+      });
+
+      try {
+        const { inputs, outputs } = await runNode(node, state, context);
+        const nodeResult: NodeResult = {
+          ...baseResult,
+          status: NodeStatus.SUCCEEDED,
+          inputs,
+          outputs,
+          error: '',
+          latency: Date.now() - startAt,
+        };
+        onNodeResult?.(nodeResult);
+
+        return {
+          nodeResults: [nodeResult],
+          ...(node.type === NodeType.END ? { outputs } : {}),
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log.error(
+          'Workflow node failed, nodeId={%s}, title={%s}, error={%o}',
+          node.id,
+          node.title,
+          error,
+        );
+        onNodeResult?.({
+          ...baseResult,
+          status: NodeStatus.FAILED,
+          inputs: {},
+          outputs: {},
+          error: message,
+          latency: Date.now() - startAt,
+        });
+        throw new Error(`节点「${node.title}」执行失败: ${message}`);
+      }
+    };
+
+  /**
+   * 判断节点的前置路径中是否存在条件分支节点
+   * 条件分支之后的节点只有部分分支会执行，汇聚时不能等待所有分支
+   *
+   * @param nodeId - 节点ID
+   * @param visited - 已访问的节点ID
+   * @returns 是否存在条件分支前置节点
+   */
+  const hasIfElseAncestor = (
+    nodeId: string,
+    visited = new Set<string>(),
+  ): boolean => {
+    for (const edge of graph.edges) {
+      if (edge.target !== nodeId || visited.has(edge.source)) {
+        continue;
+      }
+      visited.add(edge.source);
+      if (
+        nodeMap.get(edge.source)?.type === NodeType.IF_ELSE ||
+        hasIfElseAncestor(edge.source, visited)
+      ) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  /**
+   * 构建状态图
+   *
+   * @returns 编译后的状态图实例
+   */
+  const buildGraph = () => {
+    const builder = new StateGraph(WorkflowState).addNode(
+      Object.fromEntries(
+        graph.nodes.map((node) => [node.id, createGraphNode(node)]),
+      ),
+    );
+
+    for (const node of graph.nodes) {
+      if (node.type === NodeType.START) {
+        builder.addEdge(START, node.id);
+      }
+      if (node.type === NodeType.END) {
+        builder.addEdge(node.id, END);
+      }
+
+      // 条件分支节点根据判断结果选择出口连线
+      if (node.type === NodeType.IF_ELSE) {
+        builder.addConditionalEdges(node.id, (state: WorkflowStateType) => {
+          const result = findNodeResult(state, node.id)?.outputs.result;
+          const branch = result ? IfElseBranch.TRUE : IfElseBranch.FALSE;
+          return graph.edges
+            .filter(
+              (edge) => edge.source === node.id && edge.sourceHandle === branch,
+            )
+            .map((edge) => edge.target);
+        });
+      }
+
+      // 普通连线，并行分支汇聚时等待所有前置节点执行完成
+      const sources = graph.edges
+        .filter(
+          (edge) =>
+            edge.target === node.id &&
+            nodeMap.get(edge.source)?.type !== NodeType.IF_ELSE,
+        )
+        .map((edge) => edge.source);
+      if (sources.length > 1 && !hasIfElseAncestor(node.id)) {
+        builder.addEdge(sources, node.id);
+      } else {
+        for (const source of sources) {
+          builder.addEdge(source, node.id);
+        }
+      }
+    }
+
+    return builder.compile();
+  };
+
+  const workflow = buildGraph();
+
+  return {
+    /**
+     * 执行工作流
+     * @param inputs - 工作流输入变量
+     * @returns 工作流输出变量与所有节点的执行结果
+     * @throws {Error} 当任意节点执行失败时抛出
+     */
+    invoke: async (inputs: Record<string, unknown>) => {
+      const state = await workflow.invoke(
+        { inputs },
+        // 每个节点至少占用一个执行步骤，节点较多时需要提高递归上限
+        { recursionLimit: Math.max(25, graph.nodes.length * 2) },
+      );
+      return {
+        outputs: state.outputs,
+        nodeResults: state.nodeResults,
+      };
+    },
+  };
+};
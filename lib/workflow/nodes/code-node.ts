@@ -0,0 +1,62 @@
+/**
+ * 代码节点
+ *
+ * 在代码沙箱中执行用户编写的代码，代码需要定义 main 函数：
+ *
+ * ```js
+ * function main(params) {
+ *   return { result: params.a + params.b };
+ * }
+ * ```
+ *
+ * main 函数接收输入变量对象，返回值需要包含节点定义的所有输出变量。
+ */
+
+import { runInSandbox } from '@/lib/sandbox';
+import type { CodeNodeData, NodeRunResult, WorkflowStateType } from '../entity';
+import { convertVariableValue, resolveVariables } from '../helper';
+
+/**
+ * 代码执行的超时时间（毫秒）
+ */
+const CODE_TIMEOUT = 3000;
+
+/**
+ * 执行代码节点
+ * @param node - 代码节点数据
+ * @param state - 工作流状态
+ * @returns 节点的输入与输出，输出为 main 函数返回值中节点定义的输出变量
+ * @throws {Error} 当代码执行失败、超时或返回值不符合输出定义时抛出
+ */
+export const runCodeNode = async (
+  node: CodeNodeData,
+  state: WorkflowStateType,
+): Promise<NodeRunResult> => {
+  const inputs = resolveVariables(node.inputs, state);
+
+  // 在沙箱中执行代码，无法访问网络和文件系统
+  const { result } = await runInSandbox(node.code, inputs, {
+    timeout: CODE_TIMEOUT,
+  });
+
+  if (typeof result !== 'object' || result === null || Array.isArray(result)) {
+    throw new Error('main 函数的返回值必须是对象');
+  }
+
+  const outputs: Record<string, unknown> = {};
+  for (const output of node.outputs) {
+    const value = (result as Record<string, unknown>)[output.name];
+    if (value === undefined || value === null) {
+      if (output.required) {
+        throw new Error(`main 函数的返回值缺少输出变量 ${output.name}`);
+      }
+      continue;
+    }
+    outputs[output.name] = convertVariableValue(value, output.type);
+  }
+
+  return {
+    inputs,
+    outputs,
+  };
+};
@@ -0,0 +1,47 @@
+/**
+ * 知识库检索节点
+ *
+ * 使用输入变量 query 在指定的知识库中检索，检索到的片段内容合并后作为 combine_documents 输出。
+ */
+
+import { RetrievalSource } from '@/lib/entity';
+import { searchInDataset } from '@/lib/retriever';
+import type {
+  DatasetRetrievalNodeData,
+  NodeContext,
+  NodeRunResult,
+  WorkflowStateType,
+} from '../entity';
+import { resolveVariables } from '../helper';
+
+/**
+ * 执行知识库检索节点
+ * @param node - 知识库检索节点数据
+ * @param state - 工作流状态
+ * @param context - 节点执行上下文
+ * @returns 节点的输入与输出，输出包含合并后的检索内容 combine_documents
+ */
+export const runDatasetRetrievalNode = async (
+  node: DatasetRetrievalNodeData,
+  state: WorkflowStateType,
+  context: NodeContext,
+): Promise<NodeRunResult> => {
+  const inputs = resolveVariables(node.inputs, state);
+
+  const documents = await searchInDataset(
+    String(inputs.query ?? ''),
+    node.datasetIds,
+    context.userId,
+    {
+      ...node.retrievalConfig,
+      retrievalSource: RetrievalSource.APP,
+    },
+  );
+
+  return {
+    inputs,
+    outputs: {
+      combine_documents: documents.map((doc) => doc.pageContent).join('\n\n'),
+    },
+  };
+};
@@ -0,0 +1,25 @@
+/**
+ * 结束节点
+ *
+ * 解析结束节点定义的输出变量，作为整个工作流的输出结果。
+ */
+
+import type { EndNodeData, NodeRunResult, WorkflowStateType } from '../entity';
+import { resolveVariables } from '../helper';
+
+/**
+ * 执行结束节点
+ * @param node - 结束节点数据
+ * @param state - 工作流状态
+ * @returns 节点的输入与输出，输出即工作流的输出变量
+ */
+export const runEndNode = async (
+  node: EndNodeData,
+  state: WorkflowStateType,
+): Promise<NodeRunResult> => {
+  const outputs = resolveVariables(node.outputs, state);
+  return {
+    inputs: outputs,
+    outputs,
+  };
+};
@@ -0,0 +1,75 @@
+/**
+ * HTTP 请求节点
+ *
+ * 根据输入变量的位置组装查询参数、请求头和请求体并发送 HTTP 请求，
+ * 响应状态码与响应内容分别作为 status_code 与 text 输出。
+ */
+
+import {
+  HttpRequestInputType,
+  type HttpRequestNodeData,
+  type NodeRunResult,
+  type WorkflowStateType,
+} from '../entity';
+import { resolveVariable } from '../helper';
+
+/**
+ * HTTP 请求的超时时间（毫秒）
+ */
+const HTTP_REQUEST_TIMEOUT = 60000;
+
+/**
+ * 执行 HTTP 请求节点
+ * @param node - HTTP 请求节点数据
+ * @param state - 工作流状态
+ * @returns 节点的输入与输出，输出包含响应状态码 status_code 与响应内容 text
+ */
+export const runHttpRequestNode = async (
+  node: HttpRequestNodeData,
+  state: WorkflowStateType,
+): Promise<NodeRunResult> => {
+  const allInputs: Record<HttpRequestInputType, Record<string, unknown>> = {
+    [HttpRequestInputType.PARAMS]: {},
+    [HttpRequestInputType.HEADERS]: {},
+    [HttpRequestInputType.BODY]: {},
+  };
+
+  // 按变量位置归类输入变量
+  for (const input of node.inputs) {
+    const value = resolveVariable(input, state);
+    if (value !== undefined) {
+      allInputs[input.meta.type][input.name] = value;
+    }
+  }
+
+  const url = new URL(node.url);
+  for (const [key, value] of Object.entries(allInputs.params)) {
+    url.searchParams.set(key, String(value));
+  }
+
+  const headers = new Headers();
+  for (const [key, value] of Object.entries(allInputs.headers)) {
+    headers.set(key, String(value));
+  }
+
+  // GET 与 HEAD 请求不能携带请求体
+  const hasBody = !['get', 'head'].includes(node.method);
+  if (hasBody && !headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  const response = await fetch(url, {
+    method: node.method.toUpperCase(),
+    headers,
+    body: hasBody ? JSON.stringify(allInputs.body) : undefined,
+    signal: AbortSignal.timeout(HTTP_REQUEST_TIMEOUT),
+  });
+
+  return {
+    inputs: allInputs,
+    outputs: {
+      status_code: response.status,
+      text: await response.text(),
+    },
+  };
+};
@@ -0,0 +1,93 @@
+/**
+ * 条件分支节点
+ *
+ * 按 logicalOperator 组合所有条件的比较结果，结果作为 result 输出，
+ * 执行器根据 result 选择 sourceHandle 为 true 或 false 的出口连线。
+ */
+
+import {
+  ComparisonOperator,
+  type IfElseNodeData,
+  type NodeRunResult,
+  type WorkflowStateType,
+} from '../entity';
+import { resolveVariable } from '../helper';
+
+/**
+ * 比较单个条件
+ * @param left - 条件左值，即引用变量的值
+ * @param operator - 比较运算符
+ * @param right - 条件右值，字面量字符串
+ * @returns 比较结果
+ */
+const compare = (
+  left: unknown,
+  operator: ComparisonOperator,
+  right: string,
+) => {
+  const leftText =
+    left === undefined || left === null
+      ? ''
+      : typeof left === 'object'
+        ? JSON.stringify(left)
+        : String(left);
+
+  switch (operator) {
+    case ComparisonOperator.EQUAL:
+      return leftText === right;
+    case ComparisonOperator.NOT_EQUAL:
+      return leftText !== right;
+    case ComparisonOperator.CONTAINS:
+      return leftText.includes(right);
+    case ComparisonOperator.NOT_CONTAINS:
+      return !leftText.includes(right);
+    case ComparisonOperator.GREATER_THAN:
+      return Number(left) > Number(right);
+    case ComparisonOperator.GREATER_THAN_OR_EQUAL:
+      return Number(left) >= Number(right);
+    case ComparisonOperator.LESS_THAN:
+      return Number(left) < Number(right);
+    case ComparisonOperator.LESS_THAN_OR_EQUAL:
+      return Number(left) <= Number(right);
+    case ComparisonOperator.EMPTY:
+      return leftText === '';
+    case ComparisonOperator.NOT_EMPTY:
+      return leftText !== '';
+    default:
+      return false;
+  }
+};
+
+/**
+ * 执行条件分支节点
+ * @param node - 条件分支节点数据
+ * @param state - 工作流状态
+ * @returns 节点的输入与输出，输出包含条件判断结果 result
+ */
+export const runIfElseNode = async (
+  node: IfElseNodeData,
+  state: WorkflowStateType,
+): Promise<NodeRunResult> => {
+  const inputs: Record<string, unknown> = {};
+  const results = node.conditions.map((condition) => {
+    // 条件变量允许为空，空值由 empty / not_empty 运算符判断
+    const value = resolveVariable(
+      { ...condition.variable, required: false },
+      state,
+    );
+    inputs[condition.variable.name] = value;
+    return compare(value, condition.operator, condition.value);
+  });
+
+  const result =
+    node.logicalOperator === 'and'
+      ? results.every(Boolean)
+      : results.some(Boolean);
+
+  return {
+    inputs,
+    outputs: {
+      result,
+    },
+  };
+};
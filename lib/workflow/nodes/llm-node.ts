@@ -0,0 +1,40 @@
+/**
+ * 大语言模型节点
+ *
+ * 使用输入变量渲染提示词模板后调用语言模型，模型生成的内容作为 output 输出。
+ */
+
+import type { ModelConfig } from '@/lib/entity';
+import { createChatModel } from '@/lib/llm';
+import { HumanMessage } from '@langchain/core/messages';
+import type { LLMNodeData, NodeRunResult, WorkflowStateType } from '../entity';
+import { renderTemplate, resolveVariables } from '../helper';
+
+/**
+ * 执行大语言模型节点
+ * @param node - 大语言模型节点数据
+ * @param state - 工作流状态
+ * @returns 节点的输入与输出，输出包含模型生成的 output
+ */
+export const runLLMNode = async (
+  node: LLMNodeData,
+  state: WorkflowStateType,
+): Promise<NodeRunResult> => {
+  const inputs = resolveVariables(node.inputs, state);
+  const prompt = renderTemplate(node.prompt, inputs);
+
+  const llm = createChatModel({
+    ...node.modelConfig,
+    parameters: node.modelConfig.parameters as Partial<
+      ModelConfig['parameters']
+    >,
+  });
+  const response = await llm.invoke([new HumanMessage(prompt)]);
+
+  return {
+    inputs,
+    outputs: {
+      output: response.text,
+    },
+  };
+};
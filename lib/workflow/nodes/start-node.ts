@@ -0,0 +1,42 @@
+/**
+ * 开始节点
+ *
+ * 校验工作流的输入变量并转换为定义的类型，输入变量会作为开始节点的输出供后续节点引用。
+ */
+
+import type {
+  NodeRunResult,
+  StartNodeData,
+  WorkflowStateType,
+} from '../entity';
+import { convertVariableValue } from '../helper';
+
+/**
+ * 执行开始节点
+ * @param node - 开始节点数据
+ * @param state - 工作流状态
+ * @returns 节点的输入与输出，输出为转换类型后的工作流输入变量
+ * @throws {Error} 当必填的输入变量缺失或类型错误时抛出
+ */
+export const runStartNode = async (
+  node: StartNodeData,
+  state: WorkflowStateType,
+): Promise<NodeRunResult> => {
+  const outputs: Record<string, unknown> = {};
+
+  for (const input of node.inputs) {
+    const value = state.inputs[input.name];
+    if (value === undefined || value === null || value === '') {
+      if (input.required) {
+        throw new Error(`工作流输入变量 ${input.name} 不能为空`);
+      }
+      continue;
+    }
+    outputs[input.name] = convertVariableValue(value, input.type);
+  }
+
+  return {
+    inputs: state.inputs,
+    outputs,
+  };
+};
@@ -0,0 +1,31 @@
+/**
+ * 模板转换节点
+ *
+ * 使用输入变量渲染模板，渲染结果作为 output 输出。
+ */
+
+import type {
+  NodeRunResult,
+  TemplateTransformNodeData,
+  WorkflowStateType,
+} from '../entity';
+import { renderTemplate, resolveVariables } from '../helper';
+
+/**
+ * 执行模板转换节点
+ * @param node - 模板转换节点数据
+ * @param state - 工作流状态
+ * @returns 节点的输入与输出，输出包含渲染后的 output
+ */
+export const runTemplateTransformNode = async (
+  node: TemplateTransformNodeData,
+  state: WorkflowStateType,
+): Promise<NodeRunResult> => {
+  const inputs = resolveVariables(node.inputs, state);
+  return {
+    inputs,
+    outputs: {
+      output: renderTemplate(node.template, inputs),
+    },
+  };
+};
@@ -0,0 +1,92 @@
+/**
+ * 扩展插件节点
+ *
+ * 调用内置插件或账号下的 API 插件，插件的返回内容作为 text 输出。
+ */
+
+import { db } from '@/lib/db';
+import { apiTool, apiToolProvider } from '@/lib/db/schema';
+import { getBuiltinTool, getBuiltinToolProvider } from '@/lib/tools';
+import { createApiTool } from '@/lib/tools/api-tool';
+import type { StructuredTool } from '@langchain/core/tools';
+import { and, eq } from 'drizzle-orm';
+import type {
+  NodeContext,
+  NodeRunResult,
+  ToolNodeData,
+  WorkflowStateType,
+} from '../entity';
+import { resolveVariables } from '../helper';
+
+/**
+ * 根据插件节点配置创建 LangChain 工具实例
+ * @param node - 插件节点数据
+ * @param userId - 账号ID，用于查询账号下的 API 插件
+ * @returns LangChain 工具实例
+ * @throws {Error} 当插件不存在时抛出
+ */
+const createToolForNode = async (
+  node: ToolNodeData,
+  userId: string,
+): Promise<StructuredTool> => {
+  if (node.toolType === 'builtin_tool') {
+    const toolProvider = getBuiltinToolProvider(node.providerId);
+    const toolEntity = toolProvider
+      ? getBuiltinTool(toolProvider, node.toolId)
+      : undefined;
+    if (!toolEntity) {
+      throw new Error(`内置插件 ${node.providerId}/${node.toolId} 不存在`);
+    }
+    return toolEntity.fn(node.params);
+  }
+
+  const [apiToolRecords, apiToolProviderRecords] = await Promise.all([
+    db
+      .select()
+      .from(apiTool)
+      .where(
+        and(
+          eq(apiTool.id, node.toolId),
+          eq(apiTool.providerId, node.providerId),
+          eq(apiTool.userId, userId),
+        ),
+      ),
+    db
+      .select()
+      .from(apiToolProvider)
+      .where(
+        and(
+          eq(apiToolProvider.id, node.providerId),
+          eq(apiToolProvider.userId, userId),
+        ),
+      ),
+  ]);
+  if (apiToolRecords.length === 0 || apiToolProviderRecords.length === 0) {
+    throw new Error(`API 插件 ${node.toolId} 不存在`);
+  }
+  return createApiTool(apiToolRecords[0], apiToolProviderRecords[0]);
+};
+
+/**
+ * 执行扩展插件节点
+ * @param node - 插件节点数据
+ * @param state - 工作流状态
+ * @param context - 节点执行上下文
+ * @returns 节点的输入与输出，输出包含插件返回的 text
+ */
+export const runToolNode = async (
+  node: ToolNodeData,
+  state: WorkflowStateType,
+  context: NodeContext,
+): Promise<NodeRunResult> => {
+  const inputs = resolveVariables(node.inputs, state);
+  const tool = await createToolForNode(node, context.userId);
+  const result = await tool.invoke(inputs);
+
+  return {
+    inputs,
+    outputs: {
+      text: typeof result === 'string' ? result : JSON.stringify(result),
+    },
+  };
+};
@@ -0,0 +1,275 @@
+/**
+ * 工作流图校验模块
+ *
+ * 在调试和发布工作流之前对工作流图进行完整的校验：
+ * - 节点与连线的数据格式
+ * - 节点ID与节点标题唯一
+ * - 有且只有一个开始节点和一个结束节点
+ * - 连线的起点和终点存在，条件分支节点的出口连线完整
+ * - 图中不存在环，且所有节点都能从开始节点到达
+ * - 变量名称唯一，引用变量只能引用前置节点的输出变量
+ */
+
+import { BadRequestException } from '@/exceptions';
+import { workflowGraphSchema } from '@/schemas/workflow-schema';
+import {
+  IfElseBranch,
+  NODE_GENERATED_OUTPUTS,
+  NodeType,
+  type VariableEntity,
+  VariableValueType,
+  type WorkflowGraph,
+  type WorkflowNode,
+} from './entity';
+
+/**
+ * 获取节点的输入变量列表（包含结束节点的输出定义与条件分支节点的条件变量）
+ * @param node - 工作流节点
+ * @returns 节点中需要解析的变量列表
+ */
+const getNodeVariables = (node: WorkflowNode): VariableEntity[] => {
+  switch (node.type) {
+    case NodeType.START:
+      return [];
+    case NodeType.END:
+      return node.outputs;
+    case NodeType.IF_ELSE:
+      return node.conditions.map((condition) => condition.variable);
+    default:
+      return node.inputs;
+  }
+};
+
+/**
+ * 获取节点可供后续节点引用的输出变量名称
+ * @param node - 工作流节点
+ * @returns 输出变量名称列表
+ */
+const getNodeOutputNames = (node: WorkflowNode) => {
+  switch (node.type) {
+    case NodeType.START:
+      return node.inputs.map((input) => input.name);
+    case NodeType.CODE:
+      return node.outputs.map((output) => output.name);
+    default:
+      return NODE_GENERATED_OUTPUTS[node.type] ?? [];
+  }
+};
+
+/**
+ * 校验变量名称在同一列表中唯一
+ * @param node - 工作流节点
+ * @param variables - 变量列表
+ * @throws {BadRequestException} 当变量名称重复时抛出
+ */
+const assertUniqueVariableNames = (
+  node: WorkflowNode,
+  variables: VariableEntity[],
+) => {
+  const names = new Set<string>();
+  for (const variable of variables) {
+    if (names.has(variable.name)) {
+      throw new BadRequestException(
+        `节点「${node.title}」中的变量 ${variable.name} 重复`,
+      );
+    }
+    names.add(variable.name);
+  }
+};
+
+/**
+ * 校验并规范化工作流图
+ *
+ * @param graph - 待校验的工作流图
+ * @returns 校验通过并填充默认值后的工作流图
+ * @throws {BadRequestException} 当工作流图不合法时抛出，错误信息包含具体原因
+ */
+export const validateWorkflowGraph = (graph: unknown): WorkflowGraph => {
+  const parseResult = workflowGraphSchema.safeParse(graph);
+  if (!parseResult.success) {
+    const issue = parseResult.error.issues[0];
+    throw new BadRequestException(
+      `工作流图格式错误: ${issue.path.join('.')} ${issue.message}`,
+    );
+  }
+  const { nodes, edges } = parseResult.data;
+
+  // 校验节点ID与节点标题唯一
+  const nodeMap = new Map<string, WorkflowNode>();
+  const titles = new Set<string>();
+  for (const node of nodes) {
+    if (nodeMap.has(node.id)) {
+      throw new BadRequestException(`节点ID ${node.id} 重复`);
+    }
+    if (titles.has(node.title)) {
+      throw new BadRequestException(`节点标题「${node.title}」重复`);
+    }
+    nodeMap.set(node.id, node);
+    titles.add(node.title);
+  }
+
+  // 校验开始节点与结束节点的数量
+  const startNodes = nodes.filter((node) => node.type === NodeType.START);
+  const endNodes = nodes.filter((node) => node.type === NodeType.END);
+  if (startNodes.length !== 1) {
+    throw new BadRequestException('工作流必须有且只有一个开始节点');
+  }
+  if (endNodes.length !== 1) {
+    throw new BadRequestException('工作流必须有且只有一个结束节点');
+  }
+  const startNode = startNodes[0];
+
+  // 校验连线
+  const outgoing = new Map<string, string[]>(
+    nodes.map((node) => [node.id, []]),
+  );
+  const incoming = new Map<string, string[]>(
+    nodes.map((node) => [node.id, []]),
+  );
+  const edgeKeys = new Set<string>();
+  for (const edge of edges) {
+    const source = nodeMap.get(edge.source);
+    const target = nodeMap.get(edge.target);
+    if (!source || !target) {
+      throw new BadRequestException(`连线 ${edge.id} 的起点或终点节点不存在`);
+    }
+    if (source.id === target.id) {
+      throw new BadRequestException(`节点「${source.title}」不能连接自身`);
+    }
+    if (target.type === NodeType.START) {
+      throw new BadRequestException('开始节点不能有输入连线');
+    }
+    if (source.type === NodeType.END) {
+      throw new BadRequestException('结束节点不能有输出连线');
+    }
+
+    if (source.type === NodeType.IF_ELSE) {
+      if (
+        edge.sourceHandle !== IfElseBranch.TRUE &&
+        edge.sourceHandle !== IfElseBranch.FALSE
+      ) {
+        throw new BadRequestException(
+          `条件分支节点「${source.title}」的出口连线必须指定 true 或 false 分支`,
+        );
+      }
+    } else if (edge.sourceHandle) {
+      throw new BadRequestException(
+        `节点「${source.title}」的出口连线不能指定分支`,
+      );
+    }
+
+    const edgeKey = `${edge.source}:${edge.sourceHandle ?? ''}:${edge.target}`;
+    if (edgeKeys.has(edgeKey)) {
+      throw new BadRequestException(
+        `节点「${source.title}」到节点「${target.title}」的连线重复`,
+      );
+    }
+    edgeKeys.add(edgeKey);
+    outgoing.get(source.id)?.push(target.id);
+    incoming.get(target.id)?.push(source.id);
+  }
+
+  // 校验节点的连线完整
+  for (const node of nodes) {
+    if (node.type !== NodeType.START && incoming.get(node.id)?.length === 0) {
+      throw new BadRequestException(`节点「${node.title}」缺少输入连线`);
+    }
+    if (node.type !== NodeType.END && outgoing.get(node.id)?.length === 0) {
+      throw new BadRequestException(`节点「${node.title}」缺少输出连线`);
+    }
+    if (node.type === NodeType.IF_ELSE) {
+      const handles = new Set(
+        edges
+          .filter((edge) => edge.source === node.id)
+          .map((edge) => edge.sourceHandle),
+      );
+      if (!handles.has(IfElseBranch.TRUE) || !handles.has(IfElseBranch.FALSE)) {
+        throw new BadRequestException(
+          `条件分支节点「${node.title}」必须同时连接 true 和 false 分支`,
+        );
+      }
+    }
+  }
+
+  // 拓扑排序校验图中不存在环，并计算每个节点的所有前置节点
+  const inDegree = new Map(
+    nodes.map((node) => [node.id, incoming.get(node.id)?.length ?? 0]),
+  );
+  const ancestors = new Map<string, Set<string>>(
+    nodes.map((node) => [node.id, new Set<string>()]),
+  );
+  const queue = nodes
+    .filter((node) => inDegree.get(node.id) === 0)
+    .map((node) => node.id);
+  let visitedCount = 0;
+  while (queue.length > 0) {
+    const nodeId = queue.shift() as string;
+    visitedCount++;
+    for (const targetId of outgoing.get(nodeId) ?? []) {
+      const targetAncestors = ancestors.get(targetId) as Set<string>;
+      targetAncestors.add(nodeId);
+      for (const ancestorId of ancestors.get(nodeId) ?? []) {
+        targetAncestors.add(ancestorId);
+      }
+      const degree = (inDegree.get(targetId) ?? 0) - 1;
+      inDegree.set(targetId, degree);
+      if (degree === 0) {
+        queue.push(targetId);
+      }
+    }
+  }
+  if (visitedCount !== nodes.length) {
+    throw new BadRequestException('工作流中不能存在环');
+  }
+
+  // 除开始节点外，其他节点都必须能从开始节点到达
+  for (const node of nodes) {
+    if (
+      node.id !== startNode.id &&
+      !ancestors.get(node.id)?.has(startNode.id)
+    ) {
+      throw new BadRequestException(`节点「${node.title}」无法从开始节点到达`);
+    }
+  }
+
+  // 校验节点变量
+  for (const node of nodes) {
+    const variables = getNodeVariables(node);
+    assertUniqueVariableNames(node, variables);
+    if (node.type === NodeType.START) {
+      assertUniqueVariableNames(node, node.inputs);
+    }
+    if (node.type === NodeType.CODE) {
+      assertUniqueVariableNames(node, node.outputs);
+    }
+
+    if (
+      node.type === NodeType.DATASET_RETRIEVAL &&
+      !variables.some((variable) => variable.name === 'query')
+    ) {
+      throw new BadRequestException(
+        `知识库检索节点「${node.title}」缺少 query 输入变量`,
+      );
+    }
+
+    for (const variable of variables) {
+      if (variable.value.type !== VariableValueType.REF) {
+        continue;
+      }
+      const { refNodeId, refVarName } = variable.value.content;
+      const refNode = nodeMap.get(refNodeId);
+      if (!refNode || !ancestors.get(node.id)?.has(refNodeId)) {
+        throw new BadRequestException(
+          `节点「${node.title}」的变量 ${variable.name} 只能引用前置节点的输出`,
+        );
+      }
+      if (!getNodeOutputNames(refNode).includes(refVarName)) {
+        throw new BadRequestException(
+          `节点「${node.title}」的变量 ${variable.name} 引用的变量 ${refVarName} 不存在`,
+        );
+      }
+    }
+  }
+
+  return parseResult.data;
+};
@@ -0,0 +1,81 @@
+/**
+ * 工作流工具模块
+ *
+ * 将已发布的工作流包装为 LangChain 工具，使应用智能体可以像调用插件一样调用工作流：
+ * - 工具名称为工作流的工具调用名称，工具描述为工作流描述
+ * - 工具参数由开始节点的输入变量定义生成
+ * - 工具返回结束节点输出变量的 JSON 字符串
+ */
+
+import type { workflow } from '@/lib/db/schema';
+import { log } from '@/lib/logger';
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { NodeType, VariableType, type WorkflowGraph } from './entity';
+import { createWorkflow } from './index';
+
+/**
+ * 根据变量类型创建对应的 Zod 验证类型
+ * @param type - 变量类型
+ * @returns 对应的 Zod 验证器
+ */
+const createZodType = (type: VariableType) => {
+  switch (type) {
+    case VariableType.INT:
+      return z.number().int();
+    case VariableType.FLOAT:
+      return z.number();
+    case VariableType.BOOLEAN:
+      return z.boolean();
+    default:
+      return z.string();
+  }
+};
+
+/**
+ * 创建工作流工具实例
+ *
+ * @param workflowRecord - 已发布的工作流记录，graph 为已校验的工作流图
+ * @returns LangChain 工具实例
+ */
+export const createWorkflowTool = (
+  workflowRecord: typeof workflow.$inferSelect,
+) => {
+  const graph = workflowRecord.graph as WorkflowGraph;
+  const startNode = graph.nodes.find((node) => node.type === NodeType.START);
+  const inputs = startNode?.type === NodeType.START ? startNode.inputs : [];
+
+  // 根据开始节点的输入变量生成工具参数
+  const schema = z.object(
+    Object.fromEntries(
+      inputs.map((input) => {
+        const zodType = createZodType(input.type).describe(input.description);
+        return [input.name, input.required ? zodType : zodType.optional()];
+      }),
+    ),
+  );
+
+  return tool(
+    async (params: Record<string, unknown>) => {
+      try {
+        const { outputs } = await createWorkflow({
+          graph,
+          userId: workflowRecord.userId,
+        }).invoke(params);
+        return JSON.stringify(outputs);
+      } catch (error) {
+        log.error(
+          'Workflow tool failed, workflowId={%s}, error={%o}',
+          workflowRecord.id,
+          error,
+        );
+        return `工作流执行失败: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    },
+    {
+      name: workflowRecord.toolCallName,
+      description: workflowRecord.description,
+      schema,
+    },
+  );
+};
@@ -0,0 +1,32 @@
+/**
+ * 标注回复相关的请求验证模式
+ * 包含获取标注列表、创建标注和更新标注等接口的请求验证
+ */
+import { z } from 'zod';
+import { searchPageReqSchema } from './common-schema';
+
+// 获取标注列表的请求验证模式，搜索词模糊匹配标注的问题和回答
+export const getAnnotationListReqSchema = searchPageReqSchema;
+
+// 更新标注的请求验证模式
+export const updateAnnotationReqSchema = z.object({
+  question: z
+    .string()
+    .trim()
+    .min(1, '标注问题不能为空')
+    .max(2000, '标注问题不能超过2000个字符'),
+  answer: z
+    .string()
+    .trim()
+    .min(1, '标注回答不能为空')
+    .max(10000, '标注回答不能超过10000个字符'),
+});
+
+export type UpdateAnnotationReq = z.infer<typeof updateAnnotationReqSchema>;
+
+// 创建标注的请求验证模式，关联消息时标注记录来源消息
+export const createAnnotationReqSchema = updateAnnotationReqSchema.extend({
+  messageId: z.string().uuid('消息ID格式错误').nullable().optional(),
+});
+
+export type CreateAnnotationReq = z.infer<typeof createAnnotationReqSchema>;
@@ -10,10 +10,17 @@
  * - getConversationMessagesReqSchema: 获取对话消息的请求验证
  * - getAppPublishHistoriesReqSchema: 获取应用发布历史的请求验证
  * - fallbackAppConfigReqSchema: 回退应用配置的请求验证
+ * - getAppStatisticsReqSchema: 获取应用统计数据的请求验证
  */
 
-import { RetrievalStrategy } from '@/lib/entity';
+import {
+  FusionMethod,
+  MAX_MESSAGE_IMAGE_COUNT,
+  MemoryStrategy,
+  RetrievalStrategy,
+} from '@/lib/entity';
 import { pageReqSchema, searchPageReqSchema } from '@/schemas/common-schema';
+import { metadataFilterSchema } from '@/schemas/document-schema';
 import { z } from 'zod';
 
 /**
@@ -60,18 +67,35 @@ export type UpdateAppReq = z.infer<typeof updateAppReqSchema>;
  * 更新应用草稿配置的请求验证 schema
  * 这是应用配置的核心schema，包含了应用的所有功能配置
  *
- * @property {any} modelConfig - 模型配置（待完善验证规则）
+ * @property {Object} modelConfig - 模型配置
+ * @property {string} modelConfig.provider - 模型提供商
+ * @property {string} modelConfig.model - 模型名称
+ * @property {Record<string, number>} modelConfig.parameters - 模型参数，会按模型的参数定义进行规范化
  * @property {number} dialogRound - 对话轮次，0-100之间的整数
  * @property {string} presetPrompt - 人设与回复逻辑设置，最多2000字符
  * @property {Array<{type: 'builtin_tool'|'api_tool', providerId: string, toolId: string, params: Record<string, any>}>} tools - 插件配置，最多5个
- * @property {any} workflows - 工作流配置（待完善验证规则）
+ * @property {string[]} workflows - 工作流配置，已发布工作流的ID列表，最多5个
  * @property {string[]} datasets - 知识库配置，最多5个
  * @property {Object} retrievalConfig - 检索配置
  * @property {string} retrievalConfig.retrievalStrategy - 检索策略：'full_text'|'semantic'|'hybrid'
  * @property {number} retrievalConfig.k - 召回数量，0-10之间的整数
  * @property {number} retrievalConfig.score - 匹配度阈值，0-1之间的小数
+ * @property {Object} retrievalConfig.hybrid - 混合检索配置
+ * @property {number} retrievalConfig.hybrid.semanticWeight - 语义检索权重，0-1之间的小数
+ * @property {number} retrievalConfig.hybrid.keywordWeight - 全文检索权重，0-1之间的小数
+ * @property {string} retrievalConfig.hybrid.fusionMethod - 融合方式：'weighted_score'|'rrf'
+ * @property {Object} retrievalConfig.rerank - 重排序配置
+ * @property {boolean} retrievalConfig.rerank.enable - 是否启用重排序
+ * @property {number} retrievalConfig.rerank.topN - 重排序后保留的文档数量，1-10之间的整数
+ * @property {number} retrievalConfig.rerank.score - 重排序分数阈值，0-1之间的小数
+ * @property {Object|null} retrievalConfig.filter - 元数据过滤表达式，为 null 时不过滤
+ * @property {string} retrievalConfig.filter.logic - 条件组合方式：'and'|'or'
+ * @property {Array} retrievalConfig.filter.conditions - 过滤条件列表，每个条件包含 field、operator 和 value
  * @property {Object} longTermMemory - 长期记忆配置
  * @property {boolean} longTermMemory.enable - 是否启用长期记忆
+ * @property {Object} memoryConfig - 对话记忆配置
+ * @property {string} memoryConfig.strategy - 对话记忆策略：'none'|'window'|'token_buffer'|'summary_buffer'
+ * @property {number} memoryConfig.maxTokenLimit - 历史对话的最大 token 数，0-1000000之间的整数，为0时自动计算
  * @property {string} openingStatement - 开场白，最多2000字符
  * @property {string[]} openingQuestions - 建议问题，最多3个
  * @property {Object} speechToText - 语音转文字配置
@@ -90,11 +114,21 @@ export type UpdateAppReq = z.infer<typeof updateAppReqSchema>;
  * @property {boolean} reviewConfig.outputsConfig.enable - 是否启用输出审核
  * @property {Object} suggestedAfterAnswer - 回答后建议配置
  * @property {boolean} suggestedAfterAnswer.enable - 是否启用回答后建议
+ * @property {Object} structuredOutput - 结构化输出配置
+ * @property {boolean} structuredOutput.enable - 是否启用结构化输出
+ * @property {Object} structuredOutput.schema - 最终回答需要符合的 JSON Schema，根节点必须为 object 类型
+ * @property {Object} annotationReply - 标注回复配置
+ * @property {boolean} annotationReply.enable - 是否启用标注回复
+ * @property {number} annotationReply.scoreThreshold - 相似度分数阈值，范围0-1
  */
 export const updateDraftAppConfigReqSchema = z
   .object({
-    // TODO: 需要验证 modelConfig 的格式 - 当前使用 z.any() 作为临时方案
-    modelConfig: z.any(),
+    // 模型配置，提供商与模型是否存在由模型注册表校验
+    modelConfig: z.object({
+      provider: z.string().min(1, '模型提供商无效: 必须提供有效的字符串标识'),
+      model: z.string().min(1, '模型名称无效: 必须提供有效的字符串标识'),
+      parameters: z.record(z.string(), z.number()),
+    }),
 
     // 对话轮次限制，防止无限对话消耗资源
     dialogRound: z
@@ -128,8 +162,10 @@ export const updateDraftAppConfigReqSchema = z
       )
       .max(5, '插件数量超限: 最多支持5个插件'),
 
-    // TODO: 需要验证 workflows 的格式 - 当前使用 z.any() 作为临时方案
-    workflows: z.any(),
+    // 工作流配置，绑定的工作流会作为工具提供给智能体
+    workflows: z
+      .array(z.string().uuid('工作流ID格式不正确'))
+      .max(5, '工作流数量超限: 最多支持5个工作流'),
 
     // 知识库配置，限制数量避免性能问题
     datasets: z.array(z.string()).max(5, '知识库数量超限: 最多支持5个知识库'),
@@ -156,6 +192,46 @@ export const updateDraftAppConfigReqSchema = z
         .number()
         .min(0, '匹配度阈值无效: 请输入0-1之间的小数')
         .max(1, '匹配度阈值无效: 请输入0-1之间的小数'),
+      // 混合检索配置，两种检索的权重之和必须大于0
+      hybrid: z
+        .object({
+          semanticWeight: z
+            .number()
+            .min(0, '语义检索权重无效: 请输入0-1之间的小数')
+            .max(1, '语义检索权重无效: 请输入0-1之间的小数'),
+          keywordWeight: z
+            .number()
+            .min(0, '全文检索权重无效: 请输入0-1之间的小数')
+            .max(1, '全文检索权重无效: 请输入0-1之间的小数'),
+          fusionMethod: z.nativeEnum(FusionMethod, {
+            message: '融合方式无效: 仅支持加权分数或倒数排名融合',
+          }),
+        })
+        .refine((data) => data.semanticWeight + data.keywordWeight > 0, {
+          message: '混合检索权重无效: 语义检索与全文检索的权重不能同时为0',
+        })
+        .default({
+          semanticWeight: 0.5,
+          keywordWeight: 0.5,
+          fusionMethod: FusionMethod.RRF,
+        }),
+      // 重排序配置，未传递时不启用重排序
+      rerank: z
+        .object({
+          enable: z.boolean(),
+          topN: z
+            .number()
+            .int()
+            .min(1, '重排序数量设置无效: 请输入1-10之间的整数')
+            .max(10, '重排序数量设置无效: 请输入1-10之间的整数'),
+          score: z
+            .number()
+            .min(0, '重排序阈值无效: 请输入0-1之间的小数')
+            .max(1, '重排序阈值无效: 请输入0-1之间的小数'),
+        })
+        .default({ enable: false, topN: 4, score: 0 }),
+      // 元数据过滤表达式，未传递时不过滤
+      filter: metadataFilterSchema.nullable().default(null),
     }),
 
     // 长期记忆配置
@@ -163,6 +239,29 @@ export const updateDraftAppConfigReqSchema = z
       enable: z.boolean(),
     }),
 
+    // 对话记忆配置，token 预算为 0 时根据模型自动计算
+    memoryConfig: z.object({
+      strategy: z.enum(
+        [
+          MemoryStrategy.NONE,
+          MemoryStrategy.WINDOW,
+          MemoryStrategy.TOKEN_BUFFER,
+          MemoryStrategy.SUMMARY_BUFFER,
+        ],
+        {
+          required_error:
+            '对话记忆策略无效: 仅支持不使用、窗口、token 缓冲或摘要缓冲记忆',
+          invalid_type_error:
+            '对话记忆策略无效: 仅支持不使用、窗口、token 缓冲或摘要缓冲记忆',
+        },
+      ),
+      maxTokenLimit: z
+        .number()
+        .int()
+        .min(0, '记忆 token 上限无效: 请输入0-1000000之间的整数')
+        .max(1000000, '记忆 token 上限无效: 请输入0-1000000之间的整数'),
+    }),
+
     // 开场白设置，限制长度
     openingStatement: z
       .string()
@@ -212,6 +311,21 @@ export const updateDraftAppConfigReqSchema = z
     suggestedAfterAnswer: z.object({
       enable: z.boolean(),
     }),
+
+    // 结构化输出配置，JSON Schema 是否有效由服务层校验
+    structuredOutput: z.object({
+      enable: z.boolean(),
+      schema: z.record(z.string(), z.unknown()),
+    }),
+
+    // 标注回复配置
+    annotationReply: z.object({
+      enable: z.boolean(),
+      scoreThreshold: z
+        .number()
+        .min(0, '相似度分数阈值不能小于0')
+        .max(1, '相似度分数阈值不能大于1'),
+    }),
   })
   // 自定义验证：审核配置的业务逻辑验证
   .refine(
@@ -287,12 +401,19 @@ export const updateAppSummaryReqSchema = z.object({
  * 应用对话请求验证 schema
  * 用于处理用户与应用的单次对话
  * @property {string} query - 用户问题，1-2000个字符
+ * @property {string[]} imageUrls - 通过图片上传接口上传的图片URL列表，默认为空
+ * @property {string} [regenerateMessageId] - 可选的原消息ID，传递时重新生成该消息的回答或使用新的提问重新发送
  */
 export const appConversationReqSchema = z.object({
   query: z
     .string()
     .min(1, '请输入用户问题')
     .max(2000, '用户问题不能超过2000个字符'),
+  imageUrls: z
+    .array(z.string().url('图片地址格式错误'))
+    .max(MAX_MESSAGE_IMAGE_COUNT, `最多附带${MAX_MESSAGE_IMAGE_COUNT}张图片`)
+    .default([]),
+  regenerateMessageId: z.string().uuid('消息ID格式错误').optional(),
 });
 
 /**
@@ -308,6 +429,50 @@ export type GetConversationMessagesReq = z.infer<
   typeof getConversationMessagesReqSchema
 >;
 
+/**
+ * 审批工具调用的请求验证 schema
+ * @property {boolean} approved - 是否批准执行工具调用
+ * @property {Array<{id: string, args: Record<string, any>}>} [toolCalls] - 修改后的工具调用参数，只需要传递修改过参数的工具调用
+ * @property {string} [reason] - 拒绝原因，最多500个字符
+ */
+export const approveConversationTaskReqSchema = z.object({
+  approved: z.boolean({
+    required_error: '请选择是否批准执行',
+    invalid_type_error: '是否批准执行必须为布尔值',
+  }),
+  toolCalls: z
+    .array(
+      z.object({
+        id: z.string().min(1, '工具调用ID不能为空'),
+        args: z.record(z.any(), {
+          invalid_type_error: '工具调用参数格式错误: 必须为对象格式',
+        }),
+      }),
+    )
+    .default([]),
+  reason: z.string().max(500, '拒绝原因不能超过500个字符').default(''),
+});
+
+export type ApproveConversationTaskReq = z.infer<
+  typeof approveConversationTaskReqSchema
+>;
+
+/**
+ * 重新连接任务事件流的请求验证 schema
+ * @property {number} [lastEventIndex] - 客户端已经接收的事件数量（不包括心跳事件），默认为 0，从头回放所有事件
+ */
+export const getConversationTaskEventsReqSchema = z.object({
+  lastEventIndex: z
+    .number()
+    .int('事件索引必须为整数')
+    .min(0, '事件索引不能小于0')
+    .default(0),
+});
+
+export type GetConversationTaskEventsReq = z.infer<
+  typeof getConversationTaskEventsReqSchema
+>;
+
 /**
  * 获取应用发布历史的请求验证 schema
  * 继承自分页请求schema，用于分页获取应用的发布历史记录
@@ -326,3 +491,35 @@ export type GetAppPublishHistoriesReq = z.infer<
 export const fallbackAppConfigReqSchema = z.object({
   appConfigVersionId: z.string().uuid('应用配置版本ID格式不正确'),
 });
+
+/**
+ * 应用统计允许查询的最大时间跨度（毫秒），最多 90 天
+ */
+const MAX_STATISTICS_RANGE = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * 获取应用统计数据的请求验证 schema
+ * 未传递时间范围时默认统计最近 7 天的数据，未传递结束时间时先解析为当前时间再校验时间范围
+ * @property {number} [startAt] - 统计开始时间戳（毫秒），可选
+ * @property {number} [endAt] - 统计结束时间戳（毫秒），可选，默认为当前时间
+ */
+export const getAppStatisticsReqSchema = z
+  .object({
+    startAt: z.number().int('开始时间格式不正确').nullable().optional(),
+    endAt: z.number().int('结束时间格式不正确').nullable().optional(),
+  })
+  .transform(({ startAt, endAt }) => ({
+    startAt: startAt ?? null,
+    endAt: endAt ?? Date.now(),
+  }))
+  .refine(
+    ({ startAt, endAt }) => startAt == null || startAt < endAt,
+    '开始时间必须早于结束时间',
+  )
+  .refine(
+    ({ startAt, endAt }) =>
+      startAt == null || endAt - startAt <= MAX_STATISTICS_RANGE,
+    '统计时间跨度不能超过 90 天',
+  );
+
+export type GetAppStatisticsReq = z.infer<typeof getAppStatisticsReqSchema>;
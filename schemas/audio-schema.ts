@@ -0,0 +1,35 @@
+/**
+ * 语音相关的 Zod schema 定义
+ * 包含以下 schema:
+ * - audioTranscribeReqSchema: 语音转文字的请求验证
+ * - audioSpeechReqSchema: 文字转语音的请求验证
+ */
+
+import { InvokeFrom } from '@/lib/entity';
+import { z } from 'zod';
+
+/**
+ * 语音转文字的请求验证 schema
+ * @property {string} appId - 应用ID，用于校验应用是否启用语音输入
+ * @property {string} invokeFrom - 调用来源，调试器使用草稿配置，服务 API 使用已发布的配置，默认为调试器
+ */
+export const audioTranscribeReqSchema = z.object({
+  appId: z.string().uuid('应用ID格式错误'),
+  invokeFrom: z
+    .enum([InvokeFrom.DEBUGGER, InvokeFrom.SERVICE_API], {
+      message: '调用来源错误',
+    })
+    .default(InvokeFrom.DEBUGGER),
+});
+
+export type AudioTranscribeReq = z.infer<typeof audioTranscribeReqSchema>;
+
+/**
+ * 文字转语音的请求验证 schema
+ * @property {string} messageId - 需要转换为语音的消息ID
+ */
+export const audioSpeechReqSchema = z.object({
+  messageId: z.string().uuid('消息ID格式错误'),
+});
+
+export type AudioSpeechReq = z.infer<typeof audioSpeechReqSchema>;
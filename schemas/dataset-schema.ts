@@ -4,14 +4,15 @@
  *
  * 该模块提供了以下主要功能：
  * - 数据集列表查询的请求验证
- * - 数据集创建和更新的请求验证
+ * - 数据集创建和更新的请求验证，包括知识库的检索配置
  * - 数据集检索（hit）的请求验证
  * - 相关的 TypeScript 类型定义
  */
 
-import { RetrievalStrategy } from '@/lib/entity';
+import { FusionMethod, RetrievalStrategy } from '@/lib/entity';
 import { z } from 'zod';
 import { searchPageReqSchema } from './common-schema';
+import { metadataFilterSchema } from './document-schema';
 
 /**
  * 获取数据集列表的请求 schema
@@ -24,6 +25,87 @@ import { searchPageReqSchema } from './common-schema';
  */
 export const getDatasetListReqSchema = searchPageReqSchema;
 
+/**
+ * 混合检索配置 schema
+ * 两种检索的权重之和必须大于 0
+ */
+const hybridConfigSchema = z
+  .object({
+    semanticWeight: z
+      .number({ message: '语义检索权重不能为空' })
+      .min(0, '语义检索权重不能小于 0')
+      .max(1, '语义检索权重不能超过 1'),
+    keywordWeight: z
+      .number({ message: '全文检索权重不能为空' })
+      .min(0, '全文检索权重不能小于 0')
+      .max(1, '全文检索权重不能超过 1'),
+    fusionMethod: z.nativeEnum(FusionMethod, {
+      message: '融合方式应为 weighted_score 或 rrf',
+    }),
+  })
+  .refine((data) => data.semanticWeight + data.keywordWeight > 0, {
+    message: '语义检索与全文检索的权重不能同时为 0',
+  });
+
+/**
+ * 重排序配置 schema
+ */
+const rerankConfigSchema = z.object({
+  enable: z.boolean({ message: '是否启用重排序不能为空' }),
+  topN: z
+    .number({ message: '重排序数量不能为空' })
+    .int('重排序数量必须是整数')
+    .min(1, '重排序数量不能小于 1')
+    .max(10, '重排序数量不能超过 10'),
+  score: z
+    .number({ message: '重排序分数不能为空' })
+    .min(0, '重排序分数不能小于 0')
+    .max(1, '重排序分数不能超过 1'),
+});
+
+/**
+ * 检索策略 schema
+ */
+const retrievalStrategySchema = z.nativeEnum(RetrievalStrategy, {
+  message: '检索策略应为 full_text、semantic 或 hybrid',
+});
+
+/**
+ * 召回数量 schema，1-10之间的整数
+ */
+const kSchema = z
+  .number({ message: '召回数量不能为空' })
+  .min(1, '召回数量不能小于 1')
+  .max(10, '召回数量不能超过 10');
+
+/**
+ * 相似度分数阈值 schema，0-0.99之间的数值
+ */
+const scoreSchema = z
+  .number({ message: '相似度分数不能为空' })
+  .min(0, '相似度分数不能小于 0')
+  .max(0.99, '相似度分数不能超过 0.99');
+
+/**
+ * 知识库检索配置 schema
+ * 召回测试未传递的检索参数使用知识库的配置，元数据过滤表达式在所有检索中只作用于该知识库的片段
+ *
+ * @property {RetrievalStrategy} retrievalStrategy - 检索策略
+ * @property {number} k - 召回数量，1-10之间的整数
+ * @property {number} score - 相似度分数阈值，0-0.99之间的数值
+ * @property {Object|null} hybrid - 混合检索配置，为 null 时两种检索权重相等并使用倒数排名融合
+ * @property {Object|null} rerank - 重排序配置，为 null 时不进行重排序
+ * @property {Object|null} filter - 元数据过滤表达式，为 null 时不过滤
+ */
+export const datasetRetrievalConfigSchema = z.object({
+  retrievalStrategy: retrievalStrategySchema,
+  k: kSchema,
+  score: scoreSchema,
+  hybrid: hybridConfigSchema.nullable().default(null),
+  rerank: rerankConfigSchema.nullable().default(null),
+  filter: metadataFilterSchema.nullable().default(null),
+});
+
 /**
  * 创建数据集的请求 schema
  * 用于验证创建新数据集时的请求参数
@@ -31,6 +113,7 @@ export const getDatasetListReqSchema = searchPageReqSchema;
  * @property {string} name - 知识库名称，必填，1-100字符
  * @property {string} icon - 知识库图标URL，必填，必须是有效的URL
  * @property {string} [description] - 知识库描述，可选，最大2000字符，默认为空字符串
+ * @property {Object} [retrievalConfig] - 知识库检索配置，可选，未传递时使用默认检索配置
  */
 export const createDatasetReqSchema = z.object({
   // 数据集名称验证：必填，长度1-100字符
@@ -48,6 +131,9 @@ export const createDatasetReqSchema = z.object({
     .max(2000, '知识库描述不能超过 2000 个字符')
     .optional()
     .default(''),
+
+  // 检索配置验证：可选，未传递时使用默认检索配置
+  retrievalConfig: datasetRetrievalConfigSchema.optional(),
 });
 
 /**
@@ -58,6 +144,7 @@ export const createDatasetReqSchema = z.object({
  * @property {string} name - 知识库名称，必填，1-100字符
  * @property {string} icon - 知识库图标URL，必填，必须是有效的URL
  * @property {string} [description] - 知识库描述，可选，最大2000字符，默认为空字符串
+ * @property {Object} [retrievalConfig] - 知识库检索配置，可选，未传递时保持原有的检索配置
  */
 export const updateDatasetReqSchema = z.object({
   // 数据集名称验证：必填，长度1-100字符
@@ -75,16 +162,27 @@ export const updateDatasetReqSchema = z.object({
     .max(2000, '知识库描述不能超过 2000 个字符')
     .optional()
     .default(''),
+
+  // 检索配置验证：可选，未传递时保持原有的检索配置
+  retrievalConfig: datasetRetrievalConfigSchema.optional(),
 });
 
 /**
  * 数据集检索（hit）的请求 schema
- * 用于验证在数据集中进行文档检索时的请求参数
+ * 用于验证在数据集中进行文档检索时的请求参数，未传递的检索参数使用知识库的检索配置
  *
  * @property {string} query - 查询词，必填，1-200字符
- * @property {RetrievalStrategy} retrievalStrategy - 检索策略，必填，枚举值
- * @property {number} k - 召回数量，必填，1-10之间的整数
- * @property {number} score - 相似度分数阈值，必填，0-0.99之间的数值
+ * @property {RetrievalStrategy} retrievalStrategy - 检索策略，可选，枚举值
+ * @property {number} k - 召回数量，可选，1-10之间的整数
+ * @property {number} score - 相似度分数阈值，可选，0-0.99之间的数值
+ * @property {Object} hybrid - 混合检索配置，可选，检索策略为 hybrid 时生效
+ * @property {number} hybrid.semanticWeight - 语义检索权重，0-1之间的数值
+ * @property {number} hybrid.keywordWeight - 全文检索权重，0-1之间的数值
+ * @property {FusionMethod} hybrid.fusionMethod - 融合方式，枚举值
+ * @property {Object} rerank - 重排序配置，可选
+ * @property {boolean} rerank.enable - 是否启用重排序
+ * @property {number} rerank.topN - 重排序后保留的片段数量，1-10之间的整数
+ * @property {number} rerank.score - 重排序分数阈值，0-1之间的数值
  */
 export const hitDatasetReqSchema = z.object({
   // 查询词验证：必填，长度1-200字符
@@ -93,22 +191,23 @@ export const hitDatasetReqSchema = z.object({
     .min(1, '查询词不能为空')
     .max(200, '查询词不能超过 200 个字符'),
 
-  // 检索策略验证：必填，必须是预定义的枚举值
-  retrievalStrategy: z.nativeEnum(RetrievalStrategy, {
-    message: '检索策略应为 full_text、semantic 或 hybrid',
-  }),
+  // 检索策略验证：可选，未传递时使用知识库的检索配置
+  retrievalStrategy: retrievalStrategySchema.optional(),
 
-  // 召回数量验证：必填，1-10之间的整数
-  k: z
-    .number({ message: '召回数量不能为空' })
-    .min(1, '召回数量不能小于 1')
-    .max(10, '召回数量不能超过 10'),
+  // 召回数量验证：可选，未传递时使用知识库的检索配置
+  k: kSchema.optional(),
 
-  // 相似度分数阈值验证：必填，0-0.99之间的数值
-  score: z
-    .number({ message: '相似度分数不能为空' })
-    .min(0, '相似度分数不能小于 0')
-    .max(0.99, '相似度分数不能超过 0.99'),
+  // 相似度分数阈值验证：可选，未传递时使用知识库的检索配置
+  score: scoreSchema.optional(),
+
+  // 混合检索配置验证：可选，未传递时使用知识库的检索配置
+  hybrid: hybridConfigSchema.optional(),
+
+  // 重排序配置验证：可选，未传递时使用知识库的检索配置
+  rerank: rerankConfigSchema.optional(),
+
+  // 元数据过滤验证：可选，与知识库检索配置中的过滤表达式同时生效
+  filter: metadataFilterSchema.optional(),
 });
 
 /**
@@ -6,6 +6,7 @@
  * 2. 文档创建请求参数验证
  * 3. 文档处理规则配置验证
  * 4. 文档更新操作参数验证
+ * 5. 文档元数据与元数据过滤条件验证
  *
  * 主要包含以下功能：
  * - 文档处理类型定义（自动/自定义）
@@ -15,7 +16,13 @@
  * - 文档状态管理
  */
 
-import { DEFAULT_PROCESS_RULE, type DocumentStatus } from '@/lib/entity';
+import {
+  DEFAULT_DOCUMENT_METADATA,
+  DEFAULT_PROCESS_RULE,
+  type DocumentStatus,
+  METADATA_FILTER_OPERATORS,
+  MetadataFilterOperator,
+} from '@/lib/entity';
 import { z } from 'zod';
 import { searchPageReqSchema } from './common-schema';
 
@@ -57,6 +64,123 @@ export enum PreProcessRuleId {
   RemoveUrlAndEmail = 'remove_url_and_email',
 }
 
+/**
+ * 文档元数据 Schema
+ *
+ * @remarks
+ * 元数据会同步到文档的所有片段，用于检索时按元数据过滤
+ * - 标签最多 10 个，自动去除空白并去重
+ * - 日期格式为 YYYY-MM-DD，空字符串表示未设置
+ */
+export const documentMetadataSchema = z.object({
+  /** 标签列表 */
+  tags: z
+    .array(
+      z
+        .string()
+        .trim()
+        .min(1, '标签不能为空')
+        .max(50, '标签不能超过 50 个字符'),
+    )
+    .max(10, '最多只能设置 10 个标签')
+    .transform((tags) => [...new Set(tags)]) // 去重
+    .default(DEFAULT_DOCUMENT_METADATA.tags),
+  /** 文档来源 */
+  source: z
+    .string()
+    .trim()
+    .max(100, '文档来源不能超过 100 个字符')
+    .default(DEFAULT_DOCUMENT_METADATA.source),
+  /** 所属部门 */
+  department: z
+    .string()
+    .trim()
+    .max(100, '所属部门不能超过 100 个字符')
+    .default(DEFAULT_DOCUMENT_METADATA.department),
+  /** 文档日期 */
+  date: z
+    .string()
+    .regex(/^(\d{4}-\d{2}-\d{2})?$/, '文档日期格式应为 YYYY-MM-DD')
+    .refine((date) => date === '' || !Number.isNaN(Date.parse(date)), {
+      message: '文档日期无效',
+    })
+    .default(DEFAULT_DOCUMENT_METADATA.date),
+});
+
+/**
+ * 元数据过滤条件 Schema
+ *
+ * @remarks
+ * 多个条件按 logic 组合，每个条件可用的运算符由字段决定：
+ * - tags: contains_any、contains_all，值为字符串数组
+ * - source、department: eq、ne 的值为字符串，in 的值为字符串数组
+ * - date: eq、gt、gte、lt、lte，值为 YYYY-MM-DD 格式的日期
+ */
+export const metadataFilterSchema = z.object({
+  /** 条件组合方式 */
+  logic: z.enum(['and', 'or'], { message: '条件组合方式应为 and 或 or' }),
+  /** 过滤条件列表，1-10 个 */
+  conditions: z
+    .array(
+      z
+        .object({
+          field: z.enum(['tags', 'source', 'department', 'date'], {
+            message: '过滤字段应为 tags、source、department 或 date',
+          }),
+          operator: z.nativeEnum(MetadataFilterOperator, {
+            message: '过滤运算符无效',
+          }),
+          value: z.union([z.string(), z.array(z.string()).min(1)], {
+            message: '过滤值应为字符串或非空字符串数组',
+          }),
+        })
+        .superRefine((condition, ctx) => {
+          if (
+            !METADATA_FILTER_OPERATORS[condition.field].includes(
+              condition.operator,
+            )
+          ) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: `字段 ${condition.field} 不支持运算符 ${condition.operator}`,
+              path: ['operator'],
+            });
+            return;
+          }
+
+          const expectArray = [
+            MetadataFilterOperator.IN,
+            MetadataFilterOperator.CONTAINS_ANY,
+            MetadataFilterOperator.CONTAINS_ALL,
+          ].includes(condition.operator);
+          if (expectArray !== Array.isArray(condition.value)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: expectArray
+                ? `运算符 ${condition.operator} 的过滤值应为字符串数组`
+                : `运算符 ${condition.operator} 的过滤值应为字符串`,
+              path: ['value'],
+            });
+            return;
+          }
+
+          if (
+            condition.field === 'date' &&
+            (typeof condition.value !== 'string' ||
+              !/^\d{4}-\d{2}-\d{2}$/.test(condition.value))
+          ) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: '日期过滤值格式应为 YYYY-MM-DD',
+              path: ['value'],
+            });
+          }
+        }),
+    )
+    .min(1, '至少需要一个过滤条件')
+    .max(10, '最多只能设置 10 个过滤条件'),
+});
+
 /**
  * 创建文档的请求参数 Schema
  *
@@ -65,6 +189,7 @@ export enum PreProcessRuleId {
  * 1. 上传文件列表（1-10个文件）
  * 2. 处理类型（自动/自定义）
  * 3. 自定义处理规则配置（可选）
+ * 4. 文档元数据（可选），应用到本次上传的所有文档
  *
  * 特点：
  * - 自动去重文件ID
@@ -179,6 +304,12 @@ export const createDocumentReqSchema = z
           ),
       })
       .optional(),
+
+    /**
+     * 文档元数据
+     * 未传递时使用空的元数据
+     */
+    metadata: documentMetadataSchema.default(DEFAULT_DOCUMENT_METADATA),
   })
   .transform((data) => {
     // 如果是自动处理模式，使用默认规则
@@ -264,3 +395,14 @@ export const updateDocumentEnabledReqSchema = z.object({
   /** 文档是否启用 */
   enabled: z.boolean({ message: '文档状态不能为空' }),
 });
+
+/**
+ * 更新文档元数据的请求参数 Schema
+ *
+ * @remarks
+ * 用于验证文档元数据的整体替换操作，未传递的字段会被重置为默认值
+ */
+export const updateDocumentMetadataReqSchema = z.object({
+  /** 新的文档元数据 */
+  metadata: documentMetadataSchema,
+});
@@ -0,0 +1,42 @@
+/**
+ * 消息反馈相关的请求验证模式
+ * 包含提交消息反馈和获取应用反馈列表等接口的请求验证
+ */
+import { FeedbackRating, FeedbackSource } from '@/lib/entity';
+import { z } from 'zod';
+import { pageReqSchema } from './common-schema';
+
+/**
+ * 提交消息反馈的请求验证模式
+ * @property {FeedbackRating | null} rating - 评价类型，为 null 时撤销已提交的反馈
+ * @property {string} content - 反馈意见，最多 1000 个字符，默认为空
+ */
+export const messageFeedbackReqSchema = z.object({
+  rating: z.nativeEnum(FeedbackRating, { message: '评价类型错误' }).nullable(),
+  content: z
+    .string()
+    .max(1000, { message: '反馈意见不能超过1000个字符' })
+    .optional()
+    .default(''),
+});
+
+export type MessageFeedbackReq = z.infer<typeof messageFeedbackReqSchema>;
+
+/**
+ * 分页获取应用消息反馈列表的请求验证模式
+ * 继承自 pageReqSchema，并添加了评价类型和反馈来源过滤
+ * @property {FeedbackRating} [rating] - 可选的评价类型过滤
+ * @property {FeedbackSource} [fromSource] - 可选的反馈来源过滤
+ */
+export const getFeedbacksReqSchema = pageReqSchema.extend({
+  rating: z
+    .nativeEnum(FeedbackRating, { message: '评价类型错误' })
+    .nullable()
+    .optional(),
+  fromSource: z
+    .nativeEnum(FeedbackSource, { message: '反馈来源错误' })
+    .nullable()
+    .optional(),
+});
+
+export type GetFeedbacksReq = z.infer<typeof getFeedbacksReqSchema>;
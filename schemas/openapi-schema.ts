@@ -9,10 +9,17 @@
  * 2. 更新现有 API Key 的信息
  * 3. 更新 API Key 的激活状态
  * 4. 获取 API Key 列表
+ * 5. 开放 API 聊天
+ * 6. 终端用户会话管理
+ * 7. 终端用户消息反馈
+ * 8. 终端用户审批工具调用
  */
 
+import { MAX_MESSAGE_IMAGE_COUNT } from '@/lib/entity';
 import { z } from 'zod';
+import { approveConversationTaskReqSchema } from './app-schema';
 import { pageReqSchema } from './common-schema';
+import { messageFeedbackReqSchema } from './feedback-schema';
 
 /**
  * 创建 API Key 的请求验证 schema
@@ -75,3 +82,220 @@ export const updateApiKeyIsActiveReqSchema = z.object({
  * @throws {ZodError} 当分页参数不符合验证规则时抛出错误
  */
 export const getApiKeyListReqSchema = pageReqSchema;
+
+/**
+ * 开放 API 聊天的请求验证 schema
+ *
+ * @property {string} appId - 需要对话的已发布应用 ID
+ * @property {string} [endUserId] - 终端用户 ID，为空时自动创建新的终端用户
+ * @property {string} [conversationId] - 会话 ID，为空时自动创建新的会话
+ * @property {string} query - 用户提问内容，最大长度 2000 字符
+ * @property {string[]} imageUrls - 通过图片上传接口上传的图片 URL 列表，默认为空
+ * @property {boolean} stream - 是否使用流式事件响应，默认为 true
+ * @property {string} [regenerateMessageId] - 可选的原消息 ID，传递时重新生成该消息的回答或使用新的提问重新发送，必须同时传递会话 ID
+ *
+ * @throws {ZodError} 当请求数据不符合验证规则时抛出错误
+ */
+export const openapiChatReqSchema = z
+  .object({
+    appId: z.string().uuid({
+      message: '应用ID格式错误',
+    }),
+    endUserId: z
+      .string()
+      .uuid({
+        message: '终端用户ID格式错误',
+      })
+      .optional(),
+    conversationId: z
+      .string()
+      .uuid({
+        message: '会话ID格式错误',
+      })
+      .optional(),
+    query: z
+      .string()
+      .min(1, {
+        message: '提问内容不能为空',
+      })
+      .max(2000, {
+        message: '提问内容不能超过2000个字符',
+      }),
+    imageUrls: z
+      .array(
+        z.string().url({
+          message: '图片地址格式错误',
+        }),
+      )
+      .max(MAX_MESSAGE_IMAGE_COUNT, {
+        message: `最多附带${MAX_MESSAGE_IMAGE_COUNT}张图片`,
+      })
+      .default([]),
+    stream: z.boolean().default(true),
+    regenerateMessageId: z
+      .string()
+      .uuid({
+        message: '消息ID格式错误',
+      })
+      .optional(),
+  })
+  .refine((data) => !data.regenerateMessageId || data.conversationId, {
+    message: '重新生成消息时会话ID不能为空',
+    path: ['conversationId'],
+  });
+
+export type OpenapiChatReq = z.infer<typeof openapiChatReqSchema>;
+
+/**
+ * 终端用户 ID 验证 schema
+ */
+const endUserIdSchema = z.string().uuid({
+  message: '终端用户ID格式错误',
+});
+
+/**
+ * 终端用户会话操作的请求验证 schema
+ *
+ * @property {string} endUserId - 会话所属的终端用户 ID
+ *
+ * @throws {ZodError} 当请求数据不符合验证规则时抛出错误
+ */
+export const endUserConversationReqSchema = z.object({
+  endUserId: endUserIdSchema,
+});
+
+/**
+ * 分页获取终端用户会话列表的请求验证 schema
+ *
+ * 继承自 pageReqSchema，并添加了终端用户和置顶状态过滤
+ *
+ * @property {string} endUserId - 终端用户 ID
+ * @property {boolean} [isPinned] - 可选的置顶状态过滤，为空时返回全部会话
+ *
+ * @throws {ZodError} 当请求数据不符合验证规则时抛出错误
+ */
+export const getEndUserConversationsReqSchema = pageReqSchema.extend({
+  endUserId: endUserIdSchema,
+  isPinned: z.boolean().nullable().optional(),
+});
+
+export type GetEndUserConversationsReq = z.infer<
+  typeof getEndUserConversationsReqSchema
+>;
+
+/**
+ * 分页获取终端用户会话消息的请求验证 schema
+ *
+ * 继承自 pageReqSchema，并添加了终端用户和时间戳过滤
+ *
+ * @property {string} endUserId - 会话所属的终端用户 ID
+ * @property {number} [createdAt] - 可选的时间戳游标，用于过滤指定时间之前的消息
+ *
+ * @throws {ZodError} 当请求数据不符合验证规则时抛出错误
+ */
+export const getEndUserConversationMessagesReqSchema = pageReqSchema.extend({
+  endUserId: endUserIdSchema,
+  createdAt: z.number().nullable().optional(),
+});
+
+export type GetEndUserConversationMessagesReq = z.infer<
+  typeof getEndUserConversationMessagesReqSchema
+>;
+
+/**
+ * 修改终端用户会话名称的请求验证 schema
+ *
+ * @property {string} endUserId - 会话所属的终端用户 ID
+ * @property {string} name - 新的会话名称，1-100 个字符
+ *
+ * @throws {ZodError} 当请求数据不符合验证规则时抛出错误
+ */
+export const updateEndUserConversationNameReqSchema = z.object({
+  endUserId: endUserIdSchema,
+  name: z
+    .string()
+    .trim()
+    .min(1, {
+      message: '会话名称不能为空',
+    })
+    .max(100, {
+      message: '会话名称不能超过100个字符',
+    }),
+});
+
+/**
+ * 修改终端用户会话置顶状态的请求验证 schema
+ *
+ * @property {string} endUserId - 会话所属的终端用户 ID
+ * @property {boolean} isPinned - 是否置顶会话
+ *
+ * @throws {ZodError} 当请求数据不符合验证规则时抛出错误
+ */
+export const updateEndUserConversationIsPinnedReqSchema = z.object({
+  endUserId: endUserIdSchema,
+  isPinned: z.boolean({
+    message: '是否置顶不能为空',
+  }),
+});
+
+/**
+ * 终端用户提交消息反馈的请求验证 schema
+ *
+ * 继承自 messageFeedbackReqSchema，并添加了终端用户 ID
+ *
+ * @property {string} endUserId - 消息所属的终端用户 ID
+ * @property {string | null} rating - 评价类型，like 或 dislike，为 null 时撤销已提交的反馈
+ * @property {string} [content] - 反馈意见，最多 1000 个字符
+ *
+ * @throws {ZodError} 当请求数据不符合验证规则时抛出错误
+ */
+export const endUserMessageFeedbackReqSchema = messageFeedbackReqSchema.extend({
+  endUserId: endUserIdSchema,
+});
+
+/**
+ * 终端用户审批工具调用的请求验证 schema
+ *
+ * 继承自 approveConversationTaskReqSchema，并添加了终端用户 ID
+ *
+ * @property {string} endUserId - 任务所属的终端用户 ID
+ * @property {boolean} approved - 是否批准执行工具调用
+ * @property {Array<{id: string, args: Record<string, any>}>} [toolCalls] - 修改后的工具调用参数，只需要传递修改过参数的工具调用
+ * @property {string} [reason] - 拒绝原因，最多500个字符
+ *
+ * @throws {ZodError} 当请求数据不符合验证规则时抛出错误
+ */
+export const approveEndUserChatTaskReqSchema =
+  approveConversationTaskReqSchema.extend({
+    endUserId: endUserIdSchema,
+  });
+
+export type ApproveEndUserChatTaskReq = z.infer<
+  typeof approveEndUserChatTaskReqSchema
+>;
+
+/**
+ * 终端用户长期记忆操作的请求验证 schema
+ *
+ * @property {string} endUserId - 记忆所属的终端用户 ID
+ *
+ * @throws {ZodError} 当请求数据不符合验证规则时抛出错误
+ */
+export const endUserMemoryReqSchema = z.object({
+  endUserId: endUserIdSchema,
+});
+
+/**
+ * 分页获取终端用户长期记忆的请求验证 schema
+ *
+ * 继承自 pageReqSchema，并添加了终端用户过滤
+ *
+ * @property {string} endUserId - 记忆所属的终端用户 ID
+ *
+ * @throws {ZodError} 当请求数据不符合验证规则时抛出错误
+ */
+export const getEndUserMemoriesReqSchema = pageReqSchema.extend({
+  endUserId: endUserIdSchema,
+});
+
+export type GetEndUserMemoriesReq = z.infer<typeof getEndUserMemoriesReqSchema>;
@@ -0,0 +1,345 @@
+/**
+ * 工作流相关的 Zod schema 定义
+ * 包含以下 schema:
+ * - variableEntitySchema: 节点变量定义
+ * - workflowNodeSchema: 工作流节点定义，按节点类型区分节点数据
+ * - workflowEdgeSchema: 工作流连线定义
+ * - workflowGraphSchema: 工作流图定义
+ * - createWorkflowReqSchema: 创建工作流的请求验证
+ * - updateWorkflowReqSchema: 更新工作流的请求验证
+ * - getWorkflowListReqSchema: 获取工作流列表的请求验证
+ * - updateDraftGraphReqSchema: 更新工作流草稿图的请求验证
+ * - debugWorkflowReqSchema: 调试工作流的请求验证
+ */
+
+import { RetrievalStrategy, WorkflowStatus } from '@/lib/entity';
+import {
+  ComparisonOperator,
+  HttpRequestInputType,
+  NodeType,
+  VariableType,
+  VariableValueType,
+} from '@/lib/workflow/entity';
+import { z } from 'zod';
+import { searchPageReqSchema } from './common-schema';
+import { metadataFilterSchema } from './document-schema';
+
+/**
+ * 变量名称规则，必须以字母或下划线开头，只能包含字母、数字和下划线
+ */
+const VARIABLE_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * 节点变量定义 schema
+ * @property {string} name - 变量名称
+ * @property {string} description - 变量描述
+ * @property {boolean} required - 变量是否必填
+ * @property {string} type - 变量类型：'string'|'int'|'float'|'boolean'
+ * @property {Object} value - 变量值
+ * @property {string} value.type - 变量值类型：字面量、引用或节点生成
+ * @property {unknown} value.content - 字面量的值，或引用的节点ID与变量名称
+ * @property {Object} meta - 变量的扩展信息，例如 HTTP 请求节点中变量所在的位置
+ */
+export const variableEntitySchema = z.object({
+  name: z
+    .string()
+    .regex(
+      VARIABLE_NAME_REGEX,
+      '变量名称只能包含字母、数字和下划线，且不能以数字开头',
+    )
+    .max(255, '变量名称不能超过 255 个字符'),
+  description: z.string().max(1024, '变量描述不能超过 1024 个字符').default(''),
+  required: z.boolean().default(true),
+  type: z.nativeEnum(VariableType, { message: '变量类型错误' }),
+  value: z
+    .discriminatedUnion('type', [
+      z.object({
+        type: z.literal(VariableValueType.LITERAL),
+        content: z.union([z.string(), z.number(), z.boolean()]),
+      }),
+      z.object({
+        type: z.literal(VariableValueType.REF),
+        content: z.object({
+          refNodeId: z.string().uuid('引用的节点ID格式不正确'),
+          refVarName: z.string().min(1, '引用的变量名称不能为空'),
+        }),
+      }),
+      z.object({
+        type: z.literal(VariableValueType.GENERATED),
+        content: z.string().default(''),
+      }),
+    ])
+    .default({ type: VariableValueType.GENERATED, content: '' }),
+  meta: z.record(z.string(), z.unknown()).default({}),
+});
+
+/**
+ * 节点公共字段
+ * @property {string} id - 节点ID，uuid 格式
+ * @property {string} title - 节点标题
+ * @property {string} description - 节点描述
+ * @property {Object} position - 节点在画布上的位置
+ */
+const baseNodeSchema = z.object({
+  id: z.string().uuid('节点ID格式不正确'),
+  title: z
+    .string()
+    .min(1, '节点标题不能为空')
+    .max(255, '节点标题不能超过 255 个字符'),
+  description: z.string().max(1024, '节点描述不能超过 1024 个字符').default(''),
+  position: z
+    .object({
+      x: z.number(),
+      y: z.number(),
+    })
+    .default({ x: 0, y: 0 }),
+});
+
+/**
+ * 开始节点数据，inputs 为工作流的输入变量定义
+ */
+export const startNodeDataSchema = baseNodeSchema.extend({
+  type: z.literal(NodeType.START),
+  inputs: z.array(variableEntitySchema).default([]),
+});
+
+/**
+ * 结束节点数据，outputs 为工作流的输出变量，值必须引用前置节点或为字面量
+ */
+export const endNodeDataSchema = baseNodeSchema.extend({
+  type: z.literal(NodeType.END),
+  outputs: z.array(variableEntitySchema).default([]),
+});
+
+/**
+ * 大语言模型节点数据
+ * @property {string} prompt - 提示词模板，使用 {{变量名}} 引用输入变量
+ * @property {Object} modelConfig - 模型配置
+ */
+export const llmNodeDataSchema = baseNodeSchema.extend({
+  type: z.literal(NodeType.LLM),
+  prompt: z
+    .string()
+    .min(1, '提示词不能为空')
+    .max(2000, '提示词不能超过 2000 个字符'),
+  modelConfig: z.object({
+    provider: z.string().min(1, '模型提供商不能为空'),
+    model: z.string().min(1, '模型名称不能为空'),
+    parameters: z.record(z.string(), z.number()).default({}),
+  }),
+  inputs: z.array(variableEntitySchema).default([]),
+});
+
+/**
+ * 知识库检索节点数据，inputs 中必须包含名为 query 的检索语句变量
+ * 可以通过 retrievalConfig.filter 按文档元数据过滤检索结果
+ */
+export const datasetRetrievalNodeDataSchema = baseNodeSchema.extend({
+  type: z.literal(NodeType.DATASET_RETRIEVAL),
+  datasetIds: z
+    .array(z.string().uuid('知识库ID格式不正确'))
+    .min(1, '至少需要选择一个知识库')
+    .max(5, '最多支持选择5个知识库'),
+  retrievalConfig: z.object({
+    retrievalStrategy: z.nativeEnum(RetrievalStrategy, {
+      message: '检索策略无效: 仅支持全文、语义或混合检索',
+    }),
+    k: z
+      .number()
+      .int()
+      .min(1, '召回数量设置无效: 请输入1-10之间的整数')
+      .max(10, '召回数量设置无效: 请输入1-10之间的整数'),
+    score: z
+      .number()
+      .min(0, '匹配度阈值无效: 请输入0-1之间的小数')
+      .max(1, '匹配度阈值无效: 请输入0-1之间的小数'),
+    filter: metadataFilterSchema.nullable().default(null),
+  }),
+  inputs: z.array(variableEntitySchema).default([]),
+});
+
+/**
+ * 代码节点数据
+ * @property {string} code - JavaScript 代码，必须定义 main 函数，接收输入变量对象并返回输出变量对象
+ * @property {Array} outputs - 代码返回的输出变量定义
+ */
+export const codeNodeDataSchema = baseNodeSchema.extend({
+  type: z.literal(NodeType.CODE),
+  code: z
+    .string()
+    .min(1, '代码不能为空')
+    .max(10000, '代码不能超过 10000 个字符'),
+  inputs: z.array(variableEntitySchema).default([]),
+  outputs: z.array(variableEntitySchema).default([]),
+});
+
+/**
+ * HTTP 请求节点数据
+ * 输入变量通过 meta.type 指定所在的位置：params、headers 或 body
+ */
+export const httpRequestNodeDataSchema = baseNodeSchema.extend({
+  type: z.literal(NodeType.HTTP_REQUEST),
+  url: z.string().url('请求地址格式不正确'),
+  method: z.enum(['get', 'post', 'put', 'patch', 'delete', 'head', 'options'], {
+    message: '请求方法错误',
+  }),
+  inputs: z
+    .array(
+      variableEntitySchema.extend({
+        meta: z.object({
+          type: z.nativeEnum(HttpRequestInputType, {
+            message: 'HTTP 请求变量位置错误',
+          }),
+        }),
+      }),
+    )
+    .default([]),
+});
+
+/**
+ * 模板转换节点数据，template 中使用 {{变量名}} 引用输入变量
+ */
+export const templateTransformNodeDataSchema = baseNodeSchema.extend({
+  type: z.literal(NodeType.TEMPLATE_TRANSFORM),
+  template: z.string().max(10000, '模板不能超过 10000 个字符'),
+  inputs: z.array(variableEntitySchema).default([]),
+});
+
+/**
+ * 扩展插件节点数据
+ * @property {string} toolType - 插件类型：内置插件或 API 插件
+ * @property {string} providerId - 插件提供者ID
+ * @property {string} toolId - 插件ID
+ * @property {Object} params - 内置插件的配置参数
+ */
+export const toolNodeDataSchema = baseNodeSchema.extend({
+  type: z.literal(NodeType.TOOL),
+  toolType: z.enum(['builtin_tool', 'api_tool'], {
+    message: '插件类型错误: 仅支持内置插件或API插件',
+  }),
+  providerId: z.string().min(1, '插件提供者ID不能为空'),
+  toolId: z.string().min(1, '插件ID不能为空'),
+  params: z.record(z.string(), z.unknown()).default({}),
+  inputs: z.array(variableEntitySchema).default([]),
+});
+
+/**
+ * 条件分支节点数据
+ * 条件的左值为引用变量，右值为字面量字符串，根据 logicalOperator 组合所有条件的结果，
+ * 结果为 true 时走 sourceHandle 为 true 的连线，否则走 sourceHandle 为 false 的连线
+ */
+export const ifElseNodeDataSchema = baseNodeSchema.extend({
+  type: z.literal(NodeType.IF_ELSE),
+  logicalOperator: z.enum(['and', 'or']).default('and'),
+  conditions: z
+    .array(
+      z.object({
+        variable: variableEntitySchema,
+        operator: z.nativeEnum(ComparisonOperator, {
+          message: '条件运算符错误',
+        }),
+        value: z.string().default(''),
+      }),
+    )
+    .min(1, '至少需要一个条件')
+    .max(10, '最多支持10个条件'),
+});
+
+/**
+ * 工作流节点 schema，根据 type 区分不同的节点数据
+ */
+export const workflowNodeSchema = z.discriminatedUnion('type', [
+  startNodeDataSchema,
+  endNodeDataSchema,
+  llmNodeDataSchema,
+  datasetRetrievalNodeDataSchema,
+  codeNodeDataSchema,
+  httpRequestNodeDataSchema,
+  templateTransformNodeDataSchema,
+  toolNodeDataSchema,
+  ifElseNodeDataSchema,
+]);
+
+/**
+ * 工作流连线 schema
+ * @property {string} id - 连线ID
+ * @property {string} source - 起点节点ID
+ * @property {string} target - 终点节点ID
+ * @property {string} [sourceHandle] - 起点节点的出口标识，条件分支节点为 'true' 或 'false'
+ */
+export const workflowEdgeSchema = z.object({
+  id: z.string().uuid('连线ID格式不正确'),
+  source: z.string().uuid('连线起点节点ID格式不正确'),
+  target: z.string().uuid('连线终点节点ID格式不正确'),
+  sourceHandle: z.string().nullable().optional(),
+});
+
+/**
+ * 工作流图 schema
+ */
+export const workflowGraphSchema = z.object({
+  nodes: z.array(workflowNodeSchema).max(100, '节点数量不能超过 100 个'),
+  edges: z.array(workflowEdgeSchema).max(500, '连线数量不能超过 500 条'),
+});
+
+/**
+ * 创建工作流的请求验证 schema
+ * @property {string} name - 工作流名称，1-50个字符
+ * @property {string} toolCallName - 工具调用名称，绑定到应用时作为工具名称，只能包含字母、数字和下划线
+ * @property {string} icon - 工作流图标URL
+ * @property {string} description - 工作流描述，绑定到应用时作为工具描述
+ */
+export const createWorkflowReqSchema = z.object({
+  name: z
+    .string()
+    .min(1, '工作流名称不能为空')
+    .max(50, '工作流名称不能超过 50 个字符'),
+  toolCallName: z
+    .string()
+    .regex(
+      VARIABLE_NAME_REGEX,
+      '工具调用名称只能包含字母、数字和下划线，且不能以数字开头',
+    )
+    .max(50, '工具调用名称不能超过 50 个字符'),
+  icon: z.string().url('图标 URL 地址格式不正确'),
+  description: z
+    .string()
+    .min(1, '工作流描述不能为空')
+    .max(1024, '工作流描述不能超过 1024 个字符'),
+});
+
+export type CreateWorkflowReq = z.infer<typeof createWorkflowReqSchema>;
+
+/**
+ * 更新工作流的请求验证 schema，字段与创建工作流相同
+ */
+export const updateWorkflowReqSchema = createWorkflowReqSchema;
+
+export type UpdateWorkflowReq = z.infer<typeof updateWorkflowReqSchema>;
+
+/**
+ * 获取工作流列表的请求验证 schema
+ * 继承自通用的分页搜索 schema，并支持按状态筛选
+ */
+export const getWorkflowListReqSchema = searchPageReqSchema.extend({
+  status: z.nativeEnum(WorkflowStatus).nullable().optional(),
+});
+
+export type GetWorkflowListReq = z.infer<typeof getWorkflowListReqSchema>;
+
+/**
+ * 更新工作流草稿图的请求验证 schema
+ */
+export const updateDraftGraphReqSchema = workflowGraphSchema;
+
+export type UpdateDraftGraphReq = z.infer<typeof updateDraftGraphReqSchema>;
+
+/**
+ * 调试工作流的请求验证 schema
+ * @property {Object} inputs - 工作流的输入变量，与开始节点的输入定义对应
+ */
+export const debugWorkflowReqSchema = z.object({
+  inputs: z.record(z.string(), z.unknown()).default({}),
+});
+
+export type DebugWorkflowReq = z.infer<typeof debugWorkflowReqSchema>;
@@ -11,10 +11,10 @@
 import { NotFoundException } from '@/exceptions';
 import { db } from '@/lib/db';
 import { message } from '@/lib/db/schema';
+import { createDefaultChatModel } from '@/lib/llm';
 import { log } from '@/lib/logger';
 import { StringOutputParser } from '@langchain/core/output_parsers';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
-import { ChatOpenAI } from '@langchain/openai';
 import { and, eq } from 'drizzle-orm';
 import z from 'zod';
 
@@ -101,15 +101,8 @@ export const optimizePrompt = async (prompt: string) => {
     ['human', '{prompt}'],
   ]);
 
-  // 初始化OpenAI聊天模型
-  const llm = new ChatOpenAI({
-    model: 'gpt-4o-mini',
-    apiKey: process.env.OPENAI_API_KEY,
-    configuration: {
-      baseURL: process.env.OPENAI_API_URL,
-    },
-    temperature: 0.5, // 设置适中的创造性，平衡一致性和创新性
-  });
+  // 初始化默认聊天模型，设置适中的创造性，平衡一致性和创新性
+  const llm = createDefaultChatModel({ temperature: 0.5 });
 
   // 构建处理链：模板 -> LLM -> 字符串解析器
   const chain = promptTemplate.pipe(llm).pipe(new StringOutputParser());
@@ -187,14 +180,10 @@ export const generateSuggestedQuestions = async (
   ]);
 
   // 初始化带结构化输出的LLM
-  const llm = new ChatOpenAI({
-    model: 'gpt-4o-mini',
-    apiKey: process.env.OPENAI_API_KEY,
-    configuration: {
-      baseURL: process.env.OPENAI_API_URL,
-    },
-    temperature: 0.5, // 适中的创造性，确保问题相关且多样化
-  }).withStructuredOutput(suggestedQuestionsOutput); // 使用结构化输出确保返回格式正确
+  // 适中的创造性，确保问题相关且多样化，使用结构化输出确保返回格式正确
+  const llm = createDefaultChatModel({ temperature: 0.5 }).withStructuredOutput(
+    suggestedQuestionsOutput,
+  );
 
   // 构建处理链并执行
   const chain = prompt.pipe(llm);
@@ -0,0 +1,243 @@
+/**
+ * 标注回复服务
+ *
+ * 该模块提供了应用标注的管理功能，包括：
+ * - 标注的创建、更新、删除和分页查询
+ * - 标注问题的向量存储，用于匹配相似的提问
+ *
+ * 应用启用标注回复后，与标注问题相似的提问会直接返回标注的回答，不再调用模型。
+ * 标注可以由应用所有者手动创建，也可以基于已有的消息创建。
+ */
+
+import { InternalServerErrorException, NotFoundException } from '@/exceptions';
+import { db } from '@/lib/db';
+import { message, messageAnnotation } from '@/lib/db/schema';
+import { cacheBackedEmbeddings } from '@/lib/embedding';
+import { log } from '@/lib/logger';
+import { calculatePagination, paginationResult } from '@/lib/paginator';
+import {
+  annotationVectorStore,
+  annotationVectorStoreCollection,
+} from '@/lib/vector-store';
+import type {
+  CreateAnnotationReq,
+  UpdateAnnotationReq,
+} from '@/schemas/annotation-schema';
+import type { SearchPageReq } from '@/schemas/common-schema';
+import { getAppOrThrow } from '@/services/app';
+import { Document } from '@langchain/core/documents';
+import { and, count, desc, eq, like, or } from 'drizzle-orm';
+
+/**
+ * 获取应用的标注，如果不存在则抛出异常
+ * @param appId - 应用ID
+ * @param annotationId - 标注ID
+ * @returns 标注记录
+ * @throws {NotFoundException} 当标注不存在时
+ */
+const getAnnotationOrThrow = async (appId: string, annotationId: string) => {
+  const annotationRecords = await db
+    .select()
+    .from(messageAnnotation)
+    .where(
+      and(
+        eq(messageAnnotation.id, annotationId),
+        eq(messageAnnotation.appId, appId),
+      ),
+    );
+  if (annotationRecords.length === 0) {
+    throw new NotFoundException('标注不存在');
+  }
+  return annotationRecords[0];
+};
+
+/**
+ * 分页获取应用的标注列表
+ * @param appId - 应用ID
+ * @param userId - 用户ID
+ * @param pageReq - 分页请求参数，搜索词模糊匹配标注的问题和回答
+ * @returns 分页后的标注列表
+ * @throws {NotFoundException} 当应用不存在时
+ */
+export const getAnnotationListByPage = async (
+  appId: string,
+  userId: string,
+  pageReq: SearchPageReq,
+) => {
+  await getAppOrThrow(appId, userId);
+  const { offset, limit } = calculatePagination(pageReq);
+
+  const conditions = [eq(messageAnnotation.appId, appId)];
+  if (pageReq.searchWord) {
+    const searchCondition = or(
+      like(messageAnnotation.question, `%${pageReq.searchWord}%`),
+      like(messageAnnotation.answer, `%${pageReq.searchWord}%`),
+    );
+    if (searchCondition) {
+      conditions.push(searchCondition);
+    }
+  }
+  const where = and(...conditions);
+
+  const listQuery = db
+    .select()
+    .from(messageAnnotation)
+    .where(where)
+    .orderBy(desc(messageAnnotation.createdAt))
+    .limit(limit)
+    .offset(offset);
+
+  const totalQuery = db
+    .select({ count: count() })
+    .from(messageAnnotation)
+    .where(where);
+
+  const [list, total] = await Promise.all([listQuery, totalQuery]);
+
+  const formattedList = list.map((item) => ({
+    id: item.id,
+    messageId: item.messageId ?? '',
+    question: item.question,
+    answer: item.answer,
+    hitCount: item.hitCount,
+    createdAt: item.createdAt.getTime(),
+    updatedAt: item.updatedAt.getTime(),
+  }));
+
+  return paginationResult(formattedList, total[0].count, pageReq);
+};
+
+/**
+ * 创建标注
+ *
+ * 标注记录创建后将标注问题写入向量存储，写入失败时删除标注记录。
+ *
+ * @param appId - 应用ID
+ * @param userId - 用户ID
+ * @param req - 创建标注的请求参数，包含问题、回答和可选的来源消息ID
+ * @returns 新创建的标注ID
+ * @throws {NotFoundException} 当应用或来源消息不存在时
+ * @throws {InternalServerErrorException} 当写入向量存储失败时
+ */
+export const createAnnotation = async (
+  appId: string,
+  userId: string,
+  req: CreateAnnotationReq,
+) => {
+  await getAppOrThrow(appId, userId);
+
+  if (req.messageId) {
+    const messageRecords = await db
+      .select({ id: message.id })
+      .from(message)
+      .where(and(eq(message.id, req.messageId), eq(message.appId, appId)));
+    if (messageRecords.length === 0) {
+      throw new NotFoundException('消息不存在');
+    }
+  }
+
+  const annotationRecords = await db
+    .insert(messageAnnotation)
+    .values({
+      appId,
+      messageId: req.messageId ?? null,
+      question: req.question,
+      answer: req.answer,
+      createdBy: userId,
+    })
+    .returning();
+  const annotationRecord = annotationRecords[0];
+
+  try {
+    await annotationVectorStore.addDocuments(
+      [
+        new Document({
+          pageContent: req.question,
+          metadata: {
+            app_id: appId,
+            annotation_id: annotationRecord.id,
+          },
+        }),
+      ],
+      {
+        ids: [annotationRecord.id],
+      },
+    );
+  } catch (error) {
+    log.error('Create annotation vector failed, error: %o', error);
+    await db
+      .delete(messageAnnotation)
+      .where(eq(messageAnnotation.id, annotationRecord.id));
+    throw new InternalServerErrorException('创建标注失败');
+  }
+
+  return annotationRecord.id;
+};
+
+/**
+ * 更新标注
+ *
+ * 标注问题发生变化时同步更新向量存储中的问题文本与向量。
+ *
+ * @param appId - 应用ID
+ * @param userId - 用户ID
+ * @param annotationId - 标注ID
+ * @param req - 更新标注的请求参数，包含问题和回答
+ * @throws {NotFoundException} 当应用或标注不存在时
+ * @throws {InternalServerErrorException} 当更新向量存储失败时
+ */
+export const updateAnnotation = async (
+  appId: string,
+  userId: string,
+  annotationId: string,
+  req: UpdateAnnotationReq,
+) => {
+  await getAppOrThrow(appId, userId);
+  const annotationRecord = await getAnnotationOrThrow(appId, annotationId);
+
+  if (annotationRecord.question !== req.question) {
+    try {
+      await annotationVectorStoreCollection().data.update({
+        id: annotationId,
+        properties: {
+          text: req.question,
+        },
+        vectors: await cacheBackedEmbeddings.embedQuery(req.question),
+      });
+    } catch (error) {
+      log.error('Update annotation vector failed, error: %o', error);
+      throw new InternalServerErrorException('更新标注失败');
+    }
+  }
+
+  await db
+    .update(messageAnnotation)
+    .set({
+      question: req.question,
+      answer: req.answer,
+    })
+    .where(eq(messageAnnotation.id, annotationId));
+};
+
+/**
+ * 删除标注
+ * @param appId - 应用ID
+ * @param userId - 用户ID
+ * @param annotationId - 标注ID
+ * @throws {NotFoundException} 当应用或标注不存在时
+ */
+export const deleteAnnotation = async (
+  appId: string,
+  userId: string,
+  annotationId: string,
+) => {
+  await getAppOrThrow(appId, userId);
+  await getAnnotationOrThrow(appId, annotationId);
+
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(messageAnnotation)
+      .where(eq(messageAnnotation.id, annotationId));
+    await annotationVectorStoreCollection().data.deleteById(annotationId);
+  });
+};
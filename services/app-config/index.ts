@@ -4,12 +4,23 @@
  * 该模块负责处理应用配置相关的功能，包括：
  * - 验证和处理工具配置（内置工具和API工具）
  * - 验证和处理数据集配置
+ * - 验证和处理模型配置
+ * - 验证和处理工作流配置
  * - 获取和更新草稿应用配置
  * - 配置数据的转换和验证
- * - 将工具配置转换为LangChain工具实例
+ * - 将工具配置和工作流配置转换为LangChain工具实例
  */
 
-import { NotFoundException } from '@/exceptions';
+import { BadRequestException, NotFoundException } from '@/exceptions';
+import { createStructuredOutputSchema } from '@/lib/agent/structured-output';
+import { withToolApproval } from '@/lib/agent/tool-approval';
+import {
+  TOOL_POLICY_PARAM_KEY,
+  isIdempotentMethod,
+  parseToolPolicyConfig,
+  toolPolicyConfigSchema,
+  withToolPolicy,
+} from '@/lib/agent/tool-policy';
 import { db } from '@/lib/db';
 import {
   apiTool,
@@ -19,17 +30,25 @@ import {
   appConfigVersion,
   appDatasetJoin,
   dataset,
+  workflow,
 } from '@/lib/db/schema';
 import {
   AppConfigType,
   AppStatus,
   type DraftAppConfig,
   type ModelConfig,
+  WorkflowStatus,
 } from '@/lib/entity';
+import {
+  ModelFeature,
+  getLanguageModelOrThrow,
+  normalizeModelParameters,
+} from '@/lib/llm';
 import { log } from '@/lib/logger';
 import { calculatePagination, paginationResult } from '@/lib/paginator';
 import { getBuiltinTool, getBuiltinToolProvider } from '@/lib/tools';
 import { createApiTool } from '@/lib/tools/api-tool';
+import { createWorkflowTool } from '@/lib/workflow/workflow-tool';
 import type {
   GetAppPublishHistoriesReq,
   UpdateDraftAppConfigReq,
@@ -80,14 +99,19 @@ const processValidateTools = async (originalTools: DraftAppConfig['tools']) => {
         continue;
       }
 
+      // 工具执行策略不属于工具参数，单独验证
+      const { [TOOL_POLICY_PARAM_KEY]: policyConfig, ...inputParams } =
+        tool.params;
+      const policy = parseToolPolicyConfig(policyConfig);
+
       // 验证工具参数是否匹配
       const toolParamNames = new Set(
         toolEntity.params.map((param) => param.name),
       );
-      const inputToolParamNames = new Set(Object.keys(tool.params));
+      const inputToolParamNames = new Set(Object.keys(inputParams));
       const diff = inputToolParamNames.difference(toolParamNames);
 
-      let params = tool.params;
+      let params = inputParams;
       // 如果参数不匹配，使用默认参数
       if (diff.size > 0) {
         log.warn(`Builtin tool params not match: ${tool.toolId} ${diff.size}`);
@@ -103,6 +127,9 @@ const processValidateTools = async (originalTools: DraftAppConfig['tools']) => {
           {} as Record<string, unknown>,
         );
       }
+      if (policy) {
+        params = { ...params, [TOOL_POLICY_PARAM_KEY]: policy };
+      }
 
       // 添加到验证工具列表
       validateTools.push({
@@ -165,8 +192,17 @@ const processValidateTools = async (originalTools: DraftAppConfig['tools']) => {
 
       const toolProvider = toolProviderRecords[0];
 
+      // API工具只支持配置工具执行策略
+      const policy = parseToolPolicyConfig(tool.params[TOOL_POLICY_PARAM_KEY]);
+      const params: Record<string, unknown> = policy
+        ? { [TOOL_POLICY_PARAM_KEY]: policy }
+        : {};
+
       // 添加到验证工具列表
-      validateTools.push(tool);
+      validateTools.push({
+        ...tool,
+        params,
+      });
 
       // 添加到详细工具信息列表
       tools.push({
@@ -183,7 +219,7 @@ const processValidateTools = async (originalTools: DraftAppConfig['tools']) => {
           name: toolEntity.name,
           label: toolEntity.name,
           description: toolEntity.description,
-          params: {},
+          params,
         },
       });
     }
@@ -251,6 +287,157 @@ const processValidateDatasets = async (
   };
 };
 
+/**
+ * 验证和处理工作流配置
+ *
+ * 该函数验证应用配置中的工作流ID列表：
+ * - 检查工作流是否存在且属于当前账号
+ * - 过滤掉不存在或未发布的工作流ID
+ * - 返回验证后的工作流ID列表和详细的工作流信息
+ *
+ * @param originalWorkflows - 原始工作流ID列表
+ * @param userId - 用户ID，工作流只能绑定当前账号下的工作流
+ * @returns 包含验证工作流ID列表和工作流详情列表的对象
+ *   - validateWorkflows: 验证后的工作流ID列表
+ *   - workflows: 详细的工作流信息，包含ID、名称、图标、描述和工具调用名称
+ */
+const processValidateWorkflows = async (
+  originalWorkflows: DraftAppConfig['workflows'],
+  userId: string,
+) => {
+  log.info('Start to process validate workflows');
+  if (originalWorkflows.length === 0) {
+    return {
+      validateWorkflows: [],
+      workflows: [],
+    };
+  }
+
+  // 从数据库批量查询已发布的工作流记录
+  const workflowRecords = await db
+    .select()
+    .from(workflow)
+    .where(
+      and(
+        inArray(workflow.id, originalWorkflows),
+        eq(workflow.userId, userId),
+        eq(workflow.status, WorkflowStatus.PUBLISHED),
+      ),
+    );
+
+  const workflowMap = new Map(
+    workflowRecords.map((record) => [record.id, record]),
+  );
+
+  // 过滤出存在且已发布的工作流ID
+  const validateWorkflows = originalWorkflows.filter((workflowId) =>
+    workflowMap.has(workflowId),
+  );
+
+  const workflows = validateWorkflows.map((workflowId) => {
+    const workflowRecord = workflowMap.get(
+      workflowId,
+    ) as typeof workflow.$inferSelect;
+    return {
+      id: workflowRecord.id,
+      name: workflowRecord.name,
+      icon: workflowRecord.icon,
+      description: workflowRecord.description,
+      toolCallName: workflowRecord.toolCallName,
+    };
+  });
+
+  return {
+    validateWorkflows,
+    workflows,
+  };
+};
+
+/**
+ * 已发布的应用配置记录类型
+ */
+type AppConfigRecord = typeof appConfig.$inferSelect;
+
+/**
+ * 验证和处理模型配置
+ *
+ * 该函数验证应用配置中的模型配置：
+ * - 检查模型提供商和模型是否存在于模型注册表中
+ * - 按模型的参数定义规范化参数，缺失的参数使用默认值
+ *
+ * @param modelConfig - 原始模型配置
+ * @returns 验证后的模型配置
+ * @throws {BadRequestException} 当模型提供商或模型不存在时抛出异常
+ */
+const processValidateModelConfig = (modelConfig: ModelConfig) => {
+  log.info('Start to process validate model config');
+  const { provider, model } = getLanguageModelOrThrow(modelConfig);
+
+  return {
+    provider: provider.name,
+    model: model.model,
+    parameters: normalizeModelParameters(model, modelConfig.parameters),
+  } as ModelConfig;
+};
+
+/**
+ * 验证结构化输出配置
+ *
+ * 该函数验证应用配置中的结构化输出配置：
+ * - 检查 JSON Schema 是否能转换为 Zod 验证模式
+ * - 检查模型是否支持原生工具调用，结构化输出依赖工具调用强制模型按 JSON Schema 输出
+ *
+ * @param structuredOutput - 结构化输出配置
+ * @param modelConfig - 验证后的模型配置
+ * @throws {BadRequestException} 当 JSON Schema 无效或模型不支持工具调用时抛出异常
+ */
+const processValidateStructuredOutput = (
+  structuredOutput: DraftAppConfig['structuredOutput'],
+  modelConfig: ModelConfig,
+) => {
+  if (!structuredOutput.enable) {
+    return;
+  }
+
+  try {
+    createStructuredOutputSchema(structuredOutput.schema);
+  } catch (error) {
+    log.warn('Invalid structured output schema: %o', error);
+    throw new BadRequestException(
+      `结构化输出配置无效: ${(error as Error).message}`,
+    );
+  }
+
+  const { model } = getLanguageModelOrThrow(modelConfig);
+  if (!model.features.includes(ModelFeature.TOOL_CALL)) {
+    throw new BadRequestException('结构化输出配置无效: 模型不支持工具调用');
+  }
+};
+
+/**
+ * 验证工具执行策略配置
+ *
+ * 工具执行策略配置在 `tools[].params.policy` 中，保存草稿配置时拒绝无效的策略配置，
+ * 避免无效配置在运行时被忽略
+ *
+ * @param tools - 草稿应用配置中的工具列表
+ * @throws {BadRequestException} 当工具执行策略配置无效时抛出异常
+ */
+const processValidateToolPolicies = (tools: DraftAppConfig['tools']) => {
+  for (const tool of tools) {
+    const policyConfig = tool.params[TOOL_POLICY_PARAM_KEY];
+    if (policyConfig === undefined || policyConfig === null) {
+      continue;
+    }
+
+    const result = toolPolicyConfigSchema.safeParse(policyConfig);
+    if (!result.success) {
+      log.warn('Invalid tool policy: %s %o', tool.toolId, result.error);
+      throw new BadRequestException(`工具执行策略配置无效: ${tool.toolId}`);
+    }
+  }
+};
+
 /**
  * 转换应用配置数据格式
  *
@@ -259,17 +446,17 @@ const processValidateDatasets = async (
  * - 转换时间戳格式
  * - 返回完整的应用配置对象
  *
- * @param appConfig - 应用配置版本记录，来自数据库
+ * @param appConfig - 应用配置版本记录或已发布的应用配置记录，来自数据库
  * @param tools - 处理后的工具详情列表
  * @param datasets - 处理后的数据集详情列表
- * @param workflows - 工作流配置
+ * @param workflows - 处理后的工作流详情列表
  * @returns 转换后的应用配置对象，包含所有配置信息和时间戳
  */
 const processTransformAppConfig = (
-  appConfig: typeof appConfigVersion.$inferSelect,
+  appConfig: typeof appConfigVersion.$inferSelect | AppConfigRecord,
   tools: Awaited<ReturnType<typeof processValidateTools>>['tools'],
   datasets: Awaited<ReturnType<typeof processValidateDatasets>>['datasets'],
-  workflows: unknown,
+  workflows: Awaited<ReturnType<typeof processValidateWorkflows>>['workflows'],
 ) => {
   return {
     id: appConfig.id,
@@ -281,12 +468,15 @@ const processTransformAppConfig = (
     workflows: workflows,
     retrievalConfig: appConfig.retrievalConfig,
     longTermMemory: appConfig.longTermMemory,
+    memoryConfig: appConfig.memoryConfig,
     openingStatement: appConfig.openingStatement,
     openingQuestions: appConfig.openingQuestions,
     speechToText: appConfig.speechToText,
     textToSpeech: appConfig.textToSpeech,
     suggestedAfterAnswer: appConfig.suggestedAfterAnswer,
     reviewConfig: appConfig.reviewConfig,
+    structuredOutput: appConfig.structuredOutput,
+    annotationReply: appConfig.annotationReply,
     createdAt: appConfig.createdAt.getTime(),
     updatedAt: appConfig.updatedAt.getTime(),
   } as Omit<DraftAppConfig, 'tools' | 'datasets' | 'workflows'> & {
@@ -344,13 +534,13 @@ export const getDraftAppConfigFromDBOrThrow = async (
  * 该函数获取应用的草稿配置并进行验证：
  * - 验证应用权限
  * - 获取草稿配置记录
- * - 验证工具和数据集配置
+ * - 验证工具、数据集和工作流配置
  * - 如果验证结果与存储的配置不一致，则更新数据库
  * - 返回处理后的完整配置
  *
  * @param appId - 应用ID
  * @param userId - 用户ID，用于权限验证
- * @returns 处理后的应用草稿配置，包含验证后的工具和数据集信息
+ * @returns 处理后的应用草稿配置，包含验证后的工具、数据集和工作流信息
  */
 export const getDraftAppConfig = async (appId: string, userId: string) => {
   // 获取应用记录并验证权限
@@ -389,15 +579,86 @@ export const getDraftAppConfig = async (appId: string, userId: string) => {
       .where(eq(appConfigVersion.id, draftAppConfig.id));
   }
 
-  // TODO: validate workflows
-
-  // 返回转换后的完整配置
-  return processTransformAppConfig(
-    draftAppConfig,
-    tools,
-    datasets,
+  // 验证工作流配置
+  const { validateWorkflows, workflows } = await processValidateWorkflows(
     draftAppConfig.workflows,
+    userId,
   );
+
+  // 如果验证结果与存储的配置不一致，更新数据库
+  if (!isEqual(validateWorkflows, draftAppConfig.workflows)) {
+    log.warn('Validate workflows not match');
+    await db
+      .update(appConfigVersion)
+      .set({
+        workflows: validateWorkflows,
+      })
+      .where(eq(appConfigVersion.id, draftAppConfig.id));
+  }
+
+  // 返回转换后的完整配置
+  return processTransformAppConfig(draftAppConfig, tools, datasets, workflows);
+};
+
+/**
+ * 获取应用已发布的运行配置
+ *
+ * 该函数获取应用当前发布的配置，供服务 API 等外部调用使用：
+ * - 验证应用是否已发布
+ * - 从数据库查询已发布的应用配置记录
+ * - 验证工具和工作流配置，并从应用数据集关联表中加载数据集
+ * - 返回处理后的完整配置
+ *
+ * @param appRecord - 应用记录，包含已发布配置ID
+ * @throws {BadRequestException} 当应用未发布时抛出异常
+ * @throws {NotFoundException} 当已发布配置不存在时抛出异常
+ * @returns 处理后的应用发布配置，包含验证后的工具和数据集信息
+ */
+export const getPublishedAppConfig = async (
+  appRecord: typeof app.$inferSelect,
+) => {
+  const appConfigId = appRecord.appConfigId;
+  if (appRecord.status !== AppStatus.PUBLISHED || !appConfigId) {
+    throw new BadRequestException('应用未发布');
+  }
+
+  // 并行查询发布配置记录和数据集关联记录
+  const appConfigQuery = db
+    .select()
+    .from(appConfig)
+    .where(
+      and(eq(appConfig.id, appConfigId), eq(appConfig.appId, appRecord.id)),
+    );
+
+  const appDatasetJoinQuery = db
+    .select({ datasetId: appDatasetJoin.datasetId })
+    .from(appDatasetJoin)
+    .where(eq(appDatasetJoin.appId, appRecord.id));
+
+  const [appConfigRecords, appDatasetJoinRecords] = await Promise.all([
+    appConfigQuery,
+    appDatasetJoinQuery,
+  ]);
+
+  if (appConfigRecords.length === 0) {
+    throw new NotFoundException('应用发布配置不存在');
+  }
+
+  const appConfigRecord = appConfigRecords[0];
+
+  // 验证工具、数据集和工作流配置
+  const [{ tools }, { datasets }, { workflows }] = await Promise.all([
+    processValidateTools(appConfigRecord.tools as DraftAppConfig['tools']),
+    processValidateDatasets(
+      appDatasetJoinRecords.map((record) => record.datasetId),
+    ),
+    processValidateWorkflows(
+      appConfigRecord.workflows as DraftAppConfig['workflows'],
+      appRecord.userId,
+    ),
+  ]);
+
+  return processTransformAppConfig(appConfigRecord, tools, datasets, workflows);
 };
 
 /**
@@ -406,31 +667,48 @@ export const getDraftAppConfig = async (appId: string, userId: string) => {
  * 该函数对草稿应用配置进行全面的验证和清理：
  * - 并行验证工具配置，确保所有工具都存在且参数正确
  * - 并行验证数据集配置，过滤掉不存在的数据集
+ * - 并行验证工作流配置，过滤掉不存在或未发布的工作流
+ * - 验证模型配置，拒绝未注册的模型提供商和模型
+ * - 验证结构化输出配置，拒绝无效的 JSON Schema 和不支持工具调用的模型
+ * - 验证工具执行策略配置，拒绝无效的策略配置
  * - 记录验证过程的详细日志信息
  * - 返回验证后的完整配置对象
  *
  * @param config - 待验证的草稿应用配置
- * @returns 验证后的草稿应用配置，包含清理后的工具和数据集列表
+ * @param userId - 用户ID，用于验证工作流的归属
+ * @returns 验证后的草稿应用配置，包含清理后的工具、数据集和工作流列表
+ * @throws {BadRequestException} 当模型提供商或模型不存在、结构化输出配置或工具执行策略配置无效时抛出异常
  */
-export const validateDraftAppConfig = async (config: DraftAppConfig) => {
-  // 并行验证工具和数据集配置以提高性能
-  const [{ validateTools }, { validateDatasets }] = await Promise.all([
-    processValidateTools(config.tools),
-    processValidateDatasets(config.datasets),
-  ]);
+export const validateDraftAppConfig = async (
+  config: DraftAppConfig,
+  userId: string,
+) => {
+  // TODO: Zod issue https://github.com/colinhacks/zod/issues/3730
+  const modelConfig = processValidateModelConfig(
+    config.modelConfig as ModelConfig,
+  );
+  processValidateStructuredOutput(config.structuredOutput, modelConfig);
+  processValidateToolPolicies(config.tools);
+
+  // 并行验证工具、数据集和工作流配置以提高性能
+  const [{ validateTools }, { validateDatasets }, { validateWorkflows }] =
+    await Promise.all([
+      processValidateTools(config.tools),
+      processValidateDatasets(config.datasets),
+      processValidateWorkflows(config.workflows, userId),
+    ]);
 
   log.info('Validate tools: %o', validateTools);
   log.info('Validate datasets: %o', validateDatasets);
-  // TODO: validate workflows
+  log.info('Validate workflows: %o', validateWorkflows);
 
   // 构建新的草稿配置对象，使用验证后的数据
   const newDraftAppConfig: DraftAppConfig = {
     ...config,
     tools: validateTools,
     datasets: validateDatasets,
-    // TODO: Zod issue https://github.com/colinhacks/zod/issues/3730
-    modelConfig: config.modelConfig as ModelConfig,
-    workflows: config.workflows,
+    modelConfig,
+    workflows: validateWorkflows,
   };
   log.info('New draft app config: %o', newDraftAppConfig);
 
@@ -465,11 +743,13 @@ export const updateDraftAppConfig = async (
   }
 
   // TODO: Zod issue https://github.com/colinhacks/zod/issues/3730
-  const newDraftAppConfig = await validateDraftAppConfig({
-    ...req,
-    modelConfig: req.modelConfig as ModelConfig,
-    workflows: req.workflows,
-  });
+  const newDraftAppConfig = await validateDraftAppConfig(
+    {
+      ...req,
+      modelConfig: req.modelConfig as ModelConfig,
+    },
+    userId,
+  );
   // 更新数据库中的草稿配置
   await db
     .update(appConfigVersion)
@@ -485,15 +765,20 @@ export const updateDraftAppConfig = async (
  * 该函数将应用配置中的工具配置转换为LangChain可用的工具实例：
  * - 处理内置工具：获取工具函数并传入参数
  * - 处理API工具：从数据库获取工具信息并创建API工具实例
+ * - 处理工作流：加载已发布的工作流并包装为工具实例
  * - 返回LangChain工具数组，可直接用于AI对话
  *
  * @param toolConfig - 工具配置列表，包含工具类型、提供者、工具和参数信息
- * @param userId - 用户ID，用于查询用户特定的API工具
+ * @param userId - 用户ID，用于查询用户特定的API工具和工作流
+ * @param workflowConfig - 工作流配置列表，默认为空
  * @returns LangChain工具数组，可直接用于AI对话系统
  */
 export const getLangchainToolsByToolConfig = async (
   toolConfig: ReturnType<typeof processTransformAppConfig>['tools'],
   userId: string,
+  workflowConfig: ReturnType<
+    typeof processTransformAppConfig
+  >['workflows'] = [],
 ) => {
   const tools: StructuredTool[] = [];
 
@@ -515,9 +800,15 @@ export const getLangchainToolsByToolConfig = async (
         continue;
       }
 
-      // 创建工具函数实例并添加到工具列表
+      // 创建工具函数实例并添加到工具列表，只有标记为幂等的内置工具失败后允许重试
+      const { [TOOL_POLICY_PARAM_KEY]: policyConfig, ...params } =
+        tool.tool.params;
       const toolFn = toolEntity.fn;
-      tools.push(toolFn(tool.tool.params));
+      tools.push(
+        withToolPolicy(toolFn(params), parseToolPolicyConfig(policyConfig), {
+          idempotent: toolEntity.idempotent ?? false,
+        }),
+      );
     }
 
     // 处理API工具
@@ -549,10 +840,41 @@ export const getLangchainToolsByToolConfig = async (
       }
 
       // 创建API工具实例并添加到工具列表
+      // 修改外部状态的请求方法需要审批，只有幂等请求方法允许重试，同一提供者下的工具共享熔断状态
       const apiToolRecord = apiToolRecords[0];
       const apiToolProviderRecord = apiToolProviderRecords[0];
       const toolFn = createApiTool(apiToolRecord, apiToolProviderRecord);
-      tools.push(toolFn);
+      withToolApproval(toolFn, apiToolRecord.method);
+      tools.push(
+        withToolPolicy(
+          toolFn,
+          parseToolPolicyConfig(tool.tool.params[TOOL_POLICY_PARAM_KEY]),
+          {
+            idempotent: isIdempotentMethod(apiToolRecord.method),
+            circuitKey: apiToolProviderRecord.id,
+          },
+        ),
+      );
+    }
+  }
+
+  // 处理工作流，只加载仍处于发布状态的工作流
+  if (workflowConfig.length > 0) {
+    const workflowRecords = await db
+      .select()
+      .from(workflow)
+      .where(
+        and(
+          inArray(
+            workflow.id,
+            workflowConfig.map((workflowItem) => workflowItem.id),
+          ),
+          eq(workflow.userId, userId),
+          eq(workflow.status, WorkflowStatus.PUBLISHED),
+        ),
+      );
+    for (const workflowRecord of workflowRecords) {
+      tools.push(createWorkflowTool(workflowRecord));
     }
   }
 
@@ -594,15 +916,20 @@ export const publishAppConfig = async (appId: string, userId: string) => {
           toolId: toolItem.tool.id,
           params: toolItem.tool.params,
         })),
-        workflows: draftAppConfig.workflows,
+        workflows: draftAppConfig.workflows.map(
+          (workflowItem) => workflowItem.id,
+        ),
         retrievalConfig: draftAppConfig.retrievalConfig,
         longTermMemory: draftAppConfig.longTermMemory,
+        memoryConfig: draftAppConfig.memoryConfig,
         openingStatement: draftAppConfig.openingStatement,
         openingQuestions: draftAppConfig.openingQuestions,
         speechToText: draftAppConfig.speechToText,
         textToSpeech: draftAppConfig.textToSpeech,
         suggestedAfterAnswer: draftAppConfig.suggestedAfterAnswer,
         reviewConfig: draftAppConfig.reviewConfig,
+        structuredOutput: draftAppConfig.structuredOutput,
+        annotationReply: draftAppConfig.annotationReply,
       })
       .returning();
     const appConfigRecord = appConfigRecords[0];
@@ -657,12 +984,15 @@ export const publishAppConfig = async (appId: string, userId: string) => {
       workflows: dbDraftAppConfigs[0].workflows,
       retrievalConfig: dbDraftAppConfigs[0].retrievalConfig,
       longTermMemory: dbDraftAppConfigs[0].longTermMemory,
+      memoryConfig: dbDraftAppConfigs[0].memoryConfig,
       openingStatement: dbDraftAppConfigs[0].openingStatement,
       openingQuestions: dbDraftAppConfigs[0].openingQuestions,
       speechToText: dbDraftAppConfigs[0].speechToText,
       textToSpeech: dbDraftAppConfigs[0].textToSpeech,
       suggestedAfterAnswer: dbDraftAppConfigs[0].suggestedAfterAnswer,
       reviewConfig: dbDraftAppConfigs[0].reviewConfig,
+      structuredOutput: dbDraftAppConfigs[0].structuredOutput,
+      annotationReply: dbDraftAppConfigs[0].annotationReply,
       version: maxVersion + 1,
       configType: AppConfigType.PUBLISHED,
     });
@@ -780,6 +1110,7 @@ export const fallbackAppConfig = async (
   const appConfigVersionRecord = appConfigVersionRecords[0];
   const newDraftAppConfig = await validateDraftAppConfig(
     appConfigVersionRecord as DraftAppConfig,
+    userId,
   );
 
   // 更新草稿配置记录
@@ -9,27 +9,45 @@
  * - 应用对话摘要的获取和更新
  * - 应用调试聊天功能
  * - 应用调试对话管理（停止任务、获取消息历史、删除对话）
+ * - 应用调试任务在队列 worker 中运行，事件流的转发与重新连接
  * - 应用发布状态管理（取消发布）
  */
 
 import { randomUUID } from 'node:crypto';
 import { BadRequestException, NotFoundException } from '@/exceptions';
+import { createAgent, invokeAgent, resumeAgent } from '@/lib/agent';
+import { agentCheckpointer } from '@/lib/agent/checkpointer';
 import {
   type AgentThought,
   QueueEvent,
+  TASK_TIMEOUT,
   createAgentConfig,
+  createAgentThought,
+  createErrorAgentThought,
 } from '@/lib/agent/entity';
 import {
   createEventProcessor,
+  mergeAgentThought,
   wrapEmitWithPing,
 } from '@/lib/agent/event-processor';
-import { createFunctionCallAgent } from '@/lib/agent/function-call-agent';
 import {
   clearTaskBelongCache,
   doTaskBelongCheck,
   setStopFlag,
   setTaskBelongCache,
 } from '@/lib/agent/helper';
+import {
+  type TaskEventMessage,
+  type TaskRunContext,
+  appendTaskEvent,
+  getTaskEvents,
+  getTaskRunContext,
+  markTaskFinished,
+  setTaskRunContext,
+  subscribeTaskEvents,
+} from '@/lib/agent/task-events';
+import { submitToolApprovalDecision } from '@/lib/agent/tool-approval';
+import type { ToolPolicyOutcome } from '@/lib/agent/tool-policy';
 import { db } from '@/lib/db';
 import {
   app,
@@ -43,17 +61,31 @@ import {
 import {
   AppConfigType,
   AppStatus,
+  type Citation,
   DEFAULT_APP_CONFIG,
   InvokeFrom,
   MessageStatus,
   type ModelConfig,
   RetrievalSource,
 } from '@/lib/entity';
+import {
+  createChatModel,
+  createHumanMessage,
+  getLanguageModelOrThrow,
+  validateImageInput,
+} from '@/lib/llm';
 import { log } from '@/lib/logger';
-import { createTokenBufferMemory } from '@/lib/memory/token-buffer-memory';
+import { loadConversationMemory } from '@/lib/memory';
 import { calculatePagination, paginationResult } from '@/lib/paginator';
+import {
+  type DebugChatTaskData,
+  debugChatAsyncTask,
+} from '@/lib/queues/chat-queue';
 import { createLangchainToolForDataset } from '@/lib/retriever';
+import { createAnnotationReplyRetriever } from '@/lib/retriever/annotation-retriever';
+import { createUserMemoryRetriever } from '@/lib/retriever/user-memory-retriever';
 import type {
+  ApproveConversationTaskReq,
   CreateAppReq,
   GetConversationMessagesReq,
   UpdateAppReq,
@@ -65,11 +97,11 @@ import {
   getLangchainToolsByToolConfig,
 } from '@/services/app-config';
 import {
+  getNewMessageParentId,
   getOrCreateDebugConversation,
   saveAgentThoughts,
 } from '@/services/conversation';
-import { HumanMessage } from '@langchain/core/messages';
-import { ChatOpenAI } from '@langchain/openai';
+import { validateImageUrls } from '@/services/upload-file';
 import { and, asc, count, desc, eq, inArray, like, lte, ne } from 'drizzle-orm';
 
 /**
@@ -408,12 +440,15 @@ export const copyApp = async (userId: string, appId: string) => {
         datasets: draftAppConfig.datasets, // 复制数据集配置，保持知识库访问权限
         retrievalConfig: draftAppConfig.retrievalConfig, // 复制检索配置（相似度阈值、检索数量等）
         longTermMemory: draftAppConfig.longTermMemory, // 复制长期记忆配置
+        memoryConfig: draftAppConfig.memoryConfig, // 复制对话记忆配置
         openingStatement: draftAppConfig.openingStatement, // 复制开场白，保持用户体验一致
         openingQuestions: draftAppConfig.openingQuestions, // 复制开场问题，保持交互引导一致
         speechToText: draftAppConfig.speechToText, // 复制语音转文字配置
         textToSpeech: draftAppConfig.textToSpeech, // 复制文字转语音配置
         suggestedAfterAnswer: draftAppConfig.suggestedAfterAnswer, // 复制建议问题配置
         reviewConfig: draftAppConfig.reviewConfig, // 复制审核配置，保持内容安全策略一致
+        structuredOutput: draftAppConfig.structuredOutput, // 复制结构化输出配置
+        annotationReply: draftAppConfig.annotationReply, // 复制标注回复配置，标注数据归属原应用不复制
         version: 0, // 新配置版本从0开始
         configType: AppConfigType.DRAFT, // 新配置为草稿类型
       })
@@ -519,101 +554,52 @@ export const updateAppSummary = async (
 };
 
 /**
- * 应用调试聊天功能
+ * 根据应用草稿配置创建调试智能体
  *
- * 为应用提供调试聊天功能，支持实时流式响应。
- * 该功能会创建一个AI代理来处理用户查询，并通过Server-Sent Events (SSE) 返回响应。
+ * 调试对话与恢复调试任务使用相同的方式创建智能体，
+ * 智能体使用 PostgreSQL 检查点存储，进程退出后可以从检查点恢复运行。
  *
  * @param appId - 应用ID
  * @param userId - 用户ID
- * @param query - 用户查询内容
- * @param writer - 用于写入SSE响应的流写入器
+ * @param draftAppConfig - 应用草稿配置
+ * @returns 语言模型实例、模型定义和编译后的智能体
  */
-export const debugChat = async (
+const createDebugAgent = async (
   appId: string,
   userId: string,
-  query: string,
-  writer: WritableStreamDefaultWriter,
+  draftAppConfig: Awaited<ReturnType<typeof getDraftAppConfig>>,
 ) => {
-  // 创建事件处理器和任务ID，用于处理代理的实时思考过程
-  const eventProcessor = createEventProcessor();
-  const taskId = randomUUID();
-
-  // 包装事件发射器，添加ping功能以保持WebSocket连接活跃
-  // ping机制防止长时间无数据传输导致连接断开
-  const pingEmitter = wrapEmitWithPing(
-    (event: AgentThought) => eventProcessor.emit(event),
-    taskId,
+  // 创建LLM实例，根据应用配置的模型提供商选择对应的客户端和参数
+  const llm = createChatModel(draftAppConfig.modelConfig);
+  const { model: languageModel } = getLanguageModelOrThrow(
+    draftAppConfig.modelConfig,
   );
 
-  try {
-    // 并行获取应用记录和草稿配置，提高初始化效率
-    const [appRecord, draftAppConfig] = await Promise.all([
-      getAppOrThrow(appId, userId),
-      getDraftAppConfig(appId, userId),
-    ]);
+  // 获取工具配置，包括内置工具（如天气、搜索等）和用户自定义API工具
+  const tools = await getLangchainToolsByToolConfig(
+    draftAppConfig.tools,
+    userId,
+    draftAppConfig.workflows,
+  );
 
-    // 获取或创建调试对话，确保每次调试都有独立的对话上下文
-    const conversationRecord = await getOrCreateDebugConversation(
-      appRecord.debugConversationId,
-      appId,
+  // 如果应用配置了数据集，添加数据集检索工具
+  // 数据集检索工具允许代理从配置的数据集中检索相关信息，增强回答的准确性
+  if (draftAppConfig.datasets.length > 0) {
+    const datasetRetrievalTool = createLangchainToolForDataset(
+      draftAppConfig.datasets.map((dataset) => dataset.id), // 提取所有数据集ID
       userId,
-    );
-
-    // 创建消息记录，标记为调试来源，用于后续分析和追踪
-    const messageRecord = await db
-      .insert(message)
-      .values({
-        appId,
-        conversationId: conversationRecord.id,
-        invokeFrom: InvokeFrom.DEBUGGER, // 标记调用来源为调试器
-        createdBy: userId,
-        query,
-        status: MessageStatus.NORMAL,
-      })
-      .returning();
-
-    // 创建LLM实例，使用应用配置的模型和参数
-    const llm = new ChatOpenAI({
-      model: draftAppConfig.modelConfig.model,
-      ...draftAppConfig.modelConfig.parameters, // 展开模型参数（温度、最大token等）
-      apiKey: process.env.OPENAI_API_KEY,
-      configuration: {
-        baseURL: process.env.OPENAI_API_URL, // 支持自定义API端点
+      {
+        ...draftAppConfig.retrievalConfig, // 使用应用的检索配置（相似度阈值、检索数量等）
+        retrievalSource: RetrievalSource.APP, // 标记检索来源为应用级别
       },
-    });
-
-    // 创建token缓冲区内存管理器，用于管理对话历史长度
-    // 防止历史对话过长导致token超限
-    const tokenBufferMemory = createTokenBufferMemory(conversationRecord, llm);
-    const history = await tokenBufferMemory.getHistoryPromptMessages(
-      2000, // 最大token数限制
-      draftAppConfig.dialogRound, // 对话轮数限制
     );
+    tools.push(datasetRetrievalTool);
+  }
 
-    // 获取工具配置，包括内置工具（如天气、搜索等）和用户自定义API工具
-    const tools = await getLangchainToolsByToolConfig(
-      draftAppConfig.tools,
-      userId,
-    );
-
-    // 如果应用配置了数据集，添加数据集检索工具
-    // 数据集检索工具允许代理从配置的数据集中检索相关信息，增强回答的准确性
-    if (draftAppConfig.datasets.length > 0) {
-      const datasetRetrievalTool = createLangchainToolForDataset(
-        draftAppConfig.datasets.map((dataset) => dataset.id), // 提取所有数据集ID
-        userId,
-        {
-          ...draftAppConfig.retrievalConfig, // 使用应用的检索配置（相似度阈值、检索数量等）
-          retrievalSource: RetrievalSource.APP, // 标记检索来源为应用级别
-        },
-      );
-      tools.push(datasetRetrievalTool);
-    }
-
-    // 创建函数调用代理，配置LLM、工具和代理参数
-    // 代理将根据用户查询和可用工具进行智能决策
-    const agent = createFunctionCallAgent({
+  // 创建代理，配置LLM、工具和代理参数
+  // 支持原生工具调用的模型使用函数调用代理，否则使用基于提示词的 ReAct 代理
+  const agent = createAgent(
+    {
       llm, // 语言模型实例
       agentConfig: createAgentConfig({
         userId, // 用户ID用于权限控制和资源访问
@@ -621,107 +607,444 @@ export const debugChat = async (
         reviewConfig: draftAppConfig.reviewConfig, // 审核配置，用于内容安全控制
         enableLongTermMemory: draftAppConfig.longTermMemory.enable, // 是否启用长期记忆功能
         tools, // 可用工具列表
+        modelPricing: languageModel.pricing, // 模型价格信息，用于统计每个步骤的费用
+        enableToolApproval: true, // 修改外部状态的API工具执行前需要用户审批
+        structuredOutput: draftAppConfig.structuredOutput, // 结构化输出配置，启用后最终回答需要符合 JSON Schema
+        annotationReplyRetriever: draftAppConfig.annotationReply.enable
+          ? createAnnotationReplyRetriever(
+              appId,
+              draftAppConfig.annotationReply.scoreThreshold,
+            )
+          : null, // 启用标注回复时，与标注问题相似的提问直接返回标注的回答
+        userMemoryRetriever: createUserMemoryRetriever(appId, userId), // 召回当前账号在应用中的长期记忆
       }),
-    });
+      checkpointer: agentCheckpointer, // 检查点存储，以任务ID为线程ID持久化运行状态
+    },
+    languageModel, // 模型定义，用于判断模型是否支持原生工具调用
+  );
 
-    // 用于存储代理思考过程的映射表，key为事件ID，value为思考过程对象
-    const agentThoughts = new Map<string, AgentThought>();
+  return { llm, languageModel, agent };
+};
 
-    // 设置事件处理器，处理代理的实时思考过程
-    // 这个处理器会接收代理的每个思考步骤并发送给客户端
-    eventProcessor.use(async (agentThought) => {
-      const eventId = agentThought.id;
-
-      // 跳过ping事件，ping事件仅用于保持连接活跃，不需要处理
-      if (agentThought.event !== QueueEvent.PING) {
-        if (agentThought.event === QueueEvent.AGENT_MESSAGE) {
-          // 对于代理消息事件，需要合并连续的思考内容
-          // 这是因为代理可能会分多次发送同一个消息的内容（流式响应）
-          if (!agentThoughts.has(eventId)) {
-            // 首次接收到该事件ID的思考过程，直接存储
-            agentThoughts.set(eventId, agentThought);
-          } else {
-            // 已存在该事件ID的思考过程，需要合并内容
-            let tempAgentThought = agentThoughts.get(eventId);
-            if (!tempAgentThought) {
-              log.error('Agent thought not found, eventId={%s}', eventId);
-              return;
-            }
-            // 合并思考内容和答案，确保流式响应的完整性
-            // 这样可以处理代理分块发送的长回答
-            tempAgentThought = {
-              ...tempAgentThought,
-              thought: `${tempAgentThought.thought}${agentThought.thought}`,
-              answer: `${tempAgentThought.answer}${agentThought.answer}`,
-              latency: agentThought.latency, // 使用最新的延迟时间
-            };
-            agentThoughts.set(eventId, tempAgentThought);
-          }
-        } else {
-          // 对于其他事件（如工具调用、观察等），直接存储，不需要合并
-          agentThoughts.set(eventId, agentThought);
-        }
+/**
+ * 准备应用调试聊天
+ *
+ * 在开始流式响应之前完成校验与数据准备，保证错误能够以正确的 HTTP 状态码返回：
+ * - 校验应用归属与草稿配置
+ * - 校验附带的图片，模型不支持图片输入时拒绝请求
+ * - 获取或创建调试对话，创建消息记录
+ * - 重新生成或编辑后重新发送时，新消息作为原消息的兄弟节点开启新的分支
+ * - 记录任务运行上下文与任务归属缓存，任务添加到队列之前即可停止或重新连接
+ *
+ * @param appId - 应用ID
+ * @param userId - 用户ID
+ * @param query - 用户查询内容
+ * @param imageUrls - 用户消息附带的图片URL列表
+ * @param regenerateMessageId - 需要重新生成或编辑后重新发送的原消息ID，可为undefined
+ * @returns 调试对话任务数据
+ * @throws NotFoundException 当应用或原消息不存在时
+ * @throws BadRequestException 当图片无效或模型不支持图片输入时
+ */
+export const prepareDebugChat = async (
+  appId: string,
+  userId: string,
+  query: string,
+  imageUrls: string[],
+  regenerateMessageId?: string,
+): Promise<DebugChatTaskData> => {
+  // 并行获取应用记录和草稿配置，草稿配置无效时直接返回错误
+  const [appRecord, draftAppConfig] = await Promise.all([
+    getAppOrThrow(appId, userId),
+    getDraftAppConfig(appId, userId),
+  ]);
+
+  // 校验附带的图片，以及草稿配置的模型是否支持图片输入
+  await validateImageUrls(imageUrls);
+  validateImageInput(draftAppConfig.modelConfig, imageUrls);
+
+  // 获取或创建调试对话，确保每次调试都有独立的对话上下文
+  const conversationRecord = await getOrCreateDebugConversation(
+    appRecord.debugConversationId,
+    appId,
+    userId,
+  );
+
+  // 确定新消息在消息树中的父消息，重新生成时与原消息拥有相同的父消息
+  const parentId = await getNewMessageParentId(
+    conversationRecord.id,
+    regenerateMessageId,
+  );
+
+  // 创建消息记录，标记为调试来源，用于后续分析和追踪
+  const messageRecord = await db
+    .insert(message)
+    .values({
+      appId,
+      conversationId: conversationRecord.id,
+      parentId,
+      invokeFrom: InvokeFrom.DEBUGGER, // 标记调用来源为调试器
+      createdBy: userId,
+      query,
+      imageUrls,
+      status: MessageStatus.NORMAL,
+    })
+    .returning();
+
+  const data = {
+    taskId: randomUUID(),
+    appId,
+    userId,
+    conversationId: conversationRecord.id,
+    messageId: messageRecord[0].id,
+    query,
+    imageUrls,
+  };
+
+  // 设置任务归属缓存，用于任务权限控制和停止功能
+  // 记录任务运行上下文，用于客户端重新连接事件流
+  await Promise.all([
+    setTaskBelongCache(data.taskId, InvokeFrom.DEBUGGER, userId),
+    setTaskRunContext(data.taskId, {
+      appId,
+      userId,
+      conversationId: data.conversationId,
+      messageId: data.messageId,
+      finished: false,
+    }),
+  ]);
+
+  return data;
+};
+
+/**
+ * 应用调试聊天功能
+ *
+ * 为应用提供调试聊天功能，支持实时流式响应。
+ * 智能体在队列 worker 中运行，该函数订阅任务事件频道后将任务添加到队列，
+ * 并将 worker 推送的事件通过Server-Sent Events (SSE) 转发给客户端，直到任务结束。
+ * 任务添加到队列失败时记录错误事件并结束任务，客户端会收到错误事件。
+ *
+ * @param data - 调试对话任务数据
+ * @param writer - 用于写入SSE响应的流写入器
+ */
+export const debugChat = async (
+  data: DebugChatTaskData,
+  writer: WritableStreamDefaultWriter,
+) => {
+  const { taskId, appId, userId, conversationId, messageId } = data;
+  await relayTaskEvents(
+    taskId,
+    { appId, userId, conversationId, messageId, finished: false },
+    0,
+    writer,
+    // 订阅之后再添加任务，避免错过任务开始时推送的事件
+    async () => {
+      try {
+        await debugChatAsyncTask(data);
+      } catch (error) {
+        // 任务没有进入队列，由当前请求记录错误事件并结束任务，错误事件随后回放给客户端
+        log.error(
+          '调试对话任务添加到队列失败, taskId={%s}, error={%o}',
+          taskId,
+          error,
+        );
+        const agentThought = createErrorAgentThought(taskId, error as Error);
+        await appendTaskEvent(taskId, agentThought);
+        await saveAgentThoughts(
+          userId,
+          appId,
+          InvokeFrom.DEBUGGER,
+          false,
+          conversationId,
+          messageId,
+          [agentThought],
+        );
+        await Promise.all([
+          clearTaskBelongCache(taskId),
+          markTaskFinished(taskId),
+        ]);
       }
+    },
+  );
+};
 
-      // 构建事件数据，包含所有必要的调试信息
-      // 这些数据将发送给客户端，用于实时显示代理的思考过程
-      const data = {
-        id: eventId,
-        conversationId: conversationRecord.id,
-        messageId: messageRecord[0].id,
-        taskId: agentThought.taskId,
-        event: agentThought.event,
-        thought: agentThought.thought,
-        observation: agentThought.observation,
-        tool: agentThought.tool,
-        toolInput: agentThought.toolInput,
-        answer: agentThought.answer,
-        latency: agentThought.latency,
-      };
-
-      // 记录日志并发送SSE事件到客户端
-      // 使用Server-Sent Events格式，支持实时流式传输
-      log.info('Agent thought: %s', JSON.stringify(data));
-      writer.write(
-        `event: ${agentThought.event}\ndata: ${JSON.stringify(data)}\n\n`,
-      );
-    });
+/**
+ * 运行应用调试对话任务
+ *
+ * 由聊天队列的 worker 调用，根据应用草稿配置创建智能体并运行，
+ * 运行过程中的事件记录到任务事件日志并推送到任务事件频道。
+ * 任务已经存在检查点时（worker 进程退出后任务被重新执行），从最后一个检查点恢复运行。
+ * 运行结束后根据完整的事件日志保存思考过程，并删除检查点。
+ *
+ * @param data - 调试对话任务数据
+ */
+export const runDebugChat = async (data: DebugChatTaskData) => {
+  const { taskId, appId, userId, conversationId, messageId, query, imageUrls } =
+    data;
+
+  // 创建事件处理器，处理代理的实时思考过程
+  const eventProcessor = createEventProcessor();
+  eventProcessor.use(async (agentThought) => {
+    await appendTaskEvent(taskId, agentThought);
+  });
+
+  // 包装事件发射器，添加ping功能以保持SSE连接活跃
+  const pingEmitter = wrapEmitWithPing(
+    (event: AgentThought) => eventProcessor.emit(event),
+    taskId,
+  );
 
-    // 设置任务归属缓存，用于任务权限控制和停止功能
-    await setTaskBelongCache(taskId, InvokeFrom.DEBUGGER, userId);
-
-    // 调用代理处理用户查询，传入历史对话和长期记忆
-    // 这是整个调试聊天功能的核心调用
-    await agent.invoke({
-      messages: [new HumanMessage(query)], // 当前用户查询
-      history, // 历史对话上下文，用于保持对话连贯性
-      longTermMemory: conversationRecord.summary, // 长期记忆摘要，用于跨会话记忆
-      taskId, // 任务ID用于追踪和停止功能
-      iterationCount: 0, // 迭代计数，防止无限循环
-      emit: pingEmitter, // 事件发射器，用于发送实时思考过程
-      stop: false, // 不停止代理，允许正常执行
+  try {
+    const draftAppConfig = await getDraftAppConfig(appId, userId);
+    const { llm, languageModel, agent } = await createDebugAgent(
+      appId,
+      userId,
+      draftAppConfig,
+    );
+
+    const checkpoint = await agentCheckpointer.getTuple({
+      configurable: { thread_id: taskId },
     });
+    if (checkpoint) {
+      // 从检查点恢复运行，未完成的节点会重新执行
+      await resumeAgent(agent, taskId, pingEmitter);
+    } else {
+      const conversationRecord = await getOrCreateDebugConversation(
+        conversationId,
+        appId,
+        userId,
+      );
+
+      // 按应用的对话记忆策略加载历史对话，token 预算根据模型的上下文窗口计算
+      // 防止历史对话过长导致token超限
+      const { history, historySummary } = await loadConversationMemory({
+        conversationRecord,
+        modelInstance: llm,
+        languageModel,
+        modelConfig: draftAppConfig.modelConfig,
+        memoryConfig: draftAppConfig.memoryConfig,
+        dialogRound: draftAppConfig.dialogRound, // 对话轮数限制
+      });
+
+      // 调用代理处理用户查询，传入历史对话和长期记忆
+      // 工具等待审批时会在此处等待用户审批后继续运行
+      await invokeAgent(agent, {
+        messages: [createHumanMessage(query, imageUrls)], // 当前用户查询，附带图片时包含图片内容
+        history, // 历史对话上下文，用于保持对话连贯性
+        historySummary, // 摘要缓冲记忆中早期对话的摘要
+        longTermMemory: conversationRecord.summary, // 对话长期记忆摘要，每轮对话后滚动更新，与召回的用户记忆一起使用
+        taskId, // 任务ID用于追踪和停止功能
+        iterationCount: 0, // 迭代计数，防止无限循环
+        emit: pingEmitter, // 事件发射器，用于发送实时思考过程
+        stop: false, // 不停止代理，允许正常执行
+      });
+    }
+
+    // 根据完整的事件日志重建思考过程，包含恢复运行之前发射的事件
+    const agentThoughts = new Map<string, AgentThought>();
+    for (const agentThought of await getTaskEvents(taskId)) {
+      mergeAgentThought(agentThoughts, agentThought);
+    }
 
     // 保存代理思考过程到数据库，用于后续分析和调试
-    // 这些数据可以用于优化代理性能和分析用户行为
     await saveAgentThoughts(
       userId,
       appId,
+      InvokeFrom.DEBUGGER,
       draftAppConfig.longTermMemory.enable, // 是否启用长期记忆
-      conversationRecord.id,
-      messageRecord[0].id,
+      conversationId,
+      messageId,
       Array.from(agentThoughts.values()), // 转换为数组，包含所有思考步骤
     );
+  } catch (error) {
+    log.error('调试对话任务运行失败, taskId={%s}, error={%o}', taskId, error);
+    await appendTaskEvent(
+      taskId,
+      createErrorAgentThought(taskId, error as Error),
+    );
   } finally {
-    // 清理资源：停止ping发射器, 关闭写入流, 清除任务归属缓存
-    // 确保资源正确释放，防止内存泄漏
-    log.info('Agent stop');
+    // 清理资源：停止ping发射器, 清除任务归属缓存, 标记任务结束并删除检查点
+    log.info('Agent stop, taskId={%s}', taskId);
     pingEmitter.stop();
-    writer.close();
-    await clearTaskBelongCache(taskId);
+    await Promise.all([
+      clearTaskBelongCache(taskId),
+      markTaskFinished(taskId),
+      agentCheckpointer.deleteThread(taskId),
+    ]);
   }
 };
 
+/**
+ * 将任务事件转发为SSE事件
+ *
+ * 先订阅任务事件频道，再从任务事件日志中回放指定位置之后的事件，
+ * 回放期间收到的推送消息会暂存，回放结束后根据事件索引跳过已经发送的事件，
+ * 然后持续转发推送的事件，直到收到任务结束消息或超过任务超时时间，超时时向客户端发送超时事件。
+ *
+ * @param taskId - 任务ID
+ * @param context - 任务运行上下文
+ * @param lastEventIndex - 客户端已经接收的事件数量（不包括心跳事件），从该位置开始回放
+ * @param writer - 用于写入SSE响应的流写入器
+ * @param onSubscribed - 订阅任务事件频道之后的回调
+ */
+const relayTaskEvents = async (
+  taskId: string,
+  context: TaskRunContext,
+  lastEventIndex: number,
+  writer: WritableStreamDefaultWriter,
+  onSubscribed?: () => Promise<void>,
+) => {
+  let eventIndex = lastEventIndex;
+  let replaying = true;
+  const bufferedMessages: TaskEventMessage[] = [];
+  // 按顺序写入事件，保证客户端收到的事件顺序与发射顺序一致
+  let writing = Promise.resolve();
+  let resolveFinished = () => {};
+  const finished = new Promise<void>((resolve) => {
+    resolveFinished = resolve;
+  });
+
+  const writeAgentThought = (agentThought: AgentThought) => {
+    const data = {
+      id: agentThought.id,
+      conversationId: context.conversationId,
+      messageId: context.messageId,
+      taskId: agentThought.taskId,
+      event: agentThought.event,
+      thought: agentThought.thought,
+      observation: agentThought.observation,
+      tool: agentThought.tool,
+      toolInput: agentThought.toolInput,
+      answer: agentThought.answer,
+      structuredAnswer: agentThought.structuredAnswer,
+      citations: agentThought.citations,
+      latency: agentThought.latency,
+    };
+    writing = writing.then(() =>
+      writer.write(
+        `event: ${agentThought.event}\ndata: ${JSON.stringify(data)}\n\n`,
+      ),
+    );
+  };
+
+  const handleMessage = (message: TaskEventMessage) => {
+    if (message.finished) {
+      resolveFinished();
+      return;
+    }
+    if (message.index !== null) {
+      // 跳过回放时已经发送的事件
+      if (message.index < eventIndex) {
+        return;
+      }
+      eventIndex = message.index + 1;
+    }
+    writeAgentThought(message.agentThought);
+  };
+
+  const unsubscribe = await subscribeTaskEvents(taskId, (message) => {
+    if (replaying) {
+      bufferedMessages.push(message);
+      return;
+    }
+    handleMessage(message);
+  });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    await onSubscribed?.();
+
+    // 先读取任务状态再读取事件，任务结束时保证已经读取到所有事件
+    const latestContext = await getTaskRunContext(taskId);
+    const agentThoughts = await getTaskEvents(taskId, eventIndex);
+    for (const agentThought of agentThoughts) {
+      writeAgentThought(agentThought);
+    }
+    eventIndex += agentThoughts.length;
+
+    replaying = false;
+    for (const message of bufferedMessages) {
+      handleMessage(message);
+    }
+    if (!latestContext || latestContext.finished) {
+      resolveFinished();
+    }
+
+    const timedOut = await Promise.race([
+      finished.then(() => false),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(true), TASK_TIMEOUT);
+      }),
+    ]);
+    if (timedOut) {
+      // 超过任务超时时间仍未收到任务结束消息，通知客户端任务超时
+      writeAgentThought(
+        createAgentThought({
+          id: randomUUID(),
+          taskId,
+          event: QueueEvent.TIMEOUT,
+        }),
+      );
+    }
+    await writing;
+  } catch (error) {
+    // 客户端断开连接时写入失败，任务会在 worker 中继续运行
+    log.warn('任务事件转发失败, taskId={%s}, error={%o}', taskId, error);
+  } finally {
+    clearTimeout(timer);
+    await unsubscribe();
+    writer.close().catch(() => undefined);
+  }
+};
+
+/**
+ * 获取应用调试对话任务的运行上下文
+ *
+ * @param appId - 应用ID
+ * @param taskId - 任务ID
+ * @param userId - 用户ID，用于验证任务所有权
+ * @returns 任务运行上下文
+ * @throws NotFoundException 当应用不存在或任务不存在、已过期时
+ * @throws BadRequestException 当任务不属于当前用户时
+ */
+export const getConversationTaskContextOrThrow = async (
+  appId: string,
+  taskId: string,
+  userId: string,
+) => {
+  // 验证应用存在性和所有权
+  await getAppOrThrow(appId, userId);
+
+  const context = await getTaskRunContext(taskId);
+  if (!context || context.appId !== appId) {
+    throw new NotFoundException('任务不存在或已过期');
+  }
+  if (context.userId !== userId) {
+    throw new BadRequestException('任务不属于当前用户');
+  }
+  return context;
+};
+
+/**
+ * 重新连接应用调试对话任务的事件流
+ *
+ * 从指定位置回放任务已经发射的事件，并持续推送新的事件直到任务结束。
+ * 运行任务的 worker 进程退出时，队列会将任务重新交给其他 worker 从检查点恢复运行。
+ *
+ * @param taskId - 任务ID
+ * @param context - 任务运行上下文
+ * @param lastEventIndex - 客户端已经接收的事件数量（不包括心跳事件），从该位置开始回放
+ * @param writer - 用于写入SSE响应的流写入器
+ */
+export const attachConversationTask = async (
+  taskId: string,
+  context: TaskRunContext,
+  lastEventIndex: number,
+  writer: WritableStreamDefaultWriter,
+) => {
+  await relayTaskEvents(taskId, context, lastEventIndex, writer);
+};
+
 /**
  * 停止应用调试对话任务
  *
@@ -752,6 +1075,38 @@ export const stopConversationTask = async (
   await setStopFlag(taskId);
 };
 
+/**
+ * 审批应用调试对话任务中等待执行的工具调用
+ *
+ * 调试对话中修改外部状态的API工具在执行前会暂停并等待审批，
+ * 该函数验证任务归属权后提交审批结果，正在运行的任务收到结果后恢复运行。
+ *
+ * @param appId - 应用ID
+ * @param taskId - 任务ID
+ * @param userId - 用户ID，用于验证任务所有权
+ * @param req - 审批结果，包含是否批准、修改后的工具参数和拒绝原因
+ * @throws NotFoundException 当应用不存在时
+ * @throws BadRequestException 当任务不属于当前用户、任务没有等待审批的工具调用或工具调用ID不存在时
+ */
+export const approveConversationTask = async (
+  appId: string,
+  taskId: string,
+  userId: string,
+  req: ApproveConversationTaskReq,
+) => {
+  // 验证应用存在性和所有权
+  await getAppOrThrow(appId, userId);
+
+  // 检查任务归属权，确保只有任务所有者才能审批
+  const isBelong = await doTaskBelongCheck(taskId, InvokeFrom.DEBUGGER, userId);
+  if (!isBelong) {
+    throw new BadRequestException('任务不属于当前用户');
+  }
+
+  // 校验并提交审批结果，通知任务恢复运行
+  await submitToolApprovalDecision(taskId, req);
+};
+
 /**
  * 分页获取应用调试对话消息历史
  *
@@ -764,8 +1119,12 @@ export const stopConversationTask = async (
  * @returns 分页后的消息列表，每个消息包含：
  *   - id: 消息ID
  *   - conversationId: 对话ID
+ *   - parentId: 消息树中的父消息ID，会话的第一条消息为空字符串
  *   - query: 用户查询内容
+ *   - imageUrls: 用户消息附带的图片URL列表
  *   - answer: AI回答内容
+ *   - structuredAnswer: 启用结构化输出时解析后的回答对象
+ *   - citations: 知识库检索召回片段的引用来源
  *   - totalTokenCount: 总token消耗
  *   - latency: 响应延迟
  *   - agentThoughts: 代理思考过程数组
@@ -836,6 +1195,7 @@ export const getConversationMessagesByPage = async (
       observation: string;
       tool: string;
       toolInput: Record<string, unknown>;
+      toolPolicy: ToolPolicyOutcome | null;
       latency: number;
       createdAt: number;
     }>
@@ -854,6 +1214,7 @@ export const getConversationMessagesByPage = async (
       observation: record.observation,
       tool: record.tool,
       toolInput: record.toolInput as Record<string, unknown>,
+      toolPolicy: record.toolPolicy as ToolPolicyOutcome | null,
       latency: record.latency,
       createdAt: record.createdAt.getTime(),
     });
@@ -863,9 +1224,14 @@ export const getConversationMessagesByPage = async (
   const formattedList = list.map((item) => ({
     id: item.id,
     conversationId: item.conversationId,
+    parentId: item.parentId ?? '',
     query: item.query,
+    imageUrls: item.imageUrls as string[],
     answer: item.answer,
+    structuredAnswer: item.structuredAnswer as Record<string, unknown> | null,
+    citations: item.citations as Citation[],
     totalTokenCount: item.totalTokenCount,
+    totalPrice: Number(item.totalPrice),
     latency: item.latency,
     agentThoughts: agentThoughtMap.get(item.id) ?? [],
     createdAt: item.createdAt.getTime(),
@@ -0,0 +1,153 @@
+/**
+ * 语音服务
+ *
+ * 该服务为 AI 应用提供语音输入与语音输出能力：
+ * - 语音转文字：应用启用语音输入（speechToText）时，将用户上传的音频转换为文字
+ * - 文字转语音：应用启用语音输出（textToSpeech）时，将消息的回答转换为音频流
+ *
+ * 调试器使用应用的草稿配置，服务 API 等其他来源使用已发布的配置。
+ */
+
+import { BadRequestException, NotFoundException } from '@/exceptions';
+import { getAudioProvider } from '@/lib/audio';
+import { db } from '@/lib/db';
+import { message } from '@/lib/db/schema';
+import {
+  ALLOWED_AUDIO_EXTENSIONS,
+  ALLOWED_AUDIO_SIZE,
+  InvokeFrom,
+  MAX_SPEECH_TEXT_LENGTH,
+} from '@/lib/entity';
+import { log } from '@/lib/logger';
+import type { AudioTranscribeReq } from '@/schemas/audio-schema';
+import { getAppOrThrow } from '@/services/app';
+import {
+  getDraftAppConfig,
+  getPublishedAppConfig,
+} from '@/services/app-config';
+import { and, eq } from 'drizzle-orm';
+
+/**
+ * 获取应用的语音配置
+ *
+ * @param appId - 应用ID
+ * @param userId - 用户ID
+ * @param invokeFrom - 调用来源，调试器使用草稿配置，其他来源使用已发布的配置
+ * @returns 语音输入与语音输出配置
+ * @throws {NotFoundException} 当应用不存在时
+ * @throws {BadRequestException} 当非调试器调用且应用未发布时
+ */
+const getAppAudioConfig = async (
+  appId: string,
+  userId: string,
+  invokeFrom: InvokeFrom,
+) => {
+  if (invokeFrom === InvokeFrom.DEBUGGER) {
+    const { speechToText, textToSpeech } = await getDraftAppConfig(
+      appId,
+      userId,
+    );
+    return { speechToText, textToSpeech };
+  }
+
+  const appRecord = await getAppOrThrow(appId, userId);
+  const { speechToText, textToSpeech } = await getPublishedAppConfig(appRecord);
+  return { speechToText, textToSpeech };
+};
+
+/**
+ * 语音转文字
+ *
+ * @param userId - 用户ID
+ * @param req - 请求参数，包含应用ID和调用来源
+ * @param file - 用户上传的音频文件
+ * @returns 转换后的文字
+ * @throws {BadRequestException} 当音频格式或大小不符合要求，或应用未启用语音输入时
+ */
+export const transcribeAudio = async (
+  userId: string,
+  req: AudioTranscribeReq,
+  file: File,
+) => {
+  const ext = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (!ALLOWED_AUDIO_EXTENSIONS.includes(ext)) {
+    throw new BadRequestException(
+      '音频格式错误，仅支持 MP3、MP4、MPEG、MPGA、M4A、WAV、WEBM 格式',
+    );
+  }
+  if (file.size > ALLOWED_AUDIO_SIZE) {
+    throw new BadRequestException('音频大小不能超过 25 MB');
+  }
+
+  const { speechToText } = await getAppAudioConfig(
+    req.appId,
+    userId,
+    req.invokeFrom,
+  );
+  if (!speechToText.enable) {
+    throw new BadRequestException('应用未启用语音输入');
+  }
+
+  const provider = getAudioProvider();
+  log.info(
+    'Transcribe audio, appId={%s}, provider={%s}, size={%s}',
+    req.appId,
+    provider.name,
+    file.size,
+  );
+  return provider.transcribe(file);
+};
+
+/**
+ * 将消息的回答转换为语音
+ *
+ * 根据消息的调用来源选择应用的草稿配置或已发布的配置，
+ * 使用配置的音色将回答转换为音频流。
+ *
+ * @param userId - 用户ID
+ * @param messageId - 消息ID
+ * @returns 音频数据的 MIME 类型和音频数据流
+ * @throws {NotFoundException} 当消息或应用不存在时
+ * @throws {BadRequestException} 当应用未启用语音输出或消息没有回答时
+ */
+export const speechMessageAnswer = async (
+  userId: string,
+  messageId: string,
+) => {
+  const messageRecords = await db
+    .select()
+    .from(message)
+    .where(and(eq(message.id, messageId), eq(message.isDeleted, false)));
+  if (messageRecords.length === 0) {
+    throw new NotFoundException('消息不存在');
+  }
+  const messageRecord = messageRecords[0];
+
+  // 校验消息所属应用的归属，并获取对应来源的语音配置
+  const { textToSpeech } = await getAppAudioConfig(
+    messageRecord.appId,
+    userId,
+    messageRecord.invokeFrom === InvokeFrom.DEBUGGER
+      ? InvokeFrom.DEBUGGER
+      : InvokeFrom.SERVICE_API,
+  );
+  if (!textToSpeech.enable) {
+    throw new BadRequestException('应用未启用语音输出');
+  }
+
+  const answer = messageRecord.answer.trim();
+  if (!answer) {
+    throw new BadRequestException('消息没有可以转换为语音的回答');
+  }
+
+  const provider = getAudioProvider();
+  log.info(
+    'Speech message answer, messageId={%s}, provider={%s}',
+    messageId,
+    provider.name,
+  );
+  return provider.speech(
+    answer.slice(0, MAX_SPEECH_TEXT_LENGTH),
+    textToSpeech.voice,
+  );
+};
@@ -4,6 +4,8 @@
  *
  * 主要功能：
  * - 获取或创建调试对话
+ * - 获取或创建终端用户对话
+ * - 确定新消息在消息树中的父消息
  * - 生成对话名称
  * - 生成对话摘要
  * - 保存代理思考过程
@@ -11,6 +13,7 @@
  * @module conversation
  */
 
+import { NotFoundException } from '@/exceptions';
 import { type AgentThought, QueueEvent } from '@/lib/agent/entity';
 import { db } from '@/lib/db';
 import {
@@ -19,12 +22,14 @@ import {
   message,
   messageAgentThought,
 } from '@/lib/db/schema';
-import { InvokeFrom } from '@/lib/entity';
+import { type Citation, InvokeFrom } from '@/lib/entity';
+import { createDefaultChatModel } from '@/lib/llm';
 import { log } from '@/lib/logger';
+import { mergeCitations } from '@/lib/retriever/citation';
+import { extractUserMemories } from '@/services/user-memory';
 import { StringOutputParser } from '@langchain/core/output_parsers';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
-import { ChatOpenAI } from '@langchain/openai';
-import { and, eq } from 'drizzle-orm';
+import { and, desc, eq } from 'drizzle-orm';
 import { z } from 'zod';
 
 /**
@@ -183,6 +188,106 @@ export const getOrCreateDebugConversation = async (
   return newConversationRecord;
 };
 
+/**
+ * 获取或创建终端用户对话
+ *
+ * 如果提供了conversationId，则校验对话是否属于该应用、调用来源及终端用户
+ * 未提供ID时为终端用户创建新的对话
+ *
+ * @param conversationId - 对话ID，可为undefined
+ * @param appId - 应用ID
+ * @param endUserId - 终端用户ID
+ * @param invokeFrom - 调用来源
+ * @returns 返回对话记录
+ * @throws {NotFoundException} 当指定的对话不存在或不属于该终端用户时
+ */
+export const getOrCreateEndUserConversation = async (
+  conversationId: string | undefined,
+  appId: string,
+  endUserId: string,
+  invokeFrom: InvokeFrom,
+) => {
+  // 如果提供了conversationId，校验对话归属
+  if (conversationId) {
+    const conversationRecords = await db
+      .select()
+      .from(conversation)
+      .where(
+        and(
+          eq(conversation.id, conversationId),
+          eq(conversation.appId, appId),
+          eq(conversation.invokeFrom, invokeFrom),
+          eq(conversation.createdBy, endUserId),
+          eq(conversation.isDeleted, false),
+        ),
+      );
+    if (conversationRecords.length === 0) {
+      throw new NotFoundException('会话不存在');
+    }
+    return conversationRecords[0];
+  }
+
+  // 创建新的终端用户对话
+  const conversationRecords = await db
+    .insert(conversation)
+    .values({
+      appId,
+      name: 'New Conversation',
+      invokeFrom,
+      createdBy: endUserId,
+    })
+    .returning();
+
+  return conversationRecords[0];
+};
+
+/**
+ * 获取新消息在消息树中的父消息ID
+ *
+ * 对话中的消息通过 parentId 组成消息树：
+ * - 正常提问时，新消息追加在最新的未删除消息之后，继续当前激活的分支
+ * - 重新生成回答或编辑提问后重新发送时，新消息与原消息拥有相同的父消息，成为原消息的兄弟节点并开启新的分支
+ *
+ * @param conversationId - 对话ID
+ * @param regenerateMessageId - 需要重新生成或编辑后重新发送的原消息ID，可为undefined
+ * @returns 父消息ID，对话中的第一条消息没有父消息
+ * @throws {NotFoundException} 当原消息不存在或不属于该对话时
+ */
+export const getNewMessageParentId = async (
+  conversationId: string,
+  regenerateMessageId: string | undefined,
+) => {
+  if (regenerateMessageId) {
+    const messageRecords = await db
+      .select({ parentId: message.parentId })
+      .from(message)
+      .where(
+        and(
+          eq(message.id, regenerateMessageId),
+          eq(message.conversationId, conversationId),
+          eq(message.isDeleted, false),
+        ),
+      );
+    if (messageRecords.length === 0) {
+      throw new NotFoundException('消息不存在');
+    }
+    return messageRecords[0].parentId;
+  }
+
+  const latestMessageRecords = await db
+    .select({ id: message.id })
+    .from(message)
+    .where(
+      and(
+        eq(message.conversationId, conversationId),
+        eq(message.isDeleted, false),
+      ),
+    )
+    .orderBy(desc(message.createdAt))
+    .limit(1);
+  return latestMessageRecords[0]?.id ?? null;
+};
+
 /**
  * 生成对话名称
  *
@@ -200,14 +305,9 @@ export const generateConversationName = async (query: string) => {
     ['human', '{query}'],
   ]);
 
-  const llm = new ChatOpenAI({
-    model: 'gpt-4o-mini',
-    apiKey: process.env.OPENAI_API_KEY,
-    configuration: {
-      baseURL: process.env.OPENAI_API_URL,
-    },
-    temperature: 0,
-  }).withStructuredOutput(conversationInfoSchema);
+  const llm = createDefaultChatModel({ temperature: 0 }).withStructuredOutput(
+    conversationInfoSchema,
+  );
 
   const chain = prompt.pipe(llm);
 
@@ -261,14 +361,7 @@ export const summary = async (
 ) => {
   const prompt = ChatPromptTemplate.fromTemplate(SUMMARIZER_TEMPLATE);
 
-  const llm = new ChatOpenAI({
-    model: 'gpt-4o-mini',
-    apiKey: process.env.OPENAI_API_KEY,
-    configuration: {
-      baseURL: process.env.OPENAI_API_URL,
-    },
-    temperature: 0.5,
-  });
+  const llm = createDefaultChatModel({ temperature: 0.5 });
 
   const summaryChain = prompt.pipe(llm).pipe(new StringOutputParser());
 
@@ -303,8 +396,9 @@ const isNewConversation = async (conversationId: string) => {
  * 将AI代理的思考过程保存到数据库中，包括：
  * - 各种事件类型的思考记录
  * - 工具调用信息
- * - 消息更新
- * - 对话摘要更新
+ * - 每个步骤的 token 用量与费用
+ * - 消息更新（汇总所有步骤的 token 用量与费用，以及知识库检索的引用来源）
+ * - 对话摘要更新与用户长期记忆提取
  * - 对话名称生成
  *
  * 支持的事件类型：
@@ -313,10 +407,12 @@ const isNewConversation = async (conversationId: string) => {
  * - AGENT_MESSAGE: 代理消息
  * - AGENT_ACTION: 代理行动
  * - DATASET_RETRIEVAL: 数据集检索
+ * - ANNOTATION_REPLY: 标注回复命中
  * - STOP/TIMEOUT/ERROR: 结束状态
  *
- * @param userId - 用户ID
+ * @param userId - 用户ID（调试器为账号ID，服务 API 为终端用户ID）
  * @param appId - 应用ID
+ * @param invokeFrom - 调用来源
  * @param isLongTermMemoryEnabled - 是否启用长期记忆
  * @param conversationId - 对话ID
  * @param messageId - 消息ID
@@ -326,14 +422,19 @@ const isNewConversation = async (conversationId: string) => {
 export const saveAgentThoughts = async (
   userId: string,
   appId: string,
+  invokeFrom: InvokeFrom,
   isLongTermMemoryEnabled: boolean,
   conversationId: string,
   messageId: string,
   agentThoughts: AgentThought[],
 ) => {
-  // 初始化位置和延迟计数器
+  // 初始化位置、延迟、token 用量和费用计数器
   let position = 0;
   let latency = 0;
+  let totalTokenCount = 0;
+  let totalPrice = 0;
+  // 收集知识库检索事件召回片段的引用来源
+  const citations: Citation[] = [];
 
   // 并行查询对话和消息记录
   const conversationQuery = db
@@ -378,17 +479,23 @@ export const saveAgentThoughts = async (
         QueueEvent.AGENT_MESSAGE,
         QueueEvent.AGENT_ACTION,
         QueueEvent.DATASET_RETRIEVAL,
+        QueueEvent.ANNOTATION_REPLY,
       ].includes(agentThought.event)
     ) {
       position += 1;
       latency += agentThought.latency;
+      totalTokenCount += agentThought.totalTokenCount;
+      totalPrice += agentThought.totalPrice;
+      if (agentThought.event === QueueEvent.DATASET_RETRIEVAL) {
+        citations.push(...agentThought.citations);
+      }
 
       // 构建思考记录
       messageAgentThoughts.push({
         appId,
         conversationId,
         messageId,
-        invokeFrom: InvokeFrom.DEBUGGER,
+        invokeFrom,
         createdBy: userId,
         position,
         event: agentThought.event,
@@ -396,25 +503,44 @@ export const saveAgentThoughts = async (
         observation: agentThought.observation,
         tool: agentThought.tool,
         toolInput: agentThought.toolInput,
+        toolPolicy: agentThought.toolPolicy,
         message: agentThought.message,
+        messageTokenCount: agentThought.messageTokenCount,
+        messageUnitPrice: String(agentThought.messageUnitPrice),
+        messagePriceUnit: String(agentThought.messagePriceUnit),
         answer: agentThought.answer,
+        answerTokenCount: agentThought.answerTokenCount,
+        answerUnitPrice: String(agentThought.answerUnitPrice),
+        answerPriceUnit: String(agentThought.answerPriceUnit),
+        totalTokenCount: agentThought.totalTokenCount,
+        totalPrice: String(agentThought.totalPrice),
         latency: agentThought.latency,
       });
     }
 
     // 处理代理消息事件
     if (agentThought.event === QueueEvent.AGENT_MESSAGE) {
-      // 更新消息内容
+      // 更新消息内容与引用来源，并汇总所有步骤的 token 用量与费用
       await db
         .update(message)
         .set({
           message: agentThought.message,
+          messageTokenCount: agentThought.messageTokenCount,
+          messageUnitPrice: String(agentThought.messageUnitPrice),
+          messagePriceUnit: String(agentThought.messagePriceUnit),
           answer: agentThought.answer,
+          structuredAnswer: agentThought.structuredAnswer,
+          citations: mergeCitations(citations),
+          answerTokenCount: agentThought.answerTokenCount,
+          answerUnitPrice: String(agentThought.answerUnitPrice),
+          answerPriceUnit: String(agentThought.answerPriceUnit),
+          totalTokenCount,
+          totalPrice: String(totalPrice),
           latency,
         })
         .where(eq(message.id, messageId));
 
-      // 如果启用长期记忆，更新对话摘要
+      // 如果启用长期记忆，更新对话摘要，并从本轮对话中提取关于用户的事实，提取失败时不影响消息保存
       if (isLongTermMemoryEnabled) {
         const newSummary = await summary(
           messageRecord.query,
@@ -430,6 +556,22 @@ export const saveAgentThoughts = async (
           .update(conversation)
           .set({ summary: newSummary })
           .where(eq(conversation.id, conversationId));
+
+        try {
+          await extractUserMemories(
+            appId,
+            invokeFrom,
+            userId,
+            messageRecord.query,
+            agentThought.answer,
+          );
+        } catch (error) {
+          log.error(
+            'Extract user memories failed, conversationId={%s}, error={%o}',
+            conversationId,
+            error,
+          );
+        }
       }
 
       // 如果是新对话，生成对话名称
@@ -465,6 +607,9 @@ export const saveAgentThoughts = async (
         .set({
           status: agentThought.event,
           error: agentThought.observation,
+          totalTokenCount,
+          totalPrice: String(totalPrice),
+          latency,
         })
         .where(eq(message.id, messageId));
       break; // 遇到结束状态后停止处理
@@ -10,7 +10,8 @@
  * - 知识库命中测试（向量检索）
  * - 获取知识库查询历史
  *
- * 每个知识库都包含文档数量、字符数量、命中次数、关联应用数量等统计信息。
+ * 每个知识库都包含文档数量、字符数量、命中次数、关联应用数量等统计信息，
+ * 以及召回测试默认使用、元数据过滤在所有检索中生效的检索配置。
  */
 
 import { BadRequestException, NotFoundException } from '@/exceptions';
@@ -23,11 +24,17 @@ import {
   segment,
   uploadFile,
 } from '@/lib/db/schema';
-import { RetrievalSource } from '@/lib/entity';
+import {
+  DEFAULT_DATASET_RETRIEVAL_CONFIG,
+  type DatasetRetrievalConfig,
+  RetrievalSource,
+} from '@/lib/entity';
 import { calculatePagination, paginationResult } from '@/lib/paginator';
 import { searchInDataset } from '@/lib/retriever';
 import type { SearchPageReq } from '@/schemas/common-schema';
 import type { HitDatasetReq } from '@/schemas/dataset-schema';
+import { VECTOR_METADATA_VERSION } from '@/services/indexing';
+import { SEGMENT_TERM_INDEX_VERSION } from '@/services/segment-term';
 import type { DocumentInterface } from '@langchain/core/documents';
 import { and, count, desc, eq, inArray, like, ne, sql, sum } from 'drizzle-orm';
 
@@ -35,6 +42,18 @@ import { and, count, desc, eq, inArray, like, ne, sql, sum } from 'drizzle-orm';
 const DEFAULT_DATASET_DESCRIPTION_FORMATTER =
   '当你需要回答关于《{name}》的时候可以引用该知识库。';
 
+/**
+ * 获取知识库的检索配置，未配置的字段使用默认检索配置
+ * @param datasetRecord - 知识库记录
+ * @returns 知识库检索配置
+ */
+const getDatasetRetrievalConfig = (
+  datasetRecord: typeof dataset.$inferSelect,
+): DatasetRetrievalConfig => ({
+  ...DEFAULT_DATASET_RETRIEVAL_CONFIG,
+  ...(datasetRecord.retrievalConfig as Partial<DatasetRetrievalConfig>),
+});
+
 /**
  * 获取知识库记录，如果不存在则抛出异常
  * @param userId - 用户ID
@@ -140,6 +159,7 @@ export const listDatasetsByPage = async (
  * @param name - 知识库名称
  * @param icon - 知识库图标
  * @param description - 知识库描述（可选）
+ * @param retrievalConfig - 知识库检索配置（可选），未传递时使用默认检索配置
  * @returns 新创建的知识库记录
  * @throws BadRequestException 当知识库名称已存在时
  */
@@ -148,6 +168,7 @@ export const createDataset = async (
   name: string,
   icon: string,
   description: string,
+  retrievalConfig: DatasetRetrievalConfig = DEFAULT_DATASET_RETRIEVAL_CONFIG,
 ) => {
   const datasetCount = await db.$count(
     dataset,
@@ -166,6 +187,9 @@ export const createDataset = async (
       description:
         description ||
         DEFAULT_DATASET_DESCRIPTION_FORMATTER.replace('{name}', name),
+      termIndexVersion: SEGMENT_TERM_INDEX_VERSION,
+      vectorMetadataVersion: VECTOR_METADATA_VERSION,
+      retrievalConfig,
     })
     .returning();
 
@@ -179,6 +203,7 @@ export const createDataset = async (
  * @param name - 新的知识库名称
  * @param icon - 新的知识库图标
  * @param description - 新的知识库描述（可选）
+ * @param retrievalConfig - 新的知识库检索配置（可选），未传递时保持原有的检索配置
  * @throws BadRequestException 当新的知识库名称与其他知识库重复时
  */
 export const updateDataset = async (
@@ -187,6 +212,7 @@ export const updateDataset = async (
   name: string,
   icon: string,
   description: string,
+  retrievalConfig?: DatasetRetrievalConfig,
 ) => {
   const datasetCount = await db.$count(
     dataset,
@@ -208,6 +234,7 @@ export const updateDataset = async (
       description:
         description ||
         DEFAULT_DATASET_DESCRIPTION_FORMATTER.replace('{name}', name),
+      retrievalConfig,
     })
     .where(and(eq(dataset.id, datasetId), eq(dataset.userId, userId)))
     .returning();
@@ -242,7 +269,7 @@ export const deleteDataset = async (userId: string, datasetId: string) => {
  * 获取知识库详细信息
  * @param userId - 用户ID
  * @param datasetId - 知识库ID
- * @returns 包含知识库详细信息、文档统计和命中次数的对象
+ * @returns 包含知识库详细信息、检索配置、文档统计和命中次数的对象
  * @throws NotFoundException 当知识库不存在时
  */
 export const getDatasetById = async (userId: string, datasetId: string) => {
@@ -283,6 +310,7 @@ export const getDatasetById = async (userId: string, datasetId: string) => {
     name: datasetRecord.name,
     icon: datasetRecord.icon,
     description: datasetRecord.description,
+    retrievalConfig: getDatasetRetrievalConfig(datasetRecord),
     documentCount,
     hitCount: hitCount[0]?.hitCount ?? 0,
     relatedAppCount: relatedAppCount[0]?.appCount ?? 0,
@@ -296,7 +324,7 @@ export const getDatasetById = async (userId: string, datasetId: string) => {
  * 对知识库进行命中测试（向量检索）
  * @param userId - 用户ID
  * @param datasetId - 知识库ID
- * @param req - 命中测试请求参数，包含查询文本、检索策略等
+ * @param req - 命中测试请求参数，包含查询文本、检索策略等，未传递的检索参数使用知识库的检索配置
  * @returns 匹配的文档片段列表，包含相关性分数和详细信息
  * @throws NotFoundException 当知识库不存在时
  */
@@ -306,14 +334,19 @@ export const hitDataset = async (
   req: HitDatasetReq,
 ) => {
   // 验证知识库存在性
-  await getDatasetOrThrow(userId, datasetId);
+  const datasetRecord = await getDatasetOrThrow(userId, datasetId);
+  const retrievalConfig = getDatasetRetrievalConfig(datasetRecord);
 
-  // 使用向量检索在知识库中搜索相关文档片段
+  // 使用向量检索在知识库中搜索相关文档片段，知识库的元数据过滤表达式在检索时与请求的过滤表达式同时生效
   const docs = await searchInDataset(req.query, [datasetId], userId, {
-    retrievalStrategy: req.retrievalStrategy,
-    k: req.k,
+    retrievalStrategy:
+      req.retrievalStrategy ?? retrievalConfig.retrievalStrategy,
+    k: req.k ?? retrievalConfig.k,
     retrievalSource: RetrievalSource.HIT_TESTING,
-    score: req.score,
+    score: req.score ?? retrievalConfig.score,
+    hybrid: req.hybrid ?? retrievalConfig.hybrid ?? undefined,
+    rerank: req.rerank ?? retrievalConfig.rerank ?? undefined,
+    filter: req.filter,
   });
 
   // 构建文档片段ID到检索结果的映射
@@ -327,6 +360,10 @@ export const hitDataset = async (
     .select()
     .from(segment)
     .where(inArray(segment.id, segmentIds));
+  // 保持检索结果（或重排序结果）的相关性顺序
+  segmentRecords.sort(
+    (a, b) => segmentIds.indexOf(a.id) - segmentIds.indexOf(b.id),
+  );
 
   // 获取关联的文档记录
   const documentIds = segmentRecords.map((record) => record.documentId);
@@ -8,8 +8,9 @@
  * 3. 文档点击统计
  * 4. 文档处理规则管理
  * 5. 文档状态更新和启用/禁用控制
- * 6. 单个文档的详细信息查询
- * 7. 文档删除和验证
+ * 6. 文档元数据维护，元数据会同步到文档片段，用于检索时过滤
+ * 7. 单个文档的详细信息查询
+ * 8. 文档删除和验证
  */
 
 // import { randomUUIDv7 } from 'bun';
@@ -27,7 +28,12 @@ import {
   segment,
   uploadFile,
 } from '@/lib/db/schema';
-import { DocumentStatus, LOCK_DOCUMENT_UPDATE_ENABLED } from '@/lib/entity';
+import {
+  DEFAULT_DOCUMENT_METADATA,
+  type DocumentMetadata,
+  DocumentStatus,
+  LOCK_DOCUMENT_UPDATE_ENABLED,
+} from '@/lib/entity';
 import { log } from '@/lib/logger';
 import { calculatePagination, paginationResult } from '@/lib/paginator';
 import {
@@ -41,9 +47,20 @@ import type {
   CreateDocumentReq,
   GetDocumentBatchRes,
 } from '@/schemas/document-schema';
+import { syncDocumentMetadata } from '@/services/indexing';
 import { format } from 'date-fns';
 import { and, asc, count, eq, inArray, like, max, sql, sum } from 'drizzle-orm';
 
+/**
+ * 补全文档元数据的默认值，兼容未设置元数据的文档
+ * @param metadata - 数据库中存储的文档元数据
+ * @returns 完整的文档元数据
+ */
+const formatDocumentMetadata = (metadata: unknown): DocumentMetadata => ({
+  ...DEFAULT_DOCUMENT_METADATA,
+  ...(metadata as Partial<DocumentMetadata>),
+});
+
 /**
  * 分页获取文档列表
  *
@@ -125,6 +142,7 @@ export const getDocumentListByPage = async (
     position: item.position,
     enabled: item.enabled,
     disabledAt: item.disabledAt?.getTime() ?? 0,
+    metadata: formatDocumentMetadata(item.metadata),
     status: item.status,
     error: item.error,
     createdAt: item.createdAt.getTime(),
@@ -224,6 +242,7 @@ export const createDocuments = async (
             batch: batchId,
             name: record.name,
             position: lastPosition,
+            metadata: data.metadata,
           };
         }),
       )
@@ -424,6 +443,42 @@ export const updateDocumentName = async (
   }
 };
 
+/**
+ * 更新文档元数据
+ *
+ * @param metadata - 新的文档元数据
+ * @param documentId - 文档ID
+ * @param datasetId - 数据集ID
+ * @param userId - 用户ID
+ * @throws NotFoundException 当文档不存在时抛出
+ * @throws BadRequestException 当文档未完成解析时抛出
+ * @throws InternalServerErrorException 当元数据同步到向量数据库失败时抛出，重新提交即可重试
+ *
+ * 功能说明：
+ * 1. 验证文档状态和所有权
+ * 2. 更新文档元数据
+ * 3. 将元数据同步到文档下所有片段的向量对象
+ */
+export const updateDocumentMetadata = async (
+  metadata: DocumentMetadata,
+  documentId: string,
+  datasetId: string,
+  userId: string,
+) => {
+  const doc = await validateAndGetDocument(datasetId, documentId, userId);
+  // 解析中的文档会在分段时读取元数据，完成后才允许修改，避免片段的元数据不一致
+  if (doc.status !== DocumentStatus.COMPLETED) {
+    throw new BadRequestException('文档未完成解析，暂无法修改');
+  }
+
+  await db
+    .update(document)
+    .set({ metadata })
+    .where(and(eq(document.id, documentId), eq(document.userId, userId)));
+
+  await syncDocumentMetadata(documentId, metadata);
+};
+
 /**
  * 更新文档启用状态
  *
@@ -527,6 +582,7 @@ export const getDocument = async (
     position: doc.position,
     enabled: doc.enabled,
     disabledAt: doc.disabledAt?.getTime() ?? 0,
+    metadata: formatDocumentMetadata(doc.metadata),
     status: doc.status,
     error: doc.error,
     createdAt: doc.createdAt.getTime(),
@@ -0,0 +1,182 @@
+/**
+ * 消息反馈服务
+ *
+ * 该模块提供了对消息回答的点赞/点踩反馈管理功能，包括：
+ * - 终端用户与应用所有者提交或撤销消息反馈
+ * - 应用所有者分页查看应用的消息反馈
+ *
+ * 同一条消息的终端用户反馈与应用所有者反馈分开记录，每个来源最多保留一条反馈，
+ * 再次提交时覆盖之前的反馈。
+ */
+
+import { NotFoundException } from '@/exceptions';
+import { db } from '@/lib/db';
+import { message, messageFeedback } from '@/lib/db/schema';
+import { FeedbackSource } from '@/lib/entity';
+import { log } from '@/lib/logger';
+import { calculatePagination, paginationResult } from '@/lib/paginator';
+import type {
+  GetFeedbacksReq,
+  MessageFeedbackReq,
+} from '@/schemas/feedback-schema';
+import { getAppOrThrow } from '@/services/app';
+import { and, count, desc, eq } from 'drizzle-orm';
+
+/**
+ * 保存消息反馈
+ *
+ * 评价类型为 null 时撤销该来源已提交的反馈，否则新增或覆盖该来源的反馈。
+ *
+ * @param messageRecord - 反馈的消息记录
+ * @param fromSource - 反馈来源
+ * @param createdBy - 反馈提交者ID（终端用户为终端用户ID，应用所有者为账号ID）
+ * @param req - 反馈请求参数，包含评价类型和反馈意见
+ */
+export const saveMessageFeedback = async (
+  messageRecord: typeof message.$inferSelect,
+  fromSource: FeedbackSource,
+  createdBy: string,
+  req: MessageFeedbackReq,
+) => {
+  if (req.rating === null) {
+    await db
+      .delete(messageFeedback)
+      .where(
+        and(
+          eq(messageFeedback.messageId, messageRecord.id),
+          eq(messageFeedback.fromSource, fromSource),
+        ),
+      );
+    log.info(
+      'Revoke message feedback, messageId={%s}, fromSource={%s}',
+      messageRecord.id,
+      fromSource,
+    );
+    return;
+  }
+
+  await db
+    .insert(messageFeedback)
+    .values({
+      appId: messageRecord.appId,
+      conversationId: messageRecord.conversationId,
+      messageId: messageRecord.id,
+      rating: req.rating,
+      content: req.content,
+      fromSource,
+      createdBy,
+    })
+    .onConflictDoUpdate({
+      target: [messageFeedback.messageId, messageFeedback.fromSource],
+      set: {
+        rating: req.rating,
+        content: req.content,
+        createdBy,
+      },
+    });
+};
+
+/**
+ * 应用所有者提交消息反馈
+ *
+ * @param appId - 应用ID
+ * @param userId - 用户ID
+ * @param messageId - 消息ID
+ * @param req - 反馈请求参数，包含评价类型和反馈意见
+ * @throws {NotFoundException} 当应用或消息不存在时
+ */
+export const updateAppMessageFeedback = async (
+  appId: string,
+  userId: string,
+  messageId: string,
+  req: MessageFeedbackReq,
+) => {
+  await getAppOrThrow(appId, userId);
+
+  const messageRecords = await db
+    .select()
+    .from(message)
+    .where(
+      and(
+        eq(message.id, messageId),
+        eq(message.appId, appId),
+        eq(message.isDeleted, false),
+      ),
+    );
+  if (messageRecords.length === 0) {
+    throw new NotFoundException('消息不存在');
+  }
+
+  await saveMessageFeedback(
+    messageRecords[0],
+    FeedbackSource.ADMIN,
+    userId,
+    req,
+  );
+};
+
+/**
+ * 分页获取应用的消息反馈列表
+ *
+ * 反馈按更新时间倒序排列，并附带被反馈消息的提问与回答，便于应用所有者整理标注。
+ *
+ * @param appId - 应用ID
+ * @param userId - 用户ID
+ * @param req - 分页请求参数，包含可选的评价类型和反馈来源过滤
+ * @returns 分页后的反馈列表
+ * @throws {NotFoundException} 当应用不存在时
+ */
+export const getFeedbacksByPage = async (
+  appId: string,
+  userId: string,
+  req: GetFeedbacksReq,
+) => {
+  await getAppOrThrow(appId, userId);
+  const { offset, limit } = calculatePagination(req);
+
+  const conditions = [eq(messageFeedback.appId, appId)];
+  if (req.rating) {
+    conditions.push(eq(messageFeedback.rating, req.rating));
+  }
+  if (req.fromSource) {
+    conditions.push(eq(messageFeedback.fromSource, req.fromSource));
+  }
+  const where = and(...conditions);
+
+  const listQuery = db
+    .select({
+      feedback: messageFeedback,
+      query: message.query,
+      answer: message.answer,
+      invokeFrom: message.invokeFrom,
+    })
+    .from(messageFeedback)
+    .innerJoin(message, eq(messageFeedback.messageId, message.id))
+    .where(where)
+    .orderBy(desc(messageFeedback.updatedAt))
+    .limit(limit)
+    .offset(offset);
+
+  const totalQuery = db
+    .select({ count: count() })
+    .from(messageFeedback)
+    .where(where);
+
+  const [list, total] = await Promise.all([listQuery, totalQuery]);
+
+  const formattedList = list.map(({ feedback, query, answer, invokeFrom }) => ({
+    id: feedback.id,
+    conversationId: feedback.conversationId,
+    messageId: feedback.messageId,
+    rating: feedback.rating,
+    content: feedback.content,
+    fromSource: feedback.fromSource,
+    invokeFrom,
+    query,
+    answer,
+    createdAt: feedback.createdAt.getTime(),
+    updatedAt: feedback.updatedAt.getTime(),
+  }));
+
+  return paginationResult(formattedList, total[0].count, req);
+};
@@ -4,9 +4,10 @@
  * 该模块负责处理文档的完整索引流程，包括：
  * 1. 文档解析：从上传的文件中提取文本内容
  * 2. 文档分割：将文档分割成更小的片段
- * 3. 文档索引：为文档片段创建关键词索引
+ * 3. 文档索引：提取文档片段的关键词，并为全文检索建立词项索引
  * 4. 文档存储：将处理后的文档片段存储到向量数据库中
  * 5. 文档管理：支持文档的启用/禁用和删除操作
+ * 6. 元数据同步：将文档元数据同步到向量对象，并为元数据版本落后的数据集回填向量元数据
  *
  * 主要依赖：
  * - 数据库操作：使用 Drizzle ORM
@@ -19,34 +20,43 @@
 
 // import { randomUUIDv7 } from 'bun';
 import { randomUUID } from 'node:crypto';
+import { InternalServerErrorException } from '@/exceptions';
 import { db } from '@/lib/db';
 import {
+  dataset,
   datasetQuery,
   document,
-  keywordTable,
   processRule,
   segment,
   uploadFile,
 } from '@/lib/db/schema';
 import { calculateTokenCount } from '@/lib/embedding';
-import { DocumentStatus, SegmentStatus } from '@/lib/entity';
+import {
+  type DocumentMetadata,
+  DocumentStatus,
+  SegmentStatus,
+} from '@/lib/entity';
 import { load } from '@/lib/file-extractor';
 import { hashText } from '@/lib/file-util';
 import { extractKeywords } from '@/lib/keyword';
 import { log } from '@/lib/logger';
+import { syncVectorMetadataAsyncTask } from '@/lib/queues/dataset-queue';
 import { releaseLock } from '@/lib/redis/lock';
+import { toVectorStoreMetadata } from '@/lib/retriever/metadata-filter';
 import { cleanText, createTextSplitter } from '@/lib/text-splitter';
 import { concurrencyTask } from '@/lib/utils';
 import { vectorStore, vectorStoreCollection } from '@/lib/vector-store';
 import {
-  addKeywordTableFromSegmentIds,
-  buildKeywordMap,
-  deleteKeywordTableFromSegmentIds,
-  formatKeywordMap,
-  getOrCreateKeywordTable,
-} from '@/services/keyword-table';
+  addSegmentTermsFromSegmentIds,
+  deleteSegmentTermsFromSegmentIds,
+} from '@/services/segment-term';
 import type { Document } from '@langchain/core/documents';
-import { and, eq, inArray, max } from 'drizzle-orm';
+import { and, eq, inArray, lt, max } from 'drizzle-orm';
+
+/**
+ * 当前的向量元数据版本，数据集的向量元数据版本低于该版本时需要回填
+ */
+export const VECTOR_METADATA_VERSION = 1;
 
 /**
  * 构建文档索引
@@ -76,19 +86,12 @@ export const buildDocuments = async (
   }
 
   log.info(`Building documents: ${documentIds.join(', ')}`);
-  // 并行查询文档记录和关键词表，提高查询效率
-  const documentsQuery = db
+  const documentRecords = await db
     .select()
     .from(document)
     .where(
       and(inArray(document.id, documentIds), eq(document.datasetId, datasetId)),
     );
-  const keywordTableQuery = getOrCreateKeywordTable(datasetId);
-
-  const [documentRecords, keywordTableRecord] = await Promise.all([
-    documentsQuery,
-    keywordTableQuery,
-  ]);
 
   // 遍历处理每个文档，确保每个文档都能独立处理
   for (const documentRecord of documentRecords) {
@@ -111,12 +114,8 @@ export const buildDocuments = async (
         documentRecord,
         langchainDocs,
       );
-      // 3. 索引文档：为文档片段创建关键词索引，支持后续搜索
-      await indexingDocument(
-        documentRecord,
-        langchainSegments,
-        keywordTableRecord,
-      );
+      // 3. 索引文档：为文档片段创建关键词和词项索引，支持后续搜索
+      await indexingDocument(documentRecord, langchainSegments);
       // 4. 存储文档：将处理后的文档片段存储到向量数据库中
       await savingDocument(documentRecord, langchainSegments);
     } catch (error) {
@@ -321,6 +320,8 @@ const splittingDocument = async (
       node_id: segmentRecord.nodeId,
       document_enabled: false, // 初始状态为禁用
       segment_enabled: false, // 初始状态为禁用
+      // 片段携带所属文档的元数据，用于检索时过滤
+      ...toVectorStoreMetadata(doc.metadata as Partial<DocumentMetadata>),
     };
   }
 
@@ -336,30 +337,25 @@ const splittingDocument = async (
 /**
  * 索引文档
  *
- * 为文档片段创建关键词索引，并更新关键词表。
+ * 为文档片段提取关键词，并为全文检索建立词项索引。
  * 同时更新文档和片段的状态。
  *
  * 处理流程：
- * 1. 初始化关键词映射
- * 2. 处理每个文档片段
- * 3. 提取关键词
- * 4. 更新片段状态
- * 5. 更新关键词表
+ * 1. 处理每个文档片段
+ * 2. 提取关键词
+ * 3. 更新片段状态
+ * 4. 建立片段的词项索引
  *
  * @param doc - 文档记录
  * @param langchainSegments - LangChain 文档片段数组
- * @param keywordTableRecord - 关键词表记录
  */
 const indexingDocument = async (
   doc: typeof document.$inferSelect,
   langchainSegments: Document[],
-  keywordTableRecord: typeof keywordTable.$inferSelect,
 ) => {
   log.info('Start indexing document %s', doc.id);
-  // 初始化关键词映射，用于存储关键词和对应的片段ID
-  const keywordMapping = buildKeywordMap(keywordTableRecord);
 
-  // 处理每个文档片段，提取关键词并更新索引
+  // 处理每个文档片段，提取关键词
   for (const langchainSegment of langchainSegments) {
     // 提取片段中的关键词，限制为前10个
     const segmentKeywords = extractKeywords(langchainSegment.pageContent, 10);
@@ -372,38 +368,24 @@ const indexingDocument = async (
         indexingCompletedAt: new Date(),
       })
       .where(eq(segment.id, langchainSegment.metadata.segment_id));
-
-    // 更新关键词映射，建立关键词和片段的关联
-    for (const segmentKeyword of segmentKeywords) {
-      if (!keywordMapping.has(segmentKeyword)) {
-        keywordMapping.set(segmentKeyword, new Set());
-      }
-      keywordMapping
-        .get(segmentKeyword)
-        ?.add(langchainSegment.metadata.segment_id);
-    }
   }
 
-  log.info('Document %s all segments indexed', doc.id);
-  // 在事务中更新关键词表和文档状态
-  await db.transaction(async (tx) => {
-    // 更新关键词表，将Set转换为数组
-    const updateKeywordTableQuery = tx
-      .update(keywordTable)
-      .set({
-        keywords: formatKeywordMap(keywordMapping),
-      })
-      .where(eq(keywordTable.id, keywordTableRecord.id));
-    // 更新文档状态为索引完成
-    const updateDocumentQuery = tx
-      .update(document)
-      .set({
-        indexingCompletedAt: new Date(),
-      })
-      .where(eq(document.id, doc.id));
+  // 为片段的内容和关键词建立词项索引
+  await addSegmentTermsFromSegmentIds(
+    doc.datasetId,
+    langchainSegments.map(
+      (langchainSegment) => langchainSegment.metadata.segment_id,
+    ),
+  );
 
-    await Promise.all([updateKeywordTableQuery, updateDocumentQuery]);
-  });
+  log.info('Document %s all segments indexed', doc.id);
+  // 更新文档状态为索引完成
+  await db
+    .update(document)
+    .set({
+      indexingCompletedAt: new Date(),
+    })
+    .where(eq(document.id, doc.id));
 };
 
 /**
@@ -508,7 +490,7 @@ const cleanExtraText = (text: string) => {
  * 处理流程：
  * 1. 验证文档状态
  * 2. 更新向量数据库中的元数据
- * 3. 更新关键词表
+ * 3. 更新片段的词项索引
  * 4. 释放锁
  *
  * 错误处理：
@@ -610,9 +592,9 @@ export const updateDocumentEnabled = async (
         );
 
       const enabledSegmentIds = enabledSegmentRecords.map((item) => item.id);
-      await addKeywordTableFromSegmentIds(doc.datasetId, enabledSegmentIds);
+      await addSegmentTermsFromSegmentIds(doc.datasetId, enabledSegmentIds);
     } else {
-      await deleteKeywordTableFromSegmentIds(doc.datasetId, segmentIds);
+      await deleteSegmentTermsFromSegmentIds(segmentIds);
     }
   } catch (error) {
     log.error(
@@ -626,18 +608,128 @@ export const updateDocumentEnabled = async (
   }
 };
 
+/**
+ * 同步文档元数据到向量数据库
+ *
+ * 将文档下所有片段向量对象的元数据属性更新为文档的最新元数据，
+ * 使语义检索的元数据过滤与文档保持一致。
+ *
+ * @param documentId - 文档ID
+ * @param metadata - 文档的最新元数据
+ * @throws InternalServerErrorException 当存在片段同步失败时抛出
+ */
+export const syncDocumentMetadata = async (
+  documentId: string,
+  metadata: DocumentMetadata,
+) => {
+  const segmentRecords = await db
+    .select({ id: segment.id, nodeId: segment.nodeId })
+    .from(segment)
+    .where(eq(segment.documentId, documentId));
+
+  const collection = vectorStoreCollection();
+  const properties = toVectorStoreMetadata(metadata);
+  const failedSegmentIds: string[] = [];
+  const task = concurrencyTask(10); // 限制并发数为10
+  for (const segmentRecord of segmentRecords) {
+    const nodeId = segmentRecord.nodeId;
+    if (!nodeId) {
+      log.warn('Segment %s nodeId is empty', segmentRecord.id);
+      continue;
+    }
+    task.addTask(async () => {
+      try {
+        await collection.data.update({ id: nodeId, properties });
+      } catch (error) {
+        log.error(
+          'Sync segment metadata failed, segmentId: %s, error: %o',
+          segmentRecord.id,
+          error,
+        );
+        failedSegmentIds.push(segmentRecord.id);
+      }
+    });
+  }
+  await task.run();
+
+  // 并发任务管理器会吞掉任务异常，需要汇总失败的片段后抛出，避免元数据不一致却返回成功
+  if (failedSegmentIds.length > 0) {
+    throw new InternalServerErrorException(
+      `同步文档元数据到向量数据库失败，失败片段数: ${failedSegmentIds.length}，请重试`,
+    );
+  }
+
+  log.info(
+    'Sync document metadata completed, documentId: %s, segment count: %d',
+    documentId,
+    segmentRecords.length,
+  );
+};
+
+/**
+ * 将数据集下所有文档的元数据同步到向量数据库
+ *
+ * 元数据过滤上线前写入的向量对象没有元数据属性，同步完成后将数据集的向量元数据版本更新为当前版本。
+ * 任一文档同步失败时抛出异常且不更新版本，下次 worker 启动时会重新创建同步任务。
+ *
+ * @param datasetId - 数据集ID
+ */
+export const syncDatasetVectorMetadata = async (datasetId: string) => {
+  const documentRecords = await db
+    .select({ id: document.id, metadata: document.metadata })
+    .from(document)
+    .where(eq(document.datasetId, datasetId));
+
+  for (const documentRecord of documentRecords) {
+    await syncDocumentMetadata(
+      documentRecord.id,
+      documentRecord.metadata as DocumentMetadata,
+    );
+  }
+
+  await db
+    .update(dataset)
+    .set({ vectorMetadataVersion: VECTOR_METADATA_VERSION })
+    .where(eq(dataset.id, datasetId));
+
+  log.info(
+    'Sync dataset vector metadata success, datasetId: %s, documentCount: %d',
+    datasetId,
+    documentRecords.length,
+  );
+};
+
+/**
+ * 为向量元数据版本落后的数据集创建同步任务
+ */
+export const scheduleVectorMetadataSyncs = async () => {
+  const datasetRecords = await db
+    .select({ id: dataset.id })
+    .from(dataset)
+    .where(lt(dataset.vectorMetadataVersion, VECTOR_METADATA_VERSION));
+
+  for (const record of datasetRecords) {
+    await syncVectorMetadataAsyncTask(record.id);
+  }
+
+  log.info(
+    'Schedule vector metadata syncs, datasetCount: %d',
+    datasetRecords.length,
+  );
+};
+
 /**
  * 删除文档
  *
  * 从系统中完全删除文档及其相关数据，包括：
  * 1. 从向量数据库中删除文档片段
- * 2. 从关键词表中删除相关片段的关键词
+ * 2. 从词项索引中删除相关片段的词项
  *
  * 处理流程：
  * 1. 获取向量存储集合
  * 2. 并行执行删除操作：
  *    - 删除向量数据库中的文档片段
- *    - 删除关键词表中的相关片段
+ *    - 删除词项索引中的相关片段
  *
  * @param datasetId - 数据集ID
  * @param documentId - 要删除的文档ID
@@ -654,7 +746,7 @@ export const deleteDocument = async (
     collection.data.deleteMany(
       collection.filter.byProperty('document_id').equal(documentId),
     ),
-    deleteKeywordTableFromSegmentIds(datasetId, segmentIds),
+    deleteSegmentTermsFromSegmentIds(segmentIds),
   ]);
 };
 
@@ -664,18 +756,14 @@ export const deleteDocument = async (
  * 从系统中完全删除数据集及其相关数据，包括：
  * 1. 删除所有文档片段
  * 2. 删除所有文档
- * 3. 删除关键词表
- * 4. 删除查询历史
- * 5. 删除向量数据库中的数据
+ * 3. 删除查询历史（片段的词项索引随片段级联删除）
+ * 4. 删除向量数据库中的数据
  */
 export const deleteDataset = async (datasetId: string) => {
   try {
     await db.transaction(async (tx) => {
       await tx.delete(segment).where(eq(segment.datasetId, datasetId));
       await tx.delete(document).where(eq(document.datasetId, datasetId));
-      await tx
-        .delete(keywordTable)
-        .where(eq(keywordTable.datasetId, datasetId));
       await tx
         .delete(datasetQuery)
         .where(eq(datasetQuery.datasetId, datasetId));
@@ -0,0 +1,69 @@
+/**
+ * 语言模型服务模块
+ * 该模块负责提供语言模型注册表的查询功能
+ * 包括模型提供商列表的获取以及特定模型信息的查询
+ */
+
+import { NotFoundException } from '@/exceptions';
+import {
+  type LanguageModelProvider,
+  getLanguageModel,
+  getLanguageModelProvider,
+  languageModelProviders,
+} from '@/lib/llm';
+
+/**
+ * 格式化提供商基础信息
+ * @param provider - 语言模型提供商
+ * @returns 提供商的展示信息，不包含模型实例工厂
+ */
+const formatProvider = (provider: LanguageModelProvider) => ({
+  name: provider.name,
+  label: provider.label,
+  description: provider.description,
+  icon: provider.icon,
+  background: provider.background,
+});
+
+/**
+ * 获取所有语言模型提供商及其模型列表
+ * @returns {Object[]} 返回提供商列表，每个提供商包含：
+ *   - name: 提供商名称
+ *   - label: 提供商显示标签
+ *   - description: 提供商描述
+ *   - icon: 提供商图标
+ *   - background: 图标背景色
+ *   - models: 模型列表，每个模型包含特性、上下文长度、参数定义和价格信息
+ */
+export const getLanguageModels = () => {
+  return languageModelProviders.map((provider) => ({
+    ...formatProvider(provider),
+    models: provider.models,
+  }));
+};
+
+/**
+ * 获取指定提供商的特定模型的详细信息
+ * @param {string} providerName - 模型提供商名称
+ * @param {string} modelName - 模型名称
+ * @returns {Object} 返回模型详细信息，包含提供商信息和模型信息
+ * @throws {NotFoundException} 当模型提供商或模型不存在时抛出异常
+ */
+export const getLanguageModelInfo = (
+  providerName: string,
+  modelName: string,
+) => {
+  const provider = getLanguageModelProvider(providerName);
+  if (!provider) {
+    throw new NotFoundException('模型提供商不存在');
+  }
+  const model = getLanguageModel(provider, modelName);
+  if (!model) {
+    throw new NotFoundException('模型不存在');
+  }
+
+  return {
+    provider: formatProvider(provider),
+    ...model,
+  };
+};
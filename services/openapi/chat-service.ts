@@ -0,0 +1,481 @@
+/**
+ * 开放 API 聊天服务
+ *
+ * 该服务为已发布的应用提供面向第三方的聊天能力，包括：
+ * - 校验应用归属与发布状态，使用已发布的运行配置
+ * - 终端用户的创建与校验，支持同一应用下的多终端用户会话
+ * - 流式事件响应（SSE）与阻塞式 JSON 响应两种调用方式
+ * - 会修改外部状态的 API 工具执行前需要终端用户审批，阻塞式调用无法审批，直接拒绝执行
+ * - 代理思考过程的记录与持久化
+ *
+ * 所有的校验都在开始流式响应之前完成，保证错误能够以正确的 HTTP 状态码返回。
+ */
+
+import { randomUUID } from 'node:crypto';
+import { BadRequestException, NotFoundException } from '@/exceptions';
+import { createAgent, invokeAgent } from '@/lib/agent';
+import { agentCheckpointer } from '@/lib/agent/checkpointer';
+import {
+  type AgentThought,
+  QueueEvent,
+  createAgentConfig,
+  createErrorAgentThought,
+} from '@/lib/agent/entity';
+import {
+  createEventProcessor,
+  mergeAgentThought,
+  wrapEmitWithPing,
+} from '@/lib/agent/event-processor';
+import {
+  clearTaskBelongCache,
+  doTaskBelongCheck,
+  setTaskBelongCache,
+} from '@/lib/agent/helper';
+import { submitToolApprovalDecision } from '@/lib/agent/tool-approval';
+import { db } from '@/lib/db';
+import { endUser, message } from '@/lib/db/schema';
+import {
+  type Citation,
+  InvokeFrom,
+  MessageStatus,
+  RetrievalSource,
+} from '@/lib/entity';
+import {
+  createChatModel,
+  createHumanMessage,
+  getLanguageModelOrThrow,
+  validateImageInput,
+} from '@/lib/llm';
+import { log } from '@/lib/logger';
+import { loadConversationMemory } from '@/lib/memory';
+import { createLangchainToolForDataset } from '@/lib/retriever';
+import { createAnnotationReplyRetriever } from '@/lib/retriever/annotation-retriever';
+import { mergeCitations } from '@/lib/retriever/citation';
+import { createUserMemoryRetriever } from '@/lib/retriever/user-memory-retriever';
+import type {
+  ApproveEndUserChatTaskReq,
+  OpenapiChatReq,
+} from '@/schemas/openapi-schema';
+import { getAppOrThrow } from '@/services/app';
+import {
+  getLangchainToolsByToolConfig,
+  getPublishedAppConfig,
+} from '@/services/app-config';
+import {
+  getNewMessageParentId,
+  getOrCreateEndUserConversation,
+  saveAgentThoughts,
+} from '@/services/conversation';
+import { validateImageUrls } from '@/services/upload-file';
+import { and, eq } from 'drizzle-orm';
+import { getEndUserOrThrow } from './conversation-service';
+
+/**
+ * 获取或创建终端用户
+ *
+ * 如果提供了终端用户ID，则校验其是否属于当前应用；否则为应用创建新的终端用户。
+ *
+ * @param endUserId - 终端用户ID，可为undefined
+ * @param appId - 应用ID
+ * @param userId - 应用所属的账号ID
+ * @returns 终端用户记录
+ * @throws {NotFoundException} 当终端用户不存在或不属于当前应用时
+ */
+const getOrCreateEndUser = async (
+  endUserId: string | undefined,
+  appId: string,
+  userId: string,
+) => {
+  if (endUserId) {
+    const endUserRecords = await db
+      .select()
+      .from(endUser)
+      .where(and(eq(endUser.id, endUserId), eq(endUser.appId, appId)));
+    if (endUserRecords.length === 0) {
+      throw new NotFoundException('终端用户不存在');
+    }
+    return endUserRecords[0];
+  }
+
+  const endUserRecords = await db
+    .insert(endUser)
+    .values({
+      userId,
+      appId,
+    })
+    .returning();
+
+  return endUserRecords[0];
+};
+
+/**
+ * 准备开放 API 聊天上下文
+ *
+ * 在开始调用代理之前完成所有的校验与数据准备：
+ * - 校验应用归属并获取已发布的运行配置
+ * - 校验附带的图片，模型不支持图片输入时拒绝请求
+ * - 获取或创建终端用户
+ * - 获取或创建终端用户会话
+ * - 创建消息记录，重新生成或编辑后重新发送时新消息作为原消息的兄弟节点开启新的分支
+ *
+ * @param userId - API 秘钥所属的账号ID
+ * @param req - 开放 API 聊天请求参数
+ * @returns 聊天上下文，包含应用配置、终端用户、会话和消息记录
+ * @throws {NotFoundException} 当应用、终端用户、会话或原消息不存在时
+ * @throws {BadRequestException} 当应用未发布、图片无效或模型不支持图片输入时
+ */
+export const prepareOpenapiChat = async (
+  userId: string,
+  req: OpenapiChatReq,
+) => {
+  const appRecord = await getAppOrThrow(req.appId, userId);
+  const appConfig = await getPublishedAppConfig(appRecord);
+
+  // 校验附带的图片，以及已发布配置的模型是否支持图片输入
+  await validateImageUrls(req.imageUrls);
+  validateImageInput(appConfig.modelConfig, req.imageUrls);
+
+  const endUserRecord = await getOrCreateEndUser(
+    req.endUserId,
+    appRecord.id,
+    userId,
+  );
+
+  const conversationRecord = await getOrCreateEndUserConversation(
+    req.conversationId,
+    appRecord.id,
+    endUserRecord.id,
+    InvokeFrom.SERVICE_API,
+  );
+
+  // 确定新消息在消息树中的父消息，重新生成时与原消息拥有相同的父消息
+  const parentId = await getNewMessageParentId(
+    conversationRecord.id,
+    req.regenerateMessageId,
+  );
+
+  // 创建消息记录，标记为服务 API 来源
+  const messageRecords = await db
+    .insert(message)
+    .values({
+      appId: appRecord.id,
+      conversationId: conversationRecord.id,
+      parentId,
+      invokeFrom: InvokeFrom.SERVICE_API,
+      createdBy: endUserRecord.id,
+      query: req.query,
+      imageUrls: req.imageUrls,
+      status: MessageStatus.NORMAL,
+    })
+    .returning();
+
+  return {
+    appId: appRecord.id,
+    appConfig,
+    endUserId: endUserRecord.id,
+    conversationRecord,
+    messageRecord: messageRecords[0],
+    query: req.query,
+    imageUrls: req.imageUrls,
+  };
+};
+
+export type OpenapiChatContext = Awaited<ReturnType<typeof prepareOpenapiChat>>;
+
+/**
+ * 运行开放 API 聊天代理
+ *
+ * 根据已发布的应用配置创建代理并执行，每个代理事件都会交由 onAgentThought 处理，
+ * 执行完成后将代理思考过程保存到数据库。执行失败时发射错误事件并保存，消息状态标记为错误后再抛出异常。
+ * 运行状态通过检查点存储持久化，运行结束后删除检查点。
+ *
+ * @param userId - API 秘钥所属的账号ID，用于加载账号下的 API 工具与知识库
+ * @param context - 开放 API 聊天上下文
+ * @param onAgentThought - 代理事件回调
+ * @param waitForApproval - 是否等待终端用户审批工具调用，为 false 时需要审批的工具调用直接拒绝执行
+ * @returns 合并后的代理思考过程列表
+ */
+const runOpenapiChatAgent = async (
+  userId: string,
+  context: OpenapiChatContext,
+  onAgentThought: (agentThought: AgentThought) => void,
+  waitForApproval: boolean,
+) => {
+  const { appId, appConfig, endUserId, conversationRecord, messageRecord } =
+    context;
+
+  const eventProcessor = createEventProcessor();
+  const taskId = randomUUID();
+  const pingEmitter = wrapEmitWithPing(
+    (event: AgentThought) => eventProcessor.emit(event),
+    taskId,
+  );
+  const agentThoughts = new Map<string, AgentThought>();
+
+  eventProcessor.use(async (agentThought) => {
+    mergeAgentThought(agentThoughts, agentThought);
+    onAgentThought(agentThought);
+  });
+
+  try {
+    // 代理运行失败时发射错误事件，错误事件与已完成的步骤一起保存，消息状态标记为错误
+    let agentError: unknown = null;
+    try {
+      const llm = createChatModel(appConfig.modelConfig);
+      const { model: languageModel } = getLanguageModelOrThrow(
+        appConfig.modelConfig,
+      );
+
+      // 按应用的对话记忆策略加载会话历史
+      const { history, historySummary } = await loadConversationMemory({
+        conversationRecord,
+        modelInstance: llm,
+        languageModel,
+        modelConfig: appConfig.modelConfig,
+        memoryConfig: appConfig.memoryConfig,
+        dialogRound: appConfig.dialogRound,
+      });
+
+      // 加载工具与知识库检索工具
+      const tools = await getLangchainToolsByToolConfig(
+        appConfig.tools,
+        userId,
+        appConfig.workflows,
+      );
+      if (appConfig.datasets.length > 0) {
+        const datasetRetrievalTool = createLangchainToolForDataset(
+          appConfig.datasets.map((dataset) => dataset.id),
+          userId,
+          {
+            ...appConfig.retrievalConfig,
+            retrievalSource: RetrievalSource.APP,
+          },
+        );
+        tools.push(datasetRetrievalTool);
+      }
+
+      // 根据模型是否支持原生工具调用选择函数调用智能体或 ReAct 智能体
+      const agent = createAgent(
+        {
+          llm,
+          agentConfig: createAgentConfig({
+            userId,
+            invokeFrom: InvokeFrom.SERVICE_API,
+            reviewConfig: appConfig.reviewConfig,
+            enableLongTermMemory: appConfig.longTermMemory.enable,
+            tools,
+            modelPricing: languageModel.pricing,
+            structuredOutput: appConfig.structuredOutput,
+            annotationReplyRetriever: appConfig.annotationReply.enable
+              ? createAnnotationReplyRetriever(
+                  appId,
+                  appConfig.annotationReply.scoreThreshold,
+                )
+              : null,
+            userMemoryRetriever: createUserMemoryRetriever(appId, endUserId),
+            enableToolApproval: true,
+          }),
+          checkpointer: agentCheckpointer, // 检查点存储，等待审批期间的运行状态持久化到数据库
+        },
+        languageModel,
+      );
+
+      // 设置任务归属缓存，任务归属于终端用户
+      await setTaskBelongCache(taskId, InvokeFrom.SERVICE_API, endUserId);
+
+      await invokeAgent(
+        agent,
+        {
+          messages: [createHumanMessage(context.query, context.imageUrls)],
+          history,
+          historySummary,
+          longTermMemory: conversationRecord.summary,
+          taskId,
+          iterationCount: 0,
+          emit: pingEmitter,
+          stop: false,
+        },
+        { waitForApproval },
+      );
+    } catch (error) {
+      agentError = error;
+      log.error(
+        'Openapi chat agent failed, taskId={%s}, error={%o}',
+        taskId,
+        error,
+      );
+      await eventProcessor.emit(
+        createErrorAgentThought(taskId, error as Error),
+      );
+    }
+
+    await saveAgentThoughts(
+      endUserId,
+      appId,
+      InvokeFrom.SERVICE_API,
+      appConfig.longTermMemory.enable,
+      conversationRecord.id,
+      messageRecord.id,
+      Array.from(agentThoughts.values()),
+    );
+    if (agentError) {
+      throw agentError;
+    }
+
+    return Array.from(agentThoughts.values());
+  } finally {
+    log.info('Openapi chat agent stop, taskId={%s}', taskId);
+    pingEmitter.stop();
+    await Promise.all([
+      clearTaskBelongCache(taskId),
+      agentCheckpointer.deleteThread(taskId),
+    ]);
+  }
+};
+
+/**
+ * 开放 API 流式聊天
+ *
+ * 通过 Server-Sent Events (SSE) 将代理的每个事件实时写入响应流。
+ * 需要审批的工具调用会发送 tool_approval 事件，终端用户通过审批接口提交审批结果后继续运行。
+ *
+ * @param userId - API 秘钥所属的账号ID
+ * @param context - 开放 API 聊天上下文
+ * @param writer - 用于写入SSE响应的流写入器
+ */
+export const openapiChatStream = async (
+  userId: string,
+  context: OpenapiChatContext,
+  writer: WritableStreamDefaultWriter,
+) => {
+  try {
+    await runOpenapiChatAgent(
+      userId,
+      context,
+      (agentThought) => {
+        const data = {
+          id: agentThought.id,
+          endUserId: context.endUserId,
+          conversationId: context.conversationRecord.id,
+          messageId: context.messageRecord.id,
+          taskId: agentThought.taskId,
+          event: agentThought.event,
+          thought: agentThought.thought,
+          observation: agentThought.observation,
+          tool: agentThought.tool,
+          toolInput: agentThought.toolInput,
+          answer: agentThought.answer,
+          structuredAnswer: agentThought.structuredAnswer,
+          citations: agentThought.citations,
+          latency: agentThought.latency,
+        };
+        writer.write(
+          `event: ${agentThought.event}\ndata: ${JSON.stringify(data)}\n\n`,
+        );
+      },
+      true,
+    );
+  } catch (error) {
+    // 代理运行失败时错误事件已经写入响应流，这里只记录日志
+    log.error('Openapi chat stream failed: %o', error);
+  } finally {
+    writer.close();
+  }
+};
+
+/**
+ * 开放 API 阻塞式聊天
+ *
+ * 等待代理执行完成后一次性返回完整的回答和代理思考过程。
+ * 阻塞式调用无法审批工具调用，需要审批的工具调用直接拒绝执行。
+ *
+ * @param userId - API 秘钥所属的账号ID
+ * @param context - 开放 API 聊天上下文
+ * @returns 完整的聊天结果，包含回答、结构化回答、引用来源、token 用量、费用、总耗时和代理思考过程
+ */
+export const openapiChatBlocking = async (
+  userId: string,
+  context: OpenapiChatContext,
+) => {
+  const agentThoughts = await runOpenapiChatAgent(
+    userId,
+    context,
+    () => {},
+    false,
+  );
+
+  let answer = '';
+  let structuredAnswer: Record<string, unknown> | null = null;
+  const citations: Citation[] = [];
+  let totalTokenCount = 0;
+  let totalPrice = 0;
+  let latency = 0;
+  for (const agentThought of agentThoughts) {
+    if (agentThought.event === QueueEvent.AGENT_MESSAGE) {
+      answer = agentThought.answer;
+      structuredAnswer = agentThought.structuredAnswer;
+    }
+    if (agentThought.event === QueueEvent.DATASET_RETRIEVAL) {
+      citations.push(...agentThought.citations);
+    }
+    totalTokenCount += agentThought.totalTokenCount;
+    totalPrice += agentThought.totalPrice;
+    latency += agentThought.latency;
+  }
+
+  return {
+    id: context.messageRecord.id,
+    endUserId: context.endUserId,
+    conversationId: context.conversationRecord.id,
+    query: context.query,
+    imageUrls: context.imageUrls,
+    answer,
+    structuredAnswer,
+    citations: mergeCitations(citations),
+    totalTokenCount,
+    totalPrice,
+    latency,
+    agentThoughts: agentThoughts.map((agentThought) => ({
+      id: agentThought.id,
+      event: agentThought.event,
+      thought: agentThought.thought,
+      observation: agentThought.observation,
+      tool: agentThought.tool,
+      toolInput: agentThought.toolInput,
+      latency: agentThought.latency,
+    })),
+  };
+};
+
+/**
+ * 终端用户审批工具调用
+ *
+ * 流式聊天中需要审批的工具调用会中断运行，终端用户批准、修改参数或拒绝后任务继续运行。
+ *
+ * @param userId - API 秘钥所属的账号ID
+ * @param taskId - 任务ID
+ * @param req - 审批请求，包含终端用户ID、是否批准、修改后的工具参数和拒绝原因
+ * @throws {NotFoundException} 当终端用户不存在时
+ * @throws {BadRequestException} 当任务不属于终端用户、没有等待审批的工具调用或工具调用ID不存在时
+ */
+export const approveEndUserChatTask = async (
+  userId: string,
+  taskId: string,
+  req: ApproveEndUserChatTaskReq,
+) => {
+  const { endUserId, ...decision } = req;
+  const endUserRecord = await getEndUserOrThrow(userId, endUserId);
+
+  // 检查任务归属权，确保只有任务所属的终端用户才能审批
+  const isBelong = await doTaskBelongCheck(
+    taskId,
+    InvokeFrom.SERVICE_API,
+    endUserRecord.id,
+  );
+  if (!isBelong) {
+    throw new BadRequestException('任务不属于当前终端用户');
+  }
+
+  // 校验并提交审批结果，通知任务恢复运行
+  await submitToolApprovalDecision(taskId, decision);
+};
@@ -0,0 +1,360 @@
+/**
+ * 终端用户会话管理服务
+ *
+ * 该服务为 Web 应用与服务 API 的终端用户提供会话管理能力，包括：
+ * - 分页获取会话列表，支持按置顶状态过滤
+ * - 会话重命名、置顶与取消置顶、删除
+ * - 分页获取会话的消息历史，附带终端用户对消息的反馈
+ * - 对消息回答提交点赞/点踩反馈
+ *
+ * 终端用户归属于 API 秘钥所属的账号，所有操作都会校验终端用户与会话的归属。
+ * 会话名称在第一条消息回答完成后由 generateConversationName 自动生成。
+ */
+
+import { NotFoundException } from '@/exceptions';
+import { db } from '@/lib/db';
+import {
+  conversation,
+  endUser,
+  message,
+  messageFeedback,
+} from '@/lib/db/schema';
+import {
+  type Citation,
+  FeedbackSource,
+  InvokeFrom,
+  MessageStatus,
+} from '@/lib/entity';
+import { log } from '@/lib/logger';
+import { calculatePagination, paginationResult } from '@/lib/paginator';
+import type { MessageFeedbackReq } from '@/schemas/feedback-schema';
+import type {
+  GetEndUserConversationMessagesReq,
+  GetEndUserConversationsReq,
+} from '@/schemas/openapi-schema';
+import { saveMessageFeedback } from '@/services/feedback';
+import { and, count, desc, eq, inArray, lte, ne } from 'drizzle-orm';
+
+/**
+ * 终端用户会话的调用来源
+ */
+const END_USER_INVOKE_FROM = [InvokeFrom.WEB_APP, InvokeFrom.SERVICE_API];
+
+/**
+ * 获取终端用户，如果不存在或不属于当前账号则抛出异常
+ *
+ * @param userId - API 秘钥所属的账号ID
+ * @param endUserId - 终端用户ID
+ * @returns 终端用户记录
+ * @throws {NotFoundException} 当终端用户不存在或不属于当前账号时
+ */
+export const getEndUserOrThrow = async (userId: string, endUserId: string) => {
+  const endUserRecords = await db
+    .select()
+    .from(endUser)
+    .where(and(eq(endUser.id, endUserId), eq(endUser.userId, userId)));
+  if (endUserRecords.length === 0) {
+    throw new NotFoundException('终端用户不存在');
+  }
+  return endUserRecords[0];
+};
+
+/**
+ * 获取终端用户的会话，如果不存在或不属于该终端用户则抛出异常
+ *
+ * @param userId - API 秘钥所属的账号ID
+ * @param endUserId - 终端用户ID
+ * @param conversationId - 会话ID
+ * @returns 会话记录
+ * @throws {NotFoundException} 当终端用户或会话不存在时
+ */
+const getEndUserConversationOrThrow = async (
+  userId: string,
+  endUserId: string,
+  conversationId: string,
+) => {
+  const endUserRecord = await getEndUserOrThrow(userId, endUserId);
+
+  const conversationRecords = await db
+    .select()
+    .from(conversation)
+    .where(
+      and(
+        eq(conversation.id, conversationId),
+        eq(conversation.appId, endUserRecord.appId),
+        eq(conversation.createdBy, endUserRecord.id),
+        inArray(conversation.invokeFrom, END_USER_INVOKE_FROM),
+        eq(conversation.isDeleted, false),
+      ),
+    );
+  if (conversationRecords.length === 0) {
+    throw new NotFoundException('会话不存在');
+  }
+  return conversationRecords[0];
+};
+
+/**
+ * 分页获取终端用户的会话列表
+ *
+ * 置顶的会话排在前面，其余按创建时间倒序排列。
+ *
+ * @param userId - API 秘钥所属的账号ID
+ * @param req - 分页请求参数，包含终端用户ID和可选的置顶状态过滤
+ * @returns 分页后的会话列表
+ * @throws {NotFoundException} 当终端用户不存在时
+ */
+export const listEndUserConversationsByPage = async (
+  userId: string,
+  req: GetEndUserConversationsReq,
+) => {
+  const endUserRecord = await getEndUserOrThrow(userId, req.endUserId);
+
+  const conditions = [
+    eq(conversation.appId, endUserRecord.appId),
+    eq(conversation.createdBy, endUserRecord.id),
+    inArray(conversation.invokeFrom, END_USER_INVOKE_FROM),
+    eq(conversation.isDeleted, false),
+  ];
+  if (req.isPinned !== null && req.isPinned !== undefined) {
+    conditions.push(eq(conversation.isPinned, req.isPinned));
+  }
+
+  const { offset, limit } = calculatePagination(req);
+
+  const listQuery = db
+    .select()
+    .from(conversation)
+    .where(and(...conditions))
+    .orderBy(desc(conversation.isPinned), desc(conversation.createdAt))
+    .limit(limit)
+    .offset(offset);
+
+  const totalQuery = db
+    .select({ count: count() })
+    .from(conversation)
+    .where(and(...conditions));
+
+  const [list, total] = await Promise.all([listQuery, totalQuery]);
+
+  const formattedList = list.map((item) => ({
+    id: item.id,
+    name: item.name,
+    isPinned: item.isPinned,
+    invokeFrom: item.invokeFrom,
+    createdAt: item.createdAt.getTime(),
+    updatedAt: item.updatedAt.getTime(),
+  }));
+
+  return paginationResult(formattedList, total[0].count, req);
+};
+
+/**
+ * 修改终端用户会话的名称
+ *
+ * @param userId - API 秘钥所属的账号ID
+ * @param endUserId - 终端用户ID
+ * @param conversationId - 会话ID
+ * @param name - 新的会话名称
+ * @throws {NotFoundException} 当终端用户或会话不存在时
+ */
+export const updateEndUserConversationName = async (
+  userId: string,
+  endUserId: string,
+  conversationId: string,
+  name: string,
+) => {
+  await getEndUserConversationOrThrow(userId, endUserId, conversationId);
+  await db
+    .update(conversation)
+    .set({ name })
+    .where(eq(conversation.id, conversationId));
+};
+
+/**
+ * 修改终端用户会话的置顶状态
+ *
+ * @param userId - API 秘钥所属的账号ID
+ * @param endUserId - 终端用户ID
+ * @param conversationId - 会话ID
+ * @param isPinned - 是否置顶会话
+ * @throws {NotFoundException} 当终端用户或会话不存在时
+ */
+export const updateEndUserConversationIsPinned = async (
+  userId: string,
+  endUserId: string,
+  conversationId: string,
+  isPinned: boolean,
+) => {
+  await getEndUserConversationOrThrow(userId, endUserId, conversationId);
+  await db
+    .update(conversation)
+    .set({ isPinned })
+    .where(eq(conversation.id, conversationId));
+};
+
+/**
+ * 删除终端用户会话
+ *
+ * 只标记会话为已删除，不删除会话的消息数据，删除后的会话不能继续对话。
+ *
+ * @param userId - API 秘钥所属的账号ID
+ * @param endUserId - 终端用户ID
+ * @param conversationId - 会话ID
+ * @throws {NotFoundException} 当终端用户或会话不存在时
+ */
+export const deleteEndUserConversation = async (
+  userId: string,
+  endUserId: string,
+  conversationId: string,
+) => {
+  await getEndUserConversationOrThrow(userId, endUserId, conversationId);
+  log.info(
+    'Delete end user conversation, endUserId={%s}, conversationId={%s}',
+    endUserId,
+    conversationId,
+  );
+  await db
+    .update(conversation)
+    .set({ isDeleted: true })
+    .where(eq(conversation.id, conversationId));
+};
+
+/**
+ * 分页获取终端用户会话的消息历史
+ *
+ * 只返回未删除、状态正常或已停止且有回答的消息，按创建时间倒序排列，
+ * 每条消息附带终端用户提交的反馈以及消息树中的父消息ID，重新生成的消息与原消息拥有相同的父消息。
+ *
+ * @param userId - API 秘钥所属的账号ID
+ * @param conversationId - 会话ID
+ * @param req - 分页请求参数，包含终端用户ID和可选的时间戳游标
+ * @returns 分页后的消息列表
+ * @throws {NotFoundException} 当终端用户或会话不存在时
+ */
+export const getEndUserConversationMessagesByPage = async (
+  userId: string,
+  conversationId: string,
+  req: GetEndUserConversationMessagesReq,
+) => {
+  await getEndUserConversationOrThrow(userId, req.endUserId, conversationId);
+
+  const conditions = [
+    eq(message.conversationId, conversationId),
+    eq(message.isDeleted, false),
+    inArray(message.status, [MessageStatus.NORMAL, MessageStatus.STOP]),
+    ne(message.answer, ''),
+  ];
+
+  // 使用时间戳游标避免分页过程中新消息导致的数据重复
+  if (req.createdAt) {
+    conditions.push(lte(message.createdAt, new Date(req.createdAt)));
+  }
+
+  const { offset, limit } = calculatePagination(req);
+
+  const listQuery = db
+    .select()
+    .from(message)
+    .where(and(...conditions))
+    .orderBy(desc(message.createdAt))
+    .limit(limit)
+    .offset(offset);
+
+  const totalQuery = db
+    .select({ count: count() })
+    .from(message)
+    .where(and(...conditions));
+
+  const [list, total] = await Promise.all([listQuery, totalQuery]);
+
+  // 查询当前页消息的终端用户反馈
+  const feedbackRecords =
+    list.length > 0
+      ? await db
+          .select()
+          .from(messageFeedback)
+          .where(
+            and(
+              inArray(
+                messageFeedback.messageId,
+                list.map((item) => item.id),
+              ),
+              eq(messageFeedback.fromSource, FeedbackSource.USER),
+            ),
+          )
+      : [];
+  const feedbackMap = new Map(
+    feedbackRecords.map((record) => [
+      record.messageId,
+      { rating: record.rating, content: record.content },
+    ]),
+  );
+
+  const formattedList = list.map((item) => ({
+    id: item.id,
+    conversationId: item.conversationId,
+    parentId: item.parentId ?? '',
+    query: item.query,
+    imageUrls: item.imageUrls as string[],
+    answer: item.answer,
+    structuredAnswer: item.structuredAnswer as Record<string, unknown> | null,
+    citations: item.citations as Citation[],
+    totalTokenCount: item.totalTokenCount,
+    latency: item.latency,
+    feedback: feedbackMap.get(item.id) ?? null,
+    createdAt: item.createdAt.getTime(),
+  }));
+
+  return paginationResult(formattedList, total[0].count, req);
+};
+
+/**
+ * 终端用户提交消息反馈
+ *
+ * 只能对终端用户自己未删除会话中的消息提交反馈，评价类型为 null 时撤销已提交的反馈。
+ *
+ * @param userId - API 秘钥所属的账号ID
+ * @param endUserId - 终端用户ID
+ * @param messageId - 消息ID
+ * @param req - 反馈请求参数，包含评价类型和反馈意见
+ * @throws {NotFoundException} 当终端用户、会话或消息不存在时
+ */
+export const updateEndUserMessageFeedback = async (
+  userId: string,
+  endUserId: string,
+  messageId: string,
+  req: MessageFeedbackReq,
+) => {
+  const endUserRecord = await getEndUserOrThrow(userId, endUserId);
+
+  const messageRecords = await db
+    .select()
+    .from(message)
+    .where(
+      and(
+        eq(message.id, messageId),
+        eq(message.appId, endUserRecord.appId),
+        eq(message.createdBy, endUserRecord.id),
+        inArray(message.invokeFrom, END_USER_INVOKE_FROM),
+        eq(message.isDeleted, false),
+      ),
+    );
+  if (messageRecords.length === 0) {
+    throw new NotFoundException('消息不存在');
+  }
+  const messageRecord = messageRecords[0];
+
+  // 会话删除后不再接受反馈
+  await getEndUserConversationOrThrow(
+    userId,
+    endUserId,
+    messageRecord.conversationId,
+  );
+
+  await saveMessageFeedback(
+    messageRecord,
+    FeedbackSource.USER,
+    endUserRecord.id,
+    req,
+  );
+};
@@ -2,7 +2,10 @@
  * OpenAPI 服务模块
  *
  * 这个模块负责导出所有与 OpenAPI 相关的服务。
- * 目前包含 API 密钥管理服务的导出。
+ * 包含 API 密钥管理服务、开放 API 聊天服务、终端用户会话管理服务和终端用户长期记忆服务的导出。
  */
 
 export * from './api-keys-service';
+export * from './chat-service';
+export * from './conversation-service';
+export * from './memory-service';
@@ -0,0 +1,69 @@
+/**
+ * 终端用户长期记忆服务
+ *
+ * 该服务为 Web 应用与服务 API 的终端用户提供查看和删除应用长期记忆的能力，包括：
+ * - 分页获取应用记住的关于终端用户的事实
+ * - 删除单条记忆或清空全部记忆
+ *
+ * 终端用户归属于 API 秘钥所属的账号，所有操作都会校验终端用户的归属。
+ */
+
+import type { GetEndUserMemoriesReq } from '@/schemas/openapi-schema';
+import {
+  clearUserMemories,
+  deleteUserMemory,
+  getUserMemoriesByPage,
+} from '@/services/user-memory';
+import { getEndUserOrThrow } from './conversation-service';
+
+/**
+ * 分页获取终端用户的长期记忆
+ *
+ * @param userId - API 秘钥所属的账号ID
+ * @param req - 分页请求参数，包含终端用户ID
+ * @returns 分页后的记忆列表
+ * @throws {NotFoundException} 当终端用户不存在时
+ */
+export const listEndUserMemoriesByPage = async (
+  userId: string,
+  req: GetEndUserMemoriesReq,
+) => {
+  const endUserRecord = await getEndUserOrThrow(userId, req.endUserId);
+  return await getUserMemoriesByPage(
+    endUserRecord.appId,
+    endUserRecord.id,
+    req,
+  );
+};
+
+/**
+ * 删除终端用户的一条长期记忆
+ *
+ * @param userId - API 秘钥所属的账号ID
+ * @param endUserId - 终端用户ID
+ * @param memoryId - 记忆ID
+ * @throws {NotFoundException} 当终端用户或记忆不存在时
+ */
+export const deleteEndUserMemory = async (
+  userId: string,
+  endUserId: string,
+  memoryId: string,
+) => {
+  const endUserRecord = await getEndUserOrThrow(userId, endUserId);
+  await deleteUserMemory(endUserRecord.appId, endUserRecord.id, memoryId);
+};
+
+/**
+ * 清空终端用户的全部长期记忆
+ *
+ * @param userId - API 秘钥所属的账号ID
+ * @param endUserId - 终端用户ID
+ * @throws {NotFoundException} 当终端用户不存在时
+ */
+export const clearEndUserMemories = async (
+  userId: string,
+  endUserId: string,
+) => {
+  const endUserRecord = await getEndUserOrThrow(userId, endUserId);
+  await clearUserMemories(endUserRecord.appId, endUserRecord.id);
+};
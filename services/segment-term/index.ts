@@ -0,0 +1,193 @@
+/**
+ * 片段词项索引服务模块
+ * 维护全文检索使用的倒排索引
+ *
+ * 该模块主要处理以下功能：
+ * 1. 对文本片段的内容和关键词分词，写入片段词项表
+ * 2. 从片段词项表中删除指定文本片段的词项
+ * 3. 按片段内容重建索引版本落后的数据集的词项索引
+ *
+ * 片段词项表的数据结构：
+ * - 每个文本片段的每个词项对应一条记录，记录词项在片段中出现的次数
+ * - 片段的词项总数记录在片段的 termCount 字段，用于 BM25 的文档长度归一化
+ * - 只有参与全文检索的片段（已启用的片段）才有词项记录，termCount 为 0 的片段不参与检索
+ *
+ * 索引按片段增量维护，不需要像整体关键词表那样在分布式锁中重写整个数据集的索引。
+ * 分词方式变化时提升索引版本，worker 启动时为索引版本落后的数据集创建重建任务，
+ * 例如迁移时只能使用关键词回填的词项索引会按片段内容重建。
+ */
+
+import { db } from '@/lib/db';
+import { dataset, document, segment, segmentTerm } from '@/lib/db/schema';
+import { SegmentStatus } from '@/lib/entity';
+import { tokenizeForSearch } from '@/lib/keyword';
+import { log } from '@/lib/logger';
+import { rebuildSegmentTermsAsyncTask } from '@/lib/queues/dataset-queue';
+import { and, eq, inArray, lt } from 'drizzle-orm';
+import { chunk, countBy } from 'es-toolkit/array';
+
+/**
+ * 单次批量写入的词项记录数量，避免超出数据库的参数数量限制
+ */
+const INSERT_BATCH_SIZE = 1000;
+
+/**
+ * 重建词项索引时每批处理的片段数量
+ */
+const REBUILD_BATCH_SIZE = 200;
+
+/**
+ * 当前的词项索引版本，数据集的索引版本低于该版本时需要重建
+ */
+export const SEGMENT_TERM_INDEX_VERSION = 1;
+
+/**
+ * 为指定的文本片段建立词项索引
+ * 已有的词项记录会被替换，因此也可以用于片段内容更新后重建索引
+ *
+ * @param datasetId - 数据集ID
+ * @param segmentIds - 要处理的文本片段ID数组
+ */
+export const addSegmentTermsFromSegmentIds = async (
+  datasetId: string,
+  segmentIds: string[],
+) => {
+  if (segmentIds.length === 0) {
+    return;
+  }
+
+  const segmentRecords = await db
+    .select({
+      id: segment.id,
+      content: segment.content,
+      keywords: segment.keywords,
+    })
+    .from(segment)
+    .where(inArray(segment.id, segmentIds));
+
+  // 片段内容与关键词（包括用户手动设置的关键词）一起参与分词
+  const segmentTerms = segmentRecords.map((record) => {
+    const keywords = record.keywords as string[];
+    const terms = [
+      ...tokenizeForSearch(record.content),
+      ...keywords.map((keyword) => keyword.toLowerCase()),
+    ];
+    return {
+      id: record.id,
+      termCount: terms.length,
+      frequencies: countBy(terms, (term) => term),
+    };
+  });
+
+  const termValues = segmentTerms.flatMap(({ id, frequencies }) =>
+    Object.entries(frequencies).map(([term, frequency]) => ({
+      datasetId,
+      segmentId: id,
+      term,
+      frequency,
+    })),
+  );
+
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(segmentTerm)
+      .where(inArray(segmentTerm.segmentId, segmentIds));
+    for (const values of chunk(termValues, INSERT_BATCH_SIZE)) {
+      await tx.insert(segmentTerm).values(values);
+    }
+    for (const { id, termCount } of segmentTerms) {
+      await tx.update(segment).set({ termCount }).where(eq(segment.id, id));
+    }
+  });
+
+  log.info(
+    'Add segment terms success, datasetId: %s, segmentCount: %d, termCount: %d',
+    datasetId,
+    segmentTerms.length,
+    termValues.length,
+  );
+};
+
+/**
+ * 从词项索引中删除指定文本片段的词项
+ *
+ * @param segmentIds - 要删除的文本片段ID数组
+ */
+export const deleteSegmentTermsFromSegmentIds = async (
+  segmentIds: string[],
+) => {
+  if (segmentIds.length === 0) {
+    return;
+  }
+
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(segmentTerm)
+      .where(inArray(segmentTerm.segmentId, segmentIds));
+    await tx
+      .update(segment)
+      .set({ termCount: 0 })
+      .where(inArray(segment.id, segmentIds));
+  });
+
+  log.info('Delete segment terms success, segmentIds: %o', segmentIds);
+};
+
+/**
+ * 按片段内容重建数据集的词项索引
+ *
+ * 只为已启用文档中已完成且已启用的片段建立索引，完成后将数据集的索引版本更新为当前版本
+ *
+ * @param datasetId - 数据集ID
+ */
+export const rebuildDatasetSegmentTerms = async (datasetId: string) => {
+  const segmentRecords = await db
+    .select({ id: segment.id })
+    .from(segment)
+    .innerJoin(document, eq(document.id, segment.documentId))
+    .where(
+      and(
+        eq(segment.datasetId, datasetId),
+        eq(segment.status, SegmentStatus.COMPLETED),
+        eq(segment.enabled, true),
+        eq(document.enabled, true),
+      ),
+    );
+
+  for (const records of chunk(segmentRecords, REBUILD_BATCH_SIZE)) {
+    await addSegmentTermsFromSegmentIds(
+      datasetId,
+      records.map((record) => record.id),
+    );
+  }
+
+  await db
+    .update(dataset)
+    .set({ termIndexVersion: SEGMENT_TERM_INDEX_VERSION })
+    .where(eq(dataset.id, datasetId));
+
+  log.info(
+    'Rebuild segment terms success, datasetId: %s, segmentCount: %d',
+    datasetId,
+    segmentRecords.length,
+  );
+};
+
+/**
+ * 为词项索引版本落后的数据集创建重建任务
+ */
+export const scheduleSegmentTermRebuilds = async () => {
+  const datasetRecords = await db
+    .select({ id: dataset.id })
+    .from(dataset)
+    .where(lt(dataset.termIndexVersion, SEGMENT_TERM_INDEX_VERSION));
+
+  for (const record of datasetRecords) {
+    await rebuildSegmentTermsAsyncTask(record.id);
+  }
+
+  log.info(
+    'Schedule segment term rebuilds, datasetCount: %d',
+    datasetRecords.length,
+  );
+};
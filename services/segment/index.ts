@@ -5,7 +5,7 @@
  * - 片段的创建、更新、删除和查询
  * - 片段的分页列表获取
  * - 片段的启用/禁用状态管理
- * - 片段的向量存储和关键词表管理
+ * - 片段的向量存储和全文检索词项索引管理
  *
  * 每个片段都包含以下主要属性：
  * - 内容（content）：片段的实际文本内容
@@ -27,6 +27,7 @@ import { segment } from '@/lib/db/schema';
 import { document } from '@/lib/db/schema';
 import { cacheBackedEmbeddings, calculateTokenCount } from '@/lib/embedding';
 import {
+  type DocumentMetadata,
   DocumentStatus,
   LOCK_SEGMENT_UPDATE_ENABLED,
   SegmentStatus,
@@ -36,6 +37,7 @@ import { extractKeywords } from '@/lib/keyword';
 import { log } from '@/lib/logger';
 import { calculatePagination, paginationResult } from '@/lib/paginator';
 import { acquireLock, releaseLock } from '@/lib/redis/lock';
+import { toVectorStoreMetadata } from '@/lib/retriever/metadata-filter';
 import { vectorStore, vectorStoreCollection } from '@/lib/vector-store';
 import type { SearchPageReq } from '@/schemas/common-schema';
 import type {
@@ -45,9 +47,9 @@ import type {
 import { Document } from '@langchain/core/documents';
 import { and, asc, count, eq, like, max, sum } from 'drizzle-orm';
 import {
-  addKeywordTableFromSegmentIds,
-  deleteKeywordTableFromSegmentIds,
-} from '../keyword-table';
+  addSegmentTermsFromSegmentIds,
+  deleteSegmentTermsFromSegmentIds,
+} from '../segment-term';
 
 /**
  * 分页获取片段列表
@@ -209,6 +211,7 @@ export const createSegment = async (
             node_id: segmentRecord.nodeId,
             document_enabled: doc.enabled,
             segment_enabled: true,
+            ...toVectorStoreMetadata(doc.metadata as Partial<DocumentMetadata>),
           },
         }),
       ],
@@ -220,7 +223,7 @@ export const createSegment = async (
     const promises = [];
     promises.push(updateDocCharacterAndTokenCount(documentId));
     if (doc.enabled) {
-      promises.push(addKeywordTableFromSegmentIds(datasetId, [segmentId]));
+      promises.push(addSegmentTermsFromSegmentIds(datasetId, [segmentId]));
     }
     await Promise.all(promises);
     log.info('Create segment success, update doc status success');
@@ -265,9 +268,7 @@ export const deleteSegment = async (
 
   await db.transaction(async (tx) => {
     await tx.delete(segment).where(eq(segment.id, segmentId));
-    log.info('Delete segment success, start deleting keyword table');
-    await deleteKeywordTableFromSegmentIds(datasetId, [segmentId]);
-    log.info('Delete keyword table success, start deleting vector storage');
+    log.info('Delete segment success, start deleting vector storage');
     if (segmentRecord.nodeId) {
       await vectorStoreCollection().data.deleteById(segmentRecord.nodeId);
       log.info('Delete vector storage success');
@@ -358,8 +359,10 @@ export const updateSegment = async (
       })
       .where(eq(segment.id, segmentId));
 
-    await deleteKeywordTableFromSegmentIds(datasetId, [segmentId]);
-    await addKeywordTableFromSegmentIds(datasetId, [segmentId]);
+    // 只有参与检索的片段需要重建词项索引
+    if (segmentRecord.enabled) {
+      await addSegmentTermsFromSegmentIds(datasetId, [segmentId]);
+    }
 
     if (requiredUpdate && segmentRecord.nodeId) {
       await vectorStoreCollection().data.update({
@@ -492,18 +495,17 @@ export const updateSegmentEnabled = async (
     }
 
     if (enabled && doc.enabled) {
-      const addKeywordTableQuery = addKeywordTableFromSegmentIds(datasetId, [
+      const addSegmentTermsQuery = addSegmentTermsFromSegmentIds(datasetId, [
         segmentId,
       ]);
-      promises.push(addKeywordTableQuery);
+      promises.push(addSegmentTermsQuery);
     }
 
     if (!enabled && doc.enabled) {
-      const deleteKeywordTableQuery = deleteKeywordTableFromSegmentIds(
-        datasetId,
-        [segmentId],
-      );
-      promises.push(deleteKeywordTableQuery);
+      const deleteSegmentTermsQuery = deleteSegmentTermsFromSegmentIds([
+        segmentId,
+      ]);
+      promises.push(deleteSegmentTermsQuery);
     }
     await Promise.all(promises);
   } catch (error) {
@@ -0,0 +1,333 @@
+/**
+ * 应用统计服务模块
+ *
+ * 该模块负责汇总已发布应用的使用情况，数据来源于 message 与 message_agent_thought 表：
+ * - 消息总数、活跃终端用户数、会话数与平均会话互动数
+ * - token 消耗、费用与平均响应耗时
+ * - 错误、停止、超时消息的占比
+ * - 按天聚合的趋势数据，以及与上一个同等时长周期的环比变化
+ *
+ * 统计只包含 Web 应用与服务 API 的调用，调试器产生的消息不计入统计。
+ */
+
+import { db } from '@/lib/db';
+import { message, messageAgentThought } from '@/lib/db/schema';
+import { InvokeFrom, MessageStatus } from '@/lib/entity';
+import type { GetAppStatisticsReq } from '@/schemas/app-schema';
+import { getAppOrThrow } from '@/services/app';
+import { and, count, countDistinct, eq, gte, lt, ne, sql } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+
+/**
+ * 一天的毫秒数
+ */
+const DAY_MILLISECONDS = 24 * 60 * 60 * 1000;
+
+/**
+ * 默认统计的时间跨度，最近 7 天
+ */
+const DEFAULT_STATISTICS_DAYS = 7;
+
+/**
+ * 消息统计指标
+ */
+type MessageMetrics = {
+  messageCount: number;
+  activeEndUserCount: number;
+  conversationCount: number;
+  avgLatency: number;
+  errorCount: number;
+  stopCount: number;
+  timeoutCount: number;
+};
+
+/**
+ * token 消耗统计指标
+ */
+type TokenMetrics = {
+  tokenCount: number;
+  totalPrice: number;
+};
+
+/**
+ * 计算统计的时间范围
+ * @param req - 统计请求参数
+ * @returns 统计开始时间与结束时间
+ */
+const resolveStatisticsRange = (req: GetAppStatisticsReq) => {
+  const endAt = req.endAt;
+  const startAt =
+    req.startAt ?? endAt - DEFAULT_STATISTICS_DAYS * DAY_MILLISECONDS;
+  return { startAt: new Date(startAt), endAt: new Date(endAt) };
+};
+
+/**
+ * 构建消息表的统计查询条件，排除调试器消息与已删除消息
+ */
+const messageRangeWhere = (appId: string, startAt: Date, endAt: Date) =>
+  and(
+    eq(message.appId, appId),
+    ne(message.invokeFrom, InvokeFrom.DEBUGGER),
+    eq(message.isDeleted, false),
+    gte(message.createdAt, startAt),
+    lt(message.createdAt, endAt),
+  );
+
+/**
+ * 构建推理步骤表的统计查询条件，排除调试器产生的推理步骤
+ */
+const agentThoughtRangeWhere = (appId: string, startAt: Date, endAt: Date) =>
+  and(
+    eq(messageAgentThought.appId, appId),
+    ne(messageAgentThought.invokeFrom, InvokeFrom.DEBUGGER),
+    gte(messageAgentThought.createdAt, startAt),
+    lt(messageAgentThought.createdAt, endAt),
+  );
+
+/**
+ * 消息统计字段定义
+ */
+const messageMetricsFields = {
+  messageCount: count(),
+  activeEndUserCount: countDistinct(message.createdBy),
+  conversationCount: countDistinct(message.conversationId),
+  avgLatency: sql`coalesce(avg(${message.latency}), 0)`.mapWith(Number),
+  errorCount:
+    sql`count(*) filter (where ${message.status} = ${MessageStatus.ERROR})`.mapWith(
+      Number,
+    ),
+  stopCount:
+    sql`count(*) filter (where ${message.status} = ${MessageStatus.STOP})`.mapWith(
+      Number,
+    ),
+  timeoutCount:
+    sql`count(*) filter (where ${message.status} = ${MessageStatus.TIMEOUT})`.mapWith(
+      Number,
+    ),
+};
+
+/**
+ * token 消耗统计字段定义
+ */
+const tokenMetricsFields = {
+  tokenCount:
+    sql`coalesce(sum(${messageAgentThought.totalTokenCount}), 0)`.mapWith(
+      Number,
+    ),
+  totalPrice: sql`coalesce(sum(${messageAgentThought.totalPrice}), 0)`.mapWith(
+    Number,
+  ),
+};
+
+/**
+ * 按天分组的日期表达式，值为 UTC 时间下距 1970-01-01 的天数
+ *
+ * created_at 是不带时区的时间戳，保存的是 UTC 时间，extract(epoch) 按 UTC 计算且不受数据库会话时区影响，
+ * 与 listDays 按 UTC 生成的日期保持一致
+ */
+const utcDay = (column: AnyPgColumn) =>
+  sql<number>`floor(extract(epoch from ${column}) / 86400)`.mapWith(Number);
+const messageDay = utcDay(message.createdAt);
+const agentThoughtDay = utcDay(messageAgentThought.createdAt);
+
+/**
+ * 将距 1970-01-01 的天数转换为 UTC 日期，格式为 YYYY-MM-DD
+ * @param day - 距 1970-01-01 的天数
+ * @returns 日期字符串
+ */
+const formatUtcDay = (day: number) =>
+  new Date(day * DAY_MILLISECONDS).toISOString().slice(0, 10);
+
+/**
+ * 汇总时间范围内的消息统计指标与 token 消耗
+ * @param appId - 应用ID
+ * @param startAt - 统计开始时间（包含）
+ * @param endAt - 统计结束时间（不包含）
+ * @returns 消息统计指标与 token 消耗指标
+ */
+const getPeriodMetrics = async (appId: string, startAt: Date, endAt: Date) => {
+  const [messageRecords, tokenRecords] = await Promise.all([
+    db
+      .select(messageMetricsFields)
+      .from(message)
+      .where(messageRangeWhere(appId, startAt, endAt)),
+    db
+      .select(tokenMetricsFields)
+      .from(messageAgentThought)
+      .where(agentThoughtRangeWhere(appId, startAt, endAt)),
+  ]);
+
+  return {
+    ...messageRecords[0],
+    ...tokenRecords[0],
+  } as MessageMetrics & TokenMetrics;
+};
+
+/**
+ * 计算比率，分母为 0 时返回 0
+ */
+const safeRatio = (numerator: number, denominator: number) =>
+  denominator === 0 ? 0 : numerator / denominator;
+
+/**
+ * 计算环比变化率
+ *
+ * 上一周期的值为 0 时无法计算变化率：当前周期也为 0 时返回 0，否则返回 1 表示增长 100%
+ *
+ * @param current - 当前周期的值
+ * @param previous - 上一周期的值
+ * @returns 变化率，例如 0.25 表示增长 25%，-0.1 表示下降 10%
+ */
+const calculateDelta = (current: number, previous: number) => {
+  if (previous === 0) {
+    return current === 0 ? 0 : 1;
+  }
+  return (current - previous) / previous;
+};
+
+/**
+ * 将原始统计数据转换为概览指标
+ * @param metrics - 周期内的统计数据
+ * @returns 概览指标
+ */
+const formatOverview = (metrics: MessageMetrics & TokenMetrics) => ({
+  messageCount: metrics.messageCount,
+  activeEndUserCount: metrics.activeEndUserCount,
+  conversationCount: metrics.conversationCount,
+  avgInteractionCount: safeRatio(
+    metrics.messageCount,
+    metrics.conversationCount,
+  ),
+  tokenCount: metrics.tokenCount,
+  totalPrice: metrics.totalPrice,
+  avgLatency: metrics.avgLatency,
+  errorRate: safeRatio(metrics.errorCount, metrics.messageCount),
+  stopRate: safeRatio(metrics.stopCount, metrics.messageCount),
+  timeoutRate: safeRatio(metrics.timeoutCount, metrics.messageCount),
+});
+
+type StatisticsOverview = ReturnType<typeof formatOverview>;
+
+/**
+ * 按 UTC 生成时间范围内的所有日期，格式为 YYYY-MM-DD
+ * @param startAt - 开始时间
+ * @param endAt - 结束时间（不包含）
+ * @returns 日期列表
+ */
+const listDays = (startAt: Date, endAt: Date) => {
+  const days: string[] = [];
+  const cursor = new Date(startAt.toISOString().slice(0, 10));
+  while (cursor.getTime() < endAt.getTime()) {
+    days.push(cursor.toISOString().slice(0, 10));
+    cursor.setTime(cursor.getTime() + DAY_MILLISECONDS);
+  }
+  return days;
+};
+
+/**
+ * 按天（UTC）聚合时间范围内的统计数据，没有数据的日期使用 0 填充
+ * @param appId - 应用ID
+ * @param startAt - 统计开始时间（包含）
+ * @param endAt - 统计结束时间（不包含）
+ * @returns 按日期升序排列的每日统计数据
+ */
+const getDailyStatistics = async (
+  appId: string,
+  startAt: Date,
+  endAt: Date,
+) => {
+  const [messageRecords, tokenRecords] = await Promise.all([
+    db
+      .select({ date: messageDay, ...messageMetricsFields })
+      .from(message)
+      .where(messageRangeWhere(appId, startAt, endAt))
+      .groupBy(messageDay),
+    db
+      .select({ date: agentThoughtDay, ...tokenMetricsFields })
+      .from(messageAgentThought)
+      .where(agentThoughtRangeWhere(appId, startAt, endAt))
+      .groupBy(agentThoughtDay),
+  ]);
+
+  const messageMap = new Map(
+    messageRecords.map(({ date, ...item }) => [formatUtcDay(date), item]),
+  );
+  const tokenMap = new Map(
+    tokenRecords.map(({ date, ...item }) => [formatUtcDay(date), item]),
+  );
+
+  return listDays(startAt, endAt).map((date) =>
+    Object.assign(
+      { date },
+      formatOverview({
+        messageCount: 0,
+        activeEndUserCount: 0,
+        conversationCount: 0,
+        avgLatency: 0,
+        errorCount: 0,
+        stopCount: 0,
+        timeoutCount: 0,
+        tokenCount: 0,
+        totalPrice: 0,
+        ...messageMap.get(date),
+        ...tokenMap.get(date),
+      }),
+    ),
+  );
+};
+
+/**
+ * 获取应用的统计数据
+ *
+ * 统计指定时间范围内应用的使用情况，并与上一个同等时长的周期进行对比，
+ * 计算各项指标的环比变化率。
+ *
+ * @param appId - 应用ID
+ * @param userId - 用户ID
+ * @param req - 统计请求参数，包含开始时间与结束时间
+ * @returns 统计结果，包含：
+ *   - startAt/endAt: 统计的时间范围
+ *   - overview: 当前周期的概览指标
+ *   - previousOverview: 上一周期的概览指标
+ *   - deltas: 各项概览指标的环比变化率
+ *   - series: 按天聚合的统计数据
+ * @throws {NotFoundException} 当应用不存在或不属于当前用户时
+ */
+export const getAppStatistics = async (
+  appId: string,
+  userId: string,
+  req: GetAppStatisticsReq,
+) => {
+  await getAppOrThrow(appId, userId);
+
+  const { startAt, endAt } = resolveStatisticsRange(req);
+  const previousStartAt = new Date(
+    startAt.getTime() - (endAt.getTime() - startAt.getTime()),
+  );
+
+  const [currentMetrics, previousMetrics, series] = await Promise.all([
+    getPeriodMetrics(appId, startAt, endAt),
+    getPeriodMetrics(appId, previousStartAt, startAt),
+    getDailyStatistics(appId, startAt, endAt),
+  ]);
+
+  const overview = formatOverview(currentMetrics);
+  const previousOverview = formatOverview(previousMetrics);
+  const deltas = Object.fromEntries(
+    Object.entries(overview).map(([key, value]) => [
+      key,
+      calculateDelta(value, previousOverview[key as keyof StatisticsOverview]),
+    ]),
+  ) as StatisticsOverview;
+
+  return {
+    startAt: startAt.getTime(),
+    endAt: endAt.getTime(),
+    overview,
+    previousOverview,
+    deltas,
+    series,
+  };
+};
+
+export type AppStatistics = Awaited<ReturnType<typeof getAppStatistics>>;
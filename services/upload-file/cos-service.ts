@@ -8,6 +8,7 @@
  * 3. 生成唯一的文件存储路径
  * 4. 直接上传文件到 COS
  * 5. 获取文件访问 URL
+ * 6. 校验图片 URL 是否为已上传的图片
  */
 
 import { randomUUID } from 'node:crypto';
@@ -17,7 +18,11 @@ import {
   BadRequestException,
   InternalServerErrorException,
 } from '@/exceptions';
-import { ALLOWED_IMAGE_EXTENSIONS, ALLOWED_IMAGE_SIZE } from '@/lib/entity';
+import {
+  ALLOWED_IMAGE_EXTENSIONS,
+  ALLOWED_IMAGE_SIZE,
+  MAX_MESSAGE_IMAGE_COUNT,
+} from '@/lib/entity';
 import { withTempFile } from '@/lib/file-util';
 import { log } from '@/lib/logger';
 import COS from 'cos-nodejs-sdk-v5';
@@ -202,6 +207,34 @@ export const getFileUrl = async (key: string) => {
   return `${domain}/${key}`;
 };
 
+/**
+ * 校验对话消息附带的图片 URL
+ *
+ * 图片必须通过图片上传接口上传到 COS，不允许引用外部图片地址。
+ *
+ * @param imageUrls - 图片 URL 列表
+ * @throws BadRequestException 当图片数量超过限制、图片不是已上传的文件或格式不支持时
+ */
+export const validateImageUrls = async (imageUrls: string[]) => {
+  if (imageUrls.length > MAX_MESSAGE_IMAGE_COUNT) {
+    throw new BadRequestException(
+      `每条消息最多附带${MAX_MESSAGE_IMAGE_COUNT}张图片`,
+    );
+  }
+
+  const domain = await getFileUrl('');
+  for (const imageUrl of imageUrls) {
+    const ext = imageUrl.split('?')[0].split('.').pop()?.toLowerCase() ?? '';
+    if (
+      !imageUrl.startsWith(domain) ||
+      !ALLOWED_IMAGE_EXTENSIONS.includes(ext)
+    ) {
+      log.warn('Invalid image url: %s', imageUrl);
+      throw new BadRequestException('图片地址无效，请通过图片上传接口上传图片');
+    }
+  }
+};
+
 /**
  * 从腾讯云 COS 下载文件到本地
  *
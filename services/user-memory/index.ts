@@ -0,0 +1,281 @@
+/**
+ * 用户长期记忆服务
+ *
+ * 该模块提供了应用对用户（终端用户或调试应用的账号）的长期记忆管理功能，包括：
+ * - 从每轮对话中提取关于用户的事实，写入记忆表和向量存储
+ * - 分页查看、删除单条记忆以及清空全部记忆
+ *
+ * 记忆按应用和用户隔离，可以跨会话召回。与已有记忆高度相似的新事实会覆盖已有记忆，避免重复记忆。
+ */
+
+import { NotFoundException } from '@/exceptions';
+import { db } from '@/lib/db';
+import { userMemory } from '@/lib/db/schema';
+import { cacheBackedEmbeddings } from '@/lib/embedding';
+import type { InvokeFrom } from '@/lib/entity';
+import { createDefaultChatModel } from '@/lib/llm';
+import { log } from '@/lib/logger';
+import { calculatePagination, paginationResult } from '@/lib/paginator';
+import { searchUserMemories } from '@/lib/retriever/user-memory-retriever';
+import {
+  userMemoryVectorStore,
+  userMemoryVectorStoreCollection,
+} from '@/lib/vector-store';
+import type { PageReq } from '@/schemas/common-schema';
+import { Document } from '@langchain/core/documents';
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+import { and, count, desc, eq } from 'drizzle-orm';
+import { Filters } from 'weaviate-client';
+import { z } from 'zod';
+
+/**
+ * 新事实与已有记忆的相似度达到该阈值时视为同一条记忆，使用新事实覆盖已有记忆
+ */
+const DUPLICATE_MEMORY_SCORE_THRESHOLD = 0.9;
+
+/**
+ * 用户记忆提取模板
+ */
+const USER_MEMORY_EXTRACTOR_TEMPLATE = `你是一个用户记忆提取助手，需要从用户与AI的一轮对话中提取值得长期记住的关于用户的事实，以便在之后的会话中提供个性化的回复。
+
+提取规则:
+1. 只提取关于用户本人的稳定信息，例如身份、偏好、目标、约束条件、重要经历等；
+2. 不要提取一次性的提问内容、闲聊内容或者AI回答中的知识性内容；
+3. 每条事实是一句独立、完整、简洁的陈述句，使用与用户输入相同的语言；
+4. 没有值得记住的事实时返回空列表。`;
+
+/**
+ * 用户记忆提取结果模式定义
+ */
+const userMemoryExtractionSchema = z.object({
+  facts: z
+    .array(z.string())
+    .describe('从对话中提取的关于用户的事实列表，没有时为空列表'),
+});
+
+/**
+ * 获取用户的记忆，如果不存在则抛出异常
+ * @param appId - 应用ID
+ * @param createdBy - 记忆所属的用户ID
+ * @param memoryId - 记忆ID
+ * @returns 记忆记录
+ * @throws {NotFoundException} 当记忆不存在时
+ */
+const getUserMemoryOrThrow = async (
+  appId: string,
+  createdBy: string,
+  memoryId: string,
+) => {
+  const memoryRecords = await db
+    .select()
+    .from(userMemory)
+    .where(
+      and(
+        eq(userMemory.id, memoryId),
+        eq(userMemory.appId, appId),
+        eq(userMemory.createdBy, createdBy),
+      ),
+    );
+  if (memoryRecords.length === 0) {
+    throw new NotFoundException('记忆不存在');
+  }
+  return memoryRecords[0];
+};
+
+/**
+ * 保存一条关于用户的事实
+ *
+ * 已有高度相似的记忆时覆盖该记忆的内容与向量，否则新增记忆。
+ *
+ * @param appId - 应用ID
+ * @param invokeFrom - 调用来源
+ * @param createdBy - 记忆所属的用户ID
+ * @param fact - 事实内容
+ */
+const saveUserMemory = async (
+  appId: string,
+  invokeFrom: InvokeFrom,
+  createdBy: string,
+  fact: string,
+) => {
+  const duplicateMemories = await searchUserMemories(
+    appId,
+    createdBy,
+    fact,
+    1,
+    DUPLICATE_MEMORY_SCORE_THRESHOLD,
+  );
+
+  if (duplicateMemories.length > 0) {
+    const memoryId = duplicateMemories[0].id;
+    await userMemoryVectorStoreCollection().data.update({
+      id: memoryId,
+      properties: {
+        text: fact,
+      },
+      vectors: await cacheBackedEmbeddings.embedQuery(fact),
+    });
+    await db
+      .update(userMemory)
+      .set({ content: fact })
+      .where(eq(userMemory.id, memoryId));
+    return;
+  }
+
+  const memoryRecords = await db
+    .insert(userMemory)
+    .values({
+      appId,
+      invokeFrom,
+      content: fact,
+      createdBy,
+    })
+    .returning();
+  const memoryRecord = memoryRecords[0];
+
+  try {
+    await userMemoryVectorStore.addDocuments(
+      [
+        new Document({
+          pageContent: fact,
+          metadata: {
+            app_id: appId,
+            created_by: createdBy,
+            memory_id: memoryRecord.id,
+          },
+        }),
+      ],
+      {
+        ids: [memoryRecord.id],
+      },
+    );
+  } catch (error) {
+    await db.delete(userMemory).where(eq(userMemory.id, memoryRecord.id));
+    throw error;
+  }
+};
+
+/**
+ * 从一轮对话中提取关于用户的事实并保存为长期记忆
+ *
+ * @param appId - 应用ID
+ * @param invokeFrom - 调用来源
+ * @param createdBy - 记忆所属的用户ID（终端用户ID或账号ID）
+ * @param query - 用户提问
+ * @param answer - AI回答
+ */
+export const extractUserMemories = async (
+  appId: string,
+  invokeFrom: InvokeFrom,
+  createdBy: string,
+  query: string,
+  answer: string,
+) => {
+  const prompt = ChatPromptTemplate.fromMessages([
+    ['system', USER_MEMORY_EXTRACTOR_TEMPLATE],
+    ['human', 'Human: {query}\nAI: {answer}'],
+  ]);
+  const llm = createDefaultChatModel({ temperature: 0 }).withStructuredOutput(
+    userMemoryExtractionSchema,
+  );
+
+  const { facts } = await prompt.pipe(llm).invoke({ query, answer });
+  const validFacts = facts.map((fact: string) => fact.trim()).filter(Boolean);
+  log.info(
+    'Extract user memories, appId={%s}, createdBy={%s}, facts={%o}',
+    appId,
+    createdBy,
+    validFacts,
+  );
+
+  // 依次保存，保证同一轮对话中提取的相似事实能够互相去重
+  for (const fact of validFacts) {
+    await saveUserMemory(appId, invokeFrom, createdBy, fact);
+  }
+};
+
+/**
+ * 分页获取用户的长期记忆
+ * @param appId - 应用ID
+ * @param createdBy - 记忆所属的用户ID
+ * @param pageReq - 分页请求参数
+ * @returns 分页后的记忆列表，按更新时间倒序排列
+ */
+export const getUserMemoriesByPage = async (
+  appId: string,
+  createdBy: string,
+  pageReq: PageReq,
+) => {
+  const { offset, limit } = calculatePagination(pageReq);
+  const where = and(
+    eq(userMemory.appId, appId),
+    eq(userMemory.createdBy, createdBy),
+  );
+
+  const listQuery = db
+    .select()
+    .from(userMemory)
+    .where(where)
+    .orderBy(desc(userMemory.updatedAt))
+    .limit(limit)
+    .offset(offset);
+
+  const totalQuery = db
+    .select({ count: count() })
+    .from(userMemory)
+    .where(where);
+
+  const [list, total] = await Promise.all([listQuery, totalQuery]);
+
+  const formattedList = list.map((item) => ({
+    id: item.id,
+    content: item.content,
+    invokeFrom: item.invokeFrom,
+    createdAt: item.createdAt.getTime(),
+    updatedAt: item.updatedAt.getTime(),
+  }));
+
+  return paginationResult(formattedList, total[0].count, pageReq);
+};
+
+/**
+ * 删除用户的一条长期记忆
+ * @param appId - 应用ID
+ * @param createdBy - 记忆所属的用户ID
+ * @param memoryId - 记忆ID
+ * @throws {NotFoundException} 当记忆不存在时
+ */
+export const deleteUserMemory = async (
+  appId: string,
+  createdBy: string,
+  memoryId: string,
+) => {
+  await getUserMemoryOrThrow(appId, createdBy, memoryId);
+
+  await db.transaction(async (tx) => {
+    await tx.delete(userMemory).where(eq(userMemory.id, memoryId));
+    await userMemoryVectorStoreCollection().data.deleteById(memoryId);
+  });
+};
+
+/**
+ * 清空用户在应用中的全部长期记忆
+ * @param appId - 应用ID
+ * @param createdBy - 记忆所属的用户ID
+ */
+export const clearUserMemories = async (appId: string, createdBy: string) => {
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(userMemory)
+      .where(
+        and(eq(userMemory.appId, appId), eq(userMemory.createdBy, createdBy)),
+      );
+    const collection = userMemoryVectorStoreCollection();
+    await collection.data.deleteMany(
+      Filters.and(
+        collection.filter.byProperty('app_id').equal(appId),
+        collection.filter.byProperty('created_by').equal(createdBy),
+      ),
+    );
+  });
+};
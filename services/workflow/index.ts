@@ -0,0 +1,392 @@
+/**
+ * 工作流服务模块
+ *
+ * 该模块提供了工作流的完整管理功能，包括：
+ * - 工作流的增删改查与分页列表
+ * - 草稿图的获取与更新
+ * - 草稿图的调试运行（流式输出节点执行过程）
+ * - 工作流的发布与取消发布
+ *
+ * 工作流的草稿图可以随时保存，只有调试运行成功的草稿图才能发布，
+ * 发布后的工作流可以作为工具绑定到应用中。
+ */
+
+import { BadRequestException, NotFoundException } from '@/exceptions';
+import { db } from '@/lib/db';
+import { workflow } from '@/lib/db/schema';
+import { WorkflowStatus } from '@/lib/entity';
+import { log } from '@/lib/logger';
+import { calculatePagination, paginationResult } from '@/lib/paginator';
+import {
+  type WorkflowGraph,
+  createWorkflow as createWorkflowExecutor,
+  validateWorkflowGraph,
+} from '@/lib/workflow';
+import type {
+  CreateWorkflowReq,
+  GetWorkflowListReq,
+  UpdateDraftGraphReq,
+  UpdateWorkflowReq,
+} from '@/schemas/workflow-schema';
+import { and, count, desc, eq, like, ne } from 'drizzle-orm';
+
+/**
+ * 新建工作流的默认草稿图
+ */
+const DEFAULT_DRAFT_GRAPH: WorkflowGraph = {
+  nodes: [],
+  edges: [],
+};
+
+/**
+ * 获取工作流记录，如果不存在则抛出异常
+ * @param userId - 用户ID
+ * @param workflowId - 工作流ID
+ * @returns 工作流记录
+ * @throws NotFoundException 当工作流不存在时
+ */
+const getWorkflowOrThrow = async (userId: string, workflowId: string) => {
+  const workflowRecords = await db
+    .select()
+    .from(workflow)
+    .where(and(eq(workflow.id, workflowId), eq(workflow.userId, userId)));
+
+  if (workflowRecords.length === 0) {
+    throw new NotFoundException('工作流不存在');
+  }
+  return workflowRecords[0];
+};
+
+/**
+ * 校验工具调用名称在账号下唯一
+ * @param userId - 用户ID
+ * @param toolCallName - 工具调用名称
+ * @param excludeWorkflowId - 需要排除的工作流ID，更新时排除自身
+ * @throws BadRequestException 当工具调用名称已存在时
+ */
+const assertToolCallNameUnique = async (
+  userId: string,
+  toolCallName: string,
+  excludeWorkflowId?: string,
+) => {
+  const workflowCount = await db.$count(
+    workflow,
+    and(
+      eq(workflow.userId, userId),
+      eq(workflow.toolCallName, toolCallName),
+      excludeWorkflowId ? ne(workflow.id, excludeWorkflowId) : undefined,
+    ),
+  );
+  if (workflowCount > 0) {
+    throw new BadRequestException('工具调用名称已存在');
+  }
+};
+
+/**
+ * 格式化工作流基础信息
+ * @param workflowRecord - 工作流记录
+ * @returns 工作流基础信息，时间转换为时间戳
+ */
+const formatWorkflow = (workflowRecord: typeof workflow.$inferSelect) => ({
+  id: workflowRecord.id,
+  name: workflowRecord.name,
+  toolCallName: workflowRecord.toolCallName,
+  icon: workflowRecord.icon,
+  description: workflowRecord.description,
+  status: workflowRecord.status,
+  isDebugPassed: workflowRecord.isDebugPassed,
+  nodeCount: ((workflowRecord.draftGraph as WorkflowGraph).nodes ?? []).length,
+  publishedAt: workflowRecord.publishedAt?.getTime() ?? 0,
+  updatedAt: workflowRecord.updatedAt.getTime(),
+  createdAt: workflowRecord.createdAt.getTime(),
+});
+
+/**
+ * 分页获取用户的工作流列表
+ * @param userId - 用户ID
+ * @param req - 分页、搜索和状态筛选参数
+ * @returns 包含工作流列表和分页信息的结果
+ */
+export const listWorkflowsByPage = async (
+  userId: string,
+  req: GetWorkflowListReq,
+) => {
+  const { offset, limit } = calculatePagination(req);
+  const where = and(
+    eq(workflow.userId, userId),
+    req.searchWord ? like(workflow.name, `%${req.searchWord}%`) : undefined,
+    req.status ? eq(workflow.status, req.status) : undefined,
+  );
+
+  const listQuery = db
+    .select()
+    .from(workflow)
+    .where(where)
+    .orderBy(desc(workflow.createdAt))
+    .limit(limit)
+    .offset(offset);
+
+  const totalQuery = db.select({ count: count() }).from(workflow).where(where);
+
+  const [list, total] = await Promise.all([listQuery, totalQuery]);
+
+  return paginationResult(list.map(formatWorkflow), total[0].count, req);
+};
+
+/**
+ * 创建工作流
+ * @param userId - 用户ID
+ * @param req - 工作流基础信息
+ * @returns 新创建的工作流记录
+ * @throws BadRequestException 当工具调用名称已存在时
+ */
+export const createWorkflow = async (
+  userId: string,
+  req: CreateWorkflowReq,
+) => {
+  await assertToolCallNameUnique(userId, req.toolCallName);
+
+  const workflowRecords = await db
+    .insert(workflow)
+    .values({
+      userId,
+      name: req.name,
+      toolCallName: req.toolCallName,
+      icon: req.icon,
+      description: req.description,
+      draftGraph: DEFAULT_DRAFT_GRAPH,
+      status: WorkflowStatus.DRAFT,
+    })
+    .returning();
+
+  return workflowRecords[0];
+};
+
+/**
+ * 更新工作流基础信息
+ * @param userId - 用户ID
+ * @param workflowId - 工作流ID
+ * @param req - 工作流基础信息
+ * @throws NotFoundException 当工作流不存在时
+ * @throws BadRequestException 当工具调用名称与其他工作流重复时
+ */
+export const updateWorkflow = async (
+  userId: string,
+  workflowId: string,
+  req: UpdateWorkflowReq,
+) => {
+  await getWorkflowOrThrow(userId, workflowId);
+  await assertToolCallNameUnique(userId, req.toolCallName, workflowId);
+
+  await db
+    .update(workflow)
+    .set({
+      name: req.name,
+      toolCallName: req.toolCallName,
+      icon: req.icon,
+      description: req.description,
+    })
+    .where(and(eq(workflow.id, workflowId), eq(workflow.userId, userId)));
+};
+
+/**
+ * 删除工作流
+ *
+ * 绑定了该工作流的应用会在下次读取配置时自动移除该工作流
+ *
+ * @param userId - 用户ID
+ * @param workflowId - 工作流ID
+ * @throws NotFoundException 当工作流不存在时
+ */
+export const deleteWorkflow = async (userId: string, workflowId: string) => {
+  await getWorkflowOrThrow(userId, workflowId);
+  await db
+    .delete(workflow)
+    .where(and(eq(workflow.id, workflowId), eq(workflow.userId, userId)));
+};
+
+/**
+ * 获取工作流详细信息
+ * @param userId - 用户ID
+ * @param workflowId - 工作流ID
+ * @returns 工作流基础信息
+ * @throws NotFoundException 当工作流不存在时
+ */
+export const getWorkflowById = async (userId: string, workflowId: string) => {
+  const workflowRecord = await getWorkflowOrThrow(userId, workflowId);
+  return formatWorkflow(workflowRecord);
+};
+
+/**
+ * 获取工作流的草稿图
+ * @param userId - 用户ID
+ * @param workflowId - 工作流ID
+ * @returns 工作流草稿图
+ * @throws NotFoundException 当工作流不存在时
+ */
+export const getDraftGraph = async (userId: string, workflowId: string) => {
+  const workflowRecord = await getWorkflowOrThrow(userId, workflowId);
+  return workflowRecord.draftGraph as WorkflowGraph;
+};
+
+/**
+ * 更新工作流的草稿图
+ *
+ * 草稿图只校验节点与连线的数据格式，允许保存未完成的工作流，
+ * 更新后需要重新调试才能发布。
+ *
+ * @param userId - 用户ID
+ * @param workflowId - 工作流ID
+ * @param req - 新的草稿图
+ * @throws NotFoundException 当工作流不存在时
+ */
+export const updateDraftGraph = async (
+  userId: string,
+  workflowId: string,
+  req: UpdateDraftGraphReq,
+) => {
+  await getWorkflowOrThrow(userId, workflowId);
+  await db
+    .update(workflow)
+    .set({
+      draftGraph: req,
+      isDebugPassed: false,
+    })
+    .where(and(eq(workflow.id, workflowId), eq(workflow.userId, userId)));
+};
+
+/**
+ * 准备工作流调试上下文
+ *
+ * 在开始流式响应之前完成工作流图的校验，保证错误能够以正确的 HTTP 状态码返回。
+ *
+ * @param userId - 用户ID
+ * @param workflowId - 工作流ID
+ * @returns 工作流记录与校验后的草稿图
+ * @throws NotFoundException 当工作流不存在时
+ * @throws BadRequestException 当草稿图校验失败时
+ */
+export const prepareWorkflowDebug = async (
+  userId: string,
+  workflowId: string,
+) => {
+  const workflowRecord = await getWorkflowOrThrow(userId, workflowId);
+  const graph = validateWorkflowGraph(workflowRecord.draftGraph);
+  return { workflowRecord, graph };
+};
+
+export type WorkflowDebugContext = Awaited<
+  ReturnType<typeof prepareWorkflowDebug>
+>;
+
+/**
+ * 流式调试工作流
+ *
+ * 通过 Server-Sent Events (SSE) 将每个节点的执行状态实时写入响应流：
+ * - workflow_node: 节点开始执行、执行成功或执行失败
+ * - workflow_end: 工作流执行成功，包含工作流的输出
+ * - error: 工作流执行失败
+ *
+ * 执行成功后工作流标记为调试通过，可以进行发布。
+ *
+ * @param userId - 用户ID
+ * @param context - 工作流调试上下文
+ * @param inputs - 工作流输入变量
+ * @param writer - 用于写入SSE响应的流写入器
+ */
+export const debugWorkflowStream = async (
+  userId: string,
+  context: WorkflowDebugContext,
+  inputs: Record<string, unknown>,
+  writer: WritableStreamDefaultWriter,
+) => {
+  const { workflowRecord, graph } = context;
+  const startAt = Date.now();
+  const writeEvent = (event: string, data: unknown) =>
+    writer.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  try {
+    const { outputs } = await createWorkflowExecutor({
+      graph,
+      userId,
+      onNodeResult: (nodeResult) => writeEvent('workflow_node', nodeResult),
+    }).invoke(inputs);
+
+    // 任意节点执行失败都会抛出异常，执行到这里说明调试通过
+    await db
+      .update(workflow)
+      .set({ isDebugPassed: true })
+      .where(eq(workflow.id, workflowRecord.id));
+
+    writeEvent('workflow_end', {
+      workflowId: workflowRecord.id,
+      outputs,
+      latency: Date.now() - startAt,
+    });
+  } catch (error) {
+    log.error('Workflow debug failed: %o', error);
+    writeEvent('error', {
+      workflowId: workflowRecord.id,
+      error: error instanceof Error ? error.message : String(error),
+      latency: Date.now() - startAt,
+    });
+  } finally {
+    writer.close();
+  }
+};
+
+/**
+ * 发布工作流
+ *
+ * 将调试通过的草稿图发布为运行图，发布后的工作流可以绑定到应用中。
+ *
+ * @param userId - 用户ID
+ * @param workflowId - 工作流ID
+ * @throws NotFoundException 当工作流不存在时
+ * @throws BadRequestException 当工作流未调试通过或草稿图校验失败时
+ */
+export const publishWorkflow = async (userId: string, workflowId: string) => {
+  const workflowRecord = await getWorkflowOrThrow(userId, workflowId);
+  if (!workflowRecord.isDebugPassed) {
+    throw new BadRequestException('工作流未调试通过，请调试通过后再发布');
+  }
+
+  const graph = validateWorkflowGraph(workflowRecord.draftGraph);
+  await db
+    .update(workflow)
+    .set({
+      graph,
+      status: WorkflowStatus.PUBLISHED,
+      publishedAt: new Date(),
+    })
+    .where(eq(workflow.id, workflowId));
+};
+
+/**
+ * 取消发布工作流
+ *
+ * 取消发布后绑定了该工作流的应用将无法再调用该工作流。
+ *
+ * @param userId - 用户ID
+ * @param workflowId - 工作流ID
+ * @throws NotFoundException 当工作流不存在时
+ * @throws BadRequestException 当工作流未发布时
+ */
+export const cancelPublishWorkflow = async (
+  userId: string,
+  workflowId: string,
+) => {
+  const workflowRecord = await getWorkflowOrThrow(userId, workflowId);
+  if (workflowRecord.status !== WorkflowStatus.PUBLISHED) {
+    throw new BadRequestException('工作流未发布');
+  }
+
+  await db
+    .update(workflow)
+    .set({
+      graph: {},
+      status: WorkflowStatus.DRAFT,
+      publishedAt: null,
+    })
+    .where(eq(workflow.id, workflowId));
+};
@@ -1,11 +1,29 @@
 import 'dotenv/config';
+import { log } from '@/lib/logger';
 import {
+  CHAT_QUEUE_NAME,
   DATASET_QUEUE_NAME,
   DOCUMENT_QUEUE_NAME,
 } from '@/lib/queues/queue-name';
 import { redisConnection } from '@/lib/redis';
+import { scheduleVectorMetadataSyncs } from '@/services/indexing';
+import { scheduleSegmentTermRebuilds } from '@/services/segment-term';
 import { Worker } from 'bullmq';
 
+/**
+ * 对话队列默认的并发数
+ * 单次智能体运行可能等待工具审批或运行到任务超时，并发数为 1 时其他用户的对话会被阻塞
+ */
+const DEFAULT_CHAT_WORKER_CONCURRENCY = 10;
+
+/**
+ * 对话队列的并发数，通过 CHAT_WORKER_CONCURRENCY 配置
+ */
+const chatWorkerConcurrency =
+  Number(process.env.CHAT_WORKER_CONCURRENCY) > 0
+    ? Math.floor(Number(process.env.CHAT_WORKER_CONCURRENCY))
+    : DEFAULT_CHAT_WORKER_CONCURRENCY;
+
 const documentQueue = new Worker(
   DOCUMENT_QUEUE_NAME,
   `${__dirname}/workers/document-worker.ts`,
@@ -21,3 +39,22 @@ const datasetQueue = new Worker(
     connection: redisConnection,
   },
 );
+
+const chatQueue = new Worker(
+  CHAT_QUEUE_NAME,
+  `${__dirname}/workers/chat-worker.ts`,
+  {
+    connection: redisConnection,
+    concurrency: chatWorkerConcurrency,
+  },
+);
+
+// 为词项索引版本落后的知识库创建重建任务，例如迁移时只使用关键词回填的词项索引
+scheduleSegmentTermRebuilds().catch((error) => {
+  log.error('Schedule segment term rebuilds failed: %o', error);
+});
+
+// 为向量元数据版本落后的知识库创建同步任务，为元数据过滤上线前写入的向量对象回填元数据属性
+scheduleVectorMetadataSyncs().catch((error) => {
+  log.error('Schedule vector metadata syncs failed: %o', error);
+});
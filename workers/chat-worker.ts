@@ -0,0 +1,29 @@
+/**
+ * Chat Worker
+ *
+ * 这是一个处理智能体运行任务的 worker 处理器。它负责处理以下任务：
+ * 1. 调试对话 (DEBUG_CHAT_TASK_NAME)
+ */
+
+import { log } from '@/lib/logger';
+import { DEBUG_CHAT_TASK_NAME } from '@/lib/queues/queue-name';
+import { runDebugChat } from '@/services/app';
+import type { Job } from 'bullmq';
+
+/**
+ * 处理聊天队列中的任务
+ * @param job - BullMQ 任务对象，包含任务名称和数据
+ * @returns Promise<void>
+ */
+export default async function (job: Job) {
+  log.info('Receive job from chat queue, id: %s', job.id);
+  const { name, data } = job;
+
+  // 根据任务类型分发到不同的处理函数
+  if (name === DEBUG_CHAT_TASK_NAME) {
+    log.info('Running debug chat, data: %o', data);
+    await runDebugChat(data);
+  } else {
+    log.error('Unknown job name: %s', name);
+  }
+}
@@ -3,11 +3,18 @@
  *
  * 这是一个处理知识库相关任务的 worker 处理器。它负责处理以下任务：
  * 1. 删除知识库 (DELETE_DATASET_TASK_NAME)
+ * 2. 重建知识库的片段词项索引 (REBUILD_SEGMENT_TERMS_TASK_NAME)
+ * 3. 同步知识库的向量元数据 (SYNC_VECTOR_METADATA_TASK_NAME)
  */
 
 import { log } from '@/lib/logger';
-import { DELETE_DATASET_TASK_NAME } from '@/lib/queues/queue-name';
-import { deleteDataset } from '@/services/indexing';
+import {
+  DELETE_DATASET_TASK_NAME,
+  REBUILD_SEGMENT_TERMS_TASK_NAME,
+  SYNC_VECTOR_METADATA_TASK_NAME,
+} from '@/lib/queues/queue-name';
+import { deleteDataset, syncDatasetVectorMetadata } from '@/services/indexing';
+import { rebuildDatasetSegmentTerms } from '@/services/segment-term';
 import type { Job } from 'bullmq';
 
 /**
@@ -25,6 +32,14 @@ export default async function (job: Job) {
     log.info('Deleting dataset, data: %o', data);
     const { datasetId } = data;
     await deleteDataset(datasetId);
+  } else if (name === REBUILD_SEGMENT_TERMS_TASK_NAME) {
+    log.info('Rebuilding segment terms, data: %o', data);
+    const { datasetId } = data;
+    await rebuildDatasetSegmentTerms(datasetId);
+  } else if (name === SYNC_VECTOR_METADATA_TASK_NAME) {
+    log.info('Syncing vector metadata, data: %o', data);
+    const { datasetId } = data;
+    await syncDatasetVectorMetadata(datasetId);
   } else {
     log.error('Unknown job name: %s', name);
   }